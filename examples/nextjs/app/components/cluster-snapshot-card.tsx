@@ -0,0 +1,35 @@
+'use client';
+
+import { useBalance, useLatestBlockhash } from '@solana/react-hooks';
+
+import { TOKEN_PROGRAM_ADDRESS } from '../solana-config';
+
+export function ClusterSnapshotCard() {
+	const balance = useBalance(TOKEN_PROGRAM_ADDRESS, { watch: false });
+	const { blockhash, lastValidBlockHeight } = useLatestBlockhash();
+
+	return (
+		<section className="card space-y-4">
+			<div className="space-y-1">
+				<p className="small-label">Server rendered</p>
+				<h2 className="text-xl font-semibold text-slate-900">Cluster snapshot</h2>
+				<p className="text-sm text-slate-600">
+					Fetched on the server with dehydrate, then hydrated into the client store and query cache.
+				</p>
+			</div>
+			<div className="rounded border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-800">
+				<p>
+					<span className="font-semibold">Token program balance:</span>{' '}
+					{balance.lamports === null ? 'Loading…' : `${balance.lamports.toString()} lamports`}
+				</p>
+				<p>
+					<span className="font-semibold">Latest blockhash:</span> {blockhash ?? 'Loading…'}
+				</p>
+				<p>
+					<span className="font-semibold">Last valid block height:</span>{' '}
+					{lastValidBlockHeight?.toString() ?? 'Loading…'}
+				</p>
+			</div>
+		</section>
+	);
+}
@@ -1,7 +1,24 @@
+import { SolanaHydrationBoundary } from '@solana/react-hooks';
+import { Suspense } from 'react';
+
+import { ClusterSnapshotCard } from './components/cluster-snapshot-card';
 import { LookupTableCard } from './components/lookup-table-card';
 import { MemoCard } from './components/memo-card';
 import { NonceCard } from './components/nonce-card';
 import { WalletConnectButton } from './components/wallet-connect-button';
+import { loadClusterSnapshot } from './solana-state';
+
+// The cluster snapshot is fetched per request rather than at build time.
+export const dynamic = 'force-dynamic';
+
+async function ServerClusterSnapshot() {
+	const snapshot = await loadClusterSnapshot();
+	return (
+		<SolanaHydrationBoundary state={snapshot}>
+			<ClusterSnapshotCard />
+		</SolanaHydrationBoundary>
+	);
+}
 
 export default function HomePage() {
 	return (
@@ -24,6 +41,15 @@ export default function HomePage() {
 					</div>
 				</div>
 			</section>
+			<Suspense
+				fallback={
+					<section className="card">
+						<p className="text-sm text-slate-600">Loading cluster snapshot…</p>
+					</section>
+				}
+			>
+				<ServerClusterSnapshot />
+			</Suspense>
 			<MemoCard />
 			<NonceCard />
 			<LookupTableCard />
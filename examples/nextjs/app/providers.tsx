@@ -1,15 +1,12 @@
 'use client';
 
-import type { SolanaClientConfig } from '@solana/client';
 import { SolanaProvider } from '@solana/react-hooks';
 import type { PropsWithChildren } from 'react';
 
-const defaultConfig: SolanaClientConfig = {
-	cluster: 'devnet',
-};
+import { solanaConfig } from './solana-config';
 
 function Providers({ children }: PropsWithChildren) {
-	return <SolanaProvider config={defaultConfig}>{children}</SolanaProvider>;
+	return <SolanaProvider config={solanaConfig}>{children}</SolanaProvider>;
 }
 
 export default Providers;
@@ -0,0 +1,10 @@
+import type { SolanaClientConfig } from '@solana/client';
+import { address } from '@solana/kit';
+
+/** Shared by the browser provider and the server-side prefetch so both read from the same cluster. */
+export const solanaConfig: SolanaClientConfig = {
+	cluster: 'devnet',
+};
+
+/** Account whose balance the cluster snapshot card renders. */
+export const TOKEN_PROGRAM_ADDRESS = address('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
@@ -0,0 +1,25 @@
+import { createClient, dehydrate, resolveClientConfig } from '@solana/client';
+
+import { solanaConfig, TOKEN_PROGRAM_ADDRESS } from './solana-config';
+
+/**
+ * Fetches the data rendered by the cluster snapshot card on the server and serializes it for the browser client.
+ */
+export async function loadClusterSnapshot(): Promise<string> {
+	const client = createClient(resolveClientConfig(solanaConfig));
+	try {
+		await client.actions.fetchBalance(TOKEN_PROGRAM_ADDRESS);
+		return await dehydrate(client, {
+			queries: [
+				{
+					// Matches the key `useLatestBlockhash()` uses without options.
+					args: ['latestBlockhash', null, null],
+					fetcher: (activeClient) => activeClient.runtime.rpc.getLatestBlockhash().send(),
+					scope: 'latestBlockhash',
+				},
+			],
+		});
+	} finally {
+		client.destroy();
+	}
+}
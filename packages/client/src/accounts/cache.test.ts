@@ -0,0 +1,108 @@
+import type { Address, Lamports } from '@solana/kit';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createDefaultClientStore } from '../client/createClientStore';
+import type { AccountCacheEntry, ClientStore } from '../types';
+import { createAccountCacheController } from './cache';
+
+function createEntry(address: string, lastFetchedAt: number): AccountCacheEntry {
+	return {
+		address: address as Address,
+		fetching: false,
+		lamports: 1n as Lamports,
+		lastFetchedAt,
+		slot: null,
+	};
+}
+
+function writeAccount(store: ClientStore, address: string): void {
+	store.setState((state) => ({
+		...state,
+		accounts: { ...state.accounts, [address]: createEntry(address, Date.now()) },
+	}));
+}
+
+describe('account cache controller', () => {
+	let store: ClientStore;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(10_000);
+		store = createDefaultClientStore({ commitment: 'confirmed', endpoint: 'https://rpc.test' });
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('evicts the least recently updated accounts beyond maxEntries', () => {
+		const controller = createAccountCacheController(store, { maxEntries: 2 });
+		writeAccount(store, 'a');
+		writeAccount(store, 'b');
+		writeAccount(store, 'a');
+		writeAccount(store, 'c');
+
+		expect(Object.keys(store.getState().accounts).sort()).toEqual(['a', 'c']);
+		controller.dispose();
+	});
+
+	it('treats reads as uses when choosing what to evict', () => {
+		const controller = createAccountCacheController(store, { maxEntries: 2 });
+		writeAccount(store, 'a');
+		writeAccount(store, 'b');
+		controller.touch('a');
+		writeAccount(store, 'c');
+
+		expect(Object.keys(store.getState().accounts).sort()).toEqual(['a', 'c']);
+		controller.dispose();
+	});
+
+	it('sweeps entries once their TTL elapses', () => {
+		const controller = createAccountCacheController(store, { ttlMs: 1_000 });
+		writeAccount(store, 'a');
+		vi.advanceTimersByTime(500);
+		writeAccount(store, 'b');
+
+		vi.advanceTimersByTime(500);
+		expect(Object.keys(store.getState().accounts)).toEqual(['b']);
+
+		vi.advanceTimersByTime(500);
+		expect(store.getState().accounts).toEqual({});
+		controller.dispose();
+	});
+
+	it('keeps pinned and in-flight accounts until they are released', () => {
+		const controller = createAccountCacheController(store, { maxEntries: 1, ttlMs: 1_000 });
+		const release = controller.pin('a');
+		const releaseAgain = controller.pin('a');
+		writeAccount(store, 'a');
+		store.setState((state) => ({
+			...state,
+			accounts: { ...state.accounts, b: { ...createEntry('b', Date.now()), fetching: true } },
+		}));
+
+		vi.advanceTimersByTime(2_000);
+		expect(Object.keys(store.getState().accounts).sort()).toEqual(['a', 'b']);
+
+		release();
+		release();
+		controller.prune();
+		expect(store.getState().accounts.a).toBeDefined();
+
+		releaseAgain();
+		expect(store.getState().accounts.a).toBeUndefined();
+		controller.dispose();
+	});
+
+	it('prunes the initial cache and stops tracking once disposed', () => {
+		for (const address of ['a', 'b', 'c']) {
+			writeAccount(store, address);
+		}
+		const controller = createAccountCacheController(store, { maxEntries: 1 });
+		expect(Object.keys(store.getState().accounts)).toEqual(['c']);
+
+		controller.dispose();
+		writeAccount(store, 'd');
+		expect(Object.keys(store.getState().accounts).sort()).toEqual(['c', 'd']);
+	});
+});
@@ -0,0 +1,194 @@
+import type { AccountCache, ClientStore } from '../types';
+import { now } from '../utils';
+
+export type AccountCachePolicy = Readonly<{
+	/** Maximum number of cached accounts. The least recently used unpinned entries are evicted first. */
+	maxEntries?: number;
+	/** Evict unpinned entries whose `lastFetchedAt` is older than this many milliseconds. */
+	ttlMs?: number;
+}>;
+
+export type AccountCacheController = Readonly<{
+	/** Stops tracking the store and cancels any scheduled expiry sweep. */
+	dispose(): void;
+	/** Protects an account from eviction until the returned function is called. Pins are reference-counted. */
+	pin(address: string): () => void;
+	/** Evicts expired and excess entries immediately. */
+	prune(): void;
+	/** Marks a cached account as recently used. */
+	touch(address: string): void;
+}>;
+
+/**
+ * Enforces an {@link AccountCachePolicy} on the account cache held in the client store.
+ *
+ * @param store - Client store whose `accounts` map should be bounded.
+ * @param policy - Size and TTL limits to enforce.
+ * @returns Controller used to pin accounts that are being watched.
+ */
+export function createAccountCacheController(store: ClientStore, policy: AccountCachePolicy): AccountCacheController {
+	const pins = new Map<string, number>();
+	// Map iteration order doubles as the LRU order: keys are re-inserted whenever their entry is written or read.
+	const recency = new Map<string, true>(Object.keys(store.getState().accounts).map((key) => [key, true]));
+	let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+	/**
+	 * Pinned accounts and accounts with an in-flight fetch are never evicted.
+	 *
+	 * @param accounts - Current account cache.
+	 * @param key - Account address.
+	 * @returns `true` when the entry may be evicted.
+	 */
+	function isEvictable(accounts: AccountCache, key: string): boolean {
+		return !pins.has(key) && !accounts[key]?.fetching;
+	}
+
+	/**
+	 * Checks an entry against the configured TTL.
+	 *
+	 * @param accounts - Current account cache.
+	 * @param key - Account address.
+	 * @param timestamp - Current time in milliseconds.
+	 * @returns `true` when the entry was last fetched more than `ttlMs` ago.
+	 */
+	function isExpired(accounts: AccountCache, key: string, timestamp: number): boolean {
+		if (policy.ttlMs === undefined) {
+			return false;
+		}
+		return timestamp - (accounts[key]?.lastFetchedAt ?? 0) >= policy.ttlMs;
+	}
+
+	/**
+	 * Schedules the next sweep for when the oldest evictable entry expires.
+	 *
+	 * @param accounts - Account cache after pruning.
+	 * @returns Nothing; replaces any pending sweep.
+	 */
+	function scheduleExpiry(accounts: AccountCache): void {
+		if (expiryTimer !== undefined) {
+			clearTimeout(expiryTimer);
+			expiryTimer = undefined;
+		}
+		if (policy.ttlMs === undefined) {
+			return;
+		}
+		let nextExpiry = Number.POSITIVE_INFINITY;
+		for (const key of Object.keys(accounts)) {
+			if (isEvictable(accounts, key)) {
+				nextExpiry = Math.min(nextExpiry, (accounts[key]?.lastFetchedAt ?? 0) + policy.ttlMs);
+			}
+		}
+		if (Number.isFinite(nextExpiry)) {
+			expiryTimer = setTimeout(prune, Math.max(0, nextExpiry - now()));
+		}
+	}
+
+	/**
+	 * Removes expired entries, then evicts the least recently used entries above `maxEntries`.
+	 *
+	 * @returns Nothing; updates the store when entries are evicted.
+	 */
+	function prune(): void {
+		const accounts = store.getState().accounts;
+		const timestamp = now();
+		const evicted = new Set<string>();
+		for (const key of recency.keys()) {
+			if (isEvictable(accounts, key) && isExpired(accounts, key, timestamp)) {
+				evicted.add(key);
+			}
+		}
+		if (policy.maxEntries !== undefined) {
+			let excess = Object.keys(accounts).length - evicted.size - policy.maxEntries;
+			for (const key of recency.keys()) {
+				if (excess <= 0) {
+					break;
+				}
+				if (!evicted.has(key) && isEvictable(accounts, key)) {
+					evicted.add(key);
+					excess -= 1;
+				}
+			}
+		}
+		if (evicted.size === 0) {
+			scheduleExpiry(accounts);
+			return;
+		}
+		// The store subscription below prunes the recency list and reschedules the sweep.
+		store.setState((state) => ({
+			...state,
+			accounts: Object.fromEntries(Object.entries(state.accounts).filter(([key]) => !evicted.has(key))),
+			lastUpdatedAt: now(),
+		}));
+	}
+
+	const unsubscribe = store.subscribe((state, previous) => {
+		if (state.accounts === previous.accounts) {
+			return;
+		}
+		for (const key of recency.keys()) {
+			if (!(key in state.accounts)) {
+				recency.delete(key);
+			}
+		}
+		for (const [key, entry] of Object.entries(state.accounts)) {
+			if (entry !== previous.accounts[key]) {
+				recency.delete(key);
+				recency.set(key, true);
+			}
+		}
+		prune();
+	});
+
+	/**
+	 * Pins an account so it is never evicted while a watcher depends on it.
+	 *
+	 * @param address - Account address to pin.
+	 * @returns Function that releases the pin.
+	 */
+	function pin(address: string): () => void {
+		pins.set(address, (pins.get(address) ?? 0) + 1);
+		let released = false;
+		return () => {
+			if (released) {
+				return;
+			}
+			released = true;
+			const count = (pins.get(address) ?? 1) - 1;
+			if (count > 0) {
+				pins.set(address, count);
+				return;
+			}
+			pins.delete(address);
+			prune();
+		};
+	}
+
+	/**
+	 * Moves an account to the most recently used end of the eviction order.
+	 *
+	 * @param address - Account address that was read.
+	 * @returns Nothing; noop when the account is not cached.
+	 */
+	function touch(address: string): void {
+		if (recency.delete(address)) {
+			recency.set(address, true);
+		}
+	}
+
+	/**
+	 * Detaches the controller from the store.
+	 *
+	 * @returns Nothing; cancels the pending sweep.
+	 */
+	function dispose(): void {
+		unsubscribe();
+		if (expiryTimer !== undefined) {
+			clearTimeout(expiryTimer);
+			expiryTimer = undefined;
+		}
+	}
+
+	prune();
+
+	return { dispose, pin, prune, touch };
+}
@@ -0,0 +1,128 @@
+import { type Address, address, getBase64Decoder, type Lamports } from '@solana/kit';
+import { getNonceEncoder, NonceState, NonceVersion, SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import { AccountState, getMintEncoder, getTokenEncoder, TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+	decodeAccount,
+	getAccountDataBytes,
+	resolveAccountDecoders,
+	systemAccountDecoder,
+	TOKEN_2022_PROGRAM_ADDRESS,
+} from './decoders';
+
+const ACCOUNT = address('8beY2iKosqhApSsWwJ5JTyxzVnMqxarJbYdrHgRUKYPx');
+const MINT = address('So11111111111111111111111111111111111111112');
+
+function toBase64(bytes: Uint8Array): [string, 'base64'] {
+	return [getBase64Decoder().decode(bytes), 'base64'];
+}
+
+function encodeMint(): Uint8Array {
+	return new Uint8Array(
+		getMintEncoder().encode({
+			decimals: 6,
+			freezeAuthority: null,
+			isInitialized: true,
+			mintAuthority: ACCOUNT,
+			supply: 1_000n,
+		}),
+	);
+}
+
+describe('account decoders', () => {
+	it('decodes system wallets and nonce accounts', () => {
+		const nonce = new Uint8Array(
+			getNonceEncoder().encode({
+				authority: ACCOUNT,
+				blockhash: MINT,
+				lamportsPerSignature: 5_000n,
+				state: NonceState.Initialized,
+				version: NonceVersion.Current,
+			}),
+		);
+		const input = { address: ACCOUNT, lamports: 1n as Lamports, owner: SYSTEM_PROGRAM_ADDRESS };
+
+		expect(systemAccountDecoder({ ...input, data: new Uint8Array() })).toEqual({
+			data: null,
+			program: 'system',
+			type: 'account',
+		});
+		expect(systemAccountDecoder({ ...input, data: nonce })).toMatchObject({
+			data: { authority: ACCOUNT, blockhash: MINT, lamportsPerSignature: 5_000n },
+			program: 'system',
+			type: 'nonce',
+		});
+		expect(systemAccountDecoder({ ...input, data: new Uint8Array(3) })).toBeUndefined();
+	});
+
+	it('decodes SPL token accounts from base64 RPC data', () => {
+		const token = getTokenEncoder().encode({
+			amount: 42n,
+			closeAuthority: null,
+			delegate: null,
+			delegatedAmount: 0n,
+			isNative: null,
+			mint: MINT,
+			owner: ACCOUNT,
+			state: AccountState.Initialized,
+		});
+		const decoded = decodeAccount(resolveAccountDecoders(), ACCOUNT, {
+			data: toBase64(new Uint8Array(token)),
+			lamports: 2_039_280n as Lamports,
+			owner: TOKEN_PROGRAM_ADDRESS,
+		});
+
+		expect(decoded).toMatchObject({ data: { amount: 42n, mint: MINT, owner: ACCOUNT }, program: 'spl-token' });
+	});
+
+	it('decodes the base layout of Token-2022 mints that carry extensions', () => {
+		const withExtensions = new Uint8Array(200);
+		withExtensions.set(encodeMint());
+		withExtensions[165] = 1;
+		const decoded = decodeAccount(resolveAccountDecoders(), MINT, {
+			data: toBase64(withExtensions),
+			owner: TOKEN_2022_PROGRAM_ADDRESS,
+		});
+
+		expect(decoded).toMatchObject({
+			data: { decimals: 6, supply: 1_000n },
+			program: 'spl-token-2022',
+			type: 'mint',
+		});
+	});
+
+	it('merges custom decoders over the built-ins and can disable decoding', () => {
+		const program = address('11111111111111111111111111111112') as Address;
+		const custom = vi.fn(({ data }: { data: Uint8Array }) => ({ length: data.length }));
+		const decoders = resolveAccountDecoders({ [program]: custom });
+
+		expect(decodeAccount(decoders, ACCOUNT, { data: toBase64(new Uint8Array(4)), owner: program })).toEqual({
+			length: 4,
+		});
+		expect(decoders?.[TOKEN_PROGRAM_ADDRESS]).toBeDefined();
+		expect(resolveAccountDecoders(false)).toBeUndefined();
+	});
+
+	it('skips unknown owners and undecodable encodings and logs decoder failures', () => {
+		const logger = vi.fn();
+		const decoders = resolveAccountDecoders();
+
+		expect(decodeAccount(decoders, ACCOUNT, { data: toBase64(new Uint8Array(1)), owner: ACCOUNT })).toBeUndefined();
+		expect(
+			decodeAccount(decoders, ACCOUNT, { data: { parsed: {} }, owner: TOKEN_PROGRAM_ADDRESS }),
+		).toBeUndefined();
+		expect(getAccountDataBytes('')).toEqual(new Uint8Array());
+
+		const failing = {
+			[ACCOUNT]: () => {
+				throw new Error('bad layout');
+			},
+		};
+		const input = { data: toBase64(new Uint8Array(1)), owner: ACCOUNT };
+		expect(decodeAccount(failing, MINT, input, logger)).toBeUndefined();
+		expect(logger).toHaveBeenCalledWith(
+			expect.objectContaining({ level: 'warn', message: 'account decode failed' }),
+		);
+	});
+});
@@ -0,0 +1,279 @@
+import { type Address, getBase58Encoder, getBase64Encoder, type Lamports } from '@solana/kit';
+import {
+	ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS,
+	type AddressLookupTable,
+	getAddressLookupTableDecoder,
+} from '@solana-program/address-lookup-table';
+import { getStakeStateAccountDecoder, STAKE_PROGRAM_ADDRESS, type StakeStateAccount } from '@solana-program/stake';
+import { getNonceDecoder, getNonceSize, type Nonce, SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import {
+	getMintDecoder,
+	getMintSize,
+	getMultisigDecoder,
+	getMultisigSize,
+	getTokenDecoder,
+	getTokenSize,
+	type Mint,
+	type Multisig,
+	TOKEN_PROGRAM_ADDRESS,
+	type Token,
+} from '@solana-program/token';
+
+import { formatError } from '../logging/logger';
+import type { ClientLogger } from '../types';
+
+export const TOKEN_2022_PROGRAM_ADDRESS = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb' as Address;
+
+export type AccountDecoderInput = Readonly<{
+	address: Address;
+	data: Uint8Array;
+	executable?: boolean;
+	lamports: Lamports | null;
+	owner: Address;
+}>;
+
+/** Decodes the raw bytes of an account, returning `undefined` when the account layout is not recognised. */
+export type AccountDecoder<TDecoded = unknown> = (account: AccountDecoderInput) => TDecoded | undefined;
+
+/** Account decoders keyed by the owner program address. */
+export type AccountDecoders = Readonly<Record<string, AccountDecoder>>;
+
+export type DecodedAccount<TProgram extends string, TType extends string, TData> = Readonly<{
+	data: TData;
+	program: TProgram;
+	type: TType;
+}>;
+
+export type DecodedSystemAccount = DecodedAccount<'system', 'account', null>;
+
+export type DecodedNonceAccount = DecodedAccount<'system', 'nonce', Nonce>;
+
+type TokenProgramName = 'spl-token' | 'spl-token-2022';
+
+export type DecodedMintAccount = DecodedAccount<TokenProgramName, 'mint', Mint>;
+
+export type DecodedTokenAccount = DecodedAccount<TokenProgramName, 'account', Token>;
+
+export type DecodedMultisigAccount = DecodedAccount<TokenProgramName, 'multisig', Multisig>;
+
+export type DecodedStakeAccount = DecodedAccount<'stake', 'stake', StakeStateAccount>;
+
+export type DecodedLookupTableAccount = DecodedAccount<'address-lookup-table', 'lookupTable', AddressLookupTable>;
+
+export type BuiltinDecodedAccount =
+	| DecodedLookupTableAccount
+	| DecodedMintAccount
+	| DecodedMultisigAccount
+	| DecodedNonceAccount
+	| DecodedStakeAccount
+	| DecodedSystemAccount
+	| DecodedTokenAccount;
+
+type RpcAccountValue = Readonly<{
+	data?: unknown;
+	executable?: boolean;
+	lamports?: Lamports;
+	owner?: Address;
+}>;
+
+// Token-2022 stores the account type right after the 165-byte base account when extensions are present.
+const TOKEN_2022_ACCOUNT_TYPE_OFFSET = 165;
+const TOKEN_2022_ACCOUNT_TYPE_MINT = 1;
+const TOKEN_2022_ACCOUNT_TYPE_ACCOUNT = 2;
+
+/**
+ * Decodes nonce accounts owned by the System program.
+ *
+ * @param account - Raw account to decode.
+ * @returns Decoded nonce data, or `undefined` when the account is not a nonce account.
+ */
+export const nonceAccountDecoder: AccountDecoder<DecodedNonceAccount> = ({ data }) => {
+	if (data.length !== getNonceSize()) {
+		return undefined;
+	}
+	return { data: getNonceDecoder().decode(data), program: 'system', type: 'nonce' };
+};
+
+/**
+ * Decodes accounts owned by the System program: plain wallets and nonce accounts.
+ *
+ * @param account - Raw account to decode.
+ * @returns Decoded System account, or `undefined` for unrecognised layouts.
+ */
+export const systemAccountDecoder: AccountDecoder<DecodedNonceAccount | DecodedSystemAccount> = (account) => {
+	if (account.data.length === 0) {
+		return { data: null, program: 'system', type: 'account' };
+	}
+	return nonceAccountDecoder(account);
+};
+
+/**
+ * Decodes the base layout of token program accounts, which Token-2022 shares with SPL Token.
+ *
+ * @param program - Token program the account belongs to.
+ * @param data - Raw account bytes.
+ * @returns Decoded mint, token account, or multisig, or `undefined` for unrecognised layouts.
+ */
+function decodeTokenProgramAccount(
+	program: TokenProgramName,
+	data: Uint8Array,
+): DecodedMintAccount | DecodedMultisigAccount | DecodedTokenAccount | undefined {
+	const mintSize = getMintSize();
+	const tokenSize = getTokenSize();
+	if (data.length === mintSize) {
+		return { data: getMintDecoder().decode(data), program, type: 'mint' };
+	}
+	if (data.length === tokenSize) {
+		return { data: getTokenDecoder().decode(data), program, type: 'account' };
+	}
+	if (data.length === getMultisigSize()) {
+		return { data: getMultisigDecoder().decode(data), program, type: 'multisig' };
+	}
+	if (program === 'spl-token-2022' && data.length > tokenSize) {
+		const accountType = data[TOKEN_2022_ACCOUNT_TYPE_OFFSET];
+		if (accountType === TOKEN_2022_ACCOUNT_TYPE_MINT) {
+			return { data: getMintDecoder().decode(data.subarray(0, mintSize)), program, type: 'mint' };
+		}
+		if (accountType === TOKEN_2022_ACCOUNT_TYPE_ACCOUNT) {
+			return { data: getTokenDecoder().decode(data.subarray(0, tokenSize)), program, type: 'account' };
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Decodes SPL Token mints, token accounts, and multisigs.
+ *
+ * @param account - Raw account to decode.
+ * @returns Decoded token program account, or `undefined` for unrecognised layouts.
+ */
+export const splTokenAccountDecoder: AccountDecoder<
+	DecodedMintAccount | DecodedMultisigAccount | DecodedTokenAccount
+> = ({ data }) => decodeTokenProgramAccount('spl-token', data);
+
+/**
+ * Decodes the base layout of Token-2022 mints, token accounts, and multisigs. Extension data is ignored.
+ *
+ * @param account - Raw account to decode.
+ * @returns Decoded token program account, or `undefined` for unrecognised layouts.
+ */
+export const token2022AccountDecoder: AccountDecoder<
+	DecodedMintAccount | DecodedMultisigAccount | DecodedTokenAccount
+> = ({ data }) => decodeTokenProgramAccount('spl-token-2022', data);
+
+/**
+ * Decodes stake accounts.
+ *
+ * @param account - Raw account to decode.
+ * @returns Decoded stake state.
+ */
+export const stakeAccountDecoder: AccountDecoder<DecodedStakeAccount> = ({ data }) => ({
+	data: getStakeStateAccountDecoder().decode(data),
+	program: 'stake',
+	type: 'stake',
+});
+
+/**
+ * Decodes address lookup table accounts.
+ *
+ * @param account - Raw account to decode.
+ * @returns Decoded lookup table.
+ */
+export const addressLookupTableAccountDecoder: AccountDecoder<DecodedLookupTableAccount> = ({ data }) => ({
+	data: getAddressLookupTableDecoder().decode(data),
+	program: 'address-lookup-table',
+	type: 'lookupTable',
+});
+
+/**
+ * Returns the built-in decoders for System, SPL Token, Token-2022, Stake, and Address Lookup Table accounts.
+ *
+ * @returns Decoders keyed by owner program address.
+ */
+export function getDefaultAccountDecoders(): AccountDecoders {
+	return {
+		[ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS]: addressLookupTableAccountDecoder,
+		[STAKE_PROGRAM_ADDRESS]: stakeAccountDecoder,
+		[SYSTEM_PROGRAM_ADDRESS]: systemAccountDecoder,
+		[TOKEN_2022_PROGRAM_ADDRESS]: token2022AccountDecoder,
+		[TOKEN_PROGRAM_ADDRESS]: splTokenAccountDecoder,
+	};
+}
+
+/**
+ * Merges user-supplied decoders over the built-in ones.
+ *
+ * @param decoders - Extra decoders keyed by owner program, or `false` to disable decoding.
+ * @returns The decoder registry to use, or `undefined` when decoding is disabled.
+ */
+export function resolveAccountDecoders(decoders?: AccountDecoders | false): AccountDecoders | undefined {
+	if (decoders === false) {
+		return undefined;
+	}
+	return { ...getDefaultAccountDecoders(), ...decoders };
+}
+
+/**
+ * Converts RPC account data into raw bytes.
+ *
+ * @param data - Account data as returned by the RPC (`[data, encoding]` tuple, base58 string, or bytes).
+ * @returns Raw bytes, or `undefined` for encodings that cannot be decoded (such as `jsonParsed`).
+ */
+export function getAccountDataBytes(data: unknown): Uint8Array | undefined {
+	if (data instanceof Uint8Array) {
+		return data;
+	}
+	if (typeof data === 'string') {
+		return new Uint8Array(getBase58Encoder().encode(data));
+	}
+	if (Array.isArray(data) && typeof data[0] === 'string') {
+		if (data[1] === 'base64') {
+			return new Uint8Array(getBase64Encoder().encode(data[0]));
+		}
+		if (data[1] === 'base58') {
+			return new Uint8Array(getBase58Encoder().encode(data[0]));
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Decodes an RPC account value with the decoder registered for its owner program.
+ *
+ * @param decoders - Decoder registry keyed by owner program.
+ * @param address - Address of the account.
+ * @param value - Account value returned by the RPC.
+ * @param logger - Optional logger that receives a `warn` event when a decoder throws.
+ * @returns Decoded account, or `undefined` when no decoder applies.
+ */
+export function decodeAccount(
+	decoders: AccountDecoders | undefined,
+	address: Address,
+	value: RpcAccountValue | null | undefined,
+	logger?: ClientLogger,
+): unknown {
+	const decoder = decoders && value?.owner ? decoders[value.owner.toString()] : undefined;
+	if (!decoder || !value?.owner) {
+		return undefined;
+	}
+	try {
+		const data = getAccountDataBytes(value.data);
+		if (!data) {
+			return undefined;
+		}
+		return decoder({
+			address,
+			data,
+			executable: value.executable,
+			lamports: value.lamports ?? null,
+			owner: value.owner,
+		});
+	} catch (error) {
+		logger?.({
+			data: { address: address.toString(), owner: value.owner.toString(), ...formatError(error) },
+			level: 'warn',
+			message: 'account decode failed',
+		});
+		return undefined;
+	}
+}
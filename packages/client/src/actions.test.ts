@@ -92,4 +92,10 @@ describe('action wrappers', () => {
 		await setCluster(client, { endpoint, config: { commitment: 'processed', websocketEndpoint } });
 		expect(setClusterMock).toHaveBeenCalledWith(endpoint, { commitment: 'processed', websocketEndpoint });
 	});
+
+	it('forwards rebroadcast settings to sendTransaction', async () => {
+		const config = { rebroadcast: { intervalMs: 500, maxAttempts: 4 } };
+		await sendTransaction(client, { config, transaction });
+		expect(sendTransactionMock).toHaveBeenCalledWith(transaction, undefined, config);
+	});
 });
@@ -1,10 +1,14 @@
 import type {
+	ClearAccountsParameters,
+	ClearAccountsReturnType,
 	ConnectWalletParameters,
 	ConnectWalletReturnType,
 	DisconnectWalletParameters,
 	DisconnectWalletReturnType,
 	FetchAccountParameters,
 	FetchAccountReturnType,
+	FetchAccountsParameters,
+	FetchAccountsReturnType,
 	FetchBalanceParameters,
 	FetchBalanceReturnType,
 	FetchLookupTableParameters,
@@ -13,15 +17,33 @@ import type {
 	FetchLookupTablesReturnType,
 	FetchNonceAccountParameters,
 	FetchNonceAccountReturnType,
+	GetAccountParameters,
+	GetAccountReturnType,
+	InvalidateAccountParameters,
+	InvalidateAccountReturnType,
 	RequestAirdropParameters,
 	RequestAirdropReturnType,
+	SelectAccountParameters,
+	SelectAccountReturnType,
 	SendTransactionParameters,
 	SendTransactionReturnType,
 	SetClusterParameters,
 	SetClusterReturnType,
 	SolanaClient,
+	TrackTransactionParameters,
+	TrackTransactionReturnType,
 } from './types';
 
+/**
+ * Remove every account from the client cache.
+ *
+ * @param client - Solana client instance.
+ */
+export function clearAccounts(client: SolanaClient, _params?: ClearAccountsParameters): ClearAccountsReturnType {
+	void _params;
+	return client.actions.clearAccounts();
+}
+
 /**
  * Connect to a registered wallet connector by id.
  *
@@ -55,6 +77,16 @@ export function fetchAccount(client: SolanaClient, params: FetchAccountParameter
 	return client.actions.fetchAccount(params.address, params.commitment);
 }
 
+/**
+ * Fetch and cache many accounts with batched `getMultipleAccounts` requests.
+ *
+ * @param client - Solana client instance.
+ * @param params - Addresses and optional commitment override.
+ */
+export function fetchAccounts(client: SolanaClient, params: FetchAccountsParameters): FetchAccountsReturnType {
+	return client.actions.fetchAccounts(params.addresses, params.commitment);
+}
+
 /**
  * Fetch and cache lamport balance for an address.
  *
@@ -101,6 +133,29 @@ export function fetchNonceAccount(
 	return client.actions.fetchNonceAccount(params.address, params.commitment);
 }
 
+/**
+ * Read an account from the client cache without fetching it. Counts as a use for cache eviction.
+ *
+ * @param client - Solana client instance.
+ * @param params - Account address to read.
+ */
+export function getAccount(client: SolanaClient, params: GetAccountParameters): GetAccountReturnType {
+	return client.actions.getAccount(params.address);
+}
+
+/**
+ * Remove a single account from the client cache so the next read refetches it.
+ *
+ * @param client - Solana client instance.
+ * @param params - Account address to invalidate.
+ */
+export function invalidateAccount(
+	client: SolanaClient,
+	params: InvalidateAccountParameters,
+): InvalidateAccountReturnType {
+	return client.actions.invalidateAccount(params.address);
+}
+
 /**
  * Request an airdrop to an address.
  *
@@ -111,13 +166,26 @@ export function requestAirdrop(client: SolanaClient, params: RequestAirdropParam
 	return client.actions.requestAirdrop(params.address, params.lamports);
 }
 
+/**
+ * Switch the active account of the connected wallet session.
+ *
+ * @param client - Solana client instance.
+ * @param params - Address of an account the wallet has authorized.
+ */
+export function selectAccount(client: SolanaClient, params: SelectAccountParameters): SelectAccountReturnType {
+	return client.actions.selectAccount(params.address);
+}
+
 /**
  * Send a prepared transaction through the client.
  *
  * @param client - Solana client instance.
- * @param params - Transaction and optional commitment override.
+ * @param params - Transaction, optional commitment override, and rebroadcast settings.
  */
 export function sendTransaction(client: SolanaClient, params: SendTransactionParameters): SendTransactionReturnType {
+	if (params.config) {
+		return client.actions.sendTransaction(params.transaction, params.commitment, params.config);
+	}
 	return client.actions.sendTransaction(params.transaction, params.commitment);
 }
 
@@ -130,3 +198,13 @@ export function sendTransaction(client: SolanaClient, params: SendTransactionPar
 export function setCluster(client: SolanaClient, params: SetClusterParameters): SetClusterReturnType {
 	return client.actions.setCluster(params.endpoint, params.config);
 }
+
+/**
+ * Track a submitted transaction until it confirms, fails, or its blockhash expires.
+ *
+ * @param client - Solana client instance.
+ * @param params - Signature plus optional commitment and last valid block height.
+ */
+export function trackTransaction(client: SolanaClient, params: TrackTransactionParameters): TrackTransactionReturnType {
+	return client.actions.trackTransaction(params.signature, params.config);
+}
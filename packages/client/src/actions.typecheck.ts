@@ -6,6 +6,7 @@ import type {
 	SendableTransaction,
 	Signature,
 	Transaction,
+	TransactionWithDurableNonceLifetime,
 } from '@solana/kit';
 import type { TransactionWithLastValidBlockHeight } from '@solana/transaction-confirmation';
 
@@ -18,8 +19,10 @@ import type {
 	sendTransaction,
 	setCluster,
 } from './actions';
+import type { RpcEndpointConfig, RpcEndpointRouting } from './rpc/failover';
 import type {
 	AccountCacheEntry,
+	ClusterVerification,
 	ConnectWalletParameters,
 	ConnectWalletReturnType,
 	DisconnectWalletParameters,
@@ -35,7 +38,9 @@ import type {
 	SetClusterParameters,
 	SetClusterReturnType,
 	SolanaClient,
+	TransactionRebroadcastConfig,
 } from './types';
+import type { ClusterMoniker } from './utils/cluster';
 
 type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
 type Expect<T extends true> = T;
@@ -73,7 +78,12 @@ export type SendTransactionParametersMatch = Expect<
 		SendTransactionParameters,
 		Readonly<{
 			commitment?: Commitment;
-			transaction: SendableTransaction & Transaction & TransactionWithLastValidBlockHeight;
+			config?: Readonly<{
+				rebroadcast?: TransactionRebroadcastConfig | boolean;
+			}>;
+			transaction: SendableTransaction &
+				Transaction &
+				(TransactionWithDurableNonceLifetime | TransactionWithLastValidBlockHeight);
 		}>
 	>
 >;
@@ -84,7 +94,14 @@ export type SetClusterParametersMatch = Expect<
 		SetClusterParameters,
 		Readonly<{
 			endpoint: ClusterUrl;
-			config?: Readonly<{ commitment?: Commitment; websocketEndpoint?: ClusterUrl }>;
+			config?: Readonly<{
+				commitment?: Commitment;
+				expectedCluster?: ClusterMoniker;
+				fallbackEndpoints?: readonly RpcEndpointConfig[];
+				routing?: RpcEndpointRouting;
+				verifyCluster?: ClusterVerification;
+				websocketEndpoint?: ClusterUrl;
+			}>;
 		}>
 	>
 >;
@@ -9,7 +9,9 @@ import { createDefaultClientStore } from './createClientStore';
 const getBase64EncodedWireTransactionMock = vi.hoisted(() => vi.fn((tx: unknown) => `wire:${String(tx)}`));
 const airdropFactoryMock = vi.hoisted(() => vi.fn());
 const createBlockHeightExceedencePromiseFactoryMock = vi.hoisted(() => vi.fn());
+const createNonceInvalidationPromiseFactoryMock = vi.hoisted(() => vi.fn());
 const createRecentSignatureConfirmationPromiseFactoryMock = vi.hoisted(() => vi.fn());
+const waitForDurableNonceTransactionConfirmationMock = vi.hoisted(() => vi.fn());
 const waitForRecentTransactionConfirmationMock = vi.hoisted(() => vi.fn());
 const createLoggerMock = vi.hoisted(() => vi.fn(() => vi.fn()));
 const formatErrorMock = vi.hoisted(() => vi.fn((error: unknown) => ({ formatted: error })));
@@ -41,7 +43,9 @@ vi.mock('../rpc/createSolanaRpcClient', () => ({
 
 vi.mock('@solana/transaction-confirmation', () => ({
 	createBlockHeightExceedencePromiseFactory: createBlockHeightExceedencePromiseFactoryMock,
+	createNonceInvalidationPromiseFactory: createNonceInvalidationPromiseFactoryMock,
 	createRecentSignatureConfirmationPromiseFactory: createRecentSignatureConfirmationPromiseFactoryMock,
+	waitForDurableNonceTransactionConfirmation: waitForDurableNonceTransactionConfirmationMock,
 	waitForRecentTransactionConfirmation: waitForRecentTransactionConfirmationMock,
 }));
 
@@ -156,10 +160,139 @@ describe('client actions', () => {
 		expect(createSolanaRpcClientMock).toHaveBeenCalledWith({
 			commitment: 'processed',
 			endpoint: 'https://new.rpc',
+			logger: expect.any(Function),
 			websocketEndpoint: 'wss://new',
 		});
 	});
 
+	it('records the cluster identity derived from the genesis hash', async () => {
+		const logger = vi.fn();
+		actions = createActions({ connectors: registry, logger, runtime, store });
+		const rpc = runtime.rpc as unknown as Record<string, vi.Mock>;
+		const mockGenesisHash = (genesisHash: string) =>
+			createSolanaRpcClientMock.mockImplementationOnce(({ endpoint, websocketEndpoint }) => ({
+				commitment: 'confirmed',
+				endpoint,
+				rpc: {
+					getGenesisHash: vi.fn(() => ({ send: vi.fn().mockResolvedValue(genesisHash) })),
+					getLatestBlockhash: rpc.getLatestBlockhash,
+				} as unknown as SolanaClientRuntime['rpc'],
+				rpcSubscriptions: {} as SolanaClientRuntime['rpcSubscriptions'],
+				sendAndConfirmTransaction: vi.fn(),
+				simulateTransaction: vi.fn(),
+				websocketEndpoint: websocketEndpoint ?? endpoint,
+			}));
+		const DEVNET_GENESIS = 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG';
+		const MAINNET_GENESIS = '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d';
+
+		mockGenesisHash(DEVNET_GENESIS);
+		await actions.setCluster('https://devnet.rpc', { expectedCluster: 'devnet' });
+		expect(store.getState().cluster).toMatchObject({ genesisHash: DEVNET_GENESIS, identity: 'devnet' });
+		expect(logger).not.toHaveBeenCalledWith(expect.objectContaining({ message: 'cluster identity mismatch' }));
+
+		mockGenesisHash(MAINNET_GENESIS);
+		await actions.setCluster('https://misconfigured.rpc', { expectedCluster: 'devnet' });
+		expect(store.getState().cluster).toMatchObject({ identity: 'mainnet-beta', status: { status: 'ready' } });
+		expect(logger).toHaveBeenCalledWith(
+			expect.objectContaining({
+				data: { endpoint: 'https://misconfigured.rpc', expected: 'devnet', identity: 'mainnet-beta' },
+				level: 'warn',
+				message: 'cluster identity mismatch',
+			}),
+		);
+
+		const activeRpc = runtime.rpc;
+		mockGenesisHash(MAINNET_GENESIS);
+		await expect(
+			actions.setCluster('https://refused.rpc', { expectedCluster: 'devnet', verifyCluster: 'error' }),
+		).rejects.toThrow('serves mainnet-beta, expected devnet');
+		expect(store.getState().cluster.status).toMatchObject({ status: 'error' });
+		expect(runtime.rpc).toBe(activeRpc);
+	});
+
+	it('refuses an endpoint it cannot verify only in error mode', async () => {
+		const activeRpc = runtime.rpc;
+		await expect(
+			actions.setCluster('https://unreachable.rpc', { expectedCluster: 'devnet', verifyCluster: 'error' }),
+		).rejects.toThrow('https://unreachable.rpc could not be verified as devnet');
+		expect(store.getState().cluster.status).toMatchObject({ status: 'error' });
+		expect(runtime.rpc).toBe(activeRpc);
+
+		await actions.setCluster('https://unreachable.rpc', { expectedCluster: 'devnet' });
+		expect(store.getState().cluster).toMatchObject({
+			endpoint: 'https://unreachable.rpc',
+			status: { status: 'ready' },
+		});
+	});
+
+	it('waits for the cluster check before reaching the endpoint', async () => {
+		const rpc = runtime.rpc as unknown as Record<string, vi.Mock>;
+		actions = createActions({
+			clusterReady: () => Promise.reject(new Error('Endpoint serves devnet, expected mainnet-beta.')),
+			connectors: registry,
+			logger: createLoggerMock(),
+			runtime,
+			store,
+		});
+
+		const transaction = {
+			lifetimeConstraint: { lastValidBlockHeight: 1n },
+		} as unknown as SendableTransaction & Transaction & TransactionWithLastValidBlockHeight;
+
+		await expect(actions.fetchBalance(ACCOUNT_ADDRESS)).rejects.toThrow('expected mainnet-beta');
+		await expect(actions.sendTransaction(transaction)).rejects.toThrow('expected mainnet-beta');
+		expect(rpc.getBalance).not.toHaveBeenCalled();
+		expect(rpc.sendTransaction).not.toHaveBeenCalled();
+	});
+
+	it('probes every pooled endpoint and surfaces their health in the cluster status', async () => {
+		const health = [
+			{ endpoint: 'https://a.rpc', latencyMs: 5, status: 'healthy', websocketEndpoint: 'https://a.rpc' },
+			{ endpoint: 'https://b.rpc', status: 'unhealthy', websocketEndpoint: 'https://b.rpc' },
+		];
+		let notify: () => void = () => undefined;
+		const endpointPool = {
+			getActiveEndpoint: vi.fn(() => health[0]),
+			getEndpoints: vi.fn(() => health),
+			getRpc: vi.fn(() => runtime.rpc),
+			reportFailure: vi.fn(),
+			reportLatency: vi.fn(),
+			subscribe: vi.fn((listener: () => void) => {
+				notify = listener;
+				return () => undefined;
+			}),
+		};
+		createSolanaRpcClientMock.mockImplementationOnce(({ endpoint }) => ({
+			commitment: 'confirmed',
+			endpoint,
+			endpointPool,
+			rpc: runtime.rpc,
+			rpcSubscriptions: runtime.rpcSubscriptions,
+			sendAndConfirmTransaction: vi.fn(),
+			simulateTransaction: vi.fn(),
+			websocketEndpoint: endpoint,
+		}));
+
+		await actions.setCluster('https://a.rpc', { fallbackEndpoints: ['https://b.rpc'] });
+
+		expect(createSolanaRpcClientMock).toHaveBeenCalledWith(
+			expect.objectContaining({ fallbackEndpoints: ['https://b.rpc'] }),
+		);
+		expect(endpointPool.getRpc).toHaveBeenCalledWith('https://a.rpc');
+		expect(endpointPool.getRpc).toHaveBeenCalledWith('https://b.rpc');
+		expect(endpointPool.reportLatency).toHaveBeenCalledTimes(2);
+		expect(store.getState().cluster.status).toEqual({
+			activeEndpoint: 'https://a.rpc',
+			endpoints: health,
+			latencyMs: 5,
+			status: 'ready',
+		});
+
+		endpointPool.getActiveEndpoint.mockReturnValue(health[1]);
+		notify();
+		expect(store.getState().cluster.status).toMatchObject({ activeEndpoint: 'https://b.rpc', status: 'ready' });
+	});
+
 	it('connects and disconnects a wallet, handling errors', async () => {
 		await actions.connectWallet('wallet-1');
 		let state = store.getState();
@@ -187,6 +320,94 @@ describe('client actions', () => {
 		await expect(actions.connectWallet('unsupported')).rejects.toThrow(/not supported/);
 	});
 
+	it('switches between wallet accounts instead of disconnecting when accounts change', async () => {
+		const primary = { address: ACCOUNT_ADDRESS, publicKey: new Uint8Array(32) };
+		const secondary = { address: 'second' as Address, publicKey: new Uint8Array(32) };
+		const third = { address: 'third' as Address, publicKey: new Uint8Array(32) };
+		let emitAccounts: (accounts: (typeof primary)[]) => void = () => undefined;
+		const selectAccount = vi.fn((address: Address) => (address === secondary.address ? secondary : third));
+		vi.mocked(walletConnector.connect).mockResolvedValueOnce({
+			account: primary,
+			accounts: [primary, secondary],
+			connector: { id: 'wallet-1', name: 'Wallet 1' },
+			disconnect: vi.fn(async () => undefined),
+			onAccountsChanged: (listener) => {
+				emitAccounts = listener;
+				return () => undefined;
+			},
+			selectAccount,
+		});
+		const activeAddress = () => {
+			const wallet = store.getState().wallet;
+			return wallet.status === 'connected' ? wallet.session.account.address : undefined;
+		};
+
+		await actions.connectWallet('wallet-1');
+		expect(() => actions.selectAccount(third.address)).toThrow(/has not authorized/);
+		expect(actions.selectAccount(secondary.address)).toBe(secondary);
+		expect(activeAddress()).toBe(secondary.address);
+
+		emitAccounts([third, secondary]);
+		expect(selectAccount).toHaveBeenLastCalledWith(secondary.address);
+		expect(activeAddress()).toBe(secondary.address);
+
+		emitAccounts([third]);
+		expect(activeAddress()).toBe(third.address);
+		const wallet = store.getState().wallet;
+		expect(wallet.status === 'connected' && wallet.session.accounts).toEqual([third]);
+
+		emitAccounts([]);
+		await vi.waitFor(() => expect(store.getState().wallet.status).toBe('disconnected'));
+		expect(() => actions.selectAccount(third.address)).toThrow(/Connect a wallet/);
+	});
+
+	it('treats a session without an accounts list as authorizing only its active account', async () => {
+		await actions.connectWallet('wallet-1');
+
+		expect(actions.selectAccount(ACCOUNT_ADDRESS).address).toBe(ACCOUNT_ADDRESS);
+		expect(() => actions.selectAccount('other' as Address)).toThrow(/has not authorized account "other"/);
+	});
+
+	it('passes the active cluster chain to the wallet and flags accounts not enabled for it', async () => {
+		const logger = vi.fn();
+		actions = createActions({ connectors: registry, logger, runtime, store });
+		const account = { address: ACCOUNT_ADDRESS, chains: ['solana:mainnet'], publicKey: new Uint8Array(32) };
+		const signTransaction = vi.fn(async (transaction: SendableTransaction & Transaction) => transaction);
+		const sendTransaction = vi.fn(async () => SIGNATURE);
+		vi.mocked(walletConnector.connect).mockResolvedValueOnce({
+			account,
+			accounts: [account],
+			connector: { id: 'wallet-1', name: 'Wallet 1' },
+			disconnect: vi.fn(async () => undefined),
+			sendTransaction,
+			signTransaction,
+		});
+		const transaction = {} as SendableTransaction & Transaction;
+
+		await actions.setCluster('https://api.devnet.solana.com');
+		await actions.connectWallet('wallet-1');
+		expect(walletConnector.connect).toHaveBeenCalledWith({ chain: 'solana:devnet' });
+		expect(store.getState().wallet).toMatchObject({ chain: 'solana:devnet', chainMismatch: true });
+		expect(logger).toHaveBeenCalledWith(
+			expect.objectContaining({ data: expect.objectContaining({ chain: 'solana:devnet' }), level: 'warn' }),
+		);
+
+		const wallet = store.getState().wallet;
+		if (wallet.status !== 'connected') {
+			throw new Error('expected a connected wallet');
+		}
+		await wallet.session.signTransaction?.(transaction);
+		expect(signTransaction).toHaveBeenLastCalledWith(transaction, { chain: 'solana:devnet' });
+
+		await actions.setCluster('https://api.mainnet-beta.solana.com');
+		expect(store.getState().wallet).toMatchObject({ chain: 'solana:mainnet', chainMismatch: false });
+		await wallet.session.sendTransaction?.(transaction, { commitment: 'confirmed' });
+		expect(sendTransaction).toHaveBeenLastCalledWith(transaction, {
+			chain: 'solana:mainnet',
+			commitment: 'confirmed',
+		});
+	});
+
 	it('fetches balances and accounts, capturing failures', async () => {
 		await actions.fetchBalance(ACCOUNT_ADDRESS);
 		let cached = store.getState().accounts.addr;
@@ -203,15 +424,129 @@ describe('client actions', () => {
 		await expect(actions.fetchBalance(ACCOUNT_ADDRESS)).rejects.toThrow('fail');
 	});
 
+	it('decodes fetched accounts with the decoder registered for their owner', async () => {
+		const decoder = vi.fn(() => ({ kind: 'custom' }));
+		runtime.rpc = {
+			getAccountInfo: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue({
+					context: { slot: 3n },
+					value: { data: new Uint8Array([1, 2]), lamports: 1n, owner: 'program' },
+				}),
+			})),
+		} as unknown as SolanaClientRuntime['rpc'];
+		actions = createActions({
+			accountDecoders: { program: decoder },
+			connectors: registry,
+			logger: createLoggerMock(),
+			runtime,
+			store,
+		});
+
+		const entry = await actions.fetchAccount(ACCOUNT_ADDRESS);
+		expect(entry.decoded).toEqual({ kind: 'custom' });
+		expect(decoder).toHaveBeenCalledWith(
+			expect.objectContaining({ address: ACCOUNT_ADDRESS, data: new Uint8Array([1, 2]), owner: 'program' }),
+		);
+	});
+
+	it('keeps decoded accounts when refreshing balances', async () => {
+		runtime.rpc = {
+			getAccountInfo: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue({
+					context: { slot: 3n },
+					value: { data: new Uint8Array([1]), lamports: 1n, owner: 'program' },
+				}),
+			})),
+			getBalance: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue({ context: { slot: 4n }, value: 2n }),
+			})),
+		} as unknown as SolanaClientRuntime['rpc'];
+		actions = createActions({
+			accountDecoders: { program: () => ({ kind: 'custom' }) },
+			connectors: registry,
+			logger: createLoggerMock(),
+			runtime,
+			store,
+		});
+
+		await actions.fetchAccount(ACCOUNT_ADDRESS);
+		await actions.fetchBalance(ACCOUNT_ADDRESS);
+
+		expect(store.getState().accounts.addr).toMatchObject({ decoded: { kind: 'custom' }, lamports: 2n, slot: 4n });
+	});
+
+	it('fetches accounts in chunks of 100 and writes the results in one store update', async () => {
+		const addresses = Array.from({ length: 250 }, (_, index) => `account-${index}` as Address);
+		const getMultipleAccounts = vi.fn((chunk: Address[]) => ({
+			send: vi.fn().mockResolvedValue({
+				context: { slot: 9n },
+				value: chunk.map((address) => (address === 'account-7' ? null : { data: [], lamports: 3n })),
+			}),
+		}));
+		runtime.rpc = { getMultipleAccounts } as unknown as SolanaClientRuntime['rpc'];
+		const writes = vi.fn();
+		store.subscribe(writes);
+
+		const entries = await actions.fetchAccounts([...addresses, addresses[0]], 'processed');
+
+		expect(getMultipleAccounts.mock.calls.map(([chunk]) => chunk.length)).toEqual([100, 100, 50]);
+		expect(getMultipleAccounts).toHaveBeenCalledWith(expect.any(Array), {
+			commitment: 'processed',
+			encoding: 'base64',
+		});
+		expect(writes).toHaveBeenCalledTimes(2);
+		expect(entries).toHaveLength(251);
+		expect(entries[0]).toMatchObject({ fetching: false, lamports: 3n, slot: 9n });
+		expect(entries[250]).toBe(entries[0]);
+		expect(store.getState().accounts['account-7']).toMatchObject({ data: null, lamports: null });
+		await expect(actions.fetchAccounts([])).resolves.toEqual([]);
+	});
+
+	it('marks every batched account as failed when a chunk errors', async () => {
+		runtime.rpc = {
+			getMultipleAccounts: vi.fn(() => ({ send: vi.fn().mockRejectedValue(new Error('boom')) })),
+		} as unknown as SolanaClientRuntime['rpc'];
+
+		await expect(actions.fetchAccounts([ACCOUNT_ADDRESS, 'other' as Address])).rejects.toThrow('boom');
+		expect(store.getState().accounts.addr).toMatchObject({ error: expect.any(Error), fetching: false });
+		expect(store.getState().accounts.other).toMatchObject({ error: expect.any(Error), fetching: false });
+	});
+
+	it('reads cached accounts through the account cache', async () => {
+		const accountCache = { dispose: vi.fn(), pin: vi.fn(), prune: vi.fn(), touch: vi.fn() };
+		actions = createActions({ accountCache, connectors: registry, logger: createLoggerMock(), runtime, store });
+		await actions.fetchAccount(ACCOUNT_ADDRESS);
+
+		expect(actions.getAccount(ACCOUNT_ADDRESS)).toBe(store.getState().accounts.addr);
+		expect(accountCache.touch).toHaveBeenCalledWith('addr');
+		expect(actions.getAccount('missing' as Address)).toBeUndefined();
+	});
+
+	it('invalidates single accounts and clears the account cache', async () => {
+		const OTHER_ADDRESS = 'other' as Address;
+		await actions.fetchAccount(ACCOUNT_ADDRESS);
+		await actions.fetchAccount(OTHER_ADDRESS);
+
+		actions.invalidateAccount(ACCOUNT_ADDRESS);
+		expect(Object.keys(store.getState().accounts)).toEqual([OTHER_ADDRESS]);
+
+		const before = store.getState();
+		actions.invalidateAccount(ACCOUNT_ADDRESS);
+		expect(store.getState()).toBe(before);
+
+		actions.clearAccounts();
+		expect(store.getState().accounts).toEqual({});
+	});
+
 	it('sends a transaction and tracks confirmation status', async () => {
 		const transaction = {
-			lastValidBlockHeight: 1n,
+			lifetimeConstraint: { lastValidBlockHeight: 1n },
 		} as unknown as SendableTransaction & Transaction & TransactionWithLastValidBlockHeight;
 		const result = await actions.sendTransaction(transaction, 'processed');
 		expect(result).toBe(SIGNATURE);
 		expect(waitForRecentTransactionConfirmationMock).toHaveBeenCalled();
 		const record = store.getState().transactions[SIGNATURE.toString()];
-		expect(record.status).toBe('confirmed');
+		expect(record).toMatchObject({ commitment: 'processed', lastValidBlockHeight: 1n, status: 'confirmed' });
 
 		waitForRecentTransactionConfirmationMock.mockRejectedValueOnce(new Error('confirmation failed'));
 		await expect(actions.sendTransaction(transaction, 'processed')).rejects.toThrow('confirmation failed');
@@ -219,6 +554,119 @@ describe('client actions', () => {
 		expect(errored.status).toBe('failed');
 	});
 
+	it('rebroadcasts the transaction until it confirms and counts the attempts', async () => {
+		vi.useFakeTimers();
+		try {
+			const rpc = runtime.rpc as unknown as Record<string, vi.Mock>;
+			const transaction = {
+				lifetimeConstraint: { lastValidBlockHeight: 1n },
+			} as unknown as SendableTransaction & Transaction & TransactionWithLastValidBlockHeight;
+			let confirm: () => void = () => undefined;
+			waitForRecentTransactionConfirmationMock.mockReturnValueOnce(
+				new Promise<void>((resolve) => {
+					confirm = resolve;
+				}),
+			);
+			const result = actions.sendTransaction(transaction, 'confirmed', {
+				rebroadcast: { intervalMs: 1_000, maxAttempts: 3 },
+			});
+			await vi.advanceTimersByTimeAsync(5_000);
+			expect(rpc.sendTransaction).toHaveBeenCalledTimes(3);
+			expect(rpc.sendTransaction).toHaveBeenLastCalledWith(expect.any(String), {
+				encoding: 'base64',
+				maxRetries: 0n,
+				skipPreflight: true,
+			});
+			expect(store.getState().transactions[SIGNATURE.toString()]).toMatchObject({
+				sendAttempts: 3,
+				status: 'sending',
+			});
+
+			confirm();
+			await expect(result).resolves.toBe(SIGNATURE);
+			expect(store.getState().transactions[SIGNATURE.toString()]).toMatchObject({
+				sendAttempts: 3,
+				status: 'confirmed',
+			});
+
+			rpc.sendTransaction.mockClear();
+			waitForRecentTransactionConfirmationMock.mockReturnValueOnce(new Promise<void>(() => undefined));
+			void actions.sendTransaction(transaction, 'confirmed', { rebroadcast: true });
+			await vi.advanceTimersByTimeAsync(60_000);
+			expect(rpc.sendTransaction).toHaveBeenCalledTimes(10);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('submits the transaction once unless rebroadcasting is enabled', async () => {
+		vi.useFakeTimers();
+		try {
+			const rpc = runtime.rpc as unknown as Record<string, vi.Mock>;
+			const transaction = {
+				lifetimeConstraint: { lastValidBlockHeight: 1n },
+			} as unknown as SendableTransaction & Transaction & TransactionWithLastValidBlockHeight;
+			waitForRecentTransactionConfirmationMock.mockReturnValueOnce(new Promise<void>(() => undefined));
+			void actions.sendTransaction(transaction, 'confirmed');
+			await vi.advanceTimersByTimeAsync(10_000);
+			expect(rpc.sendTransaction).toHaveBeenCalledTimes(1);
+			expect(store.getState().transactions[SIGNATURE.toString()]).toMatchObject({ sendAttempts: 1 });
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('confirms durable nonce transactions through nonce invalidation', async () => {
+		const durableNonce = { nonce: 'nonce-value', nonceAccountAddress: 'nonce-account' as Address };
+		const transaction = { lifetimeConstraint: durableNonce } as unknown as SendableTransaction & Transaction;
+		await expect(actions.sendTransaction(transaction as never)).resolves.toBe(SIGNATURE);
+		expect(waitForDurableNonceTransactionConfirmationMock).toHaveBeenCalledWith(
+			expect.objectContaining({ transaction }),
+		);
+		expect(waitForRecentTransactionConfirmationMock).not.toHaveBeenCalled();
+		const record = store.getState().transactions[SIGNATURE.toString()];
+		expect(record).toMatchObject({ durableNonce, status: 'confirmed' });
+		expect(record.lastValidBlockHeight).toBeUndefined();
+
+		const confirmation = vi.fn(() => new Promise<never>(() => undefined));
+		const invalidation = vi.fn(() => Promise.reject(new Error('nonce advanced')));
+		createRecentSignatureConfirmationPromiseFactoryMock.mockReturnValue(confirmation);
+		createNonceInvalidationPromiseFactoryMock.mockReturnValue(invalidation);
+		await expect(actions.trackTransaction(SIGNATURE, { durableNonce })).rejects.toThrow('nonce advanced');
+		expect(invalidation).toHaveBeenCalledWith(
+			expect.objectContaining({ currentNonceValue: 'nonce-value', nonceAccountAddress: 'nonce-account' }),
+		);
+		expect(store.getState().transactions[SIGNATURE.toString()]).toMatchObject({ durableNonce, status: 'failed' });
+	});
+
+	it('tracks an already submitted transaction until it confirms or expires', async () => {
+		const confirmation = vi.fn(() => Promise.resolve());
+		const exceedence = vi.fn(() => new Promise<never>(() => undefined));
+		createRecentSignatureConfirmationPromiseFactoryMock.mockReturnValue(confirmation);
+		createBlockHeightExceedencePromiseFactoryMock.mockReturnValue(exceedence);
+
+		await expect(actions.trackTransaction(SIGNATURE, { lastValidBlockHeight: 9n })).resolves.toBe(SIGNATURE);
+		expect(confirmation).toHaveBeenCalledWith(
+			expect.objectContaining({ commitment: 'confirmed', signature: SIGNATURE }),
+		);
+		expect(exceedence).toHaveBeenCalledWith(expect.objectContaining({ lastValidBlockHeight: 9n }));
+		expect(store.getState().transactions[SIGNATURE.toString()]).toMatchObject({
+			lastValidBlockHeight: 9n,
+			status: 'confirmed',
+		});
+
+		confirmation.mockReturnValueOnce(new Promise<never>(() => undefined));
+		exceedence.mockReturnValueOnce(Promise.reject(new Error('block height exceeded')));
+		await expect(actions.trackTransaction(SIGNATURE, { lastValidBlockHeight: 9n })).rejects.toThrow(
+			'block height exceeded',
+		);
+		expect(store.getState().transactions[SIGNATURE.toString()].status).toBe('failed');
+
+		exceedence.mockClear();
+		await actions.trackTransaction(SIGNATURE);
+		expect(exceedence).not.toHaveBeenCalled();
+	});
+
 	it('requests an airdrop through the runtime factory', async () => {
 		const signature = await actions.requestAirdrop(ACCOUNT_ADDRESS, LAMPORT_AMOUNT);
 		expect(signature).toBe(AIRDROP_SIGNATURE);
@@ -6,39 +6,100 @@ import type {
 	SendableTransaction,
 	Signature,
 	Transaction,
+	TransactionWithDurableNonceLifetime,
 } from '@solana/kit';
 import { airdropFactory, getBase64EncodedWireTransaction, isSome } from '@solana/kit';
-import type { TransactionWithLastValidBlockHeight } from '@solana/transaction-confirmation';
 import {
 	createBlockHeightExceedencePromiseFactory,
+	createNonceInvalidationPromiseFactory,
 	createRecentSignatureConfirmationPromiseFactory,
+	waitForDurableNonceTransactionConfirmation,
 	waitForRecentTransactionConfirmation,
 } from '@solana/transaction-confirmation';
 import { fetchAddressLookupTable, fetchAllAddressLookupTable } from '@solana-program/address-lookup-table';
 import { fetchNonce } from '@solana-program/system';
 
+import type { AccountCacheController } from '../accounts/cache';
+import { type AccountDecoders, decodeAccount } from '../accounts/decoders';
 import { createLogger, formatError } from '../logging/logger';
+import type { RpcBatchingOptions } from '../rpc/batching';
 import { createSolanaRpcClient } from '../rpc/createSolanaRpcClient';
+import type { RpcEndpointPool } from '../rpc/failover';
+import type { RetryPolicy } from '../rpc/retry';
 import type {
+	AccountCache,
+	AccountCacheEntry,
 	AddressLookupTableData,
 	ClientActions,
 	ClientState,
 	ClientStore,
 	NonceAccountData,
+	SendTransactionParameters,
 	SolanaClientRuntime,
+	TrackTransactionParameters,
+	TransactionRecord,
+	WalletAccount,
 	WalletRegistry,
+	WalletSession,
 } from '../types';
 import { now } from '../utils';
+import {
+	type ClusterIdentity,
+	getClusterChain,
+	getClusterIdentity,
+	getExpectedClusterIdentity,
+	type SolanaChain,
+} from '../utils/cluster';
 
 type MutableRuntime = SolanaClientRuntime;
 
+// Upper bound on addresses per `getMultipleAccounts` request enforced by RPC nodes.
+const MAX_MULTIPLE_ACCOUNTS = 100;
+const DEFAULT_REBROADCAST_INTERVAL_MS = 2_000;
+const DEFAULT_REBROADCAST_MAX_ATTEMPTS = 10;
+
 type ActionDeps = Readonly<{
+	accountCache?: AccountCacheController;
+	accountDecoders?: AccountDecoders;
+	batching?: RpcBatchingOptions | boolean;
+	/** Resolves once the initial endpoint passed verification; requests wait for it and fail when it rejects. */
+	clusterReady?: () => Promise<void>;
 	connectors: WalletRegistry;
 	logger?: ReturnType<typeof createLogger>;
+	retry?: RetryPolicy | boolean;
 	runtime: MutableRuntime;
 	store: ClientStore;
 }>;
 
+/**
+ * Checks whether the session's active account is enabled for a chain. Wallets that do not report chains are
+ * assumed to support it.
+ *
+ * @param session - Connected wallet session.
+ * @param chain - Chain of the active cluster.
+ * @returns `false` only when the wallet reports chains and `chain` is not among them.
+ */
+function isChainSupported(session: WalletSession, chain: SolanaChain): boolean {
+	const chains = session.account.chains ?? session.capabilities?.chains;
+	if (!chains?.length) {
+		return true;
+	}
+	// Some wallets still advertise mainnet under its legacy `solana:mainnet-beta` identifier.
+	return chains.some((candidate) => (candidate === 'solana:mainnet-beta' ? 'solana:mainnet' : candidate) === chain);
+}
+
+/**
+ * Checks whether a transaction uses a durable nonce lifetime rather than a blockhash.
+ *
+ * @param transaction - Transaction to inspect.
+ * @returns `true` when the transaction's lifetime is a durable nonce.
+ */
+function hasDurableNonceLifetime(
+	transaction: SendTransactionParameters['transaction'],
+): transaction is SendableTransaction & Transaction & TransactionWithDurableNonceLifetime {
+	return 'nonce' in transaction.lifetimeConstraint;
+}
+
 /**
  * Updates the client store while also refreshing the `lastUpdatedAt` timestamp.
  *
@@ -54,15 +115,56 @@ function updateState(store: ClientStore, update: Partial<ClientState>): void {
 	}));
 }
 
+/**
+ * Updates the fetch status of several cache entries while keeping their last known data.
+ *
+ * @param accounts - Current account cache.
+ * @param addresses - Accounts to update.
+ * @param status - Error and fetching flags to apply.
+ * @returns New account cache containing the updated entries.
+ */
+function markAccountEntries(
+	accounts: AccountCache,
+	addresses: readonly Address[],
+	status: Pick<AccountCacheEntry, 'error' | 'fetching'>,
+): AccountCache {
+	const next = { ...accounts };
+	for (const address of addresses) {
+		const previous = accounts[address.toString()];
+		next[address.toString()] = {
+			address,
+			data: previous?.data,
+			decoded: previous?.decoded,
+			error: status.error,
+			fetching: status.fetching,
+			lamports: previous?.lamports ?? null,
+			lastFetchedAt: now(),
+			slot: previous?.slot ?? null,
+		};
+	}
+	return next;
+}
+
 /**
  * Creates the action set used by the Solana client POC.
  *
  * @param deps - Dependencies required to build the action set.
  * @returns An immutable collection implementing {@link ClientActions}.
  */
-export function createActions({ connectors, logger: inputLogger, runtime, store }: ActionDeps): ClientActions {
+export function createActions({
+	accountCache,
+	accountDecoders,
+	batching,
+	clusterReady = () => Promise.resolve(),
+	connectors,
+	logger: inputLogger,
+	retry,
+	runtime,
+	store,
+}: ActionDeps): ClientActions {
 	const logger = inputLogger ?? createLogger();
 	let walletEventsCleanup: (() => void) | undefined;
+	let endpointPoolCleanup: (() => void) | undefined;
 
 	/**
 	 * Returns the commitment to use for a request, falling back to the store default.
@@ -79,14 +181,24 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 	 *
 	 * @param endpoint - RPC HTTP endpoint.
 	 * @param commitment - Commitment that should be used for the test call.
+	 * @param rpc - RPC instance to probe; defaults to the active runtime RPC.
+	 * @param endpointPool - Optional pool that should record the probe result for `endpoint`.
 	 * @returns Milliseconds spent waiting for the cluster or `undefined` on failure.
 	 */
-	async function warmupCluster(endpoint: ClusterUrl, commitment: Commitment): Promise<number | undefined> {
+	async function warmupCluster(
+		endpoint: ClusterUrl,
+		commitment: Commitment,
+		rpc: SolanaClientRuntime['rpc'] = runtime.rpc,
+		endpointPool?: RpcEndpointPool,
+	): Promise<number | undefined> {
 		try {
 			const start = now();
-			await runtime.rpc.getLatestBlockhash({ commitment }).send({ abortSignal: AbortSignal.timeout(10_000) });
-			return now() - start;
+			await rpc.getLatestBlockhash({ commitment }).send({ abortSignal: AbortSignal.timeout(10_000) });
+			const latencyMs = now() - start;
+			endpointPool?.reportLatency(endpoint, latencyMs);
+			return latencyMs;
 		} catch (error) {
+			endpointPool?.reportFailure(endpoint, error);
 			logger({
 				data: { endpoint, ...formatError(error) },
 				level: 'warn',
@@ -96,17 +208,137 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 		}
 	}
 
+	/**
+	 * Probes every endpoint in a pool so routing starts from fresh health data.
+	 *
+	 * @param endpointPool - Pool of endpoints backing the runtime RPC.
+	 * @param commitment - Commitment that should be used for the test calls.
+	 * @returns Latency of the endpoint selected after probing, if it responded.
+	 */
+	async function probeEndpoints(endpointPool: RpcEndpointPool, commitment: Commitment): Promise<number | undefined> {
+		await Promise.all(
+			endpointPool
+				.getEndpoints()
+				.map(({ endpoint }) =>
+					warmupCluster(endpoint, commitment, endpointPool.getRpc(endpoint), endpointPool),
+				),
+		);
+		return endpointPool.getActiveEndpoint().latencyMs;
+	}
+
+	/**
+	 * Mirrors endpoint pool health into the cluster status whenever the pool reports a change.
+	 *
+	 * @param endpoint - Primary endpoint the pool was created for.
+	 * @param endpointPool - Pool of endpoints backing the runtime RPC.
+	 * @returns Cleanup function that stops tracking the pool.
+	 */
+	function trackEndpointPool(endpoint: ClusterUrl, endpointPool: RpcEndpointPool): () => void {
+		let activeEndpoint = endpointPool.getActiveEndpoint().endpoint;
+		return endpointPool.subscribe(() => {
+			const active = endpointPool.getActiveEndpoint();
+			if (active.endpoint !== activeEndpoint) {
+				logger({
+					data: { from: activeEndpoint, to: active.endpoint },
+					level: 'warn',
+					message: 'rpc endpoint failover',
+				});
+				activeEndpoint = active.endpoint;
+			}
+			store.setState((state) => {
+				if (state.cluster.endpoint !== endpoint || state.cluster.status.status !== 'ready') {
+					return state;
+				}
+				return {
+					...state,
+					cluster: {
+						...state.cluster,
+						status: {
+							activeEndpoint: active.endpoint,
+							endpoints: endpointPool.getEndpoints(),
+							latencyMs: active.latencyMs,
+							status: 'ready',
+						},
+					},
+					lastUpdatedAt: now(),
+				};
+			});
+		});
+	}
+
+	/**
+	 * Reads the genesis hash of an endpoint so the client can tell which cluster it serves.
+	 *
+	 * @param endpoint - RPC HTTP endpoint.
+	 * @param rpc - RPC instance for the endpoint.
+	 * @returns Genesis hash, or `undefined` when the lookup failed.
+	 */
+	async function fetchGenesisHash(
+		endpoint: ClusterUrl,
+		rpc: SolanaClientRuntime['rpc'],
+	): Promise<string | undefined> {
+		try {
+			return await rpc.getGenesisHash().send({ abortSignal: AbortSignal.timeout(10_000) });
+		} catch (error) {
+			logger({
+				data: { endpoint, ...formatError(error) },
+				level: 'warn',
+				message: 'cluster genesis hash lookup failed',
+			});
+			return undefined;
+		}
+	}
+
+	/**
+	 * Compares the identity derived from the genesis hash against the cluster the caller expects.
+	 *
+	 * @param endpoint - RPC HTTP endpoint being configured.
+	 * @param identity - Identity derived from the endpoint's genesis hash, if it could be fetched.
+	 * @param config - `setCluster` options carrying the expected cluster and verification mode.
+	 * @returns Nothing; throws in `error` mode when the identities differ or the endpoint could not be verified, and
+	 * logs in `warn` mode when the identities differ.
+	 */
+	function verifyClusterIdentity(
+		endpoint: ClusterUrl,
+		identity: ClusterIdentity | undefined,
+		config?: Parameters<ClientActions['setCluster']>[1],
+	): void {
+		const mode = config?.verifyCluster ?? 'warn';
+		const expected = getExpectedClusterIdentity(config?.expectedCluster);
+		if (mode === 'off' || expected === undefined || identity === expected) {
+			return;
+		}
+		if (identity === undefined) {
+			// The genesis hash lookup failed; only `error` mode refuses an endpoint it could not verify.
+			if (mode === 'error') {
+				throw new Error(`Endpoint ${endpoint} could not be verified as ${expected}.`);
+			}
+			return;
+		}
+		const message = `Endpoint ${endpoint} serves ${identity === 'unknown' ? 'an unknown cluster' : identity}, expected ${expected}.`;
+		if (mode === 'error') {
+			throw new Error(message);
+		}
+		logger({
+			data: { endpoint, expected, identity },
+			level: 'warn',
+			message: 'cluster identity mismatch',
+		});
+	}
+
 	/**
 	 * Reconfigures the client to target the specified cluster.
 	 *
 	 * @param endpoint - Base RPC endpoint URL.
-	 * @param config - Optional commitment and websocket overrides.
+	 * @param config - Optional commitment, websocket and fallback endpoint overrides.
 	 * @returns Promise that resolves once the cluster has been reconfigured.
 	 */
 	async function setCluster(
 		endpoint: ClusterUrl,
-		config?: Readonly<{ commitment?: Commitment; websocketEndpoint?: ClusterUrl }>,
+		config?: Parameters<ClientActions['setCluster']>[1],
 	): Promise<void> {
+		endpointPoolCleanup?.();
+		endpointPoolCleanup = undefined;
 		const nextCommitment = config?.commitment ?? store.getState().cluster.commitment;
 		const websocketEndpoint = config?.websocketEndpoint ?? endpoint;
 		store.setState((state) => ({
@@ -119,25 +351,53 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 			},
 			lastUpdatedAt: now(),
 		}));
+		syncWalletChain();
 		try {
 			const newRpcClient = createSolanaRpcClient({
+				batching,
 				commitment: nextCommitment,
 				endpoint,
+				fallbackEndpoints: config?.fallbackEndpoints,
+				logger,
+				retry,
+				routing: config?.routing,
 				websocketEndpoint,
 			});
+			const endpointPool = newRpcClient.endpointPool;
+			const [latencyMs, genesisHash] = await Promise.all([
+				endpointPool
+					? probeEndpoints(endpointPool, nextCommitment)
+					: warmupCluster(endpoint, nextCommitment, newRpcClient.rpc),
+				fetchGenesisHash(endpoint, newRpcClient.rpc),
+			]);
+			const identity = genesisHash === undefined ? undefined : getClusterIdentity(genesisHash);
+			// Verify before swapping the runtime so a mismatched endpoint never serves requests in `error` mode.
+			verifyClusterIdentity(endpoint, identity, config);
 			runtime.rpc = newRpcClient.rpc;
 			runtime.rpcSubscriptions = newRpcClient.rpcSubscriptions;
-			const latencyMs = await warmupCluster(endpoint, nextCommitment);
 			store.setState((state) => ({
 				...state,
 				cluster: {
 					commitment: nextCommitment,
 					endpoint,
-					status: { latencyMs, status: 'ready' },
+					genesisHash,
+					identity,
+					status: endpointPool
+						? {
+								activeEndpoint: endpointPool.getActiveEndpoint().endpoint,
+								endpoints: endpointPool.getEndpoints(),
+								latencyMs,
+								status: 'ready',
+							}
+						: { latencyMs, status: 'ready' },
 					websocketEndpoint,
 				},
 				lastUpdatedAt: now(),
 			}));
+			syncWalletChain();
+			if (endpointPool) {
+				endpointPoolCleanup = trackEndpointPool(endpoint, endpointPool);
+			}
 		} catch (error) {
 			store.setState((state) => ({
 				...state,
@@ -158,6 +418,54 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 		}
 	}
 
+	/**
+	 * Wraps a session so every sign and send call carries the chain of the cluster active at call time.
+	 *
+	 * @param session - Session returned by the connector.
+	 * @returns Session that injects `chain` unless the caller passes one.
+	 */
+	function bindSessionChain(session: WalletSession): WalletSession {
+		const { sendTransaction, signAllTransactions, signTransaction } = session;
+		const getChain = () => getClusterChain(store.getState().cluster);
+		return {
+			...session,
+			sendTransaction: sendTransaction
+				? (transaction, config) => sendTransaction(transaction, { chain: getChain(), ...config })
+				: undefined,
+			signAllTransactions: signAllTransactions
+				? (transactions, config) => signAllTransactions(transactions, { chain: getChain(), ...config })
+				: undefined,
+			signTransaction: signTransaction
+				? (transaction, config) => signTransaction(transaction, { chain: getChain(), ...config })
+				: undefined,
+		};
+	}
+
+	/**
+	 * Records the active cluster's chain on the connected wallet and flags accounts that are not enabled for it.
+	 *
+	 * @returns Nothing; updates the wallet status in the store.
+	 */
+	function syncWalletChain(): void {
+		const { cluster, wallet } = store.getState();
+		if (wallet.status !== 'connected') {
+			return;
+		}
+		const chain = getClusterChain(cluster);
+		const chainMismatch = chain !== undefined && !isChainSupported(wallet.session, chain);
+		if (wallet.chain === chain && Boolean(wallet.chainMismatch) === chainMismatch) {
+			return;
+		}
+		updateState(store, { wallet: { ...wallet, chain, chainMismatch } });
+		if (chainMismatch && !wallet.chainMismatch) {
+			logger({
+				data: { address: wallet.session.account.address.toString(), chain, connectorId: wallet.connectorId },
+				level: 'warn',
+				message: 'wallet chain mismatch',
+			});
+		}
+	}
+
 	/**
 	 * Initiates a wallet connection using a registered connector.
 	 *
@@ -186,19 +494,23 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 		}));
 
 		try {
-			const session = await connector.connect(options);
+			const chain = getClusterChain(store.getState().cluster);
+			const session = bindSessionChain(await connector.connect(chain ? { chain, ...options } : options));
 			store.setState((state) => ({
 				...state,
 				lastUpdatedAt: now(),
 				wallet: { autoConnect: autoConnectPreference, connectorId, session, status: 'connected' },
 			}));
+			syncWalletChain();
 			if (session.onAccountsChanged) {
 				walletEventsCleanup = session.onAccountsChanged((accounts) => {
 					if (accounts.length === 0) {
 						walletEventsCleanup?.();
 						walletEventsCleanup = undefined;
 						void disconnectWallet();
+						return;
 					}
+					handleAccountsChanged(accounts);
 				});
 			}
 			logger({
@@ -221,6 +533,90 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 		}
 	}
 
+	/**
+	 * Replaces the active account and account list of the connected session.
+	 *
+	 * @param session - Session the update applies to; ignored when another session has since connected.
+	 * @param account - Account that should become active.
+	 * @param accounts - Accounts currently authorized by the wallet.
+	 * @returns Nothing; updates the wallet status in the store.
+	 */
+	function updateSessionAccounts(
+		session: WalletSession,
+		account: WalletAccount,
+		accounts: readonly WalletAccount[],
+	): void {
+		store.setState((state) => {
+			if (state.wallet.status !== 'connected' || state.wallet.session !== session) {
+				return state;
+			}
+			return {
+				...state,
+				lastUpdatedAt: now(),
+				wallet: { ...state.wallet, session: { ...session, account, accounts } },
+			};
+		});
+		syncWalletChain();
+	}
+
+	/**
+	 * Keeps the active account when the wallet still authorizes it, otherwise switches to the first account.
+	 *
+	 * @param accounts - Accounts reported by the wallet's change event.
+	 * @returns Nothing; updates the wallet status in the store.
+	 */
+	function handleAccountsChanged(accounts: readonly WalletAccount[]): void {
+		const wallet = store.getState().wallet;
+		if (wallet.status !== 'connected') {
+			return;
+		}
+		const { session } = wallet;
+		const active = session.account.address.toString();
+		const next = accounts.find((account) => account.address.toString() === active) ?? accounts[0];
+		const account = session.selectAccount?.(next.address) ?? next;
+		updateSessionAccounts(session, account, accounts);
+		if (account.address.toString() !== active) {
+			logger({
+				data: { address: account.address.toString(), connectorId: wallet.connectorId, previous: active },
+				level: 'info',
+				message: 'wallet account switched',
+			});
+		}
+	}
+
+	/**
+	 * Makes one of the session's authorized accounts the active signing account.
+	 *
+	 * @param address - Address of the account to activate.
+	 * @returns The account that is now active.
+	 */
+	function selectAccount(address: Address): WalletAccount {
+		const wallet = store.getState().wallet;
+		if (wallet.status !== 'connected') {
+			throw new Error('Connect a wallet before selecting an account.');
+		}
+		const { session } = wallet;
+		const key = address.toString();
+		if (session.account.address.toString() === key) {
+			return session.account;
+		}
+		const accounts = session.accounts ?? [session.account];
+		if (!accounts.some((account) => account.address.toString() === key)) {
+			throw new Error(`Wallet "${wallet.connectorId}" has not authorized account "${key}".`);
+		}
+		if (!session.selectAccount) {
+			throw new Error(`Wallet connector "${wallet.connectorId}" does not support switching accounts.`);
+		}
+		const account = session.selectAccount(address);
+		updateSessionAccounts(session, account, accounts);
+		logger({
+			data: { address: key, connectorId: wallet.connectorId, previous: session.account.address.toString() },
+			level: 'info',
+			message: 'wallet account switched',
+		});
+		return account;
+	}
+
 	/**
 	 * Disconnects the currently active wallet session if one exists.
 	 *
@@ -267,6 +663,7 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 				[key]: {
 					address,
 					data: state.accounts[key]?.data,
+					decoded: state.accounts[key]?.decoded,
 					error: undefined,
 					fetching: true,
 					lamports: state.accounts[key]?.lamports ?? null,
@@ -277,6 +674,7 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 			lastUpdatedAt: now(),
 		}));
 		try {
+			await clusterReady();
 			const response = await runtime.rpc
 				.getBalance(address, { commitment: getCommitment(commitment) })
 				.send({ abortSignal: AbortSignal.timeout(10_000) });
@@ -288,6 +686,7 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 					[key]: {
 						address,
 						data: state.accounts[key]?.data,
+						decoded: state.accounts[key]?.decoded,
 						error: undefined,
 						fetching: false,
 						lamports,
@@ -306,6 +705,7 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 					[key]: {
 						address,
 						data: state.accounts[key]?.data,
+						decoded: state.accounts[key]?.decoded,
 						error,
 						fetching: false,
 						lamports: state.accounts[key]?.lamports ?? null,
@@ -340,6 +740,7 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 				[key]: {
 					address,
 					data: state.accounts[key]?.data,
+					decoded: state.accounts[key]?.decoded,
 					error: undefined,
 					fetching: true,
 					lamports: state.accounts[key]?.lamports ?? null,
@@ -350,11 +751,13 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 			lastUpdatedAt: now(),
 		}));
 		try {
+			await clusterReady();
 			const response = await runtime.rpc
 				.getAccountInfo(address, { commitment: getCommitment(commitment), encoding: 'base64' })
 				.send({ abortSignal: AbortSignal.timeout(10_000) });
 			const value = response.value;
 			const lamports = value?.lamports ?? null;
+			const decoded = decodeAccount(accountDecoders, address, value, logger);
 			store.setState((state) => ({
 				...state,
 				accounts: {
@@ -362,6 +765,7 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 					[key]: {
 						address,
 						data: value,
+						decoded,
 						error: undefined,
 						fetching: false,
 						lamports,
@@ -380,6 +784,7 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 					[key]: {
 						address,
 						data: state.accounts[key]?.data,
+						decoded: state.accounts[key]?.decoded,
 						error,
 						fetching: false,
 						lamports: state.accounts[key]?.lamports ?? null,
@@ -398,6 +803,117 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 		}
 	}
 
+	/**
+	 * Fetches many accounts with batched `getMultipleAccounts` calls and writes every result to the cache at once.
+	 *
+	 * @param addresses - Account addresses to fetch. Duplicates are requested once.
+	 * @param commitment - Optional commitment override for the RPC calls.
+	 * @returns Promise resolving with the cached entries in the same order as `addresses`.
+	 */
+	async function fetchAccounts(addresses: readonly Address[], commitment?: Commitment) {
+		if (addresses.length === 0) {
+			return [];
+		}
+		const unique = [...new Map(addresses.map((address) => [address.toString(), address])).values()];
+		store.setState((state) => ({
+			...state,
+			accounts: markAccountEntries(state.accounts, unique, { error: undefined, fetching: true }),
+			lastUpdatedAt: now(),
+		}));
+		const chunks: Address[][] = [];
+		for (let index = 0; index < unique.length; index += MAX_MULTIPLE_ACCOUNTS) {
+			chunks.push(unique.slice(index, index + MAX_MULTIPLE_ACCOUNTS));
+		}
+		try {
+			await clusterReady();
+			const responses = await Promise.all(
+				chunks.map((chunk) =>
+					runtime.rpc
+						.getMultipleAccounts(chunk, { commitment: getCommitment(commitment), encoding: 'base64' })
+						.send({ abortSignal: AbortSignal.timeout(10_000) }),
+				),
+			);
+			const fetchedAt = now();
+			const entries = chunks.flatMap((chunk, chunkIndex) => {
+				const response = responses[chunkIndex];
+				return chunk.map((address, index): [string, AccountCacheEntry] => {
+					const value = response.value[index] ?? null;
+					return [
+						address.toString(),
+						{
+							address,
+							data: value,
+							decoded: decodeAccount(accountDecoders, address, value, logger),
+							error: undefined,
+							fetching: false,
+							lamports: value?.lamports ?? null,
+							lastFetchedAt: fetchedAt,
+							slot: response.context.slot,
+						},
+					];
+				});
+			});
+			store.setState((state) => ({
+				...state,
+				accounts: { ...state.accounts, ...Object.fromEntries(entries) },
+				lastUpdatedAt: now(),
+			}));
+		} catch (error) {
+			store.setState((state) => ({
+				...state,
+				accounts: markAccountEntries(state.accounts, unique, { error, fetching: false }),
+				lastUpdatedAt: now(),
+			}));
+			logger({
+				data: { addresses: unique.map((address) => address.toString()), ...formatError(error) },
+				level: 'error',
+				message: 'accounts fetch failed',
+			});
+			throw error;
+		}
+		const accounts = store.getState().accounts;
+		return addresses.map((address) => accounts[address.toString()]);
+	}
+
+	/**
+	 * Reads an account from the cache without fetching it, marking it as recently used.
+	 *
+	 * @param address - Account address to read.
+	 * @returns Cached entry, or `undefined` when the account is not cached.
+	 */
+	function getAccount(address: Address): AccountCacheEntry | undefined {
+		const key = address.toString();
+		accountCache?.touch(key);
+		return store.getState().accounts[key];
+	}
+
+	/**
+	 * Removes a single account from the cache so the next read refetches it.
+	 *
+	 * @param address - Account address to drop.
+	 * @returns Nothing; noop when the account is not cached.
+	 */
+	function invalidateAccount(address: Address): undefined {
+		const key = address.toString();
+		if (!(key in store.getState().accounts)) {
+			return;
+		}
+		store.setState((state) => ({
+			...state,
+			accounts: Object.fromEntries(Object.entries(state.accounts).filter(([entryKey]) => entryKey !== key)),
+			lastUpdatedAt: now(),
+		}));
+	}
+
+	/**
+	 * Removes every account from the cache.
+	 *
+	 * @returns Nothing; active watchers repopulate their accounts on the next notification.
+	 */
+	function clearAccounts(): undefined {
+		updateState(store, { accounts: {} });
+	}
+
 	/**
 	 * Fetches an address lookup table.
 	 *
@@ -406,11 +922,13 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 	 * @returns Parsed lookup table data.
 	 */
 	async function fetchLookupTable(addr: Address, commitment?: Commitment): Promise<AddressLookupTableData> {
+		await clusterReady();
 		const account = await fetchAddressLookupTable(runtime.rpc, addr, {
 			commitment: getCommitment(commitment),
 		});
 		const { addresses, authority, deactivationSlot, lastExtendedSlot, lastExtendedSlotStartIndex } = account.data;
 		return {
+			address: account.address,
 			addresses,
 			authority: isSome(authority) ? authority.value : undefined,
 			deactivationSlot,
@@ -431,10 +949,12 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 		commitment?: Commitment,
 	): Promise<readonly AddressLookupTableData[]> {
 		if (addresses.length === 0) return [];
+		await clusterReady();
 		const accounts = await fetchAllAddressLookupTable(runtime.rpc, addresses as Address[], {
 			commitment: getCommitment(commitment),
 		});
-		return accounts.map(({ data }) => ({
+		return accounts.map(({ address, data }) => ({
+			address,
 			addresses: data.addresses,
 			authority: isSome(data.authority) ? data.authority.value : undefined,
 			deactivationSlot: data.deactivationSlot,
@@ -451,6 +971,7 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 	 * @returns Parsed nonce data.
 	 */
 	async function fetchNonceAccount(addr: Address, commitment?: Commitment): Promise<NonceAccountData> {
+		await clusterReady();
 		const account = await fetchNonce(runtime.rpc, addr, {
 			commitment: getCommitment(commitment),
 		});
@@ -458,86 +979,225 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 	}
 
 	/**
-	 * Sends a transaction and waits for confirmation using the runtime helpers.
+	 * Writes a transaction record into the store.
+	 *
+	 * @param key - Record key, the transaction signature.
+	 * @param record - Record to store.
+	 */
+	function setTransactionRecord(key: string, record: TransactionRecord) {
+		store.setState((state) => ({
+			...state,
+			lastUpdatedAt: now(),
+			transactions: {
+				...state.transactions,
+				[key]: record,
+			},
+		}));
+	}
+
+	/**
+	 * Sends a transaction and waits for confirmation using the runtime helpers. With `rebroadcast` enabled, the same
+	 * wire bytes are resent on an interval (skipping preflight) until the transaction confirms, its lifetime expires,
+	 * or the attempt limit is reached.
 	 *
 	 * @param transaction - Transaction to submit.
 	 * @param commitment - Optional commitment override for confirmation.
+	 * @param config - Optional rebroadcast settings; pass `rebroadcast: true` to resend with the defaults.
 	 * @returns Promise resolving with the signature for the submitted transaction.
 	 */
 	async function sendTransaction(
-		transaction: SendableTransaction & Transaction & TransactionWithLastValidBlockHeight,
+		transaction: SendTransactionParameters['transaction'],
 		commitment?: Commitment,
+		config: SendTransactionParameters['config'] = {},
 	): Promise<Signature> {
+		await clusterReady();
 		const targetCommitment = getCommitment(commitment);
 		const abortController = new AbortController();
+		const wireTransaction = getBase64EncodedWireTransaction(transaction);
 		const signature = await runtime.rpc
-			.sendTransaction(getBase64EncodedWireTransaction(transaction), {
+			.sendTransaction(wireTransaction, {
 				encoding: 'base64',
 				preflightCommitment: targetCommitment,
 			})
 			.send({ abortSignal: abortController.signal });
 		const key = signature.toString();
-		store.setState((state) => ({
-			...state,
-			lastUpdatedAt: now(),
-			transactions: {
-				...state.transactions,
-				[key]: {
-					lastUpdatedAt: now(),
+		const pending = hasDurableNonceLifetime(transaction)
+			? {
+					commitment: targetCommitment,
+					durableNonce: {
+						nonce: transaction.lifetimeConstraint.nonce,
+						nonceAccountAddress: transaction.lifetimeConstraint.nonceAccountAddress,
+					},
 					signature,
-					status: 'sending',
-				},
-			},
-		}));
-		const getBlockHeightExceedencePromise = createBlockHeightExceedencePromiseFactory({
+				}
+			: {
+					commitment: targetCommitment,
+					lastValidBlockHeight: transaction.lifetimeConstraint.lastValidBlockHeight,
+					signature,
+				};
+		let sendAttempts = 1;
+		setTransactionRecord(key, { ...pending, lastUpdatedAt: now(), sendAttempts, status: 'sending' });
+
+		const rebroadcast = config.rebroadcast === true ? {} : config.rebroadcast || null;
+		const intervalMs = rebroadcast?.intervalMs ?? DEFAULT_REBROADCAST_INTERVAL_MS;
+		const maxAttempts = rebroadcast?.maxAttempts ?? DEFAULT_REBROADCAST_MAX_ATTEMPTS;
+		let rebroadcastTimer: ReturnType<typeof setTimeout> | undefined;
+		function scheduleRebroadcast() {
+			if (!rebroadcast || abortController.signal.aborted || sendAttempts >= maxAttempts) {
+				return;
+			}
+			rebroadcastTimer = setTimeout(async () => {
+				sendAttempts += 1;
+				setTransactionRecord(key, { ...pending, lastUpdatedAt: now(), sendAttempts, status: 'sending' });
+				try {
+					await runtime.rpc
+						.sendTransaction(wireTransaction, {
+							encoding: 'base64',
+							maxRetries: 0n,
+							skipPreflight: true,
+						})
+						.send({ abortSignal: abortController.signal });
+				} catch (error) {
+					if (abortController.signal.aborted) {
+						return;
+					}
+					logger({
+						data: { attempt: sendAttempts, signature: key, ...formatError(error) },
+						level: 'warn',
+						message: 'transaction rebroadcast failed',
+					});
+				}
+				scheduleRebroadcast();
+			}, intervalMs);
+		}
+		function stopRebroadcast() {
+			clearTimeout(rebroadcastTimer);
+			abortController.abort();
+		}
+		scheduleRebroadcast();
+
+		const getRecentSignatureConfirmationPromise = createRecentSignatureConfirmationPromiseFactory({
 			rpc: runtime.rpc,
 			rpcSubscriptions: runtime.rpcSubscriptions,
-		} as Parameters<typeof createBlockHeightExceedencePromiseFactory>[0]);
+		} as Parameters<typeof createRecentSignatureConfirmationPromiseFactory>[0]);
+		try {
+			if (hasDurableNonceLifetime(transaction)) {
+				// Durable nonce transactions never expire by block height; they fail once the nonce advances.
+				await waitForDurableNonceTransactionConfirmation({
+					abortSignal: abortController.signal,
+					commitment: targetCommitment,
+					getNonceInvalidationPromise: createNonceInvalidationPromiseFactory({
+						rpc: runtime.rpc,
+						rpcSubscriptions: runtime.rpcSubscriptions,
+					} as Parameters<typeof createNonceInvalidationPromiseFactory>[0]),
+					getRecentSignatureConfirmationPromise,
+					transaction,
+				});
+			} else {
+				await waitForRecentTransactionConfirmation({
+					abortSignal: abortController.signal,
+					commitment: targetCommitment,
+					getBlockHeightExceedencePromise: createBlockHeightExceedencePromiseFactory({
+						rpc: runtime.rpc,
+						rpcSubscriptions: runtime.rpcSubscriptions,
+					} as Parameters<typeof createBlockHeightExceedencePromiseFactory>[0]),
+					getRecentSignatureConfirmationPromise,
+					transaction,
+				});
+			}
+			stopRebroadcast();
+			setTransactionRecord(key, { ...pending, lastUpdatedAt: now(), sendAttempts, status: 'confirmed' });
+			return signature;
+		} catch (error) {
+			stopRebroadcast();
+			setTransactionRecord(key, { ...pending, error, lastUpdatedAt: now(), sendAttempts, status: 'failed' });
+			logger({
+				data: { signature: key, ...formatError(error) },
+				level: 'error',
+				message: 'transaction failed to confirm',
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Tracks a transaction that was already submitted, such as one restored from persisted state after a reload,
+	 * and records whether it confirms. Without a last valid block height or durable nonce the wait only ends once the
+	 * signature confirms or errors.
+	 *
+	 * @param signature - Signature of the submitted transaction.
+	 * @param config - Optional commitment, plus the last valid block height or durable nonce of the transaction.
+	 * @returns Promise resolving with the signature once the transaction confirms.
+	 */
+	async function trackTransaction(
+		signature: Signature,
+		config: TrackTransactionParameters['config'] = {},
+	): Promise<Signature> {
+		await clusterReady();
+		const targetCommitment = getCommitment(config.commitment);
+		const key = signature.toString();
+		const pending = {
+			commitment: targetCommitment,
+			durableNonce: config.durableNonce,
+			lastValidBlockHeight: config.lastValidBlockHeight,
+			signature,
+		};
+		setTransactionRecord(key, { ...pending, lastUpdatedAt: now(), status: 'waiting' });
+		const abortController = new AbortController();
 		const getRecentSignatureConfirmationPromise = createRecentSignatureConfirmationPromiseFactory({
 			rpc: runtime.rpc,
 			rpcSubscriptions: runtime.rpcSubscriptions,
 		} as Parameters<typeof createRecentSignatureConfirmationPromiseFactory>[0]);
-		try {
-			await waitForRecentTransactionConfirmation({
+		const waiters = [
+			getRecentSignatureConfirmationPromise({
 				abortSignal: abortController.signal,
 				commitment: targetCommitment,
-				getBlockHeightExceedencePromise,
-				getRecentSignatureConfirmationPromise,
-				transaction,
-			});
-			store.setState((state) => ({
-				...state,
-				lastUpdatedAt: now(),
-				transactions: {
-					...state.transactions,
-					[key]: {
-						lastUpdatedAt: now(),
-						signature,
-						status: 'confirmed',
-					},
-				},
-			}));
+				signature,
+			}),
+		];
+		if (config.lastValidBlockHeight !== undefined) {
+			const getBlockHeightExceedencePromise = createBlockHeightExceedencePromiseFactory({
+				rpc: runtime.rpc,
+				rpcSubscriptions: runtime.rpcSubscriptions,
+			} as Parameters<typeof createBlockHeightExceedencePromiseFactory>[0]);
+			waiters.push(
+				getBlockHeightExceedencePromise({
+					abortSignal: abortController.signal,
+					commitment: targetCommitment,
+					lastValidBlockHeight: config.lastValidBlockHeight,
+				}),
+			);
+		}
+		if (config.durableNonce) {
+			const getNonceInvalidationPromise = createNonceInvalidationPromiseFactory({
+				rpc: runtime.rpc,
+				rpcSubscriptions: runtime.rpcSubscriptions,
+			} as Parameters<typeof createNonceInvalidationPromiseFactory>[0]);
+			waiters.push(
+				getNonceInvalidationPromise({
+					abortSignal: abortController.signal,
+					commitment: targetCommitment,
+					currentNonceValue: config.durableNonce.nonce as Parameters<
+						typeof getNonceInvalidationPromise
+					>[0]['currentNonceValue'],
+					nonceAccountAddress: config.durableNonce.nonceAccountAddress,
+				}),
+			);
+		}
+		try {
+			await Promise.race(waiters);
+			setTransactionRecord(key, { ...pending, lastUpdatedAt: now(), status: 'confirmed' });
 			return signature;
 		} catch (error) {
-			store.setState((state) => ({
-				...state,
-				lastUpdatedAt: now(),
-				transactions: {
-					...state.transactions,
-					[key]: {
-						error,
-						lastUpdatedAt: now(),
-						signature,
-						status: 'failed',
-					},
-				},
-			}));
+			setTransactionRecord(key, { ...pending, error, lastUpdatedAt: now(), status: 'failed' });
 			logger({
 				data: { signature: key, ...formatError(error) },
 				level: 'error',
 				message: 'transaction failed to confirm',
 			});
 			throw error;
+		} finally {
+			abortController.abort();
 		}
 	}
 
@@ -550,6 +1210,7 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 	 */
 	async function requestAirdrop(address: Address, lamports: Lamports) {
 		try {
+			await clusterReady();
 			const factory = airdropFactory({
 				rpc: runtime.rpc,
 				rpcSubscriptions: runtime.rpcSubscriptions,
@@ -576,15 +1237,21 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 	}
 
 	return {
+		clearAccounts,
 		connectWallet,
 		disconnectWallet,
 		fetchAccount,
+		fetchAccounts,
 		fetchBalance,
 		fetchLookupTable,
 		fetchLookupTables,
 		fetchNonceAccount,
+		getAccount,
+		invalidateAccount,
 		requestAirdrop,
+		selectAccount,
 		sendTransaction,
 		setCluster,
+		trackTransaction,
 	};
 }
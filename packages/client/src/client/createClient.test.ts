@@ -17,6 +17,7 @@ const createActionsMock = vi.hoisted(() =>
 );
 const createWatchersMock = vi.hoisted(() =>
 	vi.fn(() => ({
+		dispose: vi.fn(),
 		watchAccount: vi.fn(),
 	})),
 );
@@ -102,6 +103,7 @@ describe('createClient', () => {
 		expect(createSolanaRpcClientMock).toHaveBeenCalledWith({
 			commitment: 'finalized',
 			endpoint: 'https://rpc.example',
+			logger: expect.any(Function),
 			websocketEndpoint: 'wss://rpc.example',
 		});
 		expect(createWalletRegistryMock).toHaveBeenCalledWith(config.walletConnectors);
@@ -123,6 +125,26 @@ describe('createClient', () => {
 
 		client.destroy();
 		expect(client.store.getState().cluster.status).toEqual({ status: 'idle' });
+		expect(createWatchersMock.mock.results[0].value.dispose).toHaveBeenCalled();
+	});
+
+	it('restores pending transactions from the initial state and resumes tracking them', () => {
+		const trackTransaction = vi.fn().mockResolvedValue('sig-1');
+		createActionsMock.mockReturnValueOnce({ setCluster: vi.fn().mockResolvedValue(undefined), trackTransaction });
+		const client = createClient({
+			...config,
+			initialState: {
+				transactions: {
+					'sig-1': { lastUpdatedAt: 5, lastValidBlockHeight: '42', signature: 'sig-1', status: 'sending' },
+				},
+				version: 2,
+			},
+		});
+
+		expect(client.store.getState().transactions).toEqual({
+			'sig-1': { lastUpdatedAt: 5, lastValidBlockHeight: 42n, signature: 'sig-1', status: 'sending' },
+		});
+		expect(trackTransaction).toHaveBeenCalledWith('sig-1', { commitment: undefined, lastValidBlockHeight: 42n });
 	});
 
 	it('respects a provided rpcClient instance', () => {
@@ -161,6 +183,7 @@ describe('createClient', () => {
 		expect(createSolanaRpcClientMock).toHaveBeenCalledWith({
 			commitment: 'processed',
 			endpoint: 'https://rpc.state',
+			logger: expect.any(Function),
 			websocketEndpoint: 'wss://rpc.state',
 		});
 		const actions = createActionsMock.mock.results[createActionsMock.mock.results.length - 1].value as ActionSet;
@@ -170,6 +193,49 @@ describe('createClient', () => {
 		});
 	});
 
+	it('holds requests until the initial cluster check passes in error mode', async () => {
+		let finishSetup: () => void = () => undefined;
+		createActionsMock.mockReturnValueOnce({
+			setCluster: vi.fn(
+				() =>
+					new Promise<void>((resolve) => {
+						finishSetup = resolve;
+					}),
+			),
+		});
+
+		createClient({ ...config, cluster: 'mainnet', verifyCluster: 'error' });
+		const { clusterReady } = createActionsMock.mock.lastCall?.[0] as { clusterReady: () => Promise<void> };
+		expect(createWatchersMock).toHaveBeenLastCalledWith(expect.objectContaining({ clusterReady }));
+		expect(createClientHelpersMock).toHaveBeenLastCalledWith(expect.anything(), expect.anything(), clusterReady);
+
+		const onReady = vi.fn();
+		const ready = clusterReady().then(onReady);
+		await Promise.resolve();
+		expect(onReady).not.toHaveBeenCalled();
+
+		finishSetup();
+		await ready;
+		expect(onReady).toHaveBeenCalled();
+	});
+
+	it('never reaches a mismatched endpoint in error mode', async () => {
+		createActionsMock.mockReturnValueOnce({
+			setCluster: vi.fn().mockRejectedValue(new Error('Endpoint serves devnet, expected mainnet-beta.')),
+		});
+
+		createClient({ ...config, cluster: 'mainnet', verifyCluster: 'error' });
+		const { clusterReady } = createActionsMock.mock.lastCall?.[0] as { clusterReady: () => Promise<void> };
+
+		await expect(clusterReady()).rejects.toThrow('expected mainnet-beta');
+	});
+
+	it('does not hold requests outside error mode', () => {
+		createClient({ ...config, cluster: 'mainnet', verifyCluster: 'warn' });
+
+		expect(createActionsMock).toHaveBeenLastCalledWith(expect.objectContaining({ clusterReady: undefined }));
+	});
+
 	it('logs errors when initial cluster setup fails', async () => {
 		const logger = vi.fn();
 		createLoggerMock.mockReturnValueOnce(logger as Logger);
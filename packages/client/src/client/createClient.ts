@@ -1,9 +1,12 @@
+import { createAccountCacheController } from '../accounts/cache';
+import { resolveAccountDecoders } from '../accounts/decoders';
 import { createLogger, formatError } from '../logging/logger';
 import { createSolanaRpcClient } from '../rpc/createSolanaRpcClient';
-import { applySerializableState } from '../serialization/state';
+import { applySerializableState, getSerializableTransactionState } from '../serialization/state';
+import { createTabSync } from '../sync/tabSync';
 import type { ClientStore, SolanaClient, SolanaClientConfig, SolanaClientRuntime } from '../types';
 import { now } from '../utils';
-import { resolveCluster } from '../utils/cluster';
+import { getExpectedClusterIdentity, resolveCluster } from '../utils/cluster';
 import { createWalletRegistry } from '../wallet/registry';
 import { createActions } from './actions';
 import { createClientHelpers } from './createClientHelpers';
@@ -24,17 +27,35 @@ export function createClient(config: SolanaClientConfig): SolanaClient {
 		websocketEndpoint: hydratedConfig.websocket ?? hydratedConfig.websocketEndpoint,
 	});
 	const commitment = hydratedConfig.commitment ?? 'confirmed';
+	const restoredTransactions = getSerializableTransactionState(config.initialState);
 	const initialState = createInitialClientState({
 		commitment,
 		endpoint: resolvedCluster.endpoint,
+		transactions: restoredTransactions,
 		websocketEndpoint: resolvedCluster.websocketEndpoint,
 	});
 	const store: ClientStore = config.createStore ? config.createStore(initialState) : createClientStore(initialState);
+	const logger = createLogger(hydratedConfig.logger);
+	const tabSync = hydratedConfig.tabSync
+		? createTabSync(hydratedConfig.tabSync === true ? {} : hydratedConfig.tabSync, logger)
+		: null;
+	const expectedCluster = resolvedCluster.moniker === 'custom' ? undefined : resolvedCluster.moniker;
+	let initialSetup: Promise<void> = Promise.resolve();
+	// In `error` mode nothing may reach the endpoint until its identity check passed.
+	const clusterReady =
+		hydratedConfig.verifyCluster === 'error' && getExpectedClusterIdentity(expectedCluster) !== undefined
+			? () => initialSetup
+			: undefined;
 	const rpcClient =
 		hydratedConfig.rpcClient ??
 		createSolanaRpcClient({
+			batching: hydratedConfig.batching,
 			commitment,
 			endpoint: resolvedCluster.endpoint,
+			fallbackEndpoints: hydratedConfig.fallbackEndpoints,
+			logger,
+			retry: hydratedConfig.retry,
+			routing: hydratedConfig.routing,
 			websocketEndpoint: resolvedCluster.websocketEndpoint,
 		});
 	const runtime: SolanaClientRuntime = {
@@ -42,10 +63,32 @@ export function createClient(config: SolanaClientConfig): SolanaClient {
 		rpcSubscriptions: rpcClient.rpcSubscriptions,
 	};
 	const connectors = createWalletRegistry(hydratedConfig.walletConnectors ?? []);
-	const logger = createLogger(hydratedConfig.logger);
-	const actions = createActions({ connectors, logger, runtime, store });
-	const watchers = createWatchers({ logger, runtime, store });
-	const helpers = createClientHelpers(runtime, store);
+	const accountDecoders = resolveAccountDecoders(hydratedConfig.accountDecoders);
+	const accountCache = hydratedConfig.accountCache
+		? createAccountCacheController(store, hydratedConfig.accountCache)
+		: undefined;
+	const actions = createActions({
+		accountCache,
+		accountDecoders,
+		batching: hydratedConfig.batching,
+		clusterReady,
+		connectors,
+		logger,
+		retry: hydratedConfig.retry,
+		runtime,
+		store,
+	});
+	const watchers = createWatchers({
+		accountCache,
+		accountDecoders,
+		clusterReady,
+		logger,
+		reconnect: hydratedConfig.reconnect,
+		relay: tabSync?.relay,
+		runtime,
+		store,
+	});
+	const helpers = createClientHelpers(runtime, store, clusterReady);
 	store.setState((state) => ({
 		...state,
 		cluster: {
@@ -54,27 +97,64 @@ export function createClient(config: SolanaClientConfig): SolanaClient {
 		},
 		lastUpdatedAt: now(),
 	}));
-	actions
-		.setCluster(resolvedCluster.endpoint, {
-			commitment,
-			websocketEndpoint: resolvedCluster.websocketEndpoint,
-		})
-		.catch((error) =>
-			logger({
-				data: formatError(error),
-				level: 'error',
-				message: 'initial cluster setup failed',
-			}),
-		);
+	initialSetup = actions.setCluster(resolvedCluster.endpoint, {
+		commitment,
+		expectedCluster,
+		fallbackEndpoints: hydratedConfig.fallbackEndpoints,
+		routing: hydratedConfig.routing,
+		verifyCluster: hydratedConfig.verifyCluster,
+		websocketEndpoint: resolvedCluster.websocketEndpoint,
+	});
+	initialSetup.catch((error) =>
+		logger({
+			data: formatError(error),
+			level: 'error',
+			message: 'initial cluster setup failed',
+		}),
+	);
+	/**
+	 * Resumes tracking restored transactions that no other tab has settled in the meantime.
+	 *
+	 * @returns Nothing; tracking continues in the background.
+	 */
+	function resumeRestoredTransactions(): void {
+		for (const [key, record] of Object.entries(restoredTransactions)) {
+			const current = store.getState().transactions[key];
+			if (record.signature && (current?.status === 'sending' || current?.status === 'waiting')) {
+				// Failures are logged and recorded on the transaction by the action itself.
+				actions
+					.trackTransaction(record.signature, {
+						commitment: record.commitment,
+						durableNonce: record.durableNonce,
+						lastValidBlockHeight: record.lastValidBlockHeight,
+					})
+					.catch(() => undefined);
+			}
+		}
+	}
+	if (tabSync) {
+		// Only the leading tab tracks restored transactions; the others receive its status updates.
+		const stopWaiting = tabSync.relay.onLeaderChange(() => {
+			if (tabSync.relay.isLeader()) {
+				stopWaiting();
+				resumeRestoredTransactions();
+			}
+		});
+	} else {
+		resumeRestoredTransactions();
+	}
 	/**
 	 * Resets the client's store back to its initial state.
 	 *
 	 * @returns Nothing; resets store contents.
 	 */
 	function destroy(): void {
+		accountCache?.dispose();
+		watchers.dispose();
+		tabSync?.close();
 		store.setState(() => initialState);
 	}
-	return {
+	const client: SolanaClient = {
 		actions,
 		config,
 		connectors,
@@ -102,4 +182,6 @@ export function createClient(config: SolanaClientConfig): SolanaClient {
 		prepareTransaction: helpers.prepareTransaction,
 		watchers,
 	};
+	tabSync?.attach(client);
+	return client;
 }
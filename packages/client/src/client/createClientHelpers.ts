@@ -16,6 +16,25 @@ type SplTokenCacheEntry = Readonly<{
 	scoped: SplTokenHelper;
 }>;
 
+type ClusterReady = () => Promise<void>;
+
+/**
+ * Delays an RPC-backed helper method until the initial endpoint has been verified.
+ *
+ * @param ready - Resolves once the endpoint may serve requests; its rejection is returned to the caller.
+ * @param method - Helper method to run afterwards.
+ * @returns Method with the same signature that waits for `ready` first.
+ */
+function afterClusterReady<TArgs extends unknown[], TResult>(
+	ready: ClusterReady,
+	method: (...args: TArgs) => Promise<TResult>,
+): (...args: TArgs) => Promise<TResult> {
+	return async (...args) => {
+		await ready();
+		return method(...args);
+	};
+}
+
 function withDefaultCommitment<T extends { commitment?: Commitment }>(
 	config: T,
 	getFallback: () => Commitment,
@@ -31,43 +50,83 @@ function withDefaultCommitment<T extends { commitment?: Commitment }>(
 	};
 }
 
-function wrapSolTransferHelper(helper: SolTransferHelper, getFallback: () => Commitment): SolTransferHelper {
+function wrapSolTransferHelper(
+	helper: SolTransferHelper,
+	getFallback: () => Commitment,
+	ready: ClusterReady,
+): SolTransferHelper {
 	return {
-		prepareTransfer: (config) => helper.prepareTransfer(withDefaultCommitment(config, getFallback)),
-		sendPreparedTransfer: helper.sendPreparedTransfer,
-		sendTransfer: (config, options) => helper.sendTransfer(withDefaultCommitment(config, getFallback), options),
+		prepareTransfer: afterClusterReady(ready, (config) =>
+			helper.prepareTransfer(withDefaultCommitment(config, getFallback)),
+		),
+		sendPreparedTransfer: afterClusterReady(ready, helper.sendPreparedTransfer),
+		sendTransfer: afterClusterReady(ready, (config, options) =>
+			helper.sendTransfer(withDefaultCommitment(config, getFallback), options),
+		),
 	};
 }
 
 function wrapSplTokenHelper(
 	helper: SplTokenHelper,
 	getFallback: () => Commitment,
+	ready: ClusterReady,
 	baseCommitment?: Commitment,
 ): SplTokenHelper {
 	const resolveCommitment = (commitment?: Commitment) => commitment ?? baseCommitment ?? getFallback();
 
 	return {
 		deriveAssociatedTokenAddress: helper.deriveAssociatedTokenAddress,
-		fetchBalance: (owner, commitment) => helper.fetchBalance(owner, resolveCommitment(commitment)),
-		prepareTransfer: (config) => helper.prepareTransfer(withDefaultCommitment(config, getFallback, baseCommitment)),
-		sendPreparedTransfer: helper.sendPreparedTransfer,
-		sendTransfer: (config, options) =>
+		fetchBalance: afterClusterReady(ready, (owner, commitment) =>
+			helper.fetchBalance(owner, resolveCommitment(commitment)),
+		),
+		prepareTransfer: afterClusterReady(ready, (config) =>
+			helper.prepareTransfer(withDefaultCommitment(config, getFallback, baseCommitment)),
+		),
+		sendPreparedTransfer: afterClusterReady(ready, helper.sendPreparedTransfer),
+		sendTransfer: afterClusterReady(ready, (config, options) =>
 			helper.sendTransfer(withDefaultCommitment(config, getFallback, baseCommitment), options),
+		),
 	};
 }
 
-function wrapStakeHelper(helper: StakeHelper, getFallback: () => Commitment): StakeHelper {
+function wrapStakeHelper(helper: StakeHelper, getFallback: () => Commitment, ready: ClusterReady): StakeHelper {
 	return {
-		getStakeAccounts: helper.getStakeAccounts,
-		prepareStake: (config) => helper.prepareStake(withDefaultCommitment(config, getFallback)),
-		prepareUnstake: (config) => helper.prepareUnstake(withDefaultCommitment(config, getFallback)),
-		prepareWithdraw: (config) => helper.prepareWithdraw(withDefaultCommitment(config, getFallback)),
-		sendPreparedStake: helper.sendPreparedStake,
-		sendPreparedUnstake: helper.sendPreparedUnstake,
-		sendPreparedWithdraw: helper.sendPreparedWithdraw,
-		sendStake: (config, options) => helper.sendStake(withDefaultCommitment(config, getFallback), options),
-		sendUnstake: (config, options) => helper.sendUnstake(withDefaultCommitment(config, getFallback), options),
-		sendWithdraw: (config, options) => helper.sendWithdraw(withDefaultCommitment(config, getFallback), options),
+		getStakeAccounts: afterClusterReady(ready, helper.getStakeAccounts),
+		prepareStake: afterClusterReady(ready, (config) =>
+			helper.prepareStake(withDefaultCommitment(config, getFallback)),
+		),
+		prepareUnstake: afterClusterReady(ready, (config) =>
+			helper.prepareUnstake(withDefaultCommitment(config, getFallback)),
+		),
+		prepareWithdraw: afterClusterReady(ready, (config) =>
+			helper.prepareWithdraw(withDefaultCommitment(config, getFallback)),
+		),
+		sendPreparedStake: afterClusterReady(ready, helper.sendPreparedStake),
+		sendPreparedUnstake: afterClusterReady(ready, helper.sendPreparedUnstake),
+		sendPreparedWithdraw: afterClusterReady(ready, helper.sendPreparedWithdraw),
+		sendStake: afterClusterReady(ready, (config, options) =>
+			helper.sendStake(withDefaultCommitment(config, getFallback), options),
+		),
+		sendUnstake: afterClusterReady(ready, (config, options) =>
+			helper.sendUnstake(withDefaultCommitment(config, getFallback), options),
+		),
+		sendWithdraw: afterClusterReady(ready, (config, options) =>
+			helper.sendWithdraw(withDefaultCommitment(config, getFallback), options),
+		),
+	};
+}
+
+function wrapTransactionHelper(helper: TransactionHelper, ready: ClusterReady): TransactionHelper {
+	return {
+		checkExpiry: afterClusterReady(ready, helper.checkExpiry),
+		prepare: afterClusterReady(ready, helper.prepare),
+		prepareAndSend: afterClusterReady(ready, helper.prepareAndSend),
+		prepareAndSendPlan: afterClusterReady(ready, helper.prepareAndSendPlan),
+		preparePlan: afterClusterReady(ready, helper.preparePlan),
+		send: afterClusterReady(ready, helper.send),
+		sendPlan: afterClusterReady(ready, helper.sendPlan),
+		sign: helper.sign,
+		toWire: helper.toWire,
 	};
 }
 
@@ -94,7 +153,19 @@ function serialiseSplConfig(config: SplTokenHelperConfig): string {
 	});
 }
 
-export function createClientHelpers(runtime: SolanaClientRuntime, store: ClientStore): ClientHelpers {
+/**
+ * Creates the client's transaction and program helpers on top of the shared runtime.
+ *
+ * @param runtime - Runtime whose RPC clients the helpers use.
+ * @param store - Client store supplying the default commitment.
+ * @param clusterReady - Resolves once the initial endpoint passed verification; RPC-backed helpers wait for it.
+ * @returns Lazily constructed helpers.
+ */
+export function createClientHelpers(
+	runtime: SolanaClientRuntime,
+	store: ClientStore,
+	clusterReady: ClusterReady = () => Promise.resolve(),
+): ClientHelpers {
 	const getFallbackCommitment = () => store.getState().cluster.commitment;
 	const splTokenCache = new Map<string, SplTokenCacheEntry>();
 	let solTransfer: SolTransferHelper | undefined;
@@ -103,21 +174,21 @@ export function createClientHelpers(runtime: SolanaClientRuntime, store: ClientS
 
 	const getSolTransfer = () => {
 		if (!solTransfer) {
-			solTransfer = wrapSolTransferHelper(createSolTransferHelper(runtime), getFallbackCommitment);
+			solTransfer = wrapSolTransferHelper(createSolTransferHelper(runtime), getFallbackCommitment, clusterReady);
 		}
 		return solTransfer;
 	};
 
 	const getStake = () => {
 		if (!stake) {
-			stake = wrapStakeHelper(createStakeHelper(runtime), getFallbackCommitment);
+			stake = wrapStakeHelper(createStakeHelper(runtime), getFallbackCommitment, clusterReady);
 		}
 		return stake;
 	};
 
 	const getTransaction = () => {
 		if (!transaction) {
-			transaction = createTransactionHelper(runtime, getFallbackCommitment);
+			transaction = wrapTransactionHelper(createTransactionHelper(runtime, getFallbackCommitment), clusterReady);
 		}
 		return transaction;
 	};
@@ -129,7 +200,7 @@ export function createClientHelpers(runtime: SolanaClientRuntime, store: ClientS
 			return cached.scoped;
 		}
 		const helper = createSplTokenHelper(runtime, config);
-		const scoped = wrapSplTokenHelper(helper, getFallbackCommitment, config.commitment);
+		const scoped = wrapSplTokenHelper(helper, getFallbackCommitment, clusterReady, config.commitment);
 		splTokenCache.set(cacheKey, {
 			baseCommitment: config.commitment,
 			scoped,
@@ -137,13 +208,15 @@ export function createClientHelpers(runtime: SolanaClientRuntime, store: ClientS
 		return scoped;
 	}
 
-	const prepareTransactionWithRuntime = <TMessage extends PrepareTransactionMessage>(
+	const prepareTransactionWithRuntime = async <TMessage extends PrepareTransactionMessage>(
 		options: PrepareTransactionOptions<TMessage>,
-	) =>
-		prepareTransactionUtility({
+	) => {
+		await clusterReady();
+		return prepareTransactionUtility({
 			...options,
 			rpc: runtime.rpc as Parameters<typeof prepareTransactionUtility>[0]['rpc'],
 		});
+	};
 
 	return Object.freeze({
 		get solTransfer() {
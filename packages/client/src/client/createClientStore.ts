@@ -1,12 +1,14 @@
 import type { Commitment } from '@solana/kit';
 import { createStore } from 'zustand/vanilla';
 
-import type { ClientState, ClientStore, ClusterState, ClusterStatus } from '../types';
+import type { ClientState, ClientStore, ClusterState, ClusterStatus, TransactionState } from '../types';
 import { deepFreeze } from '../utils';
 
 export type ClientStoreConfig = Readonly<{
 	commitment: Commitment;
 	endpoint: ClusterState['endpoint'];
+	/** Transaction records to start with, such as pending transactions restored after a reload. */
+	transactions?: TransactionState;
 	websocketEndpoint?: ClusterState['websocketEndpoint'];
 }>;
 
@@ -26,7 +28,7 @@ function createClusterStatus(): ClusterStatus {
  * @returns Deep-frozen client state snapshot.
  */
 export function createInitialClientState(config: ClientStoreConfig): ClientState {
-	const { commitment, endpoint, websocketEndpoint } = config;
+	const { commitment, endpoint, transactions = {}, websocketEndpoint } = config;
 	const timestamp = Date.now();
 	return deepFreeze({
 		accounts: {},
@@ -39,9 +41,13 @@ export function createInitialClientState(config: ClientStoreConfig): ClientState
 		lastUpdatedAt: timestamp,
 		subscriptions: {
 			account: {},
+			logs: {},
+			program: {},
+			root: {},
 			signature: {},
+			slot: {},
 		},
-		transactions: {},
+		transactions,
 		wallet: { status: 'disconnected' },
 	});
 }
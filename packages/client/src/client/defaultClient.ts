@@ -3,6 +3,7 @@ import type { ClusterUrl, Commitment } from '@solana/kit';
 import type { SolanaClient, SolanaClientConfig, WalletConnector } from '../types';
 import { type ClusterMoniker, resolveCluster } from '../utils/cluster';
 import { autoDiscover, backpack, phantom, solflare } from '../wallet/connectors';
+import { isMobileWalletAdapterSupported, mobileWalletAdapter } from '../wallet/mobile';
 import { createClient } from './createClient';
 
 type BasePassthrough = Omit<SolanaClientConfig, 'endpoint' | 'websocketEndpoint' | 'walletConnectors'>;
@@ -28,7 +29,9 @@ export type CreateDefaultClientOptions = Readonly<
 >;
 
 export function defaultWalletConnectors(): readonly WalletConnector[] {
-	return [...phantom(), ...solflare(), ...backpack(), ...autoDiscover()];
+	// Mobile Wallet Adapter is only reachable from Android browsers; elsewhere it would be a dead entry.
+	const mobile = isMobileWalletAdapterSupported() ? [mobileWalletAdapter()] : [];
+	return [...phantom(), ...solflare(), ...backpack(), ...autoDiscover(), ...mobile];
 }
 
 function normalizeUrl(value?: string | null): ClusterUrl | undefined {
@@ -17,7 +17,11 @@ describe('client watchers', () => {
 	let store: ClientStore;
 	let runtime: SolanaClientRuntime;
 	const accountNotifications = vi.fn();
+	const logsNotifications = vi.fn();
+	const programNotifications = vi.fn();
+	const rootNotifications = vi.fn();
 	const signatureNotifications = vi.fn();
+	const slotNotifications = vi.fn();
 
 	const flushAsync = () => new Promise((resolve) => setTimeout(resolve, 0));
 
@@ -32,7 +36,11 @@ describe('client watchers', () => {
 			rpc: {} as never,
 			rpcSubscriptions: {
 				accountNotifications,
+				logsNotifications,
+				programNotifications,
+				rootNotifications,
 				signatureNotifications,
+				slotNotifications,
 			} as unknown as SolanaClientRuntime['rpcSubscriptions'],
 		};
 	});
@@ -105,6 +113,59 @@ describe('client watchers', () => {
 		expect(record?.status).toBe('waiting');
 	});
 
+	it('follows the leader through the relay and opens its own subscription once it leads', async () => {
+		const address = 'relayAddr' as Address;
+		const leaderListeners = new Set<() => void>();
+		const relayed: Array<(value: unknown) => void> = [];
+		const unfollow = vi.fn();
+		let leader = false;
+		const relay = {
+			follow: vi.fn((_key: string, _request: unknown, listener: (value: unknown) => void) => {
+				relayed.push(listener);
+				return unfollow;
+			}),
+			isLeader: () => leader,
+			onLeaderChange(listener: () => void) {
+				leaderListeners.add(listener);
+				return () => leaderListeners.delete(listener);
+			},
+		};
+		accountNotifications.mockReturnValue({
+			subscribe: vi.fn(async () => {
+				async function* iterator() {
+					yield { value: { lamports: 7n }, context: { slot: 4n } };
+				}
+				return iterator();
+			}),
+		});
+		const listener = vi.fn();
+		const watchers = createWatchers({ logger: createLoggerMock(), relay, runtime, store });
+		const subscription = watchers.watchAccount({ address }, listener);
+
+		expect(relay.follow).toHaveBeenCalledWith(
+			'account:relayAddr:confirmed',
+			{ config: { address, commitment: 'confirmed' }, kind: 'account' },
+			expect.any(Function),
+		);
+		expect(accountNotifications).not.toHaveBeenCalled();
+		relayed[0]({ address, fetching: false, lamports: 3n, slot: 2n });
+		expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ lamports: 3n }));
+		expect(store.getState().accounts.relayAddr?.lamports).toBe(3n);
+
+		leader = true;
+		for (const notify of leaderListeners) {
+			notify();
+		}
+		await flushAsync();
+		expect(unfollow).toHaveBeenCalled();
+		expect(accountNotifications).toHaveBeenCalledTimes(1);
+		expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ lamports: 7n }));
+		subscription.abort();
+
+		watchers.dispose();
+		expect(leaderListeners.size).toBe(0);
+	});
+
 	it('logs subscription errors when not aborted', async () => {
 		const address = { toString: () => 'addr' } as unknown as Address;
 		const logger = vi.fn();
@@ -123,4 +184,314 @@ describe('client watchers', () => {
 			}),
 		);
 	});
+	it('reconnects dropped account subscriptions and backfills missed state', async () => {
+		const address = { toString: () => 'addr' } as unknown as Address;
+		const logger = vi.fn();
+		let calls = 0;
+		accountNotifications.mockReturnValue({
+			subscribe: vi.fn(async () => {
+				calls += 1;
+				if (calls === 1) {
+					throw new Error('socket closed');
+				}
+				async function* iterator() {
+					yield { value: { lamports: 7n }, context: { slot: 5n } };
+				}
+				return iterator();
+			}),
+		});
+		const getAccountInfo = vi.fn(() => ({
+			send: vi.fn().mockResolvedValue({ context: { slot: 4n }, value: { data: 'missed', lamports: 6n } }),
+		}));
+		runtime.rpc = { getAccountInfo } as unknown as SolanaClientRuntime['rpc'];
+		const listener = vi.fn();
+		const watchers = createWatchers({ logger, reconnect: { baseDelayMs: 0, jitter: 0 }, runtime, store });
+		watchers.watchAccount({ address }, listener);
+		await flushAsync();
+		await flushAsync();
+
+		expect(calls).toBe(2);
+		expect(getAccountInfo).toHaveBeenCalledWith(address, { commitment: 'confirmed' });
+		expect(listener.mock.calls.map(([entry]) => entry.lamports)).toEqual([6n, 7n]);
+		expect(store.getState().accounts.addr.lamports).toBe(7n);
+		expect(store.getState().subscriptions.account.addr).toEqual({ status: 'active' });
+	});
+
+	it('exposes a reconnecting status while waiting to resubscribe', async () => {
+		const address = { toString: () => 'addr' } as unknown as Address;
+		const error = new Error('socket closed');
+		accountNotifications.mockReturnValue({
+			subscribe: vi.fn(async () => {
+				throw error;
+			}),
+		});
+		const watchers = createWatchers({
+			logger: vi.fn(),
+			reconnect: { baseDelayMs: 60_000, jitter: 0 },
+			runtime,
+			store,
+		});
+		const subscription = watchers.watchAccount({ address }, () => undefined);
+		await flushAsync();
+		expect(store.getState().subscriptions.account.addr).toEqual({ attempt: 1, error, status: 'reconnecting' });
+		subscription.abort();
+		expect(store.getState().subscriptions.account.addr).toEqual({ status: 'inactive' });
+	});
+
+	it('completes signature watchers when the backfill finds a missed confirmation', async () => {
+		const signature = { toString: () => 'sig123' } as unknown as Signature;
+		let calls = 0;
+		signatureNotifications.mockReturnValue({
+			subscribe: vi.fn(async () => {
+				calls += 1;
+				if (calls === 1) {
+					throw new Error('socket closed');
+				}
+				return (async function* iterator() {})();
+			}),
+		});
+		runtime.rpc = {
+			getSignatureStatuses: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue({
+					context: { slot: 12n },
+					value: [{ confirmationStatus: 'finalized', err: null }],
+				}),
+			})),
+		} as unknown as SolanaClientRuntime['rpc'];
+		const listener = vi.fn();
+		const watchers = createWatchers({ logger: vi.fn(), reconnect: { baseDelayMs: 0, jitter: 0 }, runtime, store });
+		watchers.watchSignature({ signature }, listener);
+		await flushAsync();
+		await flushAsync();
+
+		expect(listener).toHaveBeenCalledWith({ context: { slot: 12n }, value: { err: null } });
+		expect(store.getState().transactions.sig123?.status).toBe('waiting');
+		expect(store.getState().subscriptions.signature.sig123).toEqual({ status: 'inactive' });
+	});
+
+	it('marks subscriptions as errored when reconnects are disabled', async () => {
+		const address = { toString: () => 'addr' } as unknown as Address;
+		const error = new Error('subscribe failed');
+		accountNotifications.mockReturnValue({
+			subscribe: vi.fn(async () => {
+				throw error;
+			}),
+		});
+		const watchers = createWatchers({ logger: vi.fn(), reconnect: false, runtime, store });
+		watchers.watchAccount({ address }, () => undefined);
+		await flushAsync();
+		expect(store.getState().subscriptions.account.addr).toEqual({ error, status: 'error' });
+		expect(accountNotifications).toHaveBeenCalledTimes(1);
+	});
+
+	it('subscribes only once the cluster check passes', async () => {
+		const address = { toString: () => 'addr' } as unknown as Address;
+		const error = new Error('Endpoint serves devnet, expected mainnet-beta.');
+		const watchers = createWatchers({
+			clusterReady: () => Promise.reject(error),
+			logger: vi.fn(),
+			runtime,
+			store,
+		});
+		watchers.watchAccount({ address }, () => undefined);
+		await flushAsync();
+		expect(accountNotifications).not.toHaveBeenCalled();
+		expect(store.getState().subscriptions.account.addr).toEqual({ error, status: 'error' });
+	});
+
+	it('shares one upstream subscription between identical watchers until the last one aborts', async () => {
+		const address = { toString: () => 'addr' } as unknown as Address;
+		const signals: AbortSignal[] = [];
+		let push: (notification: unknown) => void = () => undefined;
+		accountNotifications.mockReturnValue({
+			subscribe: vi.fn(async ({ abortSignal }: { abortSignal: AbortSignal }) => {
+				signals.push(abortSignal);
+				async function* iterator() {
+					while (!abortSignal.aborted) {
+						yield await new Promise((resolve) => {
+							push = resolve;
+						});
+					}
+				}
+				return iterator();
+			}),
+		});
+		const watchers = createWatchers({ logger: vi.fn(), runtime, store });
+		const first = vi.fn();
+		const second = vi.fn();
+		const balance = vi.fn();
+		const firstSubscription = watchers.watchAccount({ address }, first);
+		const secondSubscription = watchers.watchAccount({ address, commitment: 'confirmed' }, second);
+		const balanceSubscription = watchers.watchBalance({ address }, balance);
+		await flushAsync();
+		push({ context: { slot: 4n }, value: { lamports: 7n } });
+		await flushAsync();
+
+		expect(accountNotifications).toHaveBeenCalledTimes(1);
+		expect(first).toHaveBeenCalledWith(expect.objectContaining({ lamports: 7n, slot: 4n }));
+		expect(second).toHaveBeenCalledTimes(1);
+		expect(balance).toHaveBeenCalledWith(7n);
+
+		firstSubscription.abort();
+		firstSubscription.abort();
+		balanceSubscription.abort();
+		expect(signals[0].aborted).toBe(false);
+		expect(store.getState().subscriptions.account.addr).toEqual({ status: 'active' });
+
+		secondSubscription.abort();
+		expect(signals[0].aborted).toBe(true);
+		expect(store.getState().subscriptions.account.addr).toEqual({ status: 'inactive' });
+	});
+
+	it('pins watched accounts in the account cache until every subscriber has aborted', async () => {
+		const address = { toString: () => 'addr' } as unknown as Address;
+		accountNotifications.mockReturnValue({
+			subscribe: vi.fn(async ({ abortSignal }: { abortSignal: AbortSignal }) => {
+				async function* iterator() {
+					await new Promise((resolve) => abortSignal.addEventListener('abort', resolve));
+					yield* [];
+				}
+				return iterator();
+			}),
+		});
+		const releases = [vi.fn(), vi.fn()];
+		const pin = vi.fn(() => releases[pin.mock.calls.length - 1]);
+		const accountCache = { dispose: vi.fn(), pin, prune: vi.fn(), touch: vi.fn() };
+		const watchers = createWatchers({ accountCache, logger: vi.fn(), runtime, store });
+		const subscription = watchers.watchAccount({ address }, vi.fn());
+		watchers.watchAccount({ address }, vi.fn()).abort();
+		await flushAsync();
+
+		expect(pin).toHaveBeenCalledTimes(2);
+		expect(pin).toHaveBeenCalledWith('addr');
+		expect(releases[0]).not.toHaveBeenCalled();
+		expect(releases[1]).toHaveBeenCalledTimes(1);
+
+		subscription.abort();
+		await flushAsync();
+		expect(releases[0]).toHaveBeenCalledTimes(1);
+	});
+
+	it('pins accounts followed through the relay', () => {
+		const unpin = vi.fn();
+		const accountCache = { dispose: vi.fn(), pin: vi.fn(() => unpin), prune: vi.fn(), touch: vi.fn() };
+		const relay = {
+			follow: vi.fn(() => vi.fn()),
+			isLeader: () => false,
+			onLeaderChange: vi.fn(() => vi.fn()),
+		};
+		const watchers = createWatchers({ accountCache, logger: vi.fn(), relay, runtime, store });
+		const subscription = watchers.watchAccount({ address: 'followed' as Address }, vi.fn());
+
+		expect(relay.follow).toHaveBeenCalledTimes(1);
+		expect(accountCache.pin).toHaveBeenCalledWith('followed');
+		subscription.abort();
+		expect(unpin).toHaveBeenCalledTimes(1);
+	});
+
+	it('opens separate upstream subscriptions per commitment', async () => {
+		const address = { toString: () => 'addr' } as unknown as Address;
+		const signature = { toString: () => 'sig123' } as unknown as Signature;
+		const pending = {
+			subscribe: vi.fn(async () => ({
+				async *[Symbol.asyncIterator]() {
+					await new Promise(() => undefined);
+				},
+			})),
+		};
+		accountNotifications.mockReturnValue(pending);
+		signatureNotifications.mockReturnValue(pending);
+		const watchers = createWatchers({ logger: vi.fn(), runtime, store });
+		watchers.watchAccount({ address, commitment: 'processed' }, () => undefined);
+		watchers.watchAccount({ address, commitment: 'finalized' }, () => undefined);
+		watchers.watchSignature({ signature }, () => undefined);
+		watchers.watchSignature({ signature }, () => undefined);
+		watchers.watchSignature({ commitment: 'finalized', signature }, () => undefined);
+		await flushAsync();
+
+		expect(accountNotifications).toHaveBeenCalledTimes(2);
+		expect(signatureNotifications).toHaveBeenCalledTimes(2);
+	});
+
+	it('watches program accounts with filters and flattens notifications', async () => {
+		const programId = { toString: () => 'program' } as unknown as Address;
+		const account = { data: ['', 'base64'], executable: false, lamports: 1n, owner: programId, space: 0n };
+		programNotifications.mockReturnValue({
+			subscribe: vi.fn(async () => {
+				async function* iterator() {
+					yield { context: { slot: 5n }, value: { account, pubkey: 'acct' } };
+				}
+				return iterator();
+			}),
+		});
+		const watchers = createWatchers({ logger: vi.fn(), runtime, store });
+		const filters = [{ dataSize: 165n }];
+		const listener = vi.fn();
+		watchers.watchProgramAccounts({ filters, programId }, listener);
+		await flushAsync();
+
+		expect(programNotifications).toHaveBeenCalledWith(programId, {
+			commitment: 'confirmed',
+			encoding: 'base64',
+			filters,
+		});
+		expect(listener).toHaveBeenCalledWith({ account, pubkey: 'acct', slot: 5n });
+		expect(store.getState().subscriptions.program.program).toEqual({ status: 'active' });
+	});
+
+	it('watches logs for all transactions or a mentioned address', async () => {
+		const mentions = { toString: () => 'mentioned' } as unknown as Address;
+		logsNotifications.mockReturnValue({
+			subscribe: vi.fn(async () => {
+				async function* iterator() {
+					yield { context: { slot: 7n }, value: { err: null, logs: ['Program log: hi'], signature: 'sig' } };
+				}
+				return iterator();
+			}),
+		});
+		const watchers = createWatchers({ logger: vi.fn(), runtime, store });
+		const listener = vi.fn();
+		const subscription = watchers.watchLogs({ mentions }, listener);
+		watchers.watchLogs({ commitment: 'processed' }, () => undefined);
+		await flushAsync();
+
+		expect(logsNotifications).toHaveBeenCalledWith({ mentions: [mentions] }, { commitment: 'confirmed' });
+		expect(logsNotifications).toHaveBeenCalledWith('all', { commitment: 'processed' });
+		expect(listener).toHaveBeenCalledWith({ err: null, logs: ['Program log: hi'], signature: 'sig', slot: 7n });
+		subscription.abort();
+		expect(store.getState().subscriptions.logs.mentioned).toEqual({ status: 'inactive' });
+	});
+
+	it('shares slot and root subscriptions between listeners', async () => {
+		const slot = { parent: 1n, root: 0n, slot: 2n };
+		slotNotifications.mockReturnValue({
+			subscribe: vi.fn(async () => {
+				async function* iterator() {
+					yield slot;
+				}
+				return iterator();
+			}),
+		});
+		rootNotifications.mockReturnValue({
+			subscribe: vi.fn(async () => {
+				async function* iterator() {
+					yield 4n;
+				}
+				return iterator();
+			}),
+		});
+		const watchers = createWatchers({ logger: vi.fn(), runtime, store });
+		const slotListeners = [vi.fn(), vi.fn()];
+		const rootListener = vi.fn();
+		for (const listener of slotListeners) {
+			watchers.watchSlot(listener);
+		}
+		watchers.watchRoot(rootListener);
+		await flushAsync();
+
+		expect(slotNotifications).toHaveBeenCalledTimes(1);
+		expect(slotListeners[0]).toHaveBeenCalledWith(slot);
+		expect(slotListeners[1]).toHaveBeenCalledWith(slot);
+		expect(rootListener).toHaveBeenCalledWith(4n);
+	});
 });
@@ -1,34 +1,143 @@
-import type { Lamports, SolanaRpcSubscriptionsApi } from '@solana/kit';
+import type { Address, Lamports, SolanaRpcSubscriptionsApi } from '@solana/kit';
 
+import type { AccountCacheController } from '../accounts/cache';
+import { type AccountDecoders, decodeAccount } from '../accounts/decoders';
 import { createLogger, formatError } from '../logging/logger';
+import { getRetryDelay, type RetryPolicy } from '../rpc/retry';
+import { confirmationMeetsCommitment, deriveConfirmationStatus } from '../signatures/status';
 import type {
 	AccountCacheEntry,
 	AccountWatcherConfig,
 	BalanceWatcherConfig,
 	ClientStore,
 	ClientWatchers,
+	LogsNotification,
+	LogsWatcherConfig,
+	ProgramAccountNotification,
+	ProgramAccountsWatcherConfig,
 	SignatureWatcherConfig,
+	SlotNotification,
 	SolanaClientRuntime,
+	SubscriptionState,
 	SubscriptionStatus,
+	WatchSubscription,
 } from '../types';
-import { now } from '../utils';
+import { now, sleep } from '../utils';
+import { stableStringify } from '../utils/stableStringify';
 
-type SubscriptionKind = 'account' | 'signature';
+type SubscriptionKind = keyof SubscriptionState;
+
+/** Describes a watcher so another client instance can open the same upstream subscription. */
+export type RelayedSubscription = Readonly<
+	| { config: AccountWatcherConfig; kind: 'account' }
+	| { config: LogsWatcherConfig; kind: 'logs' }
+	| { config: ProgramAccountsWatcherConfig; kind: 'program' }
+	| { config: SignatureWatcherConfig; kind: 'signature' }
+	| { kind: 'root' }
+	| { kind: 'slot' }
+>;
+
+/**
+ * Lets several client instances share websocket subscriptions: only the leader opens them, the others receive the
+ * leader's notifications.
+ */
+export type SubscriptionRelay = Readonly<{
+	/**
+	 * Receives notifications for a subscription opened by the leader.
+	 *
+	 * @returns Function that stops following the subscription.
+	 */
+	follow(key: string, request: RelayedSubscription, listener: (value: unknown) => void): () => void;
+	isLeader(): boolean;
+	/**
+	 * Registers a callback invoked whenever leadership moves to another instance.
+	 *
+	 * @returns Function that removes the callback.
+	 */
+	onLeaderChange(listener: () => void): () => void;
+}>;
 
 type WatcherDeps = Readonly<{
+	accountCache?: AccountCacheController;
+	accountDecoders?: AccountDecoders;
+	/** Resolves once the initial endpoint passed verification; subscriptions open only after it resolves. */
+	clusterReady?: () => Promise<void>;
 	logger?: ReturnType<typeof createLogger>;
+	reconnect?: RetryPolicy | false;
+	relay?: SubscriptionRelay;
 	runtime: SolanaClientRuntime;
 	store: ClientStore;
 }>;
 
+type SubscriptionLoop<TNotification> = Readonly<{
+	abortController: AbortController;
+	/** Fetches state that may have been missed while disconnected; resolves `true` when nothing is left to watch. */
+	backfill?(abortSignal: AbortSignal): Promise<boolean>;
+	id: string;
+	kind: SubscriptionKind;
+	logData: Record<string, unknown>;
+	onNotification(notification: TNotification): void;
+	subscribe(abortSignal: AbortSignal): Promise<AsyncIterable<TNotification>>;
+}>;
+
+type AccountNotificationValue = Readonly<{ data?: unknown; lamports?: Lamports; owner?: Address }>;
+
+type AccountNotification = Readonly<{
+	context?: Readonly<{ slot: bigint }>;
+	value: AccountNotificationValue | null;
+}>;
+
+type RpcResponseNotification<TValue> = Readonly<{ context: Readonly<{ slot: bigint }>; value: TValue }>;
+
+type SharedSubscription<TValue> = {
+	readonly id: string;
+	readonly kind: SubscriptionKind;
+	readonly listeners: Set<(value: TValue) => void>;
+	/** Re-opens the subscription, for example after leadership moved to another client instance. */
+	readonly restart: () => void;
+	readonly rpcSubscriptions: SolanaClientRuntime['rpcSubscriptions'];
+	/** Tears down the upstream subscription or stops following the leader's. */
+	stop: () => void;
+};
+
+type SharedSubscriptionSource<TValue> = Readonly<{
+	/** Applies a value relayed from the leader to this client's store before it reaches listeners. */
+	receive?(value: TValue): void;
+	request: RelayedSubscription;
+	start(broadcast: (value: TValue) => void, abortController: AbortController): Promise<void>;
+}>;
+
+const DEFAULT_RECONNECT_POLICY: RetryPolicy = {
+	baseDelayMs: 500,
+	maxAttempts: Number.POSITIVE_INFINITY,
+	maxDelayMs: 30_000,
+};
+
 /**
  * Creates watcher helpers that wrap RPC subscriptions and keep store metadata in sync.
  *
  * @param deps - Dependencies required to construct watcher helpers.
- * @returns Collection of watcher functions.
+ * @returns Collection of watcher functions, plus `dispose` to stop following leader changes.
  */
-export function createWatchers({ logger: inputLogger, runtime, store }: WatcherDeps): ClientWatchers {
+export function createWatchers({
+	accountCache,
+	accountDecoders,
+	clusterReady = () => Promise.resolve(),
+	logger: inputLogger,
+	reconnect,
+	relay,
+	runtime,
+	store,
+}: WatcherDeps): ClientWatchers & Readonly<{ dispose(): void }> {
 	const logger = inputLogger ?? createLogger();
+	const reconnectPolicy = reconnect === false ? undefined : { ...DEFAULT_RECONNECT_POLICY, ...reconnect };
+	const sharedSubscriptions = new Map<string, SharedSubscription<unknown>>();
+
+	const stopFollowingLeader = relay?.onLeaderChange(() => {
+		for (const shared of [...sharedSubscriptions.values()]) {
+			shared.restart();
+		}
+	});
 
 	/**
 	 * Updates subscription metadata in the store for the provided subscription kind and identifier.
@@ -64,27 +173,276 @@ export function createWatchers({ logger: inputLogger, runtime, store }: WatcherD
 	}
 
 	/**
-	 * Creates a subscription handle that exposes an abort method.
+	 * Logs watcher failures that were not caused by the watcher being aborted.
 	 *
 	 * @param kind - Subscription category.
-	 * @param id - Identifier for the subscription instance.
-	 * @param abortController - Controller associated with the subscription.
-	 * @returns Handle with an `abort` method.
+	 * @param logData - Identifying fields included in the log event.
+	 * @param abortController - Controller tied to the upstream subscription.
+	 * @returns Error handler suitable for `Promise.prototype.catch`.
 	 */
-	function createSubscriptionHandle(kind: SubscriptionKind, id: string, abortController: AbortController) {
+	function logWatcherError(
+		kind: SubscriptionKind,
+		logData: Record<string, unknown>,
+		abortController: AbortController,
+	) {
+		return (error: unknown): void => {
+			if (!abortController.signal.aborted) {
+				logger({
+					data: { ...logData, ...formatError(error) },
+					level: 'error',
+					message: `${kind} watcher error`,
+				});
+			}
+		};
+	}
+
+	/**
+	 * Attaches a listener to the upstream subscription identified by `key`, starting it when no identical watcher is
+	 * active. The upstream subscription is torn down once every handle sharing it has been aborted. When a relay is
+	 * configured and another client instance leads, the leader's notifications are followed instead.
+	 *
+	 * @param kind - Subscription category.
+	 * @param id - Identifier used for store metadata.
+	 * @param key - Sharing key; watchers with equal keys piggy-back on the same upstream subscription.
+	 * @param listener - Callback invoked with each value broadcast by the upstream subscription.
+	 * @param source - Starts the upstream subscription and describes it for the relay.
+	 * @returns Handle with an `abort` method that detaches this listener.
+	 */
+	function joinSharedSubscription<TValue>(
+		kind: SubscriptionKind,
+		id: string,
+		key: string,
+		listener: (value: TValue) => void,
+		source: SharedSubscriptionSource<TValue>,
+	): WatchSubscription {
+		const sharedKey = `${kind}:${key}`;
+		let shared = sharedSubscriptions.get(sharedKey) as SharedSubscription<TValue> | undefined;
+		// Subscriptions opened before a cluster switch keep talking to the previous endpoint; never join those.
+		if (!shared || shared.rpcSubscriptions !== runtime.rpcSubscriptions) {
+			const created: SharedSubscription<TValue> = {
+				id,
+				kind,
+				listeners: new Set(),
+				restart() {
+					created.stop();
+					created.stop = connect();
+				},
+				rpcSubscriptions: runtime.rpcSubscriptions,
+				stop: () => undefined,
+			};
+			const broadcast = (value: TValue) => {
+				for (const entry of [...created.listeners]) {
+					entry(value);
+				}
+			};
+
+			/**
+			 * Opens the upstream subscription, or follows the leader's when this instance does not lead.
+			 *
+			 * @returns Function that stops what was opened.
+			 */
+			function connect(): () => void {
+				if (relay && !relay.isLeader()) {
+					setSubscriptionStatus(kind, id, { status: 'active' });
+					return relay.follow(sharedKey, source.request, (value) => {
+						source.receive?.(value as TValue);
+						broadcast(value as TValue);
+					});
+				}
+				const abortController = new AbortController();
+				void source.start(broadcast, abortController).finally(() => {
+					if (!abortController.signal.aborted && sharedSubscriptions.get(sharedKey) === created) {
+						sharedSubscriptions.delete(sharedKey);
+					}
+				});
+				return () => abortController.abort();
+			}
+
+			shared = created;
+			sharedSubscriptions.set(sharedKey, created as SharedSubscription<unknown>);
+			created.stop = connect();
+		}
+		const current = shared;
+		// Wrap the listener so the same callback registered twice still counts as two references.
+		const entry = (value: TValue) => listener(value);
+		current.listeners.add(entry);
+		let attached = true;
+
 		/**
-		 * Cancels the underlying subscription and updates store metadata.
+		 * Detaches the listener and tears the upstream subscription down when it was the last one.
 		 *
-		 * @returns Nothing; aborts the subscription.
+		 * @returns Nothing; may abort the upstream subscription.
 		 */
 		function abort(): void {
-			abortController.abort();
-			onAbort(kind, id);
+			if (!attached) {
+				return;
+			}
+			attached = false;
+			current.listeners.delete(entry);
+			if (current.listeners.size > 0) {
+				return;
+			}
+			if (sharedSubscriptions.get(sharedKey) === current) {
+				sharedSubscriptions.delete(sharedKey);
+			}
+			current.stop();
+			const stillWatched = [...sharedSubscriptions.values()].some(
+				(subscription) => subscription.kind === kind && subscription.id === id,
+			);
+			if (!stillWatched) {
+				onAbort(kind, id);
+			}
 		}
 
 		return { abort };
 	}
 
+	/**
+	 * Runs a subscription until it completes or is aborted, reconnecting with backoff whenever it fails and
+	 * backfilling missed state once the subscription is re-established.
+	 *
+	 * @param loop - Subscription wiring for a single watcher.
+	 * @returns Promise that resolves when the subscription completes, is aborted, or gives up reconnecting.
+	 */
+	async function runSubscription<TNotification>(loop: SubscriptionLoop<TNotification>): Promise<void> {
+		const { abortController, id, kind } = loop;
+		const signal = abortController.signal;
+		setSubscriptionStatus(kind, id, { status: 'activating' });
+		try {
+			await clusterReady();
+		} catch (error) {
+			if (!signal.aborted) {
+				setSubscriptionStatus(kind, id, { error, status: 'error' });
+			}
+			return;
+		}
+		let attempt = 0;
+		while (!signal.aborted) {
+			// Each attempt gets its own controller so a failed or completed attempt can be torn down on its own.
+			const attemptController = new AbortController();
+			const abortAttempt = () => attemptController.abort(signal.reason);
+			signal.addEventListener('abort', abortAttempt, { once: true });
+			try {
+				const iterator = await loop.subscribe(attemptController.signal);
+				if (signal.aborted) {
+					return;
+				}
+				if (attempt > 0 && (await backfillSubscription(loop, attemptController.signal))) {
+					attemptController.abort();
+					setSubscriptionStatus(kind, id, { status: 'inactive' });
+					return;
+				}
+				attempt = 0;
+				setSubscriptionStatus(kind, id, { status: 'active' });
+				for await (const notification of iterator) {
+					loop.onNotification(notification);
+				}
+				return;
+			} catch (error) {
+				attemptController.abort();
+				if (signal.aborted) {
+					return;
+				}
+				attempt += 1;
+				logger({
+					data: { ...loop.logData, attempt, ...formatError(error) },
+					level: 'error',
+					message: `${kind} subscription failed`,
+				});
+				if (
+					!reconnectPolicy ||
+					attempt >= (reconnectPolicy.maxAttempts ?? Number.POSITIVE_INFINITY) ||
+					(reconnectPolicy.shouldRetry && !reconnectPolicy.shouldRetry(error, attempt))
+				) {
+					setSubscriptionStatus(kind, id, { error, status: 'error' });
+					return;
+				}
+				setSubscriptionStatus(kind, id, { attempt, error, status: 'reconnecting' });
+				try {
+					await sleep(getRetryDelay(reconnectPolicy, attempt), signal);
+				} catch {
+					return;
+				}
+			} finally {
+				signal.removeEventListener('abort', abortAttempt);
+			}
+		}
+	}
+
+	/**
+	 * Runs the backfill step for a resubscribed watcher, logging failures instead of tearing down the subscription.
+	 *
+	 * @param loop - Subscription wiring for a single watcher.
+	 * @param abortSignal - Signal tied to the current subscription attempt.
+	 * @returns `true` when the backfill shows the watcher has nothing left to observe.
+	 */
+	async function backfillSubscription<TNotification>(
+		loop: SubscriptionLoop<TNotification>,
+		abortSignal: AbortSignal,
+	): Promise<boolean> {
+		if (!loop.backfill) {
+			return false;
+		}
+		try {
+			return await loop.backfill(abortSignal);
+		} catch (error) {
+			if (!abortSignal.aborted) {
+				logger({
+					data: { ...loop.logData, ...formatError(error) },
+					level: 'warn',
+					message: `${loop.kind} backfill failed`,
+				});
+			}
+			return false;
+		}
+	}
+
+	/**
+	 * Writes an account snapshot to the store cache and forwards it to the listener.
+	 *
+	 * @param config - Watcher configuration specifying the target account.
+	 * @param listener - Callback invoked with the account cache entry.
+	 * @param value - Account payload from a notification or RPC response.
+	 * @param slot - Slot the payload was observed at.
+	 * @returns Nothing; mutates the store.
+	 */
+	function applyAccountUpdate(
+		config: AccountWatcherConfig,
+		listener: (account: AccountCacheEntry) => void,
+		value: AccountNotificationValue | null | undefined,
+		slot: bigint | null,
+	): void {
+		const entry: AccountCacheEntry = {
+			address: config.address,
+			data: value?.data,
+			decoded: decodeAccount(accountDecoders, config.address, value, logger),
+			error: undefined,
+			fetching: false,
+			lamports: value?.lamports ?? null,
+			lastFetchedAt: now(),
+			slot,
+		};
+		listener(entry);
+		writeAccountEntry(entry);
+	}
+
+	/**
+	 * Stores an account cache entry.
+	 *
+	 * @param entry - Entry observed by this client or relayed from the leader.
+	 * @returns Nothing; mutates the store.
+	 */
+	function writeAccountEntry(entry: AccountCacheEntry): void {
+		store.setState((state) => ({
+			...state,
+			accounts: {
+				...state.accounts,
+				[entry.address.toString()]: entry,
+			},
+			lastUpdatedAt: now(),
+		}));
+	}
+
 	/**
 	 * Consumes account notifications and synchronizes store cache with on-chain updates.
 	 *
@@ -99,45 +457,26 @@ export function createWatchers({ logger: inputLogger, runtime, store }: WatcherD
 		abortController: AbortController,
 	): Promise<void> {
 		const commitment = config.commitment ?? store.getState().cluster.commitment;
-		const plan = runtime.rpcSubscriptions.accountNotifications(config.address, { commitment });
 		const key = config.address.toString();
-		setSubscriptionStatus('account', key, { status: 'activating' });
-		abortController.signal.addEventListener('abort', () => onAbort('account', key));
-		try {
-			const iterator = await plan.subscribe({ abortSignal: abortController.signal });
-			setSubscriptionStatus('account', key, { status: 'active' });
-			for await (const notification of iterator) {
-				const lamports = notification.value?.lamports ?? null;
-				const slot = notification.context?.slot ?? null;
-				const entry: AccountCacheEntry = {
-					address: config.address,
-					data: notification.value?.data,
-					error: undefined,
-					fetching: false,
-					lamports,
-					lastFetchedAt: now(),
-					slot,
-				};
-				listener(entry);
-				store.setState((state) => ({
-					...state,
-					accounts: {
-						...state.accounts,
-						[key]: entry,
-					},
-					lastUpdatedAt: now(),
-				}));
-			}
-		} catch (error) {
-			if (!abortController.signal.aborted) {
-				logger({
-					data: { address: key, ...formatError(error) },
-					level: 'error',
-					message: 'account subscription failed',
-				});
-				setSubscriptionStatus('account', key, { error, status: 'error' });
-			}
-		}
+		await runSubscription<AccountNotification>({
+			abortController,
+			async backfill(abortSignal) {
+				const response = await runtime.rpc.getAccountInfo(config.address, { commitment }).send({ abortSignal });
+				applyAccountUpdate(config, listener, response.value, response.context.slot);
+				return false;
+			},
+			id: key,
+			kind: 'account',
+			logData: { address: key },
+			onNotification(notification) {
+				applyAccountUpdate(config, listener, notification.value, notification.context?.slot ?? null);
+			},
+			subscribe(abortSignal) {
+				return runtime.rpcSubscriptions
+					.accountNotifications(config.address, { commitment })
+					.subscribe({ abortSignal });
+			},
+		});
 	}
 
 	/**
@@ -148,17 +487,26 @@ export function createWatchers({ logger: inputLogger, runtime, store }: WatcherD
 	 * @returns Subscription handle that allows aborting the subscription.
 	 */
 	function watchAccount(config: AccountWatcherConfig, listener: (account: AccountCacheEntry) => void) {
-		const abortController = new AbortController();
-		handleAccountNotifications(config, listener, abortController).catch((error) => {
-			if (!abortController.signal.aborted) {
-				logger({
-					data: { address: config.address.toString(), ...formatError(error) },
-					level: 'error',
-					message: 'account watcher error',
-				});
-			}
+		const commitment = config.commitment ?? store.getState().cluster.commitment;
+		const id = config.address.toString();
+		// Watched accounts stay in the cache regardless of the eviction policy, whether this instance opened the
+		// subscription or follows the leader's.
+		const unpin = accountCache?.pin(id);
+		const subscription = joinSharedSubscription('account', id, `${id}:${commitment}`, listener, {
+			receive: writeAccountEntry,
+			request: { config: { ...config, commitment }, kind: 'account' },
+			start(broadcast, abortController) {
+				return handleAccountNotifications({ ...config, commitment }, broadcast, abortController).catch(
+					logWatcherError('account', { address: id }, abortController),
+				);
+			},
 		});
-		return createSubscriptionHandle('account', config.address.toString(), abortController);
+		return {
+			abort() {
+				subscription.abort();
+				unpin?.();
+			},
+		};
 	}
 
 	/**
@@ -176,6 +524,45 @@ export function createWatchers({ logger: inputLogger, runtime, store }: WatcherD
 		});
 	}
 
+	/**
+	 * Records a signature notification in the transactions map and forwards it to the listener.
+	 *
+	 * @param config - Watcher configuration containing the observed signature.
+	 * @param listener - Callback invoked with the notification payload.
+	 * @param notification - Notification received from the subscription or synthesized during backfill.
+	 * @returns Nothing; mutates the store.
+	 */
+	function applySignatureNotification(
+		config: SignatureWatcherConfig,
+		listener: (notification: unknown) => void,
+		notification: unknown,
+	): void {
+		listener(notification);
+		recordSignatureNotification(config);
+	}
+
+	/**
+	 * Marks the watched transaction as waiting for confirmation.
+	 *
+	 * @param config - Watcher configuration containing the observed signature.
+	 * @returns Nothing; mutates the store.
+	 */
+	function recordSignatureNotification(config: SignatureWatcherConfig): void {
+		const key = config.signature.toString();
+		store.setState((state) => ({
+			...state,
+			lastUpdatedAt: now(),
+			transactions: {
+				...state.transactions,
+				[key]: {
+					lastUpdatedAt: now(),
+					signature: config.signature,
+					status: 'waiting',
+				},
+			},
+		}));
+	}
+
 	/**
 	 * Consumes signature notifications and updates transaction metadata.
 	 *
@@ -190,41 +577,40 @@ export function createWatchers({ logger: inputLogger, runtime, store }: WatcherD
 		abortController: AbortController,
 	): Promise<void> {
 		const commitment = config.commitment ?? store.getState().cluster.commitment;
-		const plan = runtime.rpcSubscriptions.signatureNotifications(config.signature, {
-			commitment,
-			enableReceivedNotification: config.enableReceivedNotification,
-		} as Parameters<SolanaRpcSubscriptionsApi['signatureNotifications']>[1]);
 		const key = config.signature.toString();
-		setSubscriptionStatus('signature', key, { status: 'activating' });
-		abortController.signal.addEventListener('abort', () => onAbort('signature', key));
-		try {
-			const iterator = await plan.subscribe({ abortSignal: abortController.signal });
-			setSubscriptionStatus('signature', key, { status: 'active' });
-			for await (const notification of iterator) {
-				listener(notification);
-				store.setState((state) => ({
-					...state,
-					lastUpdatedAt: now(),
-					transactions: {
-						...state.transactions,
-						[key]: {
-							lastUpdatedAt: now(),
-							signature: config.signature,
-							status: 'waiting',
-						},
-					},
-				}));
-			}
-		} catch (error) {
-			if (!abortController.signal.aborted) {
-				logger({
-					data: { signature: key, ...formatError(error) },
-					level: 'error',
-					message: 'signature subscription failed',
+		await runSubscription({
+			abortController,
+			async backfill(abortSignal) {
+				// Signature subscriptions only report future confirmations, so check whether one was missed.
+				const response = await runtime.rpc.getSignatureStatuses([config.signature]).send({ abortSignal });
+				const status = response.value[0];
+				if (
+					!status ||
+					(!status.err && !confirmationMeetsCommitment(deriveConfirmationStatus(status), commitment))
+				) {
+					return false;
+				}
+				applySignatureNotification(config, listener, {
+					context: response.context,
+					value: { err: status.err },
 				});
-				setSubscriptionStatus('signature', key, { error, status: 'error' });
-			}
-		}
+				return true;
+			},
+			id: key,
+			kind: 'signature',
+			logData: { signature: key },
+			onNotification(notification) {
+				applySignatureNotification(config, listener, notification);
+			},
+			subscribe(abortSignal) {
+				return runtime.rpcSubscriptions
+					.signatureNotifications(config.signature, {
+						commitment,
+						enableReceivedNotification: config.enableReceivedNotification,
+					} as Parameters<SolanaRpcSubscriptionsApi['signatureNotifications']>[1])
+					.subscribe({ abortSignal });
+			},
+		});
 	}
 
 	/**
@@ -235,22 +621,155 @@ export function createWatchers({ logger: inputLogger, runtime, store }: WatcherD
 	 * @returns Subscription handle that allows aborting the subscription.
 	 */
 	function watchSignature(config: SignatureWatcherConfig, listener: (notification: unknown) => void) {
-		const abortController = new AbortController();
-		handleSignatureNotifications(config, listener, abortController).catch((error) => {
-			if (!abortController.signal.aborted) {
-				logger({
-					data: { signature: config.signature.toString(), ...formatError(error) },
-					level: 'error',
-					message: 'signature watcher error',
-				});
-			}
+		const commitment = config.commitment ?? store.getState().cluster.commitment;
+		const id = config.signature.toString();
+		const key = `${id}:${commitment}:${config.enableReceivedNotification ? 'received' : 'final'}`;
+		return joinSharedSubscription('signature', id, key, listener, {
+			receive: () => recordSignatureNotification(config),
+			request: { config: { ...config, commitment }, kind: 'signature' },
+			start: (broadcast, abortController) =>
+				handleSignatureNotifications({ ...config, commitment }, broadcast, abortController).catch(
+					logWatcherError('signature', { signature: id }, abortController),
+				),
+		});
+	}
+
+	/**
+	 * Subscribes to changes of every account owned by a program, optionally narrowed with `memcmp`/`dataSize` filters.
+	 *
+	 * @param config - Watcher configuration specifying the program and filters.
+	 * @param listener - Callback invoked with each changed program account.
+	 * @returns Subscription handle that allows aborting the subscription.
+	 */
+	function watchProgramAccounts(
+		config: ProgramAccountsWatcherConfig,
+		listener: (notification: ProgramAccountNotification) => void,
+	) {
+		const commitment = config.commitment ?? store.getState().cluster.commitment;
+		const encoding = config.encoding ?? 'base64';
+		const id = config.programId.toString();
+		const key = `${id}:${commitment}:${encoding}:${stableStringify(config.filters ?? [])}`;
+		return joinSharedSubscription('program', id, key, listener, {
+			request: { config: { ...config, commitment, encoding }, kind: 'program' },
+			start: (broadcast, abortController) =>
+				runSubscription<RpcResponseNotification<Omit<ProgramAccountNotification, 'slot'>>>({
+					abortController,
+					id,
+					kind: 'program',
+					logData: { programId: id },
+					onNotification({ context, value }) {
+						broadcast({ account: value.account, pubkey: value.pubkey, slot: context.slot });
+					},
+					subscribe(abortSignal) {
+						return runtime.rpcSubscriptions
+							.programNotifications(config.programId, {
+								commitment,
+								encoding,
+								filters: config.filters,
+							} as Parameters<SolanaRpcSubscriptionsApi['programNotifications']>[1])
+							.subscribe({ abortSignal }) as Promise<
+							AsyncIterable<RpcResponseNotification<Omit<ProgramAccountNotification, 'slot'>>>
+						>;
+					},
+				}).catch(logWatcherError('program', { programId: id }, abortController)),
+		});
+	}
+
+	/**
+	 * Subscribes to transaction logs, optionally limited to transactions that mention an address.
+	 *
+	 * @param config - Watcher configuration specifying the mentions filter.
+	 * @param listener - Callback invoked with each log notification.
+	 * @returns Subscription handle that allows aborting the subscription.
+	 */
+	function watchLogs(config: LogsWatcherConfig, listener: (notification: LogsNotification) => void) {
+		const commitment = config.commitment ?? store.getState().cluster.commitment;
+		const id = config.mentions?.toString() ?? 'all';
+		return joinSharedSubscription('logs', id, `${id}:${commitment}`, listener, {
+			request: { config: { ...config, commitment }, kind: 'logs' },
+			start: (broadcast, abortController) =>
+				runSubscription<RpcResponseNotification<Omit<LogsNotification, 'slot'>>>({
+					abortController,
+					id,
+					kind: 'logs',
+					logData: { mentions: id },
+					onNotification({ context, value }) {
+						broadcast({ err: value.err, logs: value.logs, signature: value.signature, slot: context.slot });
+					},
+					subscribe(abortSignal) {
+						const subscriptions = runtime.rpcSubscriptions;
+						const notifications = config.mentions
+							? subscriptions.logsNotifications({ mentions: [config.mentions] }, { commitment })
+							: subscriptions.logsNotifications('all', { commitment });
+						return notifications.subscribe({ abortSignal });
+					},
+				}).catch(logWatcherError('logs', { mentions: id }, abortController)),
+		});
+	}
+
+	/**
+	 * Subscribes to slot progress notifications from the connected validator.
+	 *
+	 * @param listener - Callback invoked with each slot notification.
+	 * @returns Subscription handle that allows aborting the subscription.
+	 */
+	function watchSlot(listener: (notification: SlotNotification) => void) {
+		return joinSharedSubscription('slot', 'slot', 'slot', listener, {
+			request: { kind: 'slot' },
+			start: (broadcast, abortController) =>
+				runSubscription<SlotNotification>({
+					abortController,
+					id: 'slot',
+					kind: 'slot',
+					logData: {},
+					onNotification: broadcast,
+					subscribe(abortSignal) {
+						return runtime.rpcSubscriptions.slotNotifications().subscribe({ abortSignal });
+					},
+				}).catch(logWatcherError('slot', {}, abortController)),
+		});
+	}
+
+	/**
+	 * Subscribes to notifications whenever the validator sets a new root slot.
+	 *
+	 * @param listener - Callback invoked with each new root slot.
+	 * @returns Subscription handle that allows aborting the subscription.
+	 */
+	function watchRoot(listener: (root: bigint) => void) {
+		return joinSharedSubscription('root', 'root', 'root', listener, {
+			request: { kind: 'root' },
+			start: (broadcast, abortController) =>
+				runSubscription<bigint>({
+					abortController,
+					id: 'root',
+					kind: 'root',
+					logData: {},
+					onNotification: broadcast,
+					subscribe(abortSignal) {
+						return runtime.rpcSubscriptions.rootNotifications().subscribe({ abortSignal });
+					},
+				}).catch(logWatcherError('root', {}, abortController)),
 		});
-		return createSubscriptionHandle('signature', config.signature.toString(), abortController);
+	}
+
+	/**
+	 * Stops restarting shared subscriptions when the tab leader changes.
+	 *
+	 * @returns Nothing; the relay listener is removed.
+	 */
+	function dispose(): void {
+		stopFollowingLeader?.();
 	}
 
 	return {
+		dispose,
 		watchAccount,
 		watchBalance,
+		watchLogs,
+		watchProgramAccounts,
+		watchRoot,
 		watchSignature,
+		watchSlot,
 	};
 }
@@ -3,7 +3,6 @@ import {
 	type Address,
 	address,
 	appendTransactionMessageInstruction,
-	type Blockhash,
 	type Commitment,
 	createTransactionMessage,
 	createTransactionPlanExecutor,
@@ -12,7 +11,6 @@ import {
 	pipe,
 	type Slot,
 	setTransactionMessageFeePayer,
-	setTransactionMessageLifetimeUsingBlockhash,
 	signAndSendTransactionMessageWithSigners,
 	signature,
 	signTransactionMessageWithSigners,
@@ -25,13 +23,10 @@ import { getTransferSolInstruction } from '@solana-program/system';
 
 import { lamportsMath } from '../numeric/lamports';
 import { createWalletTransactionSigner, isWalletSession, resolveSignerMode } from '../signers/walletTransactionSigner';
+import { setTransactionMessageLifetime, type TransactionLifetime } from '../transactions/lifetime';
+import { type ComputeUnitPriceInput, withComputeUnitPriceInstruction } from '../transactions/priorityFees';
 import type { SolanaClientRuntime, WalletSession } from '../types';
 
-type BlockhashLifetime = Readonly<{
-	blockhash: Blockhash;
-	lastValidBlockHeight: bigint;
-}>;
-
 type SolTransferAmount = bigint | number | string;
 
 type SolTransferAuthority = TransactionSigner<string> | WalletSession;
@@ -42,8 +37,10 @@ export type SolTransferPrepareConfig = Readonly<{
 	amount: SolTransferAmount;
 	authority: SolTransferAuthority;
 	commitment?: Commitment;
+	/** Price in micro-lamports per compute unit, or `'auto'` to estimate one from recent prioritization fees. */
+	computeUnitPrice?: ComputeUnitPriceInput;
 	destination: Address | string;
-	lifetime?: BlockhashLifetime;
+	lifetime?: TransactionLifetime;
 	transactionVersion?: TransactionVersion;
 }>;
 
@@ -57,7 +54,7 @@ export type SolTransferSendOptions = Readonly<{
 
 type PreparedSolTransfer = Readonly<{
 	commitment?: Commitment;
-	lifetime: BlockhashLifetime;
+	lifetime: TransactionLifetime;
 	message: SignableSolTransactionMessage;
 	mode: 'partial' | 'send';
 	signer: TransactionSigner;
@@ -71,8 +68,8 @@ function ensureAddress(value: Address | string): Address {
 async function resolveLifetime(
 	runtime: SolanaClientRuntime,
 	commitment?: Commitment,
-	fallback?: BlockhashLifetime,
-): Promise<BlockhashLifetime> {
+	fallback?: TransactionLifetime,
+): Promise<TransactionLifetime> {
 	if (fallback) {
 		return fallback;
 	}
@@ -115,17 +112,18 @@ export function createSolTransferHelper(runtime: SolanaClientRuntime): SolTransf
 		const { signer, mode } = resolveSigner(config.authority, commitment);
 		const destination = ensureAddress(config.destination);
 		const amount = toLamportAmount(config.amount);
+		const instructions = await withComputeUnitPriceInstruction(runtime.rpc, config.computeUnitPrice, [
+			getTransferSolInstruction({ amount, destination, source: signer }),
+		]);
 
-		const message = pipe(
+		let message: SignableSolTransactionMessage = pipe(
 			createTransactionMessage({ version: config.transactionVersion ?? 0 }),
 			(m) => setTransactionMessageFeePayer(signer.address, m),
-			(m) => setTransactionMessageLifetimeUsingBlockhash(lifetime, m),
-			(m) =>
-				appendTransactionMessageInstruction(
-					getTransferSolInstruction({ amount, destination, source: signer }),
-					m,
-				),
+			(m) => setTransactionMessageLifetime(lifetime, m),
 		);
+		for (const instruction of instructions) {
+			message = appendTransactionMessageInstruction(instruction, message);
+		}
 
 		return {
 			commitment,
@@ -3,7 +3,6 @@ import {
 	type Address,
 	address,
 	appendTransactionMessageInstruction,
-	type Blockhash,
 	type Commitment,
 	createTransactionMessage,
 	createTransactionPlanExecutor,
@@ -13,7 +12,6 @@ import {
 	pipe,
 	SOLANA_ERROR__TRANSACTION_ERROR__ALREADY_PROCESSED,
 	setTransactionMessageFeePayer,
-	setTransactionMessageLifetimeUsingBlockhash,
 	signAndSendTransactionMessageWithSigners,
 	signature,
 	signTransactionMessageWithSigners,
@@ -32,14 +30,11 @@ import {
 
 import { createTokenAmount, type TokenAmountMath } from '../numeric/amounts';
 import { createWalletTransactionSigner, isWalletSession, resolveSignerMode } from '../signers/walletTransactionSigner';
+import { setTransactionMessageLifetime, type TransactionLifetime } from '../transactions/lifetime';
+import { type ComputeUnitPriceInput, withComputeUnitPriceInstruction } from '../transactions/priorityFees';
 import type { SolanaClientRuntime, WalletSession } from '../types';
 import type { SolTransferSendOptions } from './sol';
 
-type BlockhashLifetime = Readonly<{
-	blockhash: Blockhash;
-	lastValidBlockHeight: bigint;
-}>;
-
 type SplTokenAuthority = TransactionSigner<string> | WalletSession;
 
 type SignableSplTransactionMessage = Parameters<typeof signTransactionMessageWithSigners>[0];
@@ -65,10 +60,12 @@ export type SplTransferPrepareConfig = Readonly<{
 	amountInBaseUnits?: boolean;
 	authority: SplTokenAuthority;
 	commitment?: Commitment;
+	/** Price in micro-lamports per compute unit, or `'auto'` to estimate one from recent prioritization fees. */
+	computeUnitPrice?: ComputeUnitPriceInput;
 	destinationOwner: Address | string;
 	destinationToken?: Address | string;
 	ensureDestinationAta?: boolean;
-	lifetime?: BlockhashLifetime;
+	lifetime?: TransactionLifetime;
 	sourceOwner?: Address | string;
 	sourceToken?: Address | string;
 	transactionVersion?: TransactionVersion;
@@ -79,7 +76,7 @@ type PreparedSplTransfer = Readonly<{
 	commitment?: Commitment;
 	decimals: number;
 	destinationAta: Address;
-	lifetime: BlockhashLifetime;
+	lifetime: TransactionLifetime;
 	message: SignableSplTransactionMessage;
 	mode: 'partial' | 'send';
 	signer: TransactionSigner;
@@ -100,8 +97,8 @@ function ensureAddress(value: Address | string | undefined, fallback?: Address):
 async function resolveLifetime(
 	runtime: SolanaClientRuntime,
 	commitment?: Commitment,
-	fallback?: BlockhashLifetime,
-): Promise<BlockhashLifetime> {
+	fallback?: TransactionLifetime,
+): Promise<TransactionLifetime> {
 	if (fallback) {
 		return fallback;
 	}
@@ -250,10 +247,14 @@ export function createSplTokenHelper(runtime: SolanaClientRuntime, config: SplTo
 		let message: SignableSplTransactionMessage = pipe(
 			createTransactionMessage({ version: config.transactionVersion ?? 0 }),
 			(m) => setTransactionMessageFeePayer(signer.address, m),
-			(m) => setTransactionMessageLifetimeUsingBlockhash(lifetime, m),
+			(m) => setTransactionMessageLifetime(lifetime, m),
 		);
 
-		for (const instruction of instructionList) {
+		for (const instruction of await withComputeUnitPriceInstruction(
+			runtime.rpc,
+			config.computeUnitPrice,
+			instructionList,
+		)) {
 			message = appendTransactionMessageInstruction(instruction, message);
 		}
 
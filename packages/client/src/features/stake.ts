@@ -4,7 +4,6 @@ import {
 	address,
 	appendTransactionMessageInstructions,
 	type Base58EncodedBytes,
-	type Blockhash,
 	type Commitment,
 	createTransactionMessage,
 	createTransactionPlanExecutor,
@@ -14,7 +13,6 @@ import {
 	pipe,
 	type Slot,
 	setTransactionMessageFeePayer,
-	setTransactionMessageLifetimeUsingBlockhash,
 	signAndSendTransactionMessageWithSigners,
 	signature,
 	signTransactionMessageWithSigners,
@@ -33,13 +31,10 @@ import { getCreateAccountInstruction } from '@solana-program/system';
 
 import { lamportsMath } from '../numeric/lamports';
 import { createWalletTransactionSigner, isWalletSession, resolveSignerMode } from '../signers/walletTransactionSigner';
+import { setTransactionMessageLifetime, type TransactionLifetime } from '../transactions/lifetime';
+import { type ComputeUnitPriceInput, withComputeUnitPriceInstruction } from '../transactions/priorityFees';
 import type { SolanaClientRuntime, WalletSession } from '../types';
 
-type BlockhashLifetime = Readonly<{
-	blockhash: Blockhash;
-	lastValidBlockHeight: bigint;
-}>;
-
 type StakeAmount = bigint | number | string;
 
 type StakeAuthority = TransactionSigner<string> | WalletSession;
@@ -90,7 +85,9 @@ export type StakePrepareConfig = Readonly<{
 	amount: StakeAmount;
 	authority: StakeAuthority;
 	commitment?: Commitment;
-	lifetime?: BlockhashLifetime;
+	/** Price in micro-lamports per compute unit, or `'auto'` to estimate one from recent prioritization fees. */
+	computeUnitPrice?: ComputeUnitPriceInput;
+	lifetime?: TransactionLifetime;
 	transactionVersion?: TransactionVersion;
 	validatorId: Address | string;
 }>;
@@ -106,7 +103,9 @@ export type StakeSendOptions = Readonly<{
 export type UnstakePrepareConfig = Readonly<{
 	authority: StakeAuthority;
 	commitment?: Commitment;
-	lifetime?: BlockhashLifetime;
+	/** Price in micro-lamports per compute unit, or `'auto'` to estimate one from recent prioritization fees. */
+	computeUnitPrice?: ComputeUnitPriceInput;
+	lifetime?: TransactionLifetime;
 	stakeAccount: Address | string;
 	transactionVersion?: TransactionVersion;
 }>;
@@ -117,8 +116,10 @@ export type WithdrawPrepareConfig = Readonly<{
 	amount: StakeAmount;
 	authority: StakeAuthority;
 	commitment?: Commitment;
+	/** Price in micro-lamports per compute unit, or `'auto'` to estimate one from recent prioritization fees. */
+	computeUnitPrice?: ComputeUnitPriceInput;
 	destination: Address | string;
-	lifetime?: BlockhashLifetime;
+	lifetime?: TransactionLifetime;
 	stakeAccount: Address | string;
 	transactionVersion?: TransactionVersion;
 }>;
@@ -127,7 +128,7 @@ export type WithdrawSendOptions = StakeSendOptions;
 
 type PreparedUnstake = Readonly<{
 	commitment?: Commitment;
-	lifetime: BlockhashLifetime;
+	lifetime: TransactionLifetime;
 	message: SignableStakeTransactionMessage;
 	mode: 'partial' | 'send';
 	plan: TransactionPlan;
@@ -136,7 +137,7 @@ type PreparedUnstake = Readonly<{
 
 type PreparedWithdraw = Readonly<{
 	commitment?: Commitment;
-	lifetime: BlockhashLifetime;
+	lifetime: TransactionLifetime;
 	message: SignableStakeTransactionMessage;
 	mode: 'partial' | 'send';
 	plan: TransactionPlan;
@@ -145,7 +146,7 @@ type PreparedWithdraw = Readonly<{
 
 type PreparedStake = Readonly<{
 	commitment?: Commitment;
-	lifetime: BlockhashLifetime;
+	lifetime: TransactionLifetime;
 	message: SignableStakeTransactionMessage;
 	mode: 'partial' | 'send';
 	signer: TransactionSigner;
@@ -160,8 +161,8 @@ function ensureAddress(value: Address | string): Address {
 async function resolveLifetime(
 	runtime: SolanaClientRuntime,
 	commitment?: Commitment,
-	fallback?: BlockhashLifetime,
-): Promise<BlockhashLifetime> {
+	fallback?: TransactionLifetime,
+): Promise<TransactionLifetime> {
 	if (fallback) {
 		return fallback;
 	}
@@ -247,11 +248,17 @@ export function createStakeHelper(runtime: SolanaClientRuntime): StakeHelper {
 			stakeAuthority: signer,
 		});
 
+		const instructions = await withComputeUnitPriceInstruction(runtime.rpc, config.computeUnitPrice, [
+			createIx,
+			initializeIx,
+			delegateIx,
+		]);
+
 		const message = pipe(
 			createTransactionMessage({ version: config.transactionVersion ?? 0 }),
 			(m) => setTransactionMessageFeePayer(signer.address, m),
-			(m) => setTransactionMessageLifetimeUsingBlockhash(lifetime, m),
-			(m) => appendTransactionMessageInstructions([createIx, initializeIx, delegateIx], m),
+			(m) => setTransactionMessageLifetime(lifetime, m),
+			(m) => appendTransactionMessageInstructions(instructions, m),
 		);
 
 		return {
@@ -332,11 +339,15 @@ export function createStakeHelper(runtime: SolanaClientRuntime): StakeHelper {
 			stakeAuthority: signer,
 		});
 
+		const instructions = await withComputeUnitPriceInstruction(runtime.rpc, config.computeUnitPrice, [
+			deactivateIx,
+		]);
+
 		const message = pipe(
 			createTransactionMessage({ version: config.transactionVersion ?? 0 }),
 			(m) => setTransactionMessageFeePayer(signer.address, m),
-			(m) => setTransactionMessageLifetimeUsingBlockhash(lifetime, m),
-			(m) => appendTransactionMessageInstructions([deactivateIx], m),
+			(m) => setTransactionMessageLifetime(lifetime, m),
+			(m) => appendTransactionMessageInstructions(instructions, m),
 		);
 
 		return {
@@ -421,11 +432,13 @@ export function createStakeHelper(runtime: SolanaClientRuntime): StakeHelper {
 			args: amount,
 		});
 
+		const instructions = await withComputeUnitPriceInstruction(runtime.rpc, config.computeUnitPrice, [withdrawIx]);
+
 		const message = pipe(
 			createTransactionMessage({ version: config.transactionVersion ?? 0 }),
 			(m) => setTransactionMessageFeePayer(signer.address, m),
-			(m) => setTransactionMessageLifetimeUsingBlockhash(lifetime, m),
-			(m) => appendTransactionMessageInstructions([withdrawIx], m),
+			(m) => setTransactionMessageLifetime(lifetime, m),
+			(m) => appendTransactionMessageInstructions(instructions, m),
 		);
 
 		return {
@@ -7,23 +7,30 @@ type MutableMessage = {
 	lifetimeConstraint?: unknown;
 };
 
-const createTransactionMessageMock = vi.hoisted(() => vi.fn(() => ({ instructions: [] as unknown[] })));
+const createTransactionMessageMock = vi.hoisted(() =>
+	vi.fn((config: { version: unknown }) => ({ instructions: [] as unknown[], version: config.version })),
+);
+type MockTransactionPlan = { kind: string; message?: MutableMessage; plans?: MockTransactionPlan[] };
+
 const createTransactionPlanExecutorMock = vi.hoisted(() =>
 	vi.fn((config: { executeTransactionMessage: (message: MutableMessage) => Promise<unknown> }) =>
-		vi.fn(async (plan: { kind: string; message: MutableMessage }) => {
-			if (plan.kind === 'single') {
+		vi.fn(async (plan: MockTransactionPlan) => {
+			if (plan.kind === 'single' && plan.message) {
 				await config.executeTransactionMessage(plan.message);
 				return { kind: 'single', message: plan.message };
 			}
+			for (const child of plan.plans ?? []) {
+				await config.executeTransactionMessage(child.message as MutableMessage);
+			}
 			return {};
 		}),
 	),
 );
 const createTransactionPlannerMock = vi.hoisted(() =>
 	vi.fn(
-		(config: { createTransactionMessage: () => MutableMessage }) =>
+		(config: { createTransactionMessage: () => MutableMessage | Promise<MutableMessage> }) =>
 			async (instructionPlan: { instructions?: unknown[] }) => {
-				const baseMessage = config.createTransactionMessage();
+				const baseMessage = await config.createTransactionMessage();
 				return {
 					instructionPlan,
 					kind: 'single',
@@ -72,26 +79,52 @@ const prepareTransactionMock = vi.hoisted(() =>
 const getMessagePackerInstructionPlanFromInstructionsMock = vi.hoisted(() =>
 	vi.fn((instructions: readonly unknown[]) => ({ instructions })),
 );
+const getAllSingleTransactionPlansMock = vi.hoisted(() =>
+	vi.fn((plan: MockTransactionPlan) => (plan.kind === 'single' ? [plan] : (plan.plans ?? []))),
+);
+const signTransactionMessagesWithSignersMock = vi.hoisted(() =>
+	vi.fn(async (messages: readonly MutableMessage[]) => messages.map((message) => ({ message }))),
+);
+const signatureConfirmationMock = vi.hoisted(() => vi.fn(async () => undefined));
+const getTransactionMessageSizeMock = vi.hoisted(() =>
+	vi.fn((message: MutableMessage & { version?: unknown }) => (message.version === 0 ? 300 : 400)),
+);
+const resolveAddressLookupTablesMock = vi.hoisted(() => vi.fn(async () => ({ table: ['account'] })));
+const compressInstructionsUsingAddressLookupTablesMock = vi.hoisted(() =>
+	vi.fn((instructions: readonly unknown[]) =>
+		instructions.map((instruction) => ({ ...(instruction as object), compressed: true })),
+	),
+);
 const singleTransactionPlanMock = vi.hoisted(() => vi.fn((message: MutableMessage) => ({ kind: 'single', message })));
 
 vi.mock('@solana/kit', () => ({
 	address: addressMock,
+	appendTransactionMessageInstructions: vi.fn((instructions: unknown[], message: MutableMessage) => ({
+		...message,
+		instructions: [...message.instructions, ...instructions],
+	})),
+	compileTransaction: vi.fn((message: MutableMessage) => ({ message })),
 	createTransactionMessage: createTransactionMessageMock,
 	createTransactionPlanExecutor: createTransactionPlanExecutorMock,
 	createTransactionPlanner: createTransactionPlannerMock,
+	getAllSingleTransactionPlans: getAllSingleTransactionPlansMock,
 	getBase64EncodedWireTransaction: getBase64EncodedWireTransactionMock,
 	getMessagePackerInstructionPlanFromInstructions: getMessagePackerInstructionPlanFromInstructionsMock,
+	getTransactionMessageSize: getTransactionMessageSizeMock,
 	isInstructionForProgram: isInstructionForProgramMock,
 	isInstructionWithData: isInstructionWithDataMock,
 	isTransactionSendingSigner: isTransactionSendingSignerMock,
+	isWritableRole: (role: number) => (role & 1) === 1,
 	pipe: pipeMock,
 	setTransactionMessageFeePayer: setTransactionMessageFeePayerMock,
 	setTransactionMessageFeePayerSigner: setTransactionMessageFeePayerSignerMock,
 	setTransactionMessageLifetimeUsingBlockhash: setTransactionMessageLifetimeUsingBlockhashMock,
+	setTransactionMessageLifetimeUsingDurableNonce: setTransactionMessageLifetimeUsingBlockhashMock,
 	singleTransactionPlan: singleTransactionPlanMock,
 	signAndSendTransactionMessageWithSigners: signAndSendTransactionMessageWithSignersMock,
 	signTransactionMessageWithSigners: signTransactionMessageWithSignersMock,
 	signature: signatureMock,
+	TRANSACTION_SIZE_LIMIT: 1232,
 }));
 
 vi.mock('@solana/codecs-strings', () => ({
@@ -108,6 +141,22 @@ vi.mock('@solana-program/compute-budget', () => ({
 	getSetComputeUnitPriceInstruction: vi.fn((config: unknown) => ({ type: 'price', config })),
 }));
 
+vi.mock('@solana/transaction-confirmation', () => ({
+	createBlockHeightExceedencePromiseFactory: () => () => new Promise(() => undefined),
+	createNonceInvalidationPromiseFactory: () => () => new Promise(() => undefined),
+	createRecentSignatureConfirmationPromiseFactory: () => signatureConfirmationMock,
+}));
+
+vi.mock('../transactions/addressLookupTables', () => ({
+	compressInstructionsUsingAddressLookupTables: compressInstructionsUsingAddressLookupTablesMock,
+	getLookupTableAddresses: () => [],
+	resolveAddressLookupTables: resolveAddressLookupTablesMock,
+}));
+
+vi.mock('../signers/signTransactionMessages', () => ({
+	signTransactionMessagesWithSigners: signTransactionMessagesWithSignersMock,
+}));
+
 vi.mock('../signers/walletTransactionSigner', () => ({
 	createWalletTransactionSigner: createWalletTransactionSignerMock,
 	isWalletSession: isWalletSessionMock,
@@ -119,9 +168,10 @@ vi.mock('../transactions/prepareTransaction', () => ({
 }));
 
 let createTransactionHelper: typeof import('./transactions')['createTransactionHelper'];
+let TransactionPlanExecutionError: typeof import('./transactions')['TransactionPlanExecutionError'];
 
 beforeAll(async () => {
-	({ createTransactionHelper } = await import('./transactions'));
+	({ createTransactionHelper, TransactionPlanExecutionError } = await import('./transactions'));
 });
 
 describe('createTransactionHelper.prepareAndSend', () => {
@@ -200,6 +250,13 @@ describe('createTransactionHelper.prepare', () => {
 			getLatestBlockhash: vi.fn(() => ({
 				send: vi.fn().mockResolvedValue({ value: { blockhash: 'abc', lastValidBlockHeight: 123n } }),
 			})),
+			getRecentPrioritizationFees: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue([
+					{ prioritizationFee: 500n, slot: 1n },
+					{ prioritizationFee: 100n, slot: 2n },
+					{ prioritizationFee: 900n, slot: 3n },
+				]),
+			})),
 			sendTransaction: vi.fn(),
 		},
 		rpcSubscriptions: {} as never,
@@ -234,4 +291,190 @@ describe('createTransactionHelper.prepare', () => {
 		});
 		expect(createTransactionMessageMock).toHaveBeenCalledWith({ version: 0 });
 	});
+
+	it('estimates the compute unit price from the writable accounts when requested', async () => {
+		const helper = createTransactionHelper(runtime as never, getFallbackCommitment);
+		const prepared = await helper.prepare({
+			authority,
+			computeUnitPrice: { strategy: 'high' },
+			instructions: [
+				{
+					accounts: [
+						{ address: 'writable', role: 1 },
+						{ address: 'readonly', role: 0 },
+					],
+					data: new Uint8Array([1]),
+					programAddress: 'Demo1111111111111111111111111111111111',
+				} as never,
+			],
+		});
+		expect(runtime.rpc.getRecentPrioritizationFees).toHaveBeenCalledWith(['writable']);
+		expect(prepared.computeUnitPrice).toBe(900n);
+		expect(prepared.message.instructions).toEqual([
+			{ config: { microLamports: 900 }, type: 'price' },
+			expect.objectContaining({ programAddress: 'Demo1111111111111111111111111111111111' }),
+		]);
+	});
+
+	it('uses address lookup tables in auto mode only when they shrink the transaction', async () => {
+		const helper = createTransactionHelper(runtime as never, getFallbackCommitment);
+		const request = {
+			addressLookupTables: ['table'],
+			authority,
+			instructions: [{ programAddress: 'Demo1111111111111111111111111111111111', data: new Uint8Array([1]) }],
+		};
+
+		const compressed = await helper.prepare(request);
+		expect(resolveAddressLookupTablesMock).toHaveBeenCalledWith(runtime.rpc, ['table'], expect.any(Object));
+		expect(compressInstructionsUsingAddressLookupTablesMock).toHaveBeenCalledWith(
+			request.instructions,
+			{ table: ['account'] },
+			['payer'],
+		);
+		expect(compressed.version).toBe(0);
+		expect(compressed.message.instructions).toEqual([expect.objectContaining({ compressed: true })]);
+		expect(compressed.size).toEqual({ bytes: 300, limit: 1232, lookupTables: [], uncompressedBytes: 400 });
+
+		getTransactionMessageSizeMock.mockImplementation((message) => (message.version === 0 ? 450 : 400));
+		const uncompressed = await helper.prepare(request);
+		expect(uncompressed.version).toBe('legacy');
+		expect(uncompressed.message.instructions).toEqual([expect.not.objectContaining({ compressed: true })]);
+
+		const forced = await helper.prepare({ ...request, version: 0 });
+		expect(forced.version).toBe(0);
+		expect(forced.message.instructions).toEqual([expect.objectContaining({ compressed: true })]);
+		getTransactionMessageSizeMock.mockReset();
+
+		await expect(helper.prepare({ ...request, version: 'legacy' })).rejects.toThrow(/version 0/);
+	});
+
+	it('reports expiry by comparing the current block height with the last valid block height', async () => {
+		const helper = createTransactionHelper(
+			{ ...runtime, rpc: { getBlockHeight: vi.fn(() => ({ send: vi.fn().mockResolvedValue(124n) })) } } as never,
+			getFallbackCommitment,
+		);
+		const blockhashPrepared = {
+			commitment: 'confirmed',
+			lifetime: { blockhash: 'abc', lastValidBlockHeight: 123n },
+		} as never;
+		await expect(helper.checkExpiry(blockhashPrepared)).resolves.toEqual({ blockHeight: 124n, expired: true });
+		const noncePrepared = {
+			commitment: 'confirmed',
+			lifetime: { nonce: 'nonce', nonceAccount: 'account', nonceAuthority: 'authority' },
+		} as never;
+		await expect(helper.checkExpiry(noncePrepared)).resolves.toEqual({ blockHeight: null, expired: false });
+	});
+});
+
+describe('createTransactionHelper plans', () => {
+	const getFallbackCommitment = () => 'confirmed' as Commitment;
+	const authority: TransactionSigner = { address: 'payer' } as TransactionSigner;
+	const instructions = ['one', 'two', 'three'].map((name) => ({
+		data: new Uint8Array([1]),
+		programAddress: `Demo${name}`,
+	}));
+	const createRuntime = (sendResults: Array<string | Error>) => {
+		const sendTransaction = vi.fn();
+		for (const result of sendResults) {
+			sendTransaction.mockImplementationOnce(() => ({
+				send:
+					typeof result === 'string' ? vi.fn().mockResolvedValue(result) : vi.fn().mockRejectedValue(result),
+			}));
+		}
+		return {
+			rpc: {
+				getLatestBlockhash: vi.fn(() => ({
+					send: vi.fn().mockResolvedValue({ value: { blockhash: 'abc', lastValidBlockHeight: 123n } }),
+				})),
+				sendTransaction,
+			},
+			rpcSubscriptions: {},
+		};
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		// Pack one instruction per transaction so the plan spans several.
+		createTransactionPlannerMock.mockImplementationOnce(
+			(config) => async (instructionPlan: { instructions?: unknown[] }) => {
+				const plans = [];
+				for (const instruction of instructionPlan.instructions ?? []) {
+					const message = await config.createTransactionMessage();
+					plans.push({ kind: 'single', message: { ...message, instructions: [instruction] } });
+				}
+				return { kind: 'sequential', plans } as never;
+			},
+		);
+	});
+
+	it('signs every transaction together and confirms them in order', async () => {
+		const runtime = createRuntime(['sig-1', 'sig-2', 'sig-3']);
+		const helper = createTransactionHelper(runtime as never, getFallbackCommitment);
+		const prepared = await helper.preparePlan({ authority, instructions });
+		expect(prepared.messages).toHaveLength(3);
+
+		const onProgress = vi.fn();
+		const result = await helper.sendPlan(prepared, { onProgress });
+
+		expect(signTransactionMessagesWithSignersMock).toHaveBeenCalledTimes(1);
+		expect(signTransactionMessagesWithSignersMock).toHaveBeenCalledWith(prepared.messages, expect.any(Object));
+		expect(runtime.rpc.sendTransaction).toHaveBeenCalledTimes(3);
+		expect(signatureConfirmationMock).toHaveBeenCalledTimes(3);
+		expect(result.signatures).toEqual(['signature:sig-1', 'signature:sig-2', 'signature:sig-3']);
+		expect(result.transactions.map((entry) => entry.status)).toEqual(['confirmed', 'confirmed', 'confirmed']);
+		expect(onProgress.mock.calls[0][0].map((entry: { status: string }) => entry.status)).toEqual([
+			'sending',
+			'pending',
+			'pending',
+		]);
+	});
+
+	it('reports which transactions landed when one of them fails', async () => {
+		const failure = new Error('blockhash not found');
+		const runtime = createRuntime(['sig-1', failure]);
+		const helper = createTransactionHelper(runtime as never, getFallbackCommitment);
+
+		const error = await helper
+			.prepareAndSendPlan({ authority, instructions })
+			.catch((caught: unknown) => caught as InstanceType<typeof TransactionPlanExecutionError>);
+
+		expect(error).toBeInstanceOf(TransactionPlanExecutionError);
+		expect(error.cause).toBe(failure);
+		expect(error.transactions.map((entry) => entry.status)).toEqual(['confirmed', 'failed', 'canceled']);
+		expect(error.transactions[0].signature).toBe('signature:sig-1');
+		expect(error.transactions[1].error).toBe(failure);
+	});
+
+	it('keeps the signature of a submitted transaction whose confirmation was aborted', async () => {
+		const controller = new AbortController();
+		const runtime = createRuntime(['sig-1', 'sig-2', 'sig-3']);
+		signatureConfirmationMock.mockResolvedValueOnce(undefined).mockImplementationOnce(
+			({ abortSignal }: { abortSignal: AbortSignal }) =>
+				new Promise((_, reject) => {
+					abortSignal.addEventListener('abort', () => reject(new Error('aborted')));
+					controller.abort();
+				}),
+		);
+		const helper = createTransactionHelper(runtime as never, getFallbackCommitment);
+
+		const error = await helper
+			.prepareAndSendPlan({ authority, instructions }, { abortSignal: controller.signal })
+			.catch((caught: unknown) => caught as InstanceType<typeof TransactionPlanExecutionError>);
+
+		expect(error).toBeInstanceOf(TransactionPlanExecutionError);
+		expect(error.transactions.map((entry) => entry.status)).toEqual(['confirmed', 'unknown', 'canceled']);
+		expect(error.transactions[1].signature).toBe('signature:sig-2');
+		expect(error.transactions[2].signature).toBeUndefined();
+	});
+
+	it('rejects multi-transaction plans that share a durable nonce', async () => {
+		const helper = createTransactionHelper(createRuntime([]) as never, getFallbackCommitment);
+		await expect(
+			helper.preparePlan({
+				authority,
+				instructions,
+				lifetime: { nonce: 'nonce', nonceAccount: 'account', nonceAuthority: 'payer' },
+			}),
+		).rejects.toThrow(/single transaction/);
+	});
 });
@@ -2,7 +2,6 @@ import { getBase58Decoder } from '@solana/codecs-strings';
 import type {
 	Address,
 	appendTransactionMessageInstruction,
-	Blockhash,
 	Commitment,
 	InstructionPlan,
 	SingleTransactionPlan,
@@ -13,11 +12,15 @@ import type {
 	TransactionVersion,
 } from '@solana/kit';
 import {
+	appendTransactionMessageInstructions,
+	compileTransaction,
 	createTransactionMessage,
 	createTransactionPlanExecutor,
 	createTransactionPlanner,
+	getAllSingleTransactionPlans,
 	getBase64EncodedWireTransaction,
 	getMessagePackerInstructionPlanFromInstructions,
+	getTransactionMessageSize,
 	isInstructionForProgram,
 	isInstructionWithData,
 	isTransactionSendingSigner,
@@ -25,12 +28,17 @@ import {
 	pipe,
 	setTransactionMessageFeePayer,
 	setTransactionMessageFeePayerSigner,
-	setTransactionMessageLifetimeUsingBlockhash,
 	signAndSendTransactionMessageWithSigners,
 	signature,
 	signTransactionMessageWithSigners,
 	singleTransactionPlan,
+	TRANSACTION_SIZE_LIMIT,
 } from '@solana/kit';
+import {
+	createBlockHeightExceedencePromiseFactory,
+	createNonceInvalidationPromiseFactory,
+	createRecentSignatureConfirmationPromiseFactory,
+} from '@solana/transaction-confirmation';
 import {
 	COMPUTE_BUDGET_PROGRAM_ADDRESS,
 	ComputeBudgetInstruction,
@@ -38,19 +46,27 @@ import {
 	getSetComputeUnitPriceInstruction,
 } from '@solana-program/compute-budget';
 
+import { signTransactionMessagesWithSigners } from '../signers/signTransactionMessages';
 import { createWalletTransactionSigner, isWalletSession, resolveSignerMode } from '../signers/walletTransactionSigner';
+import {
+	type AddressLookupTableInput,
+	compressInstructionsUsingAddressLookupTables,
+	getLookupTableAddresses,
+	resolveAddressLookupTables,
+} from '../transactions/addressLookupTables';
+import {
+	isDurableNonceLifetime,
+	setTransactionMessageLifetime,
+	type TransactionLifetime,
+} from '../transactions/lifetime';
 import {
 	type PrepareTransactionMessage,
 	type PrepareTransactionOptions,
 	prepareTransaction as prepareTransactionUtility,
 } from '../transactions/prepareTransaction';
+import { type ComputeUnitPriceInput, resolveComputeUnitPrice } from '../transactions/priorityFees';
 import type { SolanaClientRuntime, WalletSession } from '../types';
 
-type BlockhashLifetime = Readonly<{
-	blockhash: Blockhash;
-	lastValidBlockHeight: bigint;
-}>;
-
 type TransactionInstruction = Parameters<typeof appendTransactionMessageInstruction>[0];
 
 export type TransactionInstructionInput = TransactionInstruction;
@@ -67,8 +83,10 @@ type TransactionRecipeMetadata = Readonly<{
 	computeUnitPrice?: bigint;
 	feePayer: Address;
 	instructions: readonly TransactionInstruction[];
-	lifetime: BlockhashLifetime;
+	lifetime: TransactionLifetime;
 	mode: 'partial' | 'send';
+	/** Size of the instructions as a legacy transaction without lookup tables. Set when tables were supplied. */
+	uncompressedBytes?: number;
 	version: TransactionVersion;
 }>;
 
@@ -85,13 +103,19 @@ export type TransactionRecipeContext = Readonly<{
 
 export type TransactionPrepareRequest = Readonly<{
 	abortSignal?: AbortSignal;
+	/**
+	 * Lookup tables to load account keys from, by address or as returned by `fetchLookupTable(s)`. With the default
+	 * `version: 'auto'` they are only used when they make the transaction smaller; `version: 0` always uses them.
+	 */
+	addressLookupTables?: readonly AddressLookupTableInput[];
 	authority?: TransactionAuthority;
 	commitment?: Commitment;
 	computeUnitLimit?: bigint | number;
-	computeUnitPrice?: bigint | number;
+	/** Price in micro-lamports per compute unit, or `'auto'` to estimate one from recent prioritization fees. */
+	computeUnitPrice?: ComputeUnitPriceInput;
 	feePayer?: Address | string | TransactionSigner;
 	instructions: readonly TransactionInstruction[];
-	lifetime?: BlockhashLifetime;
+	lifetime?: TransactionLifetime;
 	version?: TransactionVersion | 'auto';
 }>;
 
@@ -100,16 +124,28 @@ export type TransactionPrepareAndSendRequest = TransactionPrepareRequest &
 		prepareTransaction?: false | PrepareTransactionOverrides;
 	}>;
 
+export type TransactionSizeReport = Readonly<{
+	/** Serialized size of the signed transaction. */
+	bytes: number;
+	/** Largest serialized transaction the network accepts. */
+	limit: number;
+	/** Lookup tables the transaction loads accounts from. */
+	lookupTables: readonly Address[];
+	/** Size of the same instructions as a legacy transaction without lookup tables. Set when tables were supplied. */
+	uncompressedBytes?: number;
+}>;
+
 export type TransactionPrepared = Readonly<{
 	commitment: Commitment;
 	computeUnitLimit?: bigint;
 	computeUnitPrice?: bigint;
 	feePayer: Address;
 	instructions: readonly TransactionInstruction[];
-	lifetime: BlockhashLifetime;
+	lifetime: TransactionLifetime;
 	message: SignableTransactionMessage;
 	mode: 'partial' | 'send';
 	plan?: TransactionPlan;
+	size: TransactionSizeReport;
 	version: TransactionVersion;
 }>;
 
@@ -126,7 +162,81 @@ export type TransactionSendOptions = Readonly<{
 	skipPreflight?: boolean;
 }>;
 
+export type TransactionExpiry = Readonly<{
+	/** Current block height, or `null` for durable nonce lifetimes, which do not expire by block height. */
+	blockHeight: bigint | null;
+	expired: boolean;
+}>;
+
+export type TransactionPlanRequest = Omit<TransactionPrepareRequest, 'instructions'> &
+	Readonly<{
+		/**
+		 * A list is packed in order into as few transactions as it takes. Pass an instruction plan built with kit's
+		 * `sequentialInstructionPlan` and `parallelInstructionPlan` to control which groups run in order and which may
+		 * land in any order.
+		 */
+		instructions: readonly TransactionInstruction[] | InstructionPlan;
+	}>;
+
+export type TransactionPlanPrepared = Omit<TransactionPrepared, 'message' | 'plan' | 'size'> &
+	Readonly<{
+		/** Every transaction in the plan, in the order the plan runs them. */
+		messages: readonly SignableTransactionMessage[];
+		plan: TransactionPlan;
+	}>;
+
+/**
+ * `unknown` marks a transaction that was submitted but stopped being tracked before it confirmed; it may still land,
+ * so check its `signature`.
+ */
+export type TransactionPlanEntryStatus = 'canceled' | 'confirmed' | 'failed' | 'pending' | 'sending' | 'unknown';
+
+/** Progress of one transaction of a plan. `index` points into {@link TransactionPlanPrepared.messages}. */
+export type TransactionPlanEntry = Readonly<{
+	error?: unknown;
+	index: number;
+	signature?: ReturnType<typeof signature>;
+	status: TransactionPlanEntryStatus;
+}>;
+
+export type TransactionPlanSendOptions = TransactionSendOptions &
+	Readonly<{
+		/** Called with the status of every transaction whenever one of them changes. */
+		onProgress?(transactions: readonly TransactionPlanEntry[]): void;
+	}>;
+
+export type TransactionPlanSendResult = Readonly<{
+	/** Confirmed signatures, in the order of {@link TransactionPlanPrepared.messages}. */
+	signatures: readonly ReturnType<typeof signature>[];
+	transactions: readonly TransactionPlanEntry[];
+}>;
+
+/**
+ * Thrown when a transaction of a plan fails. Transactions that landed before the failure stay on chain; the ones
+ * that had not been submitted are reported as `canceled`, and submitted ones that were still confirming as `unknown`.
+ */
+export class TransactionPlanExecutionError extends Error {
+	readonly cause: unknown;
+	readonly transactions: readonly TransactionPlanEntry[];
+
+	constructor(transactions: readonly TransactionPlanEntry[], cause: unknown) {
+		const failed = transactions.filter((entry) => entry.status === 'failed').length;
+		const confirmed = transactions.filter((entry) => entry.status === 'confirmed').length;
+		super(
+			`Transaction plan failed: ${failed} of ${transactions.length} transactions failed and ${confirmed} confirmed.`,
+		);
+		this.name = 'TransactionPlanExecutionError';
+		this.cause = cause;
+		this.transactions = transactions;
+	}
+}
+
 export type TransactionHelper = Readonly<{
+	/** Compares a prepared transaction's last valid block height with the current block height. */
+	checkExpiry(
+		prepared: TransactionPrepared,
+		options?: Readonly<{ abortSignal?: AbortSignal }>,
+	): Promise<TransactionExpiry>;
 	prepare(request: TransactionPrepareRequest): Promise<TransactionPrepared>;
 	sign(
 		prepared: TransactionPrepared,
@@ -138,27 +248,36 @@ export type TransactionHelper = Readonly<{
 		request: TransactionPrepareAndSendRequest,
 		options?: TransactionSendOptions,
 	): Promise<ReturnType<typeof signature>>;
+	/** Splits instructions that do not fit in one transaction into a plan of several. */
+	preparePlan(request: TransactionPlanRequest): Promise<TransactionPlanPrepared>;
+	/**
+	 * Signs every transaction of a plan up front, behind a single wallet prompt when the wallet can sign in bulk, then
+	 * sends and confirms them in plan order. Throws a {@link TransactionPlanExecutionError} when one fails.
+	 */
+	sendPlan(
+		prepared: TransactionPlanPrepared,
+		options?: TransactionPlanSendOptions,
+	): Promise<TransactionPlanSendResult>;
+	prepareAndSendPlan(
+		request: TransactionPlanRequest,
+		options?: TransactionPlanSendOptions,
+	): Promise<TransactionPlanSendResult>;
 }>;
 
 function toAddress(value: Address | string): Address {
 	return typeof value === 'string' ? parseAddress(value) : value;
 }
 
-function hasSetComputeUnitLimitInstruction(instructions: readonly TransactionInstruction[]): boolean {
-	return instructions.some(
-		(instruction) =>
-			isInstructionForProgram(instruction, COMPUTE_BUDGET_PROGRAM_ADDRESS) &&
-			isInstructionWithData(instruction) &&
-			instruction.data[0] === ComputeBudgetInstruction.SetComputeUnitLimit,
-	);
+function toMaxRetries(value: bigint | number | undefined): bigint | undefined {
+	return value === undefined || typeof value === 'bigint' ? value : BigInt(value);
 }
 
-function hasSetComputeUnitPriceInstruction(instructions: readonly TransactionInstruction[]): boolean {
+function hasSetComputeUnitLimitInstruction(instructions: readonly TransactionInstruction[]): boolean {
 	return instructions.some(
 		(instruction) =>
 			isInstructionForProgram(instruction, COMPUTE_BUDGET_PROGRAM_ADDRESS) &&
 			isInstructionWithData(instruction) &&
-			instruction.data[0] === ComputeBudgetInstruction.SetComputeUnitPrice,
+			instruction.data[0] === ComputeBudgetInstruction.SetComputeUnitLimit,
 	);
 }
 
@@ -180,13 +299,13 @@ function resolveVersion(
 	requested: TransactionVersion | 'auto' | undefined,
 	instructions: readonly TransactionInstruction[],
 ): TransactionVersion {
-	if (requested && requested !== 'auto') {
+	if (requested !== undefined && requested !== 'auto') {
 		return requested;
 	}
 	return instructions.some(instructionUsesAddressLookup) ? 0 : 'legacy';
 }
 
-function normaliseCommitment(request: TransactionPrepareRequest, getFallbackCommitment: () => Commitment): Commitment {
+function normaliseCommitment(request: TransactionPlanRequest, getFallbackCommitment: () => Commitment): Commitment {
 	return request.commitment ?? getFallbackCommitment();
 }
 
@@ -215,7 +334,7 @@ function resolveFeePayerAddress(
 }
 
 function resolveComputeUnitLimit(
-	request: TransactionPrepareRequest,
+	request: TransactionPlanRequest,
 	instructions: readonly TransactionInstruction[],
 ): bigint | undefined {
 	const value = request.computeUnitLimit;
@@ -225,24 +344,79 @@ function resolveComputeUnitLimit(
 	return typeof value === 'bigint' ? value : BigInt(Math.floor(value));
 }
 
-function resolveComputeUnitPrice(
-	request: TransactionPrepareRequest,
-	instructions: readonly TransactionInstruction[],
-): bigint | undefined {
-	if (request.computeUnitPrice === undefined || hasSetComputeUnitPriceInstruction(instructions)) {
-		return undefined;
+function isInstructionList(
+	instructions: TransactionPlanRequest['instructions'],
+): instructions is readonly TransactionInstruction[] {
+	return Array.isArray(instructions);
+}
+
+function getInstructionPlanInstructions(plan: InstructionPlan): TransactionInstruction[] {
+	switch (plan.kind) {
+		case 'single':
+			return [plan.instruction];
+		case 'parallel':
+		case 'sequential':
+			return plan.plans.reduce<TransactionInstruction[]>(
+				(instructions, child) => instructions.concat(getInstructionPlanInstructions(child)),
+				[],
+			);
+		default:
+			// Message packers only reveal their instructions while a message is being packed.
+			return [];
+	}
+}
+
+function mapInstructionPlan(
+	plan: InstructionPlan,
+	replace: (instruction: TransactionInstruction) => TransactionInstruction,
+): InstructionPlan {
+	switch (plan.kind) {
+		case 'single':
+			return Object.freeze({ ...plan, instruction: replace(plan.instruction) });
+		case 'parallel':
+		case 'sequential':
+			return Object.freeze({
+				...plan,
+				plans: plan.plans.map((child) => mapInstructionPlan(child, replace)),
+			}) as InstructionPlan;
+		default:
+			return plan;
 	}
-	if (typeof request.computeUnitPrice === 'bigint') {
-		return request.computeUnitPrice;
+}
+
+function measureTransactionMessage(message: SignableTransactionMessage): number {
+	try {
+		return getTransactionMessageSize(message);
+	} catch {
+		// Instruction sets referencing more accounts than one message can index do not compile at all.
+		return Number.POSITIVE_INFINITY;
 	}
-	return BigInt(Math.floor(request.computeUnitPrice));
+}
+
+function getTransactionSizeReport(
+	message: SignableTransactionMessage,
+	uncompressedBytes: number | undefined,
+): TransactionSizeReport {
+	return Object.freeze({
+		bytes: getTransactionMessageSize(message),
+		limit: TRANSACTION_SIZE_LIMIT,
+		lookupTables: Object.freeze(getLookupTableAddresses(message.instructions)),
+		uncompressedBytes,
+	});
 }
 
 export async function createTransactionRecipe(
-	request: TransactionPrepareRequest,
+	request: TransactionPlanRequest,
 	context: TransactionRecipeContext,
 ): Promise<TransactionRecipe> {
-	if (!request.instructions.length) {
+	const requestInstructions = request.instructions;
+	const instructionList = isInstructionList(requestInstructions)
+		? requestInstructions
+		: getInstructionPlanInstructions(requestInstructions);
+	if (
+		!instructionList.length &&
+		(isInstructionList(requestInstructions) || requestInstructions.kind !== 'messagePacker')
+	) {
 		throw new Error('Add at least one instruction before preparing a transaction.');
 	}
 
@@ -272,8 +446,8 @@ export async function createTransactionRecipe(
 		}
 	}
 
-	const baseInstructions = [...request.instructions];
-	const version = resolveVersion(request.version, baseInstructions);
+	const baseInstructions = [...instructionList];
+	let version = resolveVersion(request.version, baseInstructions);
 
 	const lifetime =
 		request.lifetime ??
@@ -282,7 +456,12 @@ export async function createTransactionRecipe(
 	request.abortSignal?.throwIfAborted();
 
 	const resolvedComputeUnitLimit = resolveComputeUnitLimit(request, baseInstructions);
-	const computeUnitPrice = resolveComputeUnitPrice(request, baseInstructions);
+	const computeUnitPrice = await resolveComputeUnitPrice(
+		runtime.rpc,
+		request.computeUnitPrice,
+		baseInstructions,
+		request.abortSignal,
+	);
 
 	const prefixInstructions: TransactionInstruction[] = [];
 	if (resolvedComputeUnitLimit !== undefined) {
@@ -291,28 +470,73 @@ export async function createTransactionRecipe(
 	if (computeUnitPrice !== undefined) {
 		prefixInstructions.push(getSetComputeUnitPriceInstruction({ microLamports: Number(computeUnitPrice) }));
 	}
-	const instructionSequence = [...prefixInstructions, ...baseInstructions];
 
-	const createMessage: TransactionPlannerConfig['createTransactionMessage'] = async () =>
+	// Compute budget instructions go into every message so each transaction of a multi-transaction plan gets them.
+	const buildMessage = (
+		messageVersion: TransactionVersion,
+		instructions: readonly TransactionInstruction[] = [],
+	): SignableTransactionMessage =>
 		pipe(
-			createTransactionMessage({ version }),
+			createTransactionMessage({ version: messageVersion }),
 			(message) =>
 				feePayerSigner
 					? setTransactionMessageFeePayerSigner(feePayerSigner, message)
 					: setTransactionMessageFeePayer(feePayer, message),
-			(message) => setTransactionMessageLifetimeUsingBlockhash(lifetime, message),
+			(message) => setTransactionMessageLifetime(lifetime, message),
+			(message) =>
+				prefixInstructions.length || instructions.length
+					? appendTransactionMessageInstructions([...prefixInstructions, ...instructions], message)
+					: message,
 		) as SignableTransactionMessage;
 
+	let instructionPlan: InstructionPlan = isInstructionList(requestInstructions)
+		? getMessagePackerInstructionPlanFromInstructions(baseInstructions)
+		: requestInstructions;
+	let uncompressedBytes: number | undefined;
+	if (request.addressLookupTables?.length) {
+		if (request.version === 'legacy') {
+			throw new Error('Address lookup tables require a version 0 transaction.');
+		}
+		const tables = await resolveAddressLookupTables(runtime.rpc, request.addressLookupTables, {
+			abortSignal: request.abortSignal,
+			commitment,
+		});
+		const compressedInstructions = compressInstructionsUsingAddressLookupTables(baseInstructions, tables, [
+			feePayer,
+		]);
+		const legacyBytes = measureTransactionMessage(buildMessage('legacy', baseInstructions));
+		const compressedBytes = measureTransactionMessage(buildMessage(0, compressedInstructions));
+		const compressed = compressedInstructions.some((instruction, index) => instruction !== baseInstructions[index]);
+		uncompressedBytes = Number.isFinite(legacyBytes) ? legacyBytes : undefined;
+		// In auto mode the tables are only worth it when they shrink the transaction, or when the instructions
+		// reference too many accounts to fit any single legacy message.
+		if (version === 0 || (compressed && (compressedBytes < legacyBytes || !Number.isFinite(legacyBytes)))) {
+			version = 0;
+			const replacements = new Map(
+				baseInstructions.map((instruction, index) => [instruction, compressedInstructions[index]] as const),
+			);
+			instructionPlan = isInstructionList(requestInstructions)
+				? getMessagePackerInstructionPlanFromInstructions(compressedInstructions)
+				: mapInstructionPlan(
+						requestInstructions,
+						(instruction) => replacements.get(instruction) ?? instruction,
+					);
+		}
+	}
+
+	const createMessage: TransactionPlannerConfig['createTransactionMessage'] = async () => buildMessage(version);
+
 	return Object.freeze({
 		commitment,
 		computeUnitLimit: resolvedComputeUnitLimit,
 		computeUnitPrice,
 		createTransactionMessage: createMessage,
 		feePayer,
-		instructionPlan: getMessagePackerInstructionPlanFromInstructions(instructionSequence),
+		instructionPlan,
 		instructions: Object.freeze(baseInstructions),
 		lifetime,
 		mode,
+		uncompressedBytes,
 		version,
 	});
 }
@@ -348,11 +572,25 @@ export function createTransactionHelper(
 			message: singlePlan.message,
 			mode: recipe.mode,
 			plan,
+			size: getTransactionSizeReport(singlePlan.message, recipe.uncompressedBytes),
 			version: recipe.version,
 		});
 		return prepared;
 	}
 
+	async function checkExpiry(
+		prepared: TransactionPrepared,
+		options: Readonly<{ abortSignal?: AbortSignal }> = {},
+	): Promise<TransactionExpiry> {
+		if (isDurableNonceLifetime(prepared.lifetime)) {
+			return { blockHeight: null, expired: false };
+		}
+		const blockHeight = await runtime.rpc
+			.getBlockHeight({ commitment: prepared.commitment })
+			.send({ abortSignal: options.abortSignal });
+		return { blockHeight, expired: blockHeight > prepared.lifetime.lastValidBlockHeight };
+	}
+
 	async function sign(
 		prepared: TransactionPrepared,
 		options: TransactionSignOptions = {},
@@ -398,12 +636,7 @@ export function createTransactionHelper(
 		});
 
 		const wire = getBase64EncodedWireTransaction(signed);
-		const maxRetries =
-			options.maxRetries === undefined
-				? undefined
-				: typeof options.maxRetries === 'bigint'
-					? options.maxRetries
-					: BigInt(options.maxRetries);
+		const maxRetries = toMaxRetries(options.maxRetries);
 
 		const response = await runtime.rpc
 			.sendTransaction(wire, {
@@ -425,12 +658,7 @@ export function createTransactionHelper(
 			return sendDirect(prepared, options);
 		}
 		const commitment = options.commitment ?? prepared.commitment;
-		const maxRetries =
-			options.maxRetries === undefined
-				? undefined
-				: typeof options.maxRetries === 'bigint'
-					? options.maxRetries
-					: BigInt(options.maxRetries);
+		const maxRetries = toMaxRetries(options.maxRetries);
 		let latestSignature: ReturnType<typeof signature> | null = null;
 		const executor = createTransactionPlanExecutor({
 			async executeTransactionMessage(message, config = {}) {
@@ -478,15 +706,202 @@ export function createTransactionHelper(
 			...prepared,
 			message: tunedMessage,
 			plan: singleTransactionPlan(tunedMessage),
+			size: getTransactionSizeReport(tunedMessage, prepared.size.uncompressedBytes),
 		});
 		return send(tunedPrepared, options);
 	}
 
+	async function preparePlan(request: TransactionPlanRequest): Promise<TransactionPlanPrepared> {
+		const recipe = await createTransactionRecipe(request, { getFallbackCommitment, runtime });
+		const planner = createTransactionPlanner({
+			createTransactionMessage: recipe.createTransactionMessage,
+		});
+		const plan = await planner(recipe.instructionPlan, { abortSignal: request.abortSignal });
+		const messages = getAllSingleTransactionPlans(plan).map(
+			(singlePlan) => singlePlan.message as SignableTransactionMessage,
+		);
+		if (messages.length > 1 && isDurableNonceLifetime(recipe.lifetime)) {
+			// The first transaction advances the nonce, which would invalidate every other one.
+			throw new Error('A durable nonce lifetime can only back a single transaction; use a blockhash instead.');
+		}
+		return Object.freeze({
+			commitment: recipe.commitment,
+			computeUnitLimit: recipe.computeUnitLimit,
+			computeUnitPrice: recipe.computeUnitPrice,
+			feePayer: recipe.feePayer,
+			instructions: recipe.instructions,
+			lifetime: recipe.lifetime,
+			messages: Object.freeze(messages),
+			mode: recipe.mode,
+			plan,
+			version: recipe.version,
+		});
+	}
+
+	async function confirmPlanTransaction(
+		transactionSignature: ReturnType<typeof signature>,
+		lifetime: TransactionLifetime,
+		commitment: Commitment,
+		abortSignal?: AbortSignal,
+	): Promise<void> {
+		const abortController = new AbortController();
+		const abort = () => abortController.abort(abortSignal?.reason);
+		abortSignal?.addEventListener('abort', abort);
+		const getRecentSignatureConfirmationPromise = createRecentSignatureConfirmationPromiseFactory({
+			rpc: runtime.rpc,
+			rpcSubscriptions: runtime.rpcSubscriptions,
+		} as Parameters<typeof createRecentSignatureConfirmationPromiseFactory>[0]);
+		const waiters = [
+			getRecentSignatureConfirmationPromise({
+				abortSignal: abortController.signal,
+				commitment,
+				signature: transactionSignature,
+			}),
+		];
+		if (isDurableNonceLifetime(lifetime)) {
+			const getNonceInvalidationPromise = createNonceInvalidationPromiseFactory({
+				rpc: runtime.rpc,
+				rpcSubscriptions: runtime.rpcSubscriptions,
+			} as Parameters<typeof createNonceInvalidationPromiseFactory>[0]);
+			waiters.push(
+				getNonceInvalidationPromise({
+					abortSignal: abortController.signal,
+					commitment,
+					currentNonceValue: lifetime.nonce as Parameters<
+						typeof getNonceInvalidationPromise
+					>[0]['currentNonceValue'],
+					nonceAccountAddress: toAddress(lifetime.nonceAccount),
+				}),
+			);
+		} else {
+			const getBlockHeightExceedencePromise = createBlockHeightExceedencePromiseFactory({
+				rpc: runtime.rpc,
+				rpcSubscriptions: runtime.rpcSubscriptions,
+			} as Parameters<typeof createBlockHeightExceedencePromiseFactory>[0]);
+			waiters.push(
+				getBlockHeightExceedencePromise({
+					abortSignal: abortController.signal,
+					commitment,
+					lastValidBlockHeight: lifetime.lastValidBlockHeight,
+				}),
+			);
+		}
+		try {
+			await Promise.race(waiters);
+		} finally {
+			abortSignal?.removeEventListener('abort', abort);
+			abortController.abort();
+		}
+	}
+
+	async function sendPlan(
+		prepared: TransactionPlanPrepared,
+		options: TransactionPlanSendOptions = {},
+	): Promise<TransactionPlanSendResult> {
+		const commitment = options.commitment ?? prepared.commitment;
+		const maxRetries = toMaxRetries(options.maxRetries);
+		const indexes = new Map(prepared.messages.map((message, index) => [message, index] as const));
+		const entries: TransactionPlanEntry[] = prepared.messages.map((_, index) =>
+			Object.freeze({ index, status: 'pending' as const }),
+		);
+		const updateEntry = (index: number, update: Omit<TransactionPlanEntry, 'index'>) => {
+			entries[index] = Object.freeze({ ...entries[index], ...update });
+			options.onProgress?.(Object.freeze([...entries]));
+		};
+
+		// Sign everything before the first send so the wallet prompts once instead of between transactions.
+		const signedTransactions =
+			prepared.mode === 'send'
+				? null
+				: await signTransactionMessagesWithSigners(prepared.messages, {
+						abortSignal: options.abortSignal,
+						minContextSlot: options.minContextSlot,
+					});
+
+		const executor = createTransactionPlanExecutor({
+			async executeTransactionMessage(message, config = {}) {
+				const index = indexes.get(message as SignableTransactionMessage);
+				if (index === undefined) {
+					throw new Error('Transaction plan executed a message that was not prepared.');
+				}
+				const abortSignal = config.abortSignal ?? options.abortSignal;
+				updateEntry(index, { status: 'sending' });
+				try {
+					let transactionSignature: ReturnType<typeof signature>;
+					if (signedTransactions) {
+						const response = await runtime.rpc
+							.sendTransaction(getBase64EncodedWireTransaction(signedTransactions[index]), {
+								encoding: 'base64',
+								maxRetries,
+								preflightCommitment: commitment,
+								skipPreflight: options.skipPreflight,
+							})
+							.send({ abortSignal });
+						transactionSignature = signature(response);
+					} else {
+						const signatureBytes = await signAndSendTransactionMessageWithSigners(
+							message as SignableTransactionMessage,
+							{ abortSignal, minContextSlot: options.minContextSlot },
+						);
+						transactionSignature = signature(getBase58Decoder().decode(signatureBytes));
+					}
+					updateEntry(index, { signature: transactionSignature, status: 'sending' });
+					// Wait for confirmation so later transactions of a sequential plan can rely on this one.
+					await confirmPlanTransaction(transactionSignature, prepared.lifetime, commitment, abortSignal);
+					updateEntry(index, { status: 'confirmed' });
+					return { transaction: signedTransactions?.[index] ?? compileTransaction(message) };
+				} catch (error) {
+					// An aborted confirmation says nothing about whether the submitted transaction lands.
+					const submitted = entries[index].signature !== undefined && abortSignal?.aborted === true;
+					updateEntry(index, { error, status: submitted ? 'unknown' : 'failed' });
+					throw error;
+				}
+			},
+		});
+
+		try {
+			await executor(prepared.plan, { abortSignal: options.abortSignal });
+		} catch (error) {
+			for (const entry of entries) {
+				if (entry.status === 'sending' && entry.signature) {
+					entries[entry.index] = Object.freeze({ ...entry, status: 'unknown' as const });
+				} else if (entry.status === 'pending' || entry.status === 'sending') {
+					entries[entry.index] = Object.freeze({ ...entry, status: 'canceled' as const });
+				}
+			}
+			const transactions = Object.freeze([...entries]);
+			options.onProgress?.(transactions);
+			const cause = transactions.find((entry) => entry.status === 'failed')?.error ?? error;
+			throw new TransactionPlanExecutionError(transactions, cause);
+		}
+
+		return Object.freeze({
+			signatures: Object.freeze(
+				entries
+					.map((entry) => entry.signature)
+					.filter((value): value is ReturnType<typeof signature> => !!value),
+			),
+			transactions: Object.freeze([...entries]),
+		});
+	}
+
+	async function prepareAndSendPlan(
+		request: TransactionPlanRequest,
+		options: TransactionPlanSendOptions = {},
+	): Promise<TransactionPlanSendResult> {
+		const prepared = await preparePlan(request);
+		return sendPlan(prepared, options);
+	}
+
 	return Object.freeze({
+		checkExpiry,
 		prepare,
 		sign,
 		toWire,
 		send,
 		prepareAndSend,
+		preparePlan,
+		sendPlan,
+		prepareAndSendPlan,
 	});
 }
@@ -1,14 +1,50 @@
 export {
+	type AccountCacheController,
+	type AccountCachePolicy,
+	createAccountCacheController,
+} from './accounts/cache';
+export {
+	type AccountDecoder,
+	type AccountDecoderInput,
+	type AccountDecoders,
+	addressLookupTableAccountDecoder,
+	type BuiltinDecodedAccount,
+	type DecodedAccount,
+	type DecodedLookupTableAccount,
+	type DecodedMintAccount,
+	type DecodedMultisigAccount,
+	type DecodedNonceAccount,
+	type DecodedStakeAccount,
+	type DecodedSystemAccount,
+	type DecodedTokenAccount,
+	decodeAccount,
+	getAccountDataBytes,
+	getDefaultAccountDecoders,
+	nonceAccountDecoder,
+	resolveAccountDecoders,
+	splTokenAccountDecoder,
+	stakeAccountDecoder,
+	systemAccountDecoder,
+	TOKEN_2022_PROGRAM_ADDRESS,
+	token2022AccountDecoder,
+} from './accounts/decoders';
+export {
+	clearAccounts,
 	connectWallet,
 	disconnectWallet,
 	fetchAccount,
+	fetchAccounts,
 	fetchBalance,
 	fetchLookupTable,
 	fetchLookupTables,
 	fetchNonceAccount,
+	getAccount,
+	invalidateAccount,
 	requestAirdrop,
+	selectAccount,
 	sendTransaction,
 	setCluster,
+	trackTransaction,
 } from './actions';
 export { createClient } from './client/createClient';
 export { createClientStore, createDefaultClientStore, createInitialClientState } from './client/createClientStore';
@@ -18,6 +54,7 @@ export {
 	defaultWalletConnectors,
 	resolveClientConfig,
 } from './client/defaultClient';
+export type { RelayedSubscription, SubscriptionRelay } from './client/watchers';
 export {
 	createSolTransferController,
 	type SolTransferController,
@@ -65,8 +102,16 @@ export {
 export {
 	createTransactionHelper,
 	createTransactionRecipe,
+	type TransactionExpiry,
 	type TransactionHelper,
 	type TransactionInstructionInput,
+	type TransactionPlanEntry,
+	type TransactionPlanEntryStatus,
+	TransactionPlanExecutionError,
+	type TransactionPlanPrepared,
+	type TransactionPlanRequest,
+	type TransactionPlanSendOptions,
+	type TransactionPlanSendResult,
 	type TransactionPrepareAndSendRequest,
 	type TransactionPrepared,
 	type TransactionPrepareRequest,
@@ -74,6 +119,7 @@ export {
 	type TransactionRecipeContext,
 	type TransactionSendOptions,
 	type TransactionSignOptions,
+	type TransactionSizeReport,
 } from './features/transactions';
 export {
 	createTokenAmount,
@@ -94,6 +140,7 @@ export {
 	toBigint,
 } from './numeric/math';
 export { type ApplyRatioOptions, applyRatio, createRatio, type Ratio, type RoundingMode } from './numeric/rational';
+export { getRpcTransportWithBatching, type RpcBatchingMetrics, type RpcBatchingOptions } from './rpc/batching';
 export {
 	type CreateSolanaRpcClientConfig,
 	createSolanaRpcClient,
@@ -101,11 +148,47 @@ export {
 	type SimulateTransactionOptions,
 	type SolanaRpcClient,
 } from './rpc/createSolanaRpcClient';
-export { bigintFromJson, bigintToJson, lamportsFromJson, lamportsToJson } from './serialization/json';
+export {
+	createRpcEndpointPool,
+	isRpcFailoverError,
+	normalizeRpcEndpoint,
+	type RpcEndpointConfig,
+	type RpcEndpointHealth,
+	type RpcEndpointPool,
+	type RpcEndpointPoolOptions,
+	type RpcEndpointRouting,
+} from './rpc/failover';
+export {
+	getRetryDelay,
+	getRpcTransportWithRetry,
+	isRetryableRpcError,
+	type RetryPolicy,
+	type WithRetryOptions,
+	withRetry,
+} from './rpc/retry';
+export {
+	type DehydrateOptions,
+	type DehydrateQuery,
+	dehydrate,
+	hydrate,
+	parseDehydratedState,
+} from './serialization/hydration';
+export {
+	bigintFromJson,
+	bigintToJson,
+	lamportsFromJson,
+	lamportsToJson,
+	parseJson,
+	stringifyJson,
+} from './serialization/json';
 export {
 	applySerializableState,
 	deserializeSolanaState,
 	getInitialSerializableState,
+	getSerializableTransactionState,
+	migrateSolanaState,
+	type SolanaStateMigration,
+	type SolanaStateSubscriptionOptions,
 	serializeSolanaState,
 	subscribeSolanaState,
 } from './serialization/state';
@@ -119,23 +202,53 @@ export {
 	type SignatureStatusLike,
 } from './signatures/status';
 export { type AsyncState, type AsyncStatus, createAsyncState, createInitialAsyncState } from './state/asyncState';
+export { createSyncChannel, type SyncChannel, type SyncChannelTransport } from './sync/channel';
+export { createTabSync, type TabSync, type TabSyncOptions } from './sync/tabSync';
+export {
+	type AddressLookupTableInput,
+	compressInstructionsUsingAddressLookupTables,
+	getLookupTableAddresses,
+	type ResolveAddressLookupTablesOptions,
+	resolveAddressLookupTables,
+} from './transactions/addressLookupTables';
 export {
 	transactionToBase64,
 	transactionToBase64WithSigners,
 } from './transactions/base64';
+export {
+	type BlockhashLifetime,
+	type DurableNonceLifetime,
+	isDurableNonceLifetime,
+	setTransactionMessageLifetime,
+	TransactionExpiredError,
+	type TransactionLifetime,
+} from './transactions/lifetime';
 export {
 	type PrepareTransactionConfig,
 	type PrepareTransactionMessage,
 	type PrepareTransactionOptions,
 	prepareTransaction,
 } from './transactions/prepareTransaction';
+export {
+	type ComputeUnitPriceInput,
+	estimatePriorityFee,
+	getWritableAccountAddresses,
+	type PriorityFeeEstimate,
+	type PriorityFeeEstimateConfig,
+	type PriorityFeeEstimateOptions,
+	type PriorityFeeLevel,
+	type PriorityFeeStrategy,
+	resolveComputeUnitPrice,
+} from './transactions/priorityFees';
 export { insertReferenceKey, insertReferenceKeys } from './transactions/referenceKeys';
 export {
 	createTransactionPoolController,
 	type LatestBlockhashCache,
 	type TransactionInstructionList,
+	type TransactionPoolCheckExpiryOptions,
 	type TransactionPoolConfig,
 	type TransactionPoolController,
+	type TransactionPoolExpiryState,
 	type TransactionPoolPrepareAndSendOptions,
 	type TransactionPoolPrepareOptions,
 	type TransactionPoolSendOptions,
@@ -147,19 +260,26 @@ export type {
 	AccountWatcherConfig,
 	AddressLookupTableData,
 	BalanceWatcherConfig,
+	ClearAccountsParameters,
+	ClearAccountsReturnType,
 	ClientActions,
 	ClientHelpers,
 	ClientLogger,
 	ClientState,
 	ClientStore,
 	ClientWatchers,
+	ClusterVerification,
 	ConnectWalletParameters,
 	ConnectWalletReturnType,
 	CreateStoreFn,
+	DehydratedQuery,
+	DehydratedSolanaState,
 	DisconnectWalletParameters,
 	DisconnectWalletReturnType,
 	FetchAccountParameters,
 	FetchAccountReturnType,
+	FetchAccountsParameters,
+	FetchAccountsReturnType,
 	FetchBalanceParameters,
 	FetchBalanceReturnType,
 	FetchLookupTableParameters,
@@ -168,27 +288,93 @@ export type {
 	FetchLookupTablesReturnType,
 	FetchNonceAccountParameters,
 	FetchNonceAccountReturnType,
+	GetAccountParameters,
+	GetAccountReturnType,
+	InvalidateAccountParameters,
+	InvalidateAccountReturnType,
+	LogsNotification,
+	LogsWatcherConfig,
 	NonceAccountData,
+	ProgramAccountNotification,
+	ProgramAccountsFilter,
+	ProgramAccountsWatcherConfig,
 	RequestAirdropParameters,
 	RequestAirdropReturnType,
+	SelectAccountParameters,
+	SelectAccountReturnType,
 	SendTransactionParameters,
 	SendTransactionReturnType,
 	SerializableSolanaState,
+	SerializableTransactionRecord,
 	SetClusterParameters,
 	SetClusterReturnType,
+	SlotNotification,
 	SolanaClient,
 	SolanaClientConfig,
+	SubscriptionState,
+	SubscriptionStatus,
+	TrackTransactionParameters,
+	TrackTransactionReturnType,
+	TransactionDurableNonce,
+	TransactionRebroadcastConfig,
+	TransactionRecord,
+	WalletAccount,
 	WalletConnector,
 	WalletConnectorMetadata,
 	WalletRegistry,
 	WalletSession,
 	WalletStatus,
+	WatchSubscription,
 } from './types';
 export { type AddressLike, toAddress, toAddressString } from './utils/addressLike';
-export { type ClusterMoniker, resolveCluster } from './utils/cluster';
+export {
+	type ClusterIdentity,
+	type ClusterMoniker,
+	getClusterChain,
+	getClusterIdentity,
+	getExpectedClusterIdentity,
+	resolveCluster,
+	type SolanaChain,
+} from './utils/cluster';
 export { stableStringify } from './utils/stableStringify';
+export {
+	assertWalletFeature,
+	getTransactionMessageVersion,
+	getWalletCapabilities,
+	supportsWalletFeature,
+	type WalletCapabilities,
+	type WalletFeature,
+	WalletFeatureUnsupportedError,
+	type WalletTransactionVersion,
+} from './wallet/capabilities';
 export { autoDiscover, backpack, injected, phantom, solflare } from './wallet/connectors';
+export {
+	type KeypairApprovalRequest,
+	type KeypairConnectorOptions,
+	keypairConnector,
+	type WatchOnlyConnectorOptions,
+	watchOnlyConnector,
+} from './wallet/local';
+export {
+	isMobileWalletAdapterSupported,
+	type MobileWalletAdapterIdentity,
+	type MobileWalletAdapterOptions,
+	mobileWalletAdapter,
+} from './wallet/mobile';
+export {
+	associateLocal,
+	type LocalAssociationOptions,
+	type MobileWalletAdapterSession,
+	type MobileWalletAdapterSocket,
+} from './wallet/mobileAssociation';
 export { createWalletRegistry } from './wallet/registry';
+export {
+	createSignInMessageText,
+	parseSignInMessageText,
+	type SignInInput,
+	type SignInMessage,
+	type SignInOutput,
+} from './wallet/siws';
 export {
 	createWalletStandardConnector,
 	getWalletStandardConnectors,
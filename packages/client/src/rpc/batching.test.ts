@@ -0,0 +1,236 @@
+import type { RpcTransport } from '@solana/kit';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getRpcTransportWithBatching } from './batching';
+
+type Payload = { id: number; jsonrpc: '2.0'; method: string; params: unknown[] };
+
+function createPayload(id: number, method: string, params: unknown[]): Payload {
+	return { id, jsonrpc: '2.0', method, params };
+}
+
+describe('getRpcTransportWithBatching', () => {
+	let transport: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		transport = vi.fn(async ({ payload }: { payload: Payload }) => {
+			if (payload.method === 'getMultipleAccounts') {
+				const [addresses] = payload.params as [string[]];
+				return {
+					id: payload.id,
+					jsonrpc: '2.0',
+					result: {
+						context: { slot: 9n },
+						value: addresses.map((address) =>
+							address === 'missing' ? null : { data: [address, 'base64'], lamports: 10n },
+						),
+					},
+				};
+			}
+			return { id: payload.id, jsonrpc: '2.0', result: payload.method };
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('folds account lookups made in the same tick into a single getMultipleAccounts call', async () => {
+		const logger = vi.fn();
+		const batched = getRpcTransportWithBatching(transport as unknown as RpcTransport, { logger });
+		const config = { commitment: 'confirmed', encoding: 'base64' };
+
+		const first = batched({ payload: createPayload(1, 'getAccountInfo', ['a', config]) });
+		const second = batched({ payload: createPayload(2, 'getAccountInfo', ['missing', config]) });
+		await vi.runAllTimersAsync();
+
+		expect(transport).toHaveBeenCalledTimes(1);
+		expect(transport.mock.calls[0][0].payload).toMatchObject({
+			method: 'getMultipleAccounts',
+			params: [['a', 'missing'], config],
+		});
+		await expect(first).resolves.toEqual({
+			id: 1,
+			jsonrpc: '2.0',
+			result: { context: { slot: 9n }, value: { data: ['a', 'base64'], lamports: 10n } },
+		});
+		await expect(second).resolves.toMatchObject({ id: 2, result: { value: null } });
+		expect(logger).toHaveBeenCalledWith({
+			data: { batchedRequests: 2, batches: 1, dedupedRequests: 0, requests: 2, sentRequests: 1 },
+			level: 'debug',
+			message: 'rpc batching metrics',
+		});
+	});
+
+	it('maps batched balance lookups to lamports', async () => {
+		const batched = getRpcTransportWithBatching(transport as unknown as RpcTransport);
+		const first = batched({ payload: createPayload(1, 'getBalance', ['a', { commitment: 'processed' }]) });
+		const second = batched({ payload: createPayload(2, 'getBalance', ['b', { commitment: 'processed' }]) });
+		await vi.runAllTimersAsync();
+
+		expect(transport.mock.calls[0][0].payload.params[1]).toEqual({
+			commitment: 'processed',
+			dataSlice: { length: 0, offset: 0 },
+			encoding: 'base64',
+		});
+		await expect(first).resolves.toMatchObject({ result: { value: 10n } });
+		await expect(second).resolves.toMatchObject({ result: { value: 10n } });
+	});
+
+	it('reports a zero bigint balance for a missing account', async () => {
+		const batched = getRpcTransportWithBatching(transport as unknown as RpcTransport);
+		const present = batched({ payload: createPayload(1, 'getBalance', ['a', { commitment: 'processed' }]) });
+		const missing = batched({ payload: createPayload(2, 'getBalance', ['missing', { commitment: 'processed' }]) });
+		await vi.runAllTimersAsync();
+
+		await present;
+		const response = (await missing) as { result: { value: unknown } };
+		expect(response.result.value).toBe(0n);
+	});
+
+	it('splits batches according to maxBatchSize and keeps differing configs apart', async () => {
+		const batched = getRpcTransportWithBatching(transport as unknown as RpcTransport, { maxBatchSize: 2 });
+		const requests = ['a', 'b', 'c'].map((address, index) =>
+			batched({ payload: createPayload(index, 'getAccountInfo', [address, { encoding: 'base64' }]) }),
+		);
+		requests.push(batched({ payload: createPayload(9, 'getAccountInfo', ['d', { encoding: 'jsonParsed' }]) }));
+		await vi.runAllTimersAsync();
+		await Promise.all(requests);
+
+		const methods = transport.mock.calls.map(([{ payload }]) => payload.method);
+		expect(methods).toEqual(['getMultipleAccounts', 'getAccountInfo', 'getAccountInfo']);
+	});
+
+	it('deduplicates identical in-flight requests and restores caller ids', async () => {
+		let release: () => void = () => undefined;
+		transport.mockImplementationOnce(
+			({ payload }: { payload: Payload }) =>
+				new Promise((resolve) => {
+					release = () => resolve({ id: payload.id, jsonrpc: '2.0', result: 42 });
+				}),
+		);
+		const batched = getRpcTransportWithBatching(transport as unknown as RpcTransport);
+		const first = batched({ payload: createPayload(1, 'getSlot', [{ commitment: 'confirmed' }]) });
+		await Promise.resolve();
+		const second = batched({ payload: createPayload(2, 'getSlot', [{ commitment: 'confirmed' }]) });
+		release();
+
+		await expect(first).resolves.toEqual({ id: 1, jsonrpc: '2.0', result: 42 });
+		await expect(second).resolves.toEqual({ id: 2, jsonrpc: '2.0', result: 42 });
+		expect(transport).toHaveBeenCalledTimes(1);
+	});
+
+	it('sends identical write requests separately', async () => {
+		const batched = getRpcTransportWithBatching(transport as unknown as RpcTransport);
+		const first = batched({ payload: createPayload(1, 'requestAirdrop', ['a', 1n]) });
+		const second = batched({ payload: createPayload(2, 'requestAirdrop', ['a', 1n]) });
+
+		await expect(first).resolves.toMatchObject({ id: 1 });
+		await expect(second).resolves.toMatchObject({ id: 2 });
+		expect(transport).toHaveBeenCalledTimes(2);
+	});
+
+	it('only folds account lookups that share an explicit encoding', async () => {
+		const batched = getRpcTransportWithBatching(transport as unknown as RpcTransport);
+		const requests = [
+			batched({ payload: createPayload(1, 'getAccountInfo', ['a']) }),
+			batched({ payload: createPayload(2, 'getAccountInfo', ['b', { commitment: 'confirmed' }]) }),
+		];
+		await vi.runAllTimersAsync();
+		await Promise.all(requests);
+
+		const methods = transport.mock.calls.map(([{ payload }]) => payload.method);
+		expect(methods).toEqual(['getAccountInfo', 'getAccountInfo']);
+	});
+
+	it('retries each request on its own when a batch fails', async () => {
+		transport.mockImplementationOnce(async ({ payload }: { payload: Payload }) => ({
+			error: { code: -32602, message: 'Invalid param' },
+			id: payload.id,
+			jsonrpc: '2.0',
+		}));
+		transport.mockImplementation(async ({ payload }: { payload: Payload }) =>
+			payload.params[0] === 'bad'
+				? { error: { code: -32602, message: 'Invalid param' }, id: payload.id, jsonrpc: '2.0' }
+				: { id: payload.id, jsonrpc: '2.0', result: { context: { slot: 1n }, value: null } },
+		);
+		const batched = getRpcTransportWithBatching(transport as unknown as RpcTransport);
+		const config = { encoding: 'base64' };
+		const good = batched({ payload: createPayload(1, 'getAccountInfo', ['a', config]) });
+		const bad = batched({ payload: createPayload(2, 'getAccountInfo', ['bad', config]) });
+		await vi.runAllTimersAsync();
+
+		await expect(good).resolves.toMatchObject({ id: 1, result: { value: null } });
+		await expect(bad).resolves.toMatchObject({ error: { code: -32602 }, id: 2 });
+		expect(transport.mock.calls.map(([{ payload }]) => payload.method)).toEqual([
+			'getMultipleAccounts',
+			'getAccountInfo',
+			'getAccountInfo',
+		]);
+	});
+
+	it('cancels a batched request when its only caller aborts', async () => {
+		const signals: AbortSignal[] = [];
+		transport.mockImplementationOnce(({ signal }: { signal: AbortSignal }) => {
+			signals.push(signal);
+			return new Promise(() => undefined);
+		});
+		const batched = getRpcTransportWithBatching(transport as unknown as RpcTransport);
+		const controller = new AbortController();
+		const request = batched({
+			payload: createPayload(1, 'getBalance', ['a', { commitment: 'confirmed' }]),
+			signal: controller.signal,
+		});
+		await vi.runAllTimersAsync();
+
+		controller.abort(new Error('gone'));
+		await expect(request).rejects.toThrow('gone');
+		expect(signals[0].aborted).toBe(true);
+	});
+
+	it('aborts the shared request only once every caller has aborted', async () => {
+		const signals: AbortSignal[] = [];
+		transport.mockImplementationOnce(({ signal }: { signal: AbortSignal }) => {
+			signals.push(signal);
+			return new Promise(() => undefined);
+		});
+		const batched = getRpcTransportWithBatching(transport as unknown as RpcTransport);
+		const firstController = new AbortController();
+		const secondController = new AbortController();
+		const first = batched({ payload: createPayload(1, 'getSlot', []), signal: firstController.signal });
+		const second = batched({ payload: createPayload(2, 'getSlot', []), signal: secondController.signal });
+
+		firstController.abort(new Error('first'));
+		await expect(first).rejects.toThrow('first');
+		expect(signals[0].aborted).toBe(false);
+
+		secondController.abort(new Error('second'));
+		await expect(second).rejects.toThrow('second');
+		expect(signals[0].aborted).toBe(true);
+	});
+
+	it('ignores aborts that arrive after the request settled', async () => {
+		const releases: (() => void)[] = [];
+		transport.mockImplementation(
+			({ payload }: { payload: Payload }) =>
+				new Promise((resolve) => {
+					releases.push(() => resolve({ id: payload.id, jsonrpc: '2.0', result: releases.length }));
+				}),
+		);
+		const batched = getRpcTransportWithBatching(transport as unknown as RpcTransport);
+		const controller = new AbortController();
+		const first = batched({ payload: createPayload(1, 'getSlot', []), signal: controller.signal });
+		releases[0]();
+		await first;
+
+		const second = batched({ payload: createPayload(2, 'getSlot', []) });
+		controller.abort(new Error('late'));
+		const third = batched({ payload: createPayload(3, 'getSlot', []) });
+		releases[1]();
+
+		await expect(second).resolves.toMatchObject({ id: 2 });
+		await expect(third).resolves.toMatchObject({ id: 3 });
+		expect(transport).toHaveBeenCalledTimes(2);
+	});
+});
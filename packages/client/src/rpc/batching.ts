@@ -0,0 +1,339 @@
+import type { RpcTransport } from '@solana/kit';
+
+import type { ClientLogger } from '../types';
+import { stableStringify } from '../utils/stableStringify';
+
+export type RpcBatchingOptions = Readonly<{
+	/** Receives `debug` events with cumulative batching metrics after every flush. */
+	logger?: ClientLogger;
+	/** Maximum number of accounts per `getMultipleAccounts` request. Defaults to 100 (the RPC limit). */
+	maxBatchSize?: number;
+	/** Milliseconds to wait while collecting requests. Defaults to `0` (requests made in the same tick). */
+	windowMs?: number;
+}>;
+
+export type RpcBatchingMetrics = Readonly<{
+	/** Requests that were folded into a `getMultipleAccounts` call. */
+	batchedRequests: number;
+	/** `getMultipleAccounts` calls issued on behalf of batched requests. */
+	batches: number;
+	/** Read requests that reused an identical in-flight request. */
+	dedupedRequests: number;
+	/** Requests received by the transport. */
+	requests: number;
+	/** Requests actually sent to the underlying transport. */
+	sentRequests: number;
+}>;
+
+type JsonRpcPayload = Readonly<{ id: unknown; jsonrpc: string; method: string; params?: unknown }>;
+
+type JsonRpcResponse = Readonly<{
+	error?: unknown;
+	id?: unknown;
+	jsonrpc?: string;
+	result?: Readonly<{ context: unknown; value: readonly (Readonly<{ lamports?: unknown }> | null)[] }>;
+}>;
+
+type SharedRequest = {
+	consumers: number;
+	readonly controller: AbortController;
+	readonly promise: Promise<unknown>;
+};
+
+type PendingAccountRequest = Readonly<{
+	address: string;
+	payload: JsonRpcPayload;
+	reject(error: unknown): void;
+	resolve(response: unknown): void;
+	signal: AbortSignal;
+}>;
+
+type PendingGroup = {
+	config: Record<string, unknown>;
+	readonly method: 'getAccountInfo' | 'getBalance';
+	readonly requests: PendingAccountRequest[];
+};
+
+const DEFAULT_MAX_BATCH_SIZE = 100;
+
+// Only reads are safe to share: two identical `sendTransaction` or `requestAirdrop` calls must both reach the node.
+const DEDUPABLE_METHODS = new Set([
+	'getAccountInfo',
+	'getBalance',
+	'getBlockHeight',
+	'getBlockTime',
+	'getEpochInfo',
+	'getFeeForMessage',
+	'getGenesisHash',
+	'getLatestBlockhash',
+	'getMinimumBalanceForRentExemption',
+	'getMultipleAccounts',
+	'getProgramAccounts',
+	'getRecentPrioritizationFees',
+	'getSignatureStatuses',
+	'getSignaturesForAddress',
+	'getSlot',
+	'getTokenAccountBalance',
+	'getTokenAccountsByOwner',
+	'getTransaction',
+	'getVersion',
+]);
+
+function isJsonRpcPayload(payload: unknown): payload is JsonRpcPayload {
+	return (
+		typeof payload === 'object' &&
+		payload !== null &&
+		'jsonrpc' in payload &&
+		'method' in payload &&
+		typeof (payload as { method: unknown }).method === 'string'
+	);
+}
+
+/**
+ * Balances always fold; account lookups only fold when they name an encoding, since a `getMultipleAccounts` call
+ * cannot mix encodings and an unset encoding must keep the RPC default.
+ */
+function isBatchable(payload: JsonRpcPayload): payload is JsonRpcPayload & { method: PendingGroup['method'] } {
+	if (payload.method === 'getBalance') {
+		return true;
+	}
+	if (payload.method !== 'getAccountInfo') {
+		return false;
+	}
+	const [, config] = (payload.params ?? []) as [unknown, { encoding?: unknown }?];
+	return typeof config?.encoding === 'string';
+}
+
+/**
+ * Creates a signal that aborts once every signal in `signals` has aborted.
+ */
+function createAllAbortedSignal(signals: readonly AbortSignal[]): AbortSignal {
+	const controller = new AbortController();
+	let remaining = signals.length;
+	for (const signal of signals) {
+		signal.addEventListener(
+			'abort',
+			() => {
+				remaining -= 1;
+				if (remaining === 0) {
+					controller.abort(signal.reason);
+				}
+			},
+			{ once: true },
+		);
+	}
+	return controller.signal;
+}
+
+/**
+ * Resolves when `promise` settles or rejects as soon as `signal` aborts, whichever happens first.
+ */
+function raceAbortSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	if (!signal) {
+		return promise;
+	}
+	if (signal.aborted) {
+		return Promise.reject(signal.reason);
+	}
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(signal.reason);
+		signal.addEventListener('abort', onAbort, { once: true });
+		promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+	});
+}
+
+/**
+ * Wraps an RPC transport so identical in-flight read requests share one network call and `getAccountInfo`/`getBalance`
+ * calls issued within the same window are folded into `getMultipleAccounts` requests.
+ *
+ * @param transport - Underlying transport that performs the network requests.
+ * @param options - Optional batch window, batch size, and metrics logger.
+ * @returns Transport implementing the same contract as `transport`.
+ */
+export function getRpcTransportWithBatching(transport: RpcTransport, options: RpcBatchingOptions = {}): RpcTransport {
+	const maxBatchSize = Math.max(1, options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE);
+	const windowMs = options.windowMs ?? 0;
+	const inFlight = new Map<string, SharedRequest>();
+	const groups = new Map<string, PendingGroup>();
+	let flushScheduled = false;
+	let metrics: RpcBatchingMetrics = {
+		batchedRequests: 0,
+		batches: 0,
+		dedupedRequests: 0,
+		requests: 0,
+		sentRequests: 0,
+	};
+
+	function record(update: Partial<RpcBatchingMetrics>): void {
+		metrics = {
+			batchedRequests: metrics.batchedRequests + (update.batchedRequests ?? 0),
+			batches: metrics.batches + (update.batches ?? 0),
+			dedupedRequests: metrics.dedupedRequests + (update.dedupedRequests ?? 0),
+			requests: metrics.requests + (update.requests ?? 0),
+			sentRequests: metrics.sentRequests + (update.sentRequests ?? 0),
+		};
+	}
+
+	function send(payload: unknown, signal?: AbortSignal): Promise<unknown> {
+		record({ sentRequests: 1 });
+		return transport({ payload, signal });
+	}
+
+	function sendEach(requests: readonly PendingAccountRequest[]): void {
+		for (const request of requests) {
+			send(request.payload, request.signal).then(request.resolve, request.reject);
+		}
+	}
+
+	/**
+	 * Splits a `getMultipleAccounts` response into per-request responses matching the original payloads. A failed
+	 * batch is retried one request at a time so a single bad address only fails its own caller.
+	 */
+	function settleGroup(group: PendingGroup, requests: readonly PendingAccountRequest[], response: unknown): void {
+		const { error, result } = (response ?? {}) as JsonRpcResponse;
+		if (error !== undefined || !result) {
+			sendEach(requests);
+			return;
+		}
+		requests.forEach((request, index) => {
+			const account = result.value[index] ?? null;
+			request.resolve({
+				id: request.payload.id,
+				jsonrpc: request.payload.jsonrpc,
+				result: {
+					context: result.context,
+					// Kit parses integers as bigints, so a missing account's balance must be one too.
+					value: group.method === 'getBalance' ? (account?.lamports ?? 0n) : account,
+				},
+			});
+		});
+	}
+
+	function flushGroup(group: PendingGroup): void {
+		const live = group.requests.filter((request) => {
+			if (request.signal.aborted) {
+				request.reject(request.signal.reason);
+				return false;
+			}
+			return true;
+		});
+		for (let start = 0; start < live.length; start += maxBatchSize) {
+			const requests = live.slice(start, start + maxBatchSize);
+			if (requests.length === 1) {
+				sendEach(requests);
+				continue;
+			}
+			const [first] = requests;
+			const config =
+				group.method === 'getBalance'
+					? { ...group.config, dataSlice: { length: 0, offset: 0 }, encoding: 'base64' }
+					: group.config;
+			record({ batchedRequests: requests.length, batches: 1 });
+			const signal = createAllAbortedSignal(requests.map((request) => request.signal));
+			send(
+				{
+					id: first.payload.id,
+					jsonrpc: first.payload.jsonrpc,
+					method: 'getMultipleAccounts',
+					params: [requests.map((request) => request.address), config],
+				},
+				signal,
+			).then(
+				(response) => settleGroup(group, requests, response),
+				(error) => {
+					if (!signal.aborted) {
+						sendEach(requests);
+						return;
+					}
+					for (const request of requests) {
+						request.reject(error);
+					}
+				},
+			);
+		}
+	}
+
+	function flush(): void {
+		flushScheduled = false;
+		const pending = [...groups.values()];
+		groups.clear();
+		for (const group of pending) {
+			flushGroup(group);
+		}
+		options.logger?.({
+			data: { ...metrics },
+			level: 'debug',
+			message: 'rpc batching metrics',
+		});
+	}
+
+	function scheduleFlush(): void {
+		if (flushScheduled) {
+			return;
+		}
+		flushScheduled = true;
+		setTimeout(flush, windowMs);
+	}
+
+	function enqueue(
+		payload: JsonRpcPayload & { method: PendingGroup['method'] },
+		signal: AbortSignal,
+	): Promise<unknown> {
+		const [address, config = {}] = (payload.params ?? []) as [string, Record<string, unknown>?];
+		const groupKey = `${payload.method}:${stableStringify(config)}`;
+		let group = groups.get(groupKey);
+		if (!group) {
+			group = { config, method: payload.method, requests: [] };
+			groups.set(groupKey, group);
+		}
+		const requests = group.requests;
+		return new Promise((resolve, reject) => {
+			requests.push({ address, payload, reject, resolve, signal });
+			scheduleFlush();
+		});
+	}
+
+	return (async <TResponse>({ payload, signal }: Parameters<RpcTransport>[0]): Promise<TResponse> => {
+		record({ requests: 1 });
+		if (!isJsonRpcPayload(payload) || !DEDUPABLE_METHODS.has(payload.method)) {
+			return (await send(payload, signal)) as TResponse;
+		}
+		const key = `${payload.method}:${stableStringify(payload.params)}`;
+		let shared = inFlight.get(key);
+		if (shared) {
+			record({ dedupedRequests: 1 });
+		} else {
+			// Owned by every consumer of this request; aborted once the last of them aborts.
+			const controller = new AbortController();
+			const promise = isBatchable(payload)
+				? enqueue(payload, controller.signal)
+				: send(payload, controller.signal);
+			shared = { consumers: 0, controller, promise };
+			inFlight.set(key, shared);
+			const settled = shared;
+			promise.then(
+				() => inFlight.get(key) === settled && inFlight.delete(key),
+				() => inFlight.get(key) === settled && inFlight.delete(key),
+			);
+		}
+		const current = shared;
+		current.consumers += 1;
+		const onAbort = () => {
+			current.consumers -= 1;
+			if (current.consumers === 0) {
+				if (inFlight.get(key) === current) {
+					inFlight.delete(key);
+				}
+				current.controller.abort(signal?.reason);
+			}
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
+		try {
+			const response = (await raceAbortSignal(current.promise, signal)) as { id?: unknown };
+			// Shared responses carry the id of the first caller; restore the id this caller sent.
+			return { ...response, id: payload.id } as TResponse;
+		} finally {
+			signal?.removeEventListener('abort', onAbort);
+		}
+	}) as RpcTransport;
+}
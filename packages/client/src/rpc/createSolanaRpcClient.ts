@@ -1,9 +1,13 @@
 import {
 	type ClusterUrl,
 	type Commitment,
+	createDefaultRpcTransport,
 	createSolanaRpc,
+	createSolanaRpcFromTransport,
 	createSolanaRpcSubscriptions,
+	createSolanaRpcSubscriptionsFromTransport,
 	getBase64EncodedWireTransaction,
+	type RpcTransport,
 	type SendableTransaction,
 	type Signature,
 	type Transaction,
@@ -14,6 +18,16 @@ import {
 	createRecentSignatureConfirmationPromiseFactory,
 	waitForRecentTransactionConfirmation,
 } from '@solana/transaction-confirmation';
+import { createLogger } from '../logging/logger';
+import type { ClientLogger } from '../types';
+import { getRpcTransportWithBatching, type RpcBatchingOptions } from './batching';
+import {
+	createRpcEndpointPool,
+	type RpcEndpointConfig,
+	type RpcEndpointPool,
+	type RpcEndpointRouting,
+} from './failover';
+import { getRpcTransportWithRetry, type RetryPolicy } from './retry';
 
 type SolanaRpcInstance = ReturnType<typeof createSolanaRpc>;
 type SolanaRpcSubscriptionsInstance = ReturnType<typeof createSolanaRpcSubscriptions>;
@@ -41,6 +55,7 @@ export type SimulateTransactionOptions = Readonly<{
 export type SolanaRpcClient = Readonly<{
 	commitment: Commitment;
 	endpoint: ClusterUrl;
+	endpointPool?: RpcEndpointPool;
 	rpc: SolanaRpcInstance;
 	rpcSubscriptions: SolanaRpcSubscriptionsInstance;
 	sendAndConfirmTransaction(
@@ -55,8 +70,18 @@ export type SolanaRpcClient = Readonly<{
 }>;
 
 export type CreateSolanaRpcClientConfig = Readonly<{
+	/** Opt-in request deduplication and `getMultipleAccounts` batching for the HTTP transport. */
+	batching?: RpcBatchingOptions | boolean;
 	commitment?: Commitment;
 	endpoint: ClusterUrl;
+	/** Additional endpoints, in priority order, used when the primary endpoint is unavailable. */
+	fallbackEndpoints?: readonly RpcEndpointConfig[];
+	/** Receives retry events and, unless overridden in `batching`, batching metrics. */
+	logger?: ClientLogger;
+	/** Opt-in retry policy for transient transport and JSON-RPC failures. `true` uses the defaults. */
+	retry?: RetryPolicy | boolean;
+	/** How requests pick between healthy endpoints. Defaults to `'priority'`. */
+	routing?: RpcEndpointRouting;
 	rpcConfig?: Parameters<typeof createSolanaRpc>[1];
 	rpcSubscriptionsConfig?: Parameters<typeof createSolanaRpcSubscriptions>[1];
 	websocketEndpoint?: ClusterUrl;
@@ -99,8 +124,34 @@ export function createSolanaRpcClient(config: CreateSolanaRpcClientConfig): Sola
 	const endpoint = config.endpoint;
 	const websocketEndpoint = config.websocketEndpoint ?? endpoint;
 	const commitment = config.commitment ?? 'confirmed';
-	const rpc = createSolanaRpc(endpoint, config.rpcConfig);
-	const rpcSubscriptions = createSolanaRpcSubscriptions(websocketEndpoint, config.rpcSubscriptionsConfig);
+	const endpointPool = config.fallbackEndpoints?.length
+		? createRpcEndpointPool({
+				endpoints: [{ endpoint, websocketEndpoint }, ...config.fallbackEndpoints],
+				routing: config.routing,
+				rpcConfig: config.rpcConfig,
+				rpcSubscriptionsConfig: config.rpcSubscriptionsConfig,
+			})
+		: undefined;
+	const batching = config.batching === true ? {} : config.batching || undefined;
+	const retry = config.retry === true ? {} : config.retry || undefined;
+	let rpc: SolanaRpcInstance;
+	if (endpointPool || batching || retry) {
+		const logger = createLogger(config.logger);
+		let transport: RpcTransport =
+			endpointPool?.rpcTransport ?? createDefaultRpcTransport({ url: endpoint, ...config.rpcConfig });
+		if (retry) {
+			transport = getRpcTransportWithRetry(transport, retry, logger);
+		}
+		if (batching) {
+			transport = getRpcTransportWithBatching(transport, { logger, ...batching });
+		}
+		rpc = createSolanaRpcFromTransport(transport);
+	} else {
+		rpc = createSolanaRpc(endpoint, config.rpcConfig);
+	}
+	const rpcSubscriptions: SolanaRpcSubscriptionsInstance = endpointPool
+		? createSolanaRpcSubscriptionsFromTransport(endpointPool.rpcSubscriptionsTransport)
+		: createSolanaRpcSubscriptions(websocketEndpoint, config.rpcSubscriptionsConfig);
 
 	async function sendAndConfirmTransaction(
 		transaction: ConfirmableTransaction,
@@ -166,6 +217,7 @@ export function createSolanaRpcClient(config: CreateSolanaRpcClientConfig): Sola
 	return {
 		commitment,
 		endpoint,
+		endpointPool,
 		rpc,
 		rpcSubscriptions,
 		sendAndConfirmTransaction,
@@ -0,0 +1,144 @@
+import { SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR, SolanaError } from '@solana/kit';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createRpcEndpointPool, isRpcFailoverError, normalizeRpcEndpoint } from './failover';
+
+const transports = vi.hoisted(() => new Map<string, ReturnType<typeof vi.fn>>());
+const subscriptionTransports = vi.hoisted(() => new Map<string, ReturnType<typeof vi.fn>>());
+const nowMock = vi.hoisted(() => {
+	let current = 1_000;
+	return Object.assign(
+		vi.fn(() => current),
+		{
+			advance(ms: number) {
+				current += ms;
+			},
+		},
+	);
+});
+
+vi.mock('@solana/kit', async (original) => {
+	const actual = await original<typeof import('@solana/kit')>();
+	return {
+		...actual,
+		createDefaultRpcSubscriptionsTransport: vi.fn(({ createChannel }: { createChannel: { url: string } }) => {
+			const transport = vi.fn(async () => ({ url: createChannel.url }));
+			subscriptionTransports.set(createChannel.url, transport);
+			return transport;
+		}),
+		createDefaultRpcTransport: vi.fn(({ url }: { url: string }) => {
+			const transport = vi.fn(async () => ({ url }));
+			transports.set(url, transport);
+			return transport;
+		}),
+		createDefaultSolanaRpcSubscriptionsChannelCreator: vi.fn((config: { url: string }) => ({ url: config.url })),
+	};
+});
+
+vi.mock('../utils', async (original) => {
+	const actual = await original<typeof import('../utils')>();
+	return {
+		...actual,
+		now: nowMock,
+	};
+});
+
+function httpError(statusCode: number) {
+	return new SolanaError(SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR, {
+		headers: new Headers(),
+		message: 'HTTP error',
+		statusCode,
+	});
+}
+
+describe('rpc endpoint failover', () => {
+	afterEach(() => {
+		transports.clear();
+		subscriptionTransports.clear();
+		vi.clearAllMocks();
+	});
+
+	it('normalizes endpoint configuration', () => {
+		expect(normalizeRpcEndpoint('https://a.rpc')).toEqual({
+			endpoint: 'https://a.rpc',
+			websocketEndpoint: 'https://a.rpc',
+		});
+		expect(normalizeRpcEndpoint({ endpoint: 'https://a.rpc', websocketEndpoint: 'wss://a.rpc' })).toEqual({
+			endpoint: 'https://a.rpc',
+			websocketEndpoint: 'wss://a.rpc',
+		});
+	});
+
+	it('classifies transport errors that warrant failover', () => {
+		expect(isRpcFailoverError(httpError(429))).toBe(true);
+		expect(isRpcFailoverError(httpError(503))).toBe(true);
+		expect(isRpcFailoverError(httpError(400))).toBe(false);
+		expect(isRpcFailoverError(new TypeError('fetch failed'))).toBe(true);
+		expect(isRpcFailoverError(new DOMException('aborted', 'AbortError'))).toBe(false);
+	});
+
+	it('fails over to the next endpoint on rate limits and remembers unhealthy endpoints', async () => {
+		const pool = createRpcEndpointPool({ endpoints: ['https://a.rpc', 'https://b.rpc'] });
+		const listener = vi.fn();
+		pool.subscribe(listener);
+		transports.get('https://a.rpc')?.mockRejectedValue(httpError(429));
+
+		await expect(pool.rpcTransport({ payload: { method: 'getSlot' } })).resolves.toEqual({ url: 'https://b.rpc' });
+		expect(pool.getActiveEndpoint().endpoint).toBe('https://b.rpc');
+		expect(pool.getEndpoints().map((health) => health.status)).toEqual(['unhealthy', 'healthy']);
+		expect(listener).toHaveBeenCalled();
+
+		await pool.rpcTransport({ payload: { method: 'getSlot' } });
+		expect(transports.get('https://a.rpc')).toHaveBeenCalledTimes(1);
+	});
+
+	it('retries unhealthy endpoints once the cooldown elapses', async () => {
+		const pool = createRpcEndpointPool({ cooldownMs: 500, endpoints: ['https://a.rpc', 'https://b.rpc'] });
+		transports.get('https://a.rpc')?.mockRejectedValueOnce(httpError(502));
+		await pool.rpcTransport({ payload: { method: 'getSlot' } });
+		expect(pool.getActiveEndpoint().endpoint).toBe('https://b.rpc');
+
+		nowMock.advance(500);
+		await expect(pool.rpcTransport({ payload: { method: 'getSlot' } })).resolves.toEqual({ url: 'https://a.rpc' });
+		expect(pool.getActiveEndpoint().endpoint).toBe('https://a.rpc');
+	});
+
+	it('does not fail over on non-transport errors', async () => {
+		const pool = createRpcEndpointPool({ endpoints: ['https://a.rpc', 'https://b.rpc'] });
+		transports.get('https://a.rpc')?.mockRejectedValue(httpError(400));
+		await expect(pool.rpcTransport({ payload: {} })).rejects.toThrow();
+		expect(transports.get('https://b.rpc')).not.toHaveBeenCalled();
+	});
+
+	it('throws the last error when every endpoint fails', async () => {
+		const pool = createRpcEndpointPool({ endpoints: ['https://a.rpc', 'https://b.rpc'] });
+		const last = httpError(503);
+		transports.get('https://a.rpc')?.mockRejectedValue(httpError(429));
+		transports.get('https://b.rpc')?.mockRejectedValue(last);
+		await expect(pool.rpcTransport({ payload: {} })).rejects.toBe(last);
+	});
+
+	it('routes to the lowest latency endpoint when requested', async () => {
+		const pool = createRpcEndpointPool({ endpoints: ['https://a.rpc', 'https://b.rpc'], routing: 'latency' });
+		pool.reportLatency('https://a.rpc', 120);
+		pool.reportLatency('https://b.rpc', 40);
+		expect(pool.getActiveEndpoint()).toMatchObject({ endpoint: 'https://b.rpc', latencyMs: 40, status: 'healthy' });
+		await expect(pool.rpcTransport({ payload: {} })).resolves.toEqual({ url: 'https://b.rpc' });
+	});
+
+	it('opens subscriptions against the websocket endpoint of the active entry', async () => {
+		const pool = createRpcEndpointPool({
+			endpoints: [{ endpoint: 'https://a.rpc', websocketEndpoint: 'wss://a.rpc' }, 'https://b.rpc'],
+		});
+		pool.reportFailure('https://a.rpc', new Error('down'));
+		const signal = new AbortController().signal;
+		await expect(
+			pool.rpcSubscriptionsTransport({
+				execute: vi.fn(),
+				request: { methodName: 'slotNotifications', params: [] },
+				signal,
+			} as unknown as Parameters<typeof pool.rpcSubscriptionsTransport>[0]),
+		).resolves.toEqual({ url: 'https://b.rpc' });
+		expect(subscriptionTransports.has('wss://a.rpc')).toBe(false);
+	});
+});
@@ -0,0 +1,253 @@
+import {
+	type ClusterUrl,
+	createDefaultRpcSubscriptionsTransport,
+	createDefaultRpcTransport,
+	createDefaultSolanaRpcSubscriptionsChannelCreator,
+	type createSolanaRpc,
+	createSolanaRpcFromTransport,
+	type createSolanaRpcSubscriptions,
+	isSolanaError,
+	type RpcSubscriptionsTransport,
+	type RpcTransport,
+	SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR,
+} from '@solana/kit';
+
+import { now } from '../utils';
+
+export type RpcEndpointConfig = ClusterUrl | Readonly<{ endpoint: ClusterUrl; websocketEndpoint?: ClusterUrl }>;
+
+export type RpcEndpointRouting = 'latency' | 'priority';
+
+export type RpcEndpointHealth = Readonly<{
+	endpoint: ClusterUrl;
+	error?: unknown;
+	lastCheckedAt?: number;
+	latencyMs?: number;
+	status: 'healthy' | 'unhealthy' | 'unknown';
+	websocketEndpoint: ClusterUrl;
+}>;
+
+export type RpcEndpointPoolOptions = Readonly<{
+	/** Milliseconds an unhealthy endpoint is skipped before it is tried again. Defaults to 30 seconds. */
+	cooldownMs?: number;
+	endpoints: readonly RpcEndpointConfig[];
+	routing?: RpcEndpointRouting;
+	rpcConfig?: Parameters<typeof createSolanaRpc>[1];
+	rpcSubscriptionsConfig?: Parameters<typeof createSolanaRpcSubscriptions>[1];
+}>;
+
+export type RpcEndpointPool = Readonly<{
+	getActiveEndpoint(): RpcEndpointHealth;
+	getEndpoints(): readonly RpcEndpointHealth[];
+	getRpc(endpoint: ClusterUrl): SolanaRpcInstance;
+	reportFailure(endpoint: ClusterUrl, error: unknown): void;
+	reportLatency(endpoint: ClusterUrl, latencyMs: number): void;
+	rpcSubscriptionsTransport: RpcSubscriptionsTransport;
+	rpcTransport: RpcTransport;
+	subscribe(listener: () => void): () => void;
+}>;
+
+type SolanaRpcInstance = ReturnType<typeof createSolanaRpc>;
+
+type PoolEntry = {
+	health: RpcEndpointHealth;
+	rpc?: SolanaRpcInstance;
+	readonly rpcTransport: RpcTransport;
+	rpcSubscriptionsTransport?: RpcSubscriptionsTransport;
+};
+
+const DEFAULT_COOLDOWN_MS = 30_000;
+
+/**
+ * Normalises an endpoint entry so both HTTP and websocket URLs are always present.
+ */
+export function normalizeRpcEndpoint(config: RpcEndpointConfig): Readonly<{
+	endpoint: ClusterUrl;
+	websocketEndpoint: ClusterUrl;
+}> {
+	if (typeof config === 'string') {
+		return { endpoint: config, websocketEndpoint: config };
+	}
+	return { endpoint: config.endpoint, websocketEndpoint: config.websocketEndpoint ?? config.endpoint };
+}
+
+/**
+ * Returns `true` when an RPC error indicates the endpoint itself is unavailable (network failures, HTTP 429 or 5xx)
+ * and the request should be retried against another endpoint.
+ */
+export function isRpcFailoverError(error: unknown): boolean {
+	if (error instanceof Error && error.name === 'AbortError') {
+		return false;
+	}
+	if (isSolanaError(error, SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR)) {
+		const { statusCode } = error.context;
+		return statusCode === 429 || statusCode >= 500;
+	}
+	// Any other Solana error was produced after the endpoint answered, so switching endpoints will not help.
+	return !isSolanaError(error);
+}
+
+/**
+ * Creates a pool of RPC endpoints that routes requests to the healthiest endpoint and fails over on transport errors.
+ *
+ * @param options - Endpoints in priority order plus routing and transport configuration.
+ * @returns Pool exposing failover-aware transports along with per-endpoint health.
+ */
+export function createRpcEndpointPool(options: RpcEndpointPoolOptions): RpcEndpointPool {
+	if (!options.endpoints.length) {
+		throw new Error('At least one RPC endpoint is required.');
+	}
+	const cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+	const routing = options.routing ?? 'priority';
+	const listeners = new Set<() => void>();
+	const entries: PoolEntry[] = options.endpoints.map((config) => {
+		const { endpoint, websocketEndpoint } = normalizeRpcEndpoint(config);
+		return {
+			health: { endpoint, status: 'unknown', websocketEndpoint },
+			rpcTransport: createDefaultRpcTransport({ url: endpoint, ...options.rpcConfig }),
+		};
+	});
+
+	function isAvailable(entry: PoolEntry): boolean {
+		if (entry.health.status !== 'unhealthy') {
+			return true;
+		}
+		return now() - (entry.health.lastCheckedAt ?? 0) >= cooldownMs;
+	}
+
+	/**
+	 * Orders endpoints by preference: available endpoints first (by priority or latency), unhealthy ones last.
+	 */
+	function getCandidates(): PoolEntry[] {
+		const available = entries.filter(isAvailable);
+		const unavailable = entries.filter((entry) => !isAvailable(entry));
+		if (routing === 'latency') {
+			available.sort(
+				(a, b) =>
+					(a.health.latencyMs ?? Number.POSITIVE_INFINITY) - (b.health.latencyMs ?? Number.POSITIVE_INFINITY),
+			);
+		}
+		return [...available, ...unavailable];
+	}
+
+	function notify(): void {
+		for (const listener of listeners) {
+			listener();
+		}
+	}
+
+	function findEntry(endpoint: ClusterUrl): PoolEntry | undefined {
+		return entries.find((entry) => entry.health.endpoint === endpoint);
+	}
+
+	function reportFailure(endpoint: ClusterUrl, error: unknown): void {
+		const entry = findEntry(endpoint);
+		if (!entry) {
+			return;
+		}
+		entry.health = { ...entry.health, error, lastCheckedAt: now(), status: 'unhealthy' };
+		notify();
+	}
+
+	function reportLatency(endpoint: ClusterUrl, latencyMs: number): void {
+		const entry = findEntry(endpoint);
+		if (!entry) {
+			return;
+		}
+		entry.health = {
+			endpoint: entry.health.endpoint,
+			lastCheckedAt: now(),
+			latencyMs,
+			status: 'healthy',
+			websocketEndpoint: entry.health.websocketEndpoint,
+		};
+		notify();
+	}
+
+	function markRecovered(entry: PoolEntry): void {
+		if (entry.health.status === 'healthy') {
+			return;
+		}
+		entry.health = {
+			endpoint: entry.health.endpoint,
+			lastCheckedAt: now(),
+			latencyMs: entry.health.latencyMs,
+			status: 'healthy',
+			websocketEndpoint: entry.health.websocketEndpoint,
+		};
+		notify();
+	}
+
+	function getSubscriptionsTransport(entry: PoolEntry): RpcSubscriptionsTransport {
+		if (!entry.rpcSubscriptionsTransport) {
+			entry.rpcSubscriptionsTransport = createDefaultRpcSubscriptionsTransport({
+				createChannel: createDefaultSolanaRpcSubscriptionsChannelCreator({
+					...options.rpcSubscriptionsConfig,
+					url: entry.health.websocketEndpoint,
+				}),
+			});
+		}
+		return entry.rpcSubscriptionsTransport;
+	}
+
+	/**
+	 * Runs a request against each candidate endpoint until one succeeds or a non-failover error is raised.
+	 */
+	async function runWithFailover<T>(
+		signal: AbortSignal | undefined,
+		request: (entry: PoolEntry) => Promise<T>,
+	): Promise<T> {
+		let lastError: unknown;
+		for (const entry of getCandidates()) {
+			try {
+				const result = await request(entry);
+				markRecovered(entry);
+				return result;
+			} catch (error) {
+				if (signal?.aborted || !isRpcFailoverError(error)) {
+					throw error;
+				}
+				lastError = error;
+				reportFailure(entry.health.endpoint, error);
+			}
+		}
+		throw lastError;
+	}
+
+	const rpcTransport = (<TResponse>(config: Parameters<RpcTransport>[0]) =>
+		runWithFailover(config.signal, (entry) => entry.rpcTransport<TResponse>(config))) as RpcTransport;
+
+	const rpcSubscriptionsTransport = ((config: Parameters<RpcSubscriptionsTransport>[0]) =>
+		runWithFailover(config.signal, (entry) =>
+			getSubscriptionsTransport(entry)(config),
+		)) as RpcSubscriptionsTransport;
+
+	return {
+		getActiveEndpoint() {
+			return getCandidates()[0].health;
+		},
+		getEndpoints() {
+			return entries.map((entry) => entry.health);
+		},
+		getRpc(endpoint: ClusterUrl) {
+			const entry = findEntry(endpoint);
+			if (!entry) {
+				throw new Error(`Endpoint "${endpoint}" is not part of this pool.`);
+			}
+			if (!entry.rpc) {
+				entry.rpc = createSolanaRpcFromTransport(entry.rpcTransport);
+			}
+			return entry.rpc;
+		},
+		reportFailure,
+		reportLatency,
+		rpcSubscriptionsTransport,
+		rpcTransport,
+		subscribe(listener: () => void) {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+	};
+}
@@ -0,0 +1,112 @@
+import {
+	type RpcTransport,
+	SOLANA_ERROR__JSON_RPC__SERVER_ERROR_NODE_UNHEALTHY,
+	SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR,
+	SolanaError,
+} from '@solana/kit';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getRetryDelay, getRpcTransportWithRetry, isRetryableRpcError, withRetry } from './retry';
+
+function httpError(statusCode: number) {
+	return new SolanaError(SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR, {
+		headers: new Headers(),
+		message: 'HTTP error',
+		statusCode,
+	});
+}
+
+describe('retry policy', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.spyOn(Math, 'random').mockReturnValue(0.5);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('classifies rate limits, unavailable nodes, and network failures as retryable', () => {
+		expect(isRetryableRpcError(httpError(429))).toBe(true);
+		expect(isRetryableRpcError(httpError(503))).toBe(true);
+		expect(isRetryableRpcError(httpError(404))).toBe(false);
+		expect(isRetryableRpcError(new SolanaError(SOLANA_ERROR__JSON_RPC__SERVER_ERROR_NODE_UNHEALTHY, {}))).toBe(
+			true,
+		);
+		expect(isRetryableRpcError(new TypeError('fetch failed'))).toBe(true);
+		expect(isRetryableRpcError(new Error('boom'))).toBe(false);
+	});
+
+	it('computes exponential delays capped by maxDelayMs', () => {
+		const policy = { baseDelayMs: 100, jitter: 0, maxDelayMs: 350 };
+		expect(getRetryDelay(policy, 1)).toBe(100);
+		expect(getRetryDelay(policy, 2)).toBe(200);
+		expect(getRetryDelay(policy, 3)).toBe(350);
+	});
+
+	it('applies jitter around the computed delay', () => {
+		vi.mocked(Math.random).mockReturnValue(1);
+		expect(getRetryDelay({ baseDelayMs: 100, jitter: 0.5 }, 1)).toBe(150);
+		vi.mocked(Math.random).mockReturnValue(0);
+		expect(getRetryDelay({ baseDelayMs: 100, jitter: 0.5 }, 1)).toBe(50);
+	});
+
+	it('retries retryable failures and logs each retry', async () => {
+		const logger = vi.fn();
+		const operation = vi.fn().mockRejectedValueOnce(httpError(429)).mockResolvedValueOnce('ok');
+		const promise = withRetry(operation, { context: { method: 'getSlot' }, logger, policy: { baseDelayMs: 10 } });
+		await vi.runAllTimersAsync();
+
+		await expect(promise).resolves.toBe('ok');
+		expect(operation).toHaveBeenCalledTimes(2);
+		expect(logger).toHaveBeenCalledWith(
+			expect.objectContaining({
+				data: expect.objectContaining({ attempt: 1, delayMs: 10, maxAttempts: 3, method: 'getSlot' }),
+				level: 'warn',
+				message: 'retrying rpc request',
+			}),
+		);
+	});
+
+	it('stops after maxAttempts or on non-retryable errors', async () => {
+		const failing = vi.fn().mockRejectedValue(httpError(503));
+		const exhausted = withRetry(failing, { policy: { baseDelayMs: 1, maxAttempts: 2 } });
+		const assertion = expect(exhausted).rejects.toBeInstanceOf(SolanaError);
+		await vi.runAllTimersAsync();
+		await assertion;
+		expect(failing).toHaveBeenCalledTimes(2);
+
+		const fatal = vi.fn().mockRejectedValue(new Error('fatal'));
+		await expect(withRetry(fatal)).rejects.toThrow('fatal');
+		expect(fatal).toHaveBeenCalledTimes(1);
+	});
+
+	it('honours custom classifiers', async () => {
+		const operation = vi.fn().mockRejectedValueOnce(new Error('custom')).mockResolvedValueOnce('ok');
+		const promise = withRetry(operation, { policy: { shouldRetry: (error) => String(error).includes('custom') } });
+		await vi.runAllTimersAsync();
+		await expect(promise).resolves.toBe('ok');
+	});
+
+	it('retries transient JSON-RPC error responses at the transport level', async () => {
+		const transport = vi
+			.fn()
+			.mockResolvedValueOnce({ error: { code: -32005, message: 'Node is unhealthy' }, id: 1, jsonrpc: '2.0' })
+			.mockResolvedValueOnce({ id: 1, jsonrpc: '2.0', result: 5 });
+		const retrying = getRpcTransportWithRetry(transport as unknown as RpcTransport, { baseDelayMs: 1 });
+		const promise = retrying({ payload: { id: 1, jsonrpc: '2.0', method: 'getSlot', params: [] } });
+		await vi.runAllTimersAsync();
+
+		await expect(promise).resolves.toEqual({ id: 1, jsonrpc: '2.0', result: 5 });
+		expect(transport).toHaveBeenCalledTimes(2);
+	});
+
+	it('passes non-retryable JSON-RPC errors through untouched', async () => {
+		const response = { error: { code: -32602, message: 'Invalid params' }, id: 1, jsonrpc: '2.0' };
+		const transport = vi.fn().mockResolvedValue(response);
+		const retrying = getRpcTransportWithRetry(transport as unknown as RpcTransport);
+		await expect(retrying({ payload: { id: 1, jsonrpc: '2.0', method: 'getSlot' } })).resolves.toBe(response);
+		expect(transport).toHaveBeenCalledTimes(1);
+	});
+});
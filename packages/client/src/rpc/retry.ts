@@ -0,0 +1,152 @@
+import {
+	getSolanaErrorFromJsonRpcError,
+	isSolanaError,
+	type RpcTransport,
+	SOLANA_ERROR__JSON_RPC__INTERNAL_ERROR,
+	SOLANA_ERROR__JSON_RPC__SERVER_ERROR_BLOCK_NOT_AVAILABLE,
+	SOLANA_ERROR__JSON_RPC__SERVER_ERROR_BLOCK_STATUS_NOT_AVAILABLE_YET,
+	SOLANA_ERROR__JSON_RPC__SERVER_ERROR_LONG_TERM_STORAGE_UNREACHABLE,
+	SOLANA_ERROR__JSON_RPC__SERVER_ERROR_MIN_CONTEXT_SLOT_NOT_REACHED,
+	SOLANA_ERROR__JSON_RPC__SERVER_ERROR_NODE_UNHEALTHY,
+	SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR,
+	type SolanaErrorCode,
+} from '@solana/kit';
+
+import { formatError } from '../logging/logger';
+import type { ClientLogger } from '../types';
+import { sleep } from '../utils';
+
+export type RetryPolicy = Readonly<{
+	/** Delay before the first retry in milliseconds. Defaults to 250. */
+	baseDelayMs?: number;
+	/** Growth factor applied to the delay after every attempt. Defaults to 2. */
+	backoffMultiplier?: number;
+	/** Fraction (0–1) of each delay that is randomised to avoid thundering herds. Defaults to 0.2. */
+	jitter?: number;
+	/** Total number of attempts, including the first one. Defaults to 3. */
+	maxAttempts?: number;
+	/** Upper bound for a single delay in milliseconds. Defaults to 5 seconds. */
+	maxDelayMs?: number;
+	/** Decides whether an error is retryable. Defaults to {@link isRetryableRpcError}. */
+	shouldRetry?(error: unknown, attempt: number): boolean;
+}>;
+
+export type WithRetryOptions = Readonly<{
+	/** Extra fields included in every retry log event. */
+	context?: Record<string, unknown>;
+	logger?: ClientLogger;
+	policy?: RetryPolicy;
+	signal?: AbortSignal;
+}>;
+
+const RETRYABLE_HTTP_STATUS_CODES: readonly number[] = [429, 502, 503, 504];
+
+/**
+ * Default retry classifier: HTTP 429/502/503/504, transient JSON-RPC server errors, and network failures.
+ *
+ * @param error - Error raised by an RPC request.
+ * @returns `true` when repeating the request may succeed.
+ */
+export function isRetryableRpcError(error: unknown): boolean {
+	if (error instanceof Error && error.name === 'AbortError') {
+		return false;
+	}
+	if (isSolanaError(error, SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR)) {
+		return RETRYABLE_HTTP_STATUS_CODES.includes(error.context.statusCode);
+	}
+	if (isSolanaError(error)) {
+		const retryableCodes: readonly SolanaErrorCode[] = [
+			SOLANA_ERROR__JSON_RPC__INTERNAL_ERROR,
+			SOLANA_ERROR__JSON_RPC__SERVER_ERROR_BLOCK_NOT_AVAILABLE,
+			SOLANA_ERROR__JSON_RPC__SERVER_ERROR_BLOCK_STATUS_NOT_AVAILABLE_YET,
+			SOLANA_ERROR__JSON_RPC__SERVER_ERROR_LONG_TERM_STORAGE_UNREACHABLE,
+			SOLANA_ERROR__JSON_RPC__SERVER_ERROR_MIN_CONTEXT_SLOT_NOT_REACHED,
+			SOLANA_ERROR__JSON_RPC__SERVER_ERROR_NODE_UNHEALTHY,
+		];
+		return retryableCodes.includes(error.context.__code);
+	}
+	// `fetch` rejects with a `TypeError` when the network request itself fails.
+	return error instanceof TypeError;
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with jitter.
+ *
+ * @param policy - Retry policy in effect.
+ * @param attempt - Attempt that just failed, starting at 1.
+ * @returns Milliseconds to wait before retrying.
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+	const baseDelayMs = policy.baseDelayMs ?? 250;
+	const multiplier = policy.backoffMultiplier ?? 2;
+	const maxDelayMs = policy.maxDelayMs ?? 5_000;
+	const jitter = Math.min(1, Math.max(0, policy.jitter ?? 0.2));
+	const delay = Math.min(maxDelayMs, baseDelayMs * multiplier ** (attempt - 1));
+	return Math.max(0, Math.round(delay + delay * jitter * (Math.random() * 2 - 1)));
+}
+
+/**
+ * Runs an async operation, retrying it according to the provided policy.
+ *
+ * @param operation - Operation to run; receives the current attempt number starting at 1.
+ * @param options - Retry policy, logger, abort signal, and log context.
+ * @returns The result of the first successful attempt.
+ */
+export async function withRetry<T>(
+	operation: (attempt: number) => Promise<T>,
+	options: WithRetryOptions = {},
+): Promise<T> {
+	const policy = options.policy ?? {};
+	const maxAttempts = Math.max(1, policy.maxAttempts ?? 3);
+	const shouldRetry = policy.shouldRetry ?? isRetryableRpcError;
+	for (let attempt = 1; ; attempt += 1) {
+		try {
+			return await operation(attempt);
+		} catch (error) {
+			if (attempt >= maxAttempts || options.signal?.aborted || !shouldRetry(error, attempt)) {
+				throw error;
+			}
+			const delayMs = getRetryDelay(policy, attempt);
+			options.logger?.({
+				data: { ...options.context, attempt, delayMs, maxAttempts, ...formatError(error) },
+				level: 'warn',
+				message: 'retrying rpc request',
+			});
+			await sleep(delayMs, options.signal);
+		}
+	}
+}
+
+/**
+ * Wraps an RPC transport so transport failures and transient JSON-RPC errors are retried with backoff.
+ *
+ * @param transport - Underlying transport that performs the network requests.
+ * @param policy - Retry policy to apply.
+ * @param logger - Optional logger that receives one `warn` event per retry.
+ * @returns Transport implementing the same contract as `transport`.
+ */
+export function getRpcTransportWithRetry(
+	transport: RpcTransport,
+	policy: RetryPolicy = {},
+	logger?: ClientLogger,
+): RpcTransport {
+	const shouldRetry = policy.shouldRetry ?? isRetryableRpcError;
+	return (<TResponse>({ payload, signal }: Parameters<RpcTransport>[0]) => {
+		const method = (payload as { method?: unknown } | null)?.method;
+		return withRetry(
+			async (attempt) => {
+				const response = await transport<TResponse>({ payload, signal });
+				const jsonRpcError = (response as { error?: unknown } | null)?.error;
+				if (jsonRpcError !== undefined) {
+					// JSON-RPC errors resolve successfully at the transport level; surface transient ones so they retry.
+					const error = getSolanaErrorFromJsonRpcError(jsonRpcError);
+					if (shouldRetry(error, attempt)) {
+						throw error;
+					}
+				}
+				return response;
+			},
+			{ context: { method }, logger, policy, signal },
+		);
+	}) as RpcTransport;
+}
@@ -0,0 +1,74 @@
+import type { Address, Lamports } from '@solana/kit';
+import { describe, expect, it } from 'vitest';
+
+import { createDefaultClientStore } from '../client/createClientStore';
+import type { AccountCacheEntry, SolanaClient } from '../types';
+import { dehydrate, hydrate, parseDehydratedState } from './hydration';
+
+const ADDRESS = 'So11111111111111111111111111111111111111112' as Address;
+const OTHER_ADDRESS = 'SysvarC1ock11111111111111111111111111111111' as Address;
+
+function createStubClient(endpoint = 'https://api.devnet.solana.com') {
+	const store = createDefaultClientStore({ commitment: 'confirmed', endpoint });
+	return { store } as unknown as SolanaClient;
+}
+
+function createEntry(address: Address, overrides: Partial<AccountCacheEntry> = {}): AccountCacheEntry {
+	return {
+		address,
+		data: { bytes: new Uint8Array([1, 2, 3]) },
+		fetching: false,
+		lamports: 5n as Lamports,
+		lastFetchedAt: 10,
+		slot: 7n,
+		...overrides,
+	};
+}
+
+describe('dehydrate and hydrate', () => {
+	it('round-trips fetched accounts and queries with bigints and bytes intact', async () => {
+		const server = createStubClient();
+		server.store.setState((state) => ({
+			...state,
+			accounts: {
+				[ADDRESS]: createEntry(ADDRESS),
+				[OTHER_ADDRESS]: createEntry(OTHER_ADDRESS, { error: new Error('boom') }),
+			},
+		}));
+
+		const payload = await dehydrate(server, {
+			queries: [
+				{ args: ['slot', null], fetcher: async () => ({ slot: 3n }), scope: 'slot' },
+				{ args: [], fetcher: () => Promise.reject(new Error('offline')), scope: 'failing' },
+			],
+		});
+		const browser = createStubClient();
+		const hydrated = hydrate(browser, payload);
+
+		expect(hydrated?.queries).toEqual([{ args: ['slot', null], data: { slot: 3n }, scope: 'slot' }]);
+		expect(browser.store.getState().accounts).toEqual({ [ADDRESS]: createEntry(ADDRESS) });
+	});
+
+	it('keeps accounts the browser fetched more recently', async () => {
+		const server = createStubClient();
+		server.store.setState((state) => ({ ...state, accounts: { [ADDRESS]: createEntry(ADDRESS) } }));
+		const browser = createStubClient();
+		const fresher = createEntry(ADDRESS, { lamports: 9n as Lamports, lastFetchedAt: 20 });
+		browser.store.setState((state) => ({ ...state, accounts: { [ADDRESS]: fresher } }));
+
+		hydrate(browser, await dehydrate(server));
+
+		expect(browser.store.getState().accounts[ADDRESS]).toBe(fresher);
+	});
+
+	it('ignores payloads from another endpoint or in an unknown shape', async () => {
+		const server = createStubClient('https://api.mainnet-beta.solana.com');
+		server.store.setState((state) => ({ ...state, accounts: { [ADDRESS]: createEntry(ADDRESS) } }));
+		const browser = createStubClient();
+
+		expect(hydrate(browser, await dehydrate(server))).toBeNull();
+		expect(browser.store.getState().accounts).toEqual({});
+		expect(parseDehydratedState('{"version":99}')).toBeNull();
+		expect(parseDehydratedState('not json')).toBeNull();
+	});
+});
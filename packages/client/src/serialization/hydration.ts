@@ -0,0 +1,111 @@
+import type { AccountCache, DehydratedQuery, DehydratedSolanaState, SolanaClient } from '../types';
+import { now } from '../utils';
+import { parseJson, stringifyJson } from './json';
+
+/** Query to run on the server; `scope` and `args` must match the ones the rendering hook uses. */
+export type DehydrateQuery<TData = unknown> = Readonly<{
+	/** Arguments of the query key. Use `null` rather than `undefined`, which JSON cannot represent in arrays. */
+	args: readonly unknown[];
+	fetcher(client: SolanaClient): Promise<TData>;
+	scope: string;
+}>;
+
+export type DehydrateOptions = Readonly<{
+	/** Queries to run and include alongside the account cache. Queries that fail are left out. */
+	queries?: readonly DehydrateQuery[];
+}>;
+
+const DEHYDRATED_STATE_VERSION = 1;
+
+/**
+ * Collects the accounts a client has fetched, plus the results of the given queries, so they can be rendered again
+ * in the browser without refetching.
+ *
+ * Account entries that are still loading or that failed are left out, since their state only makes sense to the
+ * client that requested them.
+ *
+ * @param client - Client that fetched the data, usually a short-lived server-side instance.
+ * @param options - Queries to include in the payload.
+ * @returns JSON payload with bigints and byte arrays preserved, safe to pass from server to client components.
+ */
+export async function dehydrate(client: SolanaClient, options: DehydrateOptions = {}): Promise<string> {
+	const settled = await Promise.allSettled(
+		(options.queries ?? []).map(async ({ args, fetcher, scope }): Promise<DehydratedQuery> => {
+			return { args, data: await fetcher(client), scope };
+		}),
+	);
+	const queries = settled.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+	const state = client.store.getState();
+	const accounts: AccountCache = {};
+	for (const [key, entry] of Object.entries(state.accounts)) {
+		if (entry.fetching || entry.error !== undefined || entry.lastFetchedAt === undefined) {
+			continue;
+		}
+		accounts[key] = entry;
+	}
+	const payload: DehydratedSolanaState = {
+		accounts,
+		cluster: { commitment: state.cluster.commitment, endpoint: state.cluster.endpoint },
+		queries,
+		version: DEHYDRATED_STATE_VERSION,
+	};
+	return stringifyJson(payload);
+}
+
+/**
+ * Parses a payload produced by {@link dehydrate}.
+ *
+ * @param payload - JSON payload.
+ * @returns Dehydrated state, or `null` when the payload is malformed or from an unsupported version.
+ */
+export function parseDehydratedState(payload: string): DehydratedSolanaState | null {
+	try {
+		const parsed = parseJson<Partial<DehydratedSolanaState> | null>(payload);
+		if (
+			!parsed ||
+			parsed.version !== DEHYDRATED_STATE_VERSION ||
+			typeof parsed.accounts !== 'object' ||
+			typeof parsed.cluster !== 'object' ||
+			!Array.isArray(parsed.queries)
+		) {
+			return null;
+		}
+		return parsed as DehydratedSolanaState;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Seeds a client's account cache with data produced by {@link dehydrate}.
+ *
+ * Nothing is applied when the payload was fetched from another endpoint. Accounts the client already fetched more
+ * recently are kept, so hydrating the same payload twice is harmless.
+ *
+ * @param client - Browser client to seed.
+ * @param payload - JSON payload or an already parsed state.
+ * @returns Applied state, or `null` when the payload was ignored.
+ */
+export function hydrate(client: SolanaClient, payload: DehydratedSolanaState | string): DehydratedSolanaState | null {
+	const state = typeof payload === 'string' ? parseDehydratedState(payload) : payload;
+	if (!state || state.cluster.endpoint !== client.store.getState().cluster.endpoint) {
+		return null;
+	}
+	const accounts = client.store.getState().accounts;
+	const updates: AccountCache = {};
+	for (const [key, entry] of Object.entries(state.accounts)) {
+		const existing = accounts[key];
+		if (existing?.lastFetchedAt !== undefined && existing.lastFetchedAt >= (entry.lastFetchedAt ?? 0)) {
+			continue;
+		}
+		updates[key] = { ...entry, fetching: false };
+	}
+	if (Object.keys(updates).length > 0) {
+		client.store.setState((current) => ({
+			...current,
+			accounts: { ...current.accounts, ...updates },
+			lastUpdatedAt: now(),
+		}));
+	}
+	return state;
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { bigintFromJson, bigintToJson, lamportsFromJson, lamportsToJson } from './json';
+import { bigintFromJson, bigintToJson, lamportsFromJson, lamportsToJson, parseJson, stringifyJson } from './json';
 
 describe('json serialization helpers', () => {
 	it('serializes and parses bigint values', () => {
@@ -15,4 +15,16 @@ describe('json serialization helpers', () => {
 		expect(lamportsFromJson('10')).toBe(10n);
 		expect(() => lamportsFromJson('-5')).toThrow(/non-negative/);
 	});
+
+	it('round-trips bigints and byte arrays through JSON', () => {
+		const value = { bytes: new Uint8Array([1, 2, 3]), nested: [{ lamports: 5n }], plain: 'text' };
+		const text = stringifyJson(value);
+
+		expect(JSON.parse(text)).toEqual({
+			bytes: { $bytes: 'AQID' },
+			nested: [{ lamports: { $bigint: '5' } }],
+			plain: 'text',
+		});
+		expect(parseJson(text)).toEqual(value);
+	});
 });
@@ -1,4 +1,4 @@
-import type { Lamports } from '@solana/kit';
+import { getBase64Decoder, getBase64Encoder, type Lamports } from '@solana/kit';
 
 import { lamports } from '../numeric/lamports';
 import { type BigintLike, toBigint } from '../numeric/math';
@@ -42,3 +42,62 @@ export function lamportsToJson(value: Lamports): string {
 export function lamportsFromJson(value: BigintLike): Lamports {
 	return lamports(value, 'lamports');
 }
+
+const base64Decoder = getBase64Decoder();
+const base64Encoder = getBase64Encoder();
+
+/**
+ * Encodes values JSON cannot represent as tagged objects.
+ *
+ * @param _key - Property name, unused.
+ * @param value - Value being serialized.
+ * @returns JSON-compatible value.
+ */
+function replaceJsonValue(_key: string, value: unknown): unknown {
+	if (typeof value === 'bigint') {
+		return { $bigint: value.toString() };
+	}
+	if (value instanceof Uint8Array) {
+		return { $bytes: base64Decoder.decode(value) };
+	}
+	return value;
+}
+
+/**
+ * Restores values encoded by {@link replaceJsonValue}.
+ *
+ * @param _key - Property name, unused.
+ * @param value - Parsed value.
+ * @returns Original value.
+ */
+function reviveJsonValue(_key: string, value: unknown): unknown {
+	if (typeof value === 'object' && value !== null) {
+		if ('$bigint' in value && typeof value.$bigint === 'string') {
+			return BigInt(value.$bigint);
+		}
+		if ('$bytes' in value && typeof value.$bytes === 'string') {
+			return new Uint8Array(base64Encoder.encode(value.$bytes));
+		}
+	}
+	return value;
+}
+
+/**
+ * Serializes a value to JSON, keeping bigints and byte arrays intact for {@link parseJson}.
+ *
+ * @param value - Value to serialize.
+ * @returns JSON string.
+ */
+export function stringifyJson(value: unknown): string {
+	return JSON.stringify(value, replaceJsonValue);
+}
+
+/**
+ * Parses JSON produced by {@link stringifyJson}, restoring bigints and byte arrays.
+ *
+ * @param text - JSON string.
+ * @returns Parsed value.
+ */
+export function parseJson<T = unknown>(text: string): T {
+	return JSON.parse(text, reviveJsonValue) as T;
+}
@@ -1,4 +1,4 @@
-import type { Address } from '@solana/kit';
+import type { Address, Signature } from '@solana/kit';
 import { describe, expect, it } from 'vitest';
 
 import { createClientStore, createInitialClientState } from '../client/createClientStore';
@@ -7,6 +7,8 @@ import {
 	applySerializableState,
 	deserializeSolanaState,
 	getInitialSerializableState,
+	getSerializableTransactionState,
+	migrateSolanaState,
 	serializeSolanaState,
 	subscribeSolanaState,
 } from './state';
@@ -29,7 +31,7 @@ describe('serialization state helpers', () => {
 			endpoint: baseConfig.endpoint,
 			lastConnectorId: null,
 			lastPublicKey: null,
-			version: 1,
+			version: 2,
 			websocketEndpoint: 'wss://api.devnet.solana.com',
 		});
 	});
@@ -67,6 +69,78 @@ describe('serialization state helpers', () => {
 		expect(deserializeSolanaState('not-json')).toBeNull();
 	});
 
+	it('migrates snapshots written by earlier versions', () => {
+		const legacy = JSON.stringify({ endpoint: baseConfig.endpoint, lastConnectorId: 'phantom', version: 1 });
+		expect(deserializeSolanaState(legacy)).toMatchObject({
+			endpoint: baseConfig.endpoint,
+			lastConnectorId: 'phantom',
+			transactions: {},
+			version: 2,
+		});
+		expect(deserializeSolanaState(JSON.stringify({ endpoint: baseConfig.endpoint }))).toMatchObject({
+			version: 2,
+		});
+	});
+
+	it('runs registered migrations in order and rejects gaps', () => {
+		const migrations = {
+			1: (state: Record<string, unknown>) => ({ ...state, steps: ['1->2'] }),
+		};
+		expect(migrateSolanaState({ version: 1 }, migrations)).toEqual({ steps: ['1->2'], version: 2 });
+		expect(migrateSolanaState({ future: true, version: 7 }, migrations)).toEqual({ future: true, version: 7 });
+		expect(() => migrateSolanaState({ version: 1 }, {})).toThrow(
+			'Missing migration for serialized state version 1.',
+		);
+	});
+
+	it('persists pending transactions only when opted in', () => {
+		const store = createClientStore(
+			createInitialClientState({
+				commitment: 'confirmed',
+				endpoint: baseConfig.endpoint,
+				transactions: {
+					done: { lastUpdatedAt: 1, signature: 'done' as Signature, status: 'confirmed' },
+					pending: {
+						commitment: 'finalized',
+						lastUpdatedAt: 2,
+						lastValidBlockHeight: 123n,
+						signature: 'pending' as Signature,
+						status: 'sending',
+					},
+					unsigned: { lastUpdatedAt: 3, status: 'sending' },
+				},
+			}),
+		);
+		const client = { store } as unknown as SolanaClient;
+
+		const withoutTransactions: Array<ReturnType<typeof deserializeSolanaState>> = [];
+		subscribeSolanaState(client, (state) => withoutTransactions.push(state))();
+		expect(withoutTransactions[0]?.transactions).toBeUndefined();
+
+		const snapshots: Array<ReturnType<typeof deserializeSolanaState>> = [];
+		subscribeSolanaState(client, (state) => snapshots.push(state), { persistTransactions: true })();
+		const restored = deserializeSolanaState(serializeSolanaState(snapshots[0] as never));
+		expect(restored?.transactions).toEqual({
+			pending: {
+				commitment: 'finalized',
+				lastUpdatedAt: 2,
+				lastValidBlockHeight: '123',
+				signature: 'pending',
+				status: 'sending',
+			},
+		});
+		expect(getSerializableTransactionState(restored)).toEqual({
+			pending: {
+				commitment: 'finalized',
+				lastUpdatedAt: 2,
+				lastValidBlockHeight: 123n,
+				signature: 'pending',
+				status: 'sending',
+			},
+		});
+		expect(getSerializableTransactionState(null)).toEqual({});
+	});
+
 	it('honors the wallet autoConnect preference when serializing state', () => {
 		const initial = createInitialClientState({
 			commitment: 'confirmed',
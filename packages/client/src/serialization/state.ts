@@ -1,6 +1,131 @@
-import type { SerializableSolanaState, SolanaClient, SolanaClientConfig } from '../types';
+import type { Address, Signature } from '@solana/kit';
 
-const SERIALIZABLE_STATE_VERSION = 1;
+import type {
+	SerializableSolanaState,
+	SerializableTransactionRecord,
+	SolanaClient,
+	SolanaClientConfig,
+	TransactionState,
+} from '../types';
+import { bigintFromJson, bigintToJson } from './json';
+
+/** Upgrades a persisted snapshot from one version to the next. */
+export type SolanaStateMigration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+export type SolanaStateSubscriptionOptions = Readonly<{
+	/** Include pending transactions so they can be tracked again after a reload. Defaults to `false`. */
+	persistTransactions?: boolean;
+}>;
+
+const SERIALIZABLE_STATE_VERSION = 2;
+
+/**
+ * Migration steps keyed by the version they upgrade from. Bump {@link SERIALIZABLE_STATE_VERSION} and register a
+ * step here whenever the persisted shape changes.
+ */
+const SERIALIZABLE_STATE_MIGRATIONS: Readonly<Record<number, SolanaStateMigration>> = {
+	// Version 2 added pending transactions.
+	1: (state) => ({ ...state, transactions: {} }),
+};
+
+/**
+ * Runs the registered migrations over a persisted snapshot until it reaches the current version.
+ *
+ * Snapshots without a version are treated as version 1. Snapshots from a newer release are returned untouched so
+ * the fields this release understands can still be read.
+ *
+ * @param state - Parsed snapshot.
+ * @param migrations - Migration steps keyed by the version they upgrade from.
+ * @returns Snapshot in the current shape.
+ */
+export function migrateSolanaState(
+	state: Record<string, unknown>,
+	migrations: Readonly<Record<number, SolanaStateMigration>> = SERIALIZABLE_STATE_MIGRATIONS,
+): Record<string, unknown> {
+	let current = state;
+	let version = typeof current.version === 'number' ? current.version : 1;
+	while (version < SERIALIZABLE_STATE_VERSION) {
+		const migrate = migrations[version];
+		if (!migrate) {
+			throw new Error(`Missing migration for serialized state version ${version}.`);
+		}
+		version += 1;
+		current = { ...migrate(current), version };
+	}
+	return current;
+}
+
+/**
+ * Reads the durable nonce of a persisted transaction record.
+ *
+ * @param value - Parsed `durableNonce` field.
+ * @returns Durable nonce, or `undefined` when the field is absent or malformed.
+ */
+function parseSerializableDurableNonce(value: unknown): SerializableTransactionRecord['durableNonce'] {
+	if (typeof value !== 'object' || value === null) {
+		return undefined;
+	}
+	const { nonce, nonceAccountAddress } = value as Record<string, unknown>;
+	if (typeof nonce !== 'string' || typeof nonceAccountAddress !== 'string') {
+		return undefined;
+	}
+	return { nonce, nonceAccountAddress };
+}
+
+/**
+ * Keeps the pending records that can be tracked again after a reload.
+ *
+ * @param value - Parsed `transactions` field.
+ * @returns Valid pending records keyed by signature, or `undefined` when the field is absent.
+ */
+function parseSerializableTransactions(value: unknown): SerializableSolanaState['transactions'] {
+	if (typeof value !== 'object' || value === null) {
+		return undefined;
+	}
+	const transactions: Record<string, SerializableTransactionRecord> = {};
+	for (const [key, record] of Object.entries(value as Record<string, Partial<SerializableTransactionRecord>>)) {
+		if (
+			typeof record?.signature === 'string' &&
+			(record.status === 'sending' || record.status === 'waiting') &&
+			typeof record.lastUpdatedAt === 'number'
+		) {
+			transactions[key] = {
+				commitment: record.commitment,
+				durableNonce: parseSerializableDurableNonce(record.durableNonce),
+				lastUpdatedAt: record.lastUpdatedAt,
+				lastValidBlockHeight: record.lastValidBlockHeight,
+				signature: record.signature,
+				status: record.status,
+			};
+		}
+	}
+	return transactions;
+}
+
+/**
+ * Converts the pending transactions of a persisted snapshot back into store records.
+ *
+ * @param state - Persisted snapshot.
+ * @returns Transaction records keyed by signature.
+ */
+export function getSerializableTransactionState(state: SerializableSolanaState | null | undefined): TransactionState {
+	const transactions: TransactionState = {};
+	for (const [key, record] of Object.entries(state?.transactions ?? {})) {
+		transactions[key] = {
+			commitment: record.commitment,
+			durableNonce: record.durableNonce && {
+				nonce: record.durableNonce.nonce,
+				nonceAccountAddress: record.durableNonce.nonceAccountAddress as Address,
+			},
+			lastUpdatedAt: record.lastUpdatedAt,
+			lastValidBlockHeight:
+				record.lastValidBlockHeight === undefined ? undefined : bigintFromJson(record.lastValidBlockHeight),
+			signature: record.signature as Signature,
+			status: record.status,
+		};
+	}
+	return transactions;
+}
 
 /**
  * Derive the minimal serializable state for a client based on its config.
@@ -53,13 +178,15 @@ export function deserializeSolanaState(json: string | null | undefined): Seriali
 	try {
 		const parsed = JSON.parse(json) as Partial<SerializableSolanaState> | unknown;
 		if (typeof parsed !== 'object' || parsed === null) return null;
-		const state = parsed as Partial<SerializableSolanaState>;
+		const state = migrateSolanaState(parsed as Record<string, unknown>) as Partial<SerializableSolanaState>;
+		const transactions = parseSerializableTransactions(state.transactions);
 		return {
 			autoconnect: state.autoconnect ?? false,
 			commitment: state.commitment,
 			endpoint: state.endpoint as SerializableSolanaState['endpoint'],
 			lastConnectorId: state.lastConnectorId ?? null,
 			lastPublicKey: state.lastPublicKey ?? null,
+			...(transactions ? { transactions } : {}),
 			version: state.version ?? SERIALIZABLE_STATE_VERSION,
 			websocketEndpoint: state.websocketEndpoint,
 		};
@@ -68,7 +195,34 @@ export function deserializeSolanaState(json: string | null | undefined): Seriali
 	}
 }
 
-function getSerializableStateSnapshot(client: SolanaClient): SerializableSolanaState {
+/**
+ * Collects the transactions that are still in flight and carry a signature.
+ *
+ * @param transactions - Transaction records from the store.
+ * @returns Serializable pending records keyed by signature.
+ */
+function getPendingTransactions(transactions: TransactionState): Record<string, SerializableTransactionRecord> {
+	const pending: Record<string, SerializableTransactionRecord> = {};
+	for (const [key, record] of Object.entries(transactions)) {
+		if (record.signature && (record.status === 'sending' || record.status === 'waiting')) {
+			pending[key] = {
+				commitment: record.commitment,
+				durableNonce: record.durableNonce,
+				lastUpdatedAt: record.lastUpdatedAt,
+				lastValidBlockHeight:
+					record.lastValidBlockHeight === undefined ? undefined : bigintToJson(record.lastValidBlockHeight),
+				signature: record.signature.toString(),
+				status: record.status,
+			};
+		}
+	}
+	return pending;
+}
+
+function getSerializableStateSnapshot(
+	client: SolanaClient,
+	options: SolanaStateSubscriptionOptions,
+): SerializableSolanaState {
 	const state = client.store.getState();
 	const wallet = state.wallet as typeof state.wallet & { autoConnect?: boolean };
 	const autoConnectPreference = wallet.autoConnect;
@@ -86,6 +240,7 @@ function getSerializableStateSnapshot(client: SolanaClient): SerializableSolanaS
 		endpoint: state.cluster.endpoint,
 		lastConnectorId,
 		lastPublicKey,
+		...(options.persistTransactions ? { transactions: getPendingTransactions(state.transactions) } : {}),
 		version: SERIALIZABLE_STATE_VERSION,
 		websocketEndpoint: state.cluster.websocketEndpoint,
 	};
@@ -93,15 +248,17 @@ function getSerializableStateSnapshot(client: SolanaClient): SerializableSolanaS
 
 /**
  * Subscribes to client state changes and emits a serializable snapshot when relevant fields change.
+ * Pending transactions are only included when `options.persistTransactions` is set.
  */
 export function subscribeSolanaState(
 	client: SolanaClient,
 	listener: (state: SerializableSolanaState) => void,
+	options: SolanaStateSubscriptionOptions = {},
 ): () => void {
-	let previous = serializeSolanaState(getSerializableStateSnapshot(client));
+	let previous = serializeSolanaState(getSerializableStateSnapshot(client, options));
 	listener(JSON.parse(previous) as SerializableSolanaState);
 	const unsubscribe = client.store.subscribe(() => {
-		const snapshot = getSerializableStateSnapshot(client);
+		const snapshot = getSerializableStateSnapshot(client, options);
 		const serialized = serializeSolanaState(snapshot);
 		if (serialized === previous) {
 			return;
@@ -1,2 +1,3 @@
 export * from '../utils/cluster';
 export * from './signers';
+export * from './siws';
@@ -0,0 +1,72 @@
+import { generateKeyPairSigner, type KeyPairSigner, signBytes } from '@solana/kit';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import { createSignInMessageText, type SignInMessage } from '../wallet/siws';
+import { verifySignIn } from './siws';
+
+const NOW = new Date('2024-01-01T00:05:00.000Z');
+
+describe('verifySignIn', () => {
+	let signer: KeyPairSigner;
+	let otherSigner: KeyPairSigner;
+
+	beforeAll(async () => {
+		signer = await generateKeyPairSigner();
+		otherSigner = await generateKeyPairSigner();
+	});
+
+	async function createPayload(overrides: Partial<SignInMessage> = {}, keyPairSigner = signer) {
+		const signedMessage = new TextEncoder().encode(
+			createSignInMessageText({
+				address: signer.address,
+				domain: 'example.com',
+				expirationTime: '2024-01-01T00:10:00.000Z',
+				issuedAt: '2024-01-01T00:00:00.000Z',
+				nonce: 'nonce-1',
+				...overrides,
+			}),
+		);
+		const signature = await signBytes(keyPairSigner.keyPair.privateKey, signedMessage);
+		return { address: signer.address as string, signature, signedMessage };
+	}
+
+	it('accepts a correctly signed message for the expected domain and nonce', async () => {
+		const result = await verifySignIn(await createPayload(), { domain: 'example.com', nonce: 'nonce-1', now: NOW });
+
+		expect(result).toMatchObject({
+			address: signer.address,
+			message: { domain: 'example.com', nonce: 'nonce-1' },
+			valid: true,
+		});
+	});
+
+	it('rejects forged signatures and mismatched addresses', async () => {
+		const options = { domain: 'example.com', nonce: 'nonce-1', now: NOW };
+
+		await expect(verifySignIn(await createPayload({}, otherSigner), options)).resolves.toEqual({
+			reason: 'invalid-signature',
+			valid: false,
+		});
+		await expect(
+			verifySignIn({ ...(await createPayload()), address: otherSigner.address }, options),
+		).resolves.toEqual({ reason: 'address-mismatch', valid: false });
+		await expect(
+			verifySignIn({ ...(await createPayload()), signedMessage: new TextEncoder().encode('hi') }, options),
+		).resolves.toEqual({ reason: 'invalid-message', valid: false });
+	});
+
+	it('rejects the wrong domain, nonce, and validity window', async () => {
+		const payload = await createPayload({ notBefore: '2024-01-01T00:01:00.000Z' });
+		const verify = (options: Partial<Parameters<typeof verifySignIn>[1]>) =>
+			verifySignIn(payload, { domain: 'example.com', nonce: 'nonce-1', now: NOW, ...options });
+
+		await expect(verify({ domain: 'evil.com' })).resolves.toMatchObject({ reason: 'domain-mismatch' });
+		await expect(verify({ nonce: 'nonce-2' })).resolves.toMatchObject({ reason: 'nonce-mismatch' });
+		await expect(verify({ now: new Date('2024-01-01T00:10:00.000Z') })).resolves.toMatchObject({
+			reason: 'expired',
+		});
+		await expect(verify({ now: new Date('2024-01-01T00:00:30.000Z') })).resolves.toMatchObject({
+			reason: 'not-yet-valid',
+		});
+	});
+});
@@ -0,0 +1,96 @@
+import {
+	getPublicKeyFromAddress,
+	isAddress,
+	type SignatureBytes,
+	address as toAddress,
+	verifySignature,
+} from '@solana/kit';
+
+import { parseSignInMessageText, type SignInMessage } from '../wallet/siws';
+
+/** Sign-in payload sent by the browser after `session.signIn()`. */
+export type SignInPayload = Readonly<{
+	address: string;
+	signature: Uint8Array;
+	signedMessage: Uint8Array;
+}>;
+
+export type VerifySignInOptions = Readonly<{
+	/** Domain the sign-in must have been requested for, such as `example.com`. */
+	domain: string;
+	/** Nonce issued by the server for this sign-in attempt. */
+	nonce: string;
+	/** Time to validate `expirationTime` and `notBefore` against. Defaults to the current time. */
+	now?: Date;
+}>;
+
+export type SignInVerificationFailure =
+	| 'address-mismatch'
+	| 'domain-mismatch'
+	| 'expired'
+	| 'invalid-message'
+	| 'invalid-signature'
+	| 'nonce-mismatch'
+	| 'not-yet-valid';
+
+export type SignInVerificationResult =
+	| Readonly<{ address: string; message: SignInMessage; valid: true }>
+	| Readonly<{ reason: SignInVerificationFailure; valid: false }>;
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Parses an ISO-8601 timestamp from a SIWS field.
+ *
+ * @param value - Field value.
+ * @returns Milliseconds since the epoch, `undefined` when absent, or `NaN` when malformed.
+ */
+function parseTimestamp(value: string | undefined): number | undefined {
+	return value === undefined ? undefined : Date.parse(value);
+}
+
+/**
+ * Verifies a Sign-In With Solana payload: the Ed25519 signature, the signer address, and the domain, nonce,
+ * and validity window embedded in the signed message.
+ *
+ * @param payload - Address, signed message bytes, and signature returned by the wallet.
+ * @param options - Domain and nonce the server expects.
+ * @returns Parsed message when valid, otherwise the first check that failed.
+ */
+export async function verifySignIn(
+	payload: SignInPayload,
+	options: VerifySignInOptions,
+): Promise<SignInVerificationResult> {
+	const message = parseSignInMessageText(textDecoder.decode(payload.signedMessage));
+	if (!message || !isAddress(payload.address)) {
+		return { reason: 'invalid-message', valid: false };
+	}
+	if (message.address !== payload.address) {
+		return { reason: 'address-mismatch', valid: false };
+	}
+	const publicKey = await getPublicKeyFromAddress(toAddress(payload.address));
+	const signatureValid = await verifySignature(
+		publicKey,
+		payload.signature as SignatureBytes,
+		payload.signedMessage,
+	).catch(() => false);
+	if (!signatureValid) {
+		return { reason: 'invalid-signature', valid: false };
+	}
+	if (message.domain !== options.domain) {
+		return { reason: 'domain-mismatch', valid: false };
+	}
+	if (message.nonce !== options.nonce) {
+		return { reason: 'nonce-mismatch', valid: false };
+	}
+	const now = (options.now ?? new Date()).getTime();
+	const expiresAt = parseTimestamp(message.expirationTime);
+	if (expiresAt !== undefined && !(now < expiresAt)) {
+		return { reason: 'expired', valid: false };
+	}
+	const notBefore = parseTimestamp(message.notBefore);
+	if (notBefore !== undefined && !(now >= notBefore)) {
+		return { reason: 'not-yet-valid', valid: false };
+	}
+	return { address: payload.address, message, valid: true };
+}
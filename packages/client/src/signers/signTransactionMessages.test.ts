@@ -0,0 +1,80 @@
+import {
+	AccountRole,
+	appendTransactionMessageInstruction,
+	type Blockhash,
+	createTransactionMessage,
+	generateKeyPairSigner,
+	pipe,
+	setTransactionMessageFeePayerSigner,
+	setTransactionMessageLifetimeUsingBlockhash,
+	type TransactionModifyingSigner,
+	type TransactionPartialSigner,
+	type TransactionSigner,
+} from '@solana/kit';
+import { describe, expect, it, vi } from 'vitest';
+
+import { signTransactionMessagesWithSigners } from './signTransactionMessages';
+
+const BLOCKHASH = 'EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gUdkDPTKN1N' as Blockhash;
+
+function createMessage(feePayer: TransactionSigner, data: number, extraSigner?: TransactionSigner) {
+	return pipe(
+		createTransactionMessage({ version: 0 }),
+		(message) => setTransactionMessageFeePayerSigner(feePayer, message),
+		(message) =>
+			setTransactionMessageLifetimeUsingBlockhash({ blockhash: BLOCKHASH, lastValidBlockHeight: 1n }, message),
+		(message) =>
+			appendTransactionMessageInstruction(
+				{
+					accounts: extraSigner
+						? [{ address: extraSigner.address, role: AccountRole.READONLY_SIGNER, signer: extraSigner }]
+						: [],
+					data: new Uint8Array([data]),
+					programAddress: 'ComputeBudget111111111111111111111111111111' as never,
+				},
+				message,
+			),
+	);
+}
+
+describe('signTransactionMessagesWithSigners', () => {
+	it('asks each signer once for every transaction it signs', async () => {
+		const keyPair = await generateKeyPairSigner();
+		const extraKeyPair = await generateKeyPairSigner();
+		const signTransactions = vi.fn(extraKeyPair.signTransactions);
+		const extra: TransactionPartialSigner = { address: extraKeyPair.address, signTransactions };
+		// Stands in for a wallet: signs with a key pair, but through the batch-friendly modifying interface.
+		const modifyAndSignTransactions = vi.fn<TransactionModifyingSigner['modifyAndSignTransactions']>(
+			async (transactions) => {
+				const signatures = await keyPair.signTransactions(transactions as never);
+				return transactions.map((transaction, index) =>
+					Object.freeze({
+						...transaction,
+						signatures: Object.freeze({ ...transaction.signatures, ...signatures[index] }),
+					}),
+				) as never;
+			},
+		);
+		const wallet: TransactionModifyingSigner = { address: keyPair.address, modifyAndSignTransactions };
+
+		const messages = [createMessage(wallet, 1), createMessage(wallet, 2, extra), createMessage(wallet, 3)];
+		const signed = await signTransactionMessagesWithSigners(messages);
+
+		expect(modifyAndSignTransactions).toHaveBeenCalledTimes(1);
+		expect(modifyAndSignTransactions.mock.calls[0][0]).toHaveLength(3);
+		expect(signTransactions).toHaveBeenCalledTimes(1);
+		expect(signTransactions.mock.calls[0][0]).toHaveLength(1);
+		expect(signed).toHaveLength(3);
+		expect(Object.keys(signed[1].signatures).sort()).toEqual([keyPair.address, extra.address].sort());
+		expect(signed[0].signatures[keyPair.address]).toBeInstanceOf(Uint8Array);
+	});
+
+	it('rejects when a transaction is missing a signature', async () => {
+		const keyPair = await generateKeyPairSigner();
+		const noop: TransactionModifyingSigner = {
+			address: keyPair.address,
+			modifyAndSignTransactions: async (transactions) => transactions as never,
+		};
+		await expect(signTransactionMessagesWithSigners([createMessage(noop, 1)])).rejects.toThrow();
+	});
+});
@@ -0,0 +1,114 @@
+import {
+	assertIsFullySignedTransaction,
+	compileTransaction,
+	getSignersFromTransactionMessage,
+	isTransactionModifyingSigner,
+	isTransactionPartialSigner,
+	type signTransactionMessageWithSigners,
+	type TransactionModifyingSigner,
+	type TransactionPartialSigner,
+	type TransactionSigner,
+} from '@solana/kit';
+
+type SignableTransactionMessage = Parameters<typeof signTransactionMessageWithSigners>[0];
+
+type SignedTransaction = Awaited<ReturnType<typeof signTransactionMessageWithSigners>>;
+
+type CompiledTransaction = Parameters<TransactionPartialSigner['signTransactions']>[0][number];
+
+type SignTransactionMessagesConfig = Parameters<TransactionPartialSigner['signTransactions']>[1];
+
+/**
+ * Splits signers the way kit does: modifying signers run first, one after another, and a signer that can do both is
+ * only treated as modifying when no other modifying signer is present.
+ *
+ * @param signers - Unique signers found across the messages.
+ * @returns Modifying and partial signers; sending-only signers are left out.
+ */
+function categorizeSigners(signers: readonly TransactionSigner[]): {
+	modifyingSigners: readonly TransactionModifyingSigner[];
+	partialSigners: readonly TransactionPartialSigner[];
+} {
+	const candidates = signers.filter(isTransactionModifyingSigner);
+	const modifyingOnly = candidates.filter((signer) => !isTransactionPartialSigner(signer));
+	const modifyingSigners = modifyingOnly.length ? modifyingOnly : candidates.slice(0, 1);
+	const partialSigners = signers
+		.filter(isTransactionPartialSigner)
+		.filter((signer) => !(modifyingSigners as readonly TransactionSigner[]).includes(signer));
+	return { modifyingSigners, partialSigners };
+}
+
+/**
+ * Signs several transaction messages, asking each signer for all of its signatures in a single call. Wallet signers
+ * turn that call into one `signAllTransactions` prompt instead of a prompt per transaction.
+ *
+ * @param messages - Messages whose instructions and fee payer carry their signers.
+ * @param config - Optional abort signal and minimum context slot forwarded to every signer.
+ * @returns Fully signed transactions in the order of `messages`.
+ */
+export async function signTransactionMessagesWithSigners(
+	messages: readonly SignableTransactionMessage[],
+	config: SignTransactionMessagesConfig = {},
+): Promise<SignedTransaction[]> {
+	const signersByMessage = messages.map((message) => getSignersFromTransactionMessage(message));
+	const signers = new Map<string, TransactionSigner>();
+	for (const messageSigners of signersByMessage) {
+		for (const signer of messageSigners) {
+			if (!signers.has(signer.address)) {
+				signers.set(signer.address, signer);
+			}
+		}
+	}
+	const { modifyingSigners, partialSigners } = categorizeSigners([...signers.values()]);
+	const indexesFor = (signer: TransactionSigner) =>
+		signersByMessage.reduce<number[]>((indexes, messageSigners, index) => {
+			if (messageSigners.some((candidate) => candidate.address === signer.address)) {
+				indexes.push(index);
+			}
+			return indexes;
+		}, []);
+
+	const transactions = messages.map((message) => compileTransaction(message) as CompiledTransaction);
+	for (const signer of modifyingSigners) {
+		config?.abortSignal?.throwIfAborted();
+		const indexes = indexesFor(signer);
+		if (!indexes.length) {
+			continue;
+		}
+		const modified = await signer.modifyAndSignTransactions(
+			indexes.map((index) => transactions[index]),
+			config,
+		);
+		indexes.forEach((transactionIndex, position) => {
+			transactions[transactionIndex] = Object.freeze(modified[position]) as CompiledTransaction;
+		});
+	}
+	config?.abortSignal?.throwIfAborted();
+
+	const signatureDictionaries = await Promise.all(
+		partialSigners.map(async (signer) => {
+			const indexes = indexesFor(signer);
+			const dictionaries = indexes.length
+				? await signer.signTransactions(
+						indexes.map((index) => transactions[index]),
+						config,
+					)
+				: [];
+			return { dictionaries, indexes };
+		}),
+	);
+	const signatures: CompiledTransaction['signatures'][] = transactions.map((transaction) => ({
+		...transaction.signatures,
+	}));
+	for (const { dictionaries, indexes } of signatureDictionaries) {
+		indexes.forEach((transactionIndex, position) => {
+			signatures[transactionIndex] = { ...signatures[transactionIndex], ...dictionaries[position] };
+		});
+	}
+
+	return transactions.map((transaction, index) => {
+		const signed = Object.freeze({ ...transaction, signatures: Object.freeze(signatures[index]) });
+		assertIsFullySignedTransaction(signed);
+		return signed as SignedTransaction;
+	});
+}
@@ -3,6 +3,7 @@ import type { TransactionSigner } from '@solana/kit';
 import { describe, expect, it, vi } from 'vitest';
 
 import type { WalletSession } from '../types';
+import { WalletFeatureUnsupportedError } from '../wallet/capabilities';
 import { createWalletTransactionSigner, isWalletSession, resolveSignerMode } from './walletTransactionSigner';
 
 type SessionTransaction = Parameters<NonNullable<WalletSession['signTransaction']>>[0];
@@ -56,6 +57,36 @@ describe('wallet transaction signer', () => {
 		expect(signatureDictionaries[0][addressKey]).toBe(signatureStub);
 	});
 
+	it('signs batches with a single wallet prompt when the wallet supports it', async () => {
+		const sign = (transaction: SessionTransaction, byte: number) => ({
+			...transaction,
+			signatures: { ...transaction.signatures, [addressKey]: new Uint8Array([byte]) },
+		});
+		const signTransaction = vi.fn(async (transaction: SessionTransaction) => sign(transaction, 0));
+		const signAllTransactions = vi.fn(async (transactions: readonly SessionTransaction[]) =>
+			transactions.map((transaction, index) => sign(transaction, index + 1)),
+		);
+		const { signer } = createWalletTransactionSigner(createSession({ signAllTransactions, signTransaction }));
+
+		const inputs = [0, 1].map(
+			(index) =>
+				({ messageBytes: new Uint8Array([index]), signatures: {} }) as Parameters<
+					typeof signer.modifyAndSignTransactions
+				>[0][number],
+		);
+		const signed = await signer.modifyAndSignTransactions(inputs);
+		expect(signAllTransactions).toHaveBeenCalledTimes(1);
+		expect(signTransaction).not.toHaveBeenCalled();
+		expect(signed.map((transaction) => transaction.signatures[addressKey])).toEqual([
+			new Uint8Array([1]),
+			new Uint8Array([2]),
+		]);
+
+		await signer.modifyAndSignTransactions(inputs.slice(0, 1));
+		expect(signTransaction).toHaveBeenCalledTimes(1);
+		expect(signAllTransactions).toHaveBeenCalledTimes(1);
+	});
+
 	it('wraps sending wallets', async () => {
 		const signatureBytes = new Uint8Array(64).fill(1);
 		const signatureString = getBase58Decoder().decode(signatureBytes);
@@ -79,6 +110,31 @@ describe('wallet transaction signer', () => {
 	it('throws when wallet cannot sign or send', () => {
 		const session = createSession();
 		expect(() => createWalletTransactionSigner(session)).toThrow(/does not support/);
+		expect(() => createWalletTransactionSigner(session)).toThrow(WalletFeatureUnsupportedError);
+	});
+
+	it('rejects transaction versions the wallet does not support before prompting', async () => {
+		const signTransaction = vi.fn();
+		const session = createSession({
+			capabilities: {
+				chains: [],
+				signAndSendTransaction: false,
+				signIn: false,
+				signMessage: false,
+				signTransaction: true,
+				transactionVersions: ['legacy'],
+			},
+			signTransaction,
+		});
+		const { signer } = createWalletTransactionSigner(session);
+		const versionedTx = { messageBytes: new Uint8Array([0x80, 1]), signatures: {} };
+
+		await expect(
+			signer.modifyAndSignTransactions([
+				versionedTx as Parameters<typeof signer.modifyAndSignTransactions>[0][number],
+			]),
+		).rejects.toMatchObject({ feature: 'versionedTransactions', name: 'WalletFeatureUnsupportedError' });
+		expect(signTransaction).not.toHaveBeenCalled();
 	});
 
 	it('resolves signer mode for wrapped signers', () => {
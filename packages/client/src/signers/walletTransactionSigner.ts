@@ -17,6 +17,12 @@ import {
 } from '@solana/kit';
 
 import type { WalletSession } from '../types';
+import {
+	getTransactionMessageVersion,
+	getWalletCapabilities,
+	WalletFeatureUnsupportedError,
+	type WalletTransactionVersion,
+} from '../wallet/capabilities';
 
 type WalletTransactionSignerMode = 'partial' | 'send';
 
@@ -37,13 +43,35 @@ export function isWalletSession(value: unknown): value is WalletSession {
 	return 'account' in value && 'connector' in value && 'disconnect' in value;
 }
 
+/**
+ * Throws when the wallet cannot sign the version of the provided transaction.
+ *
+ * @param session - Wallet session about to sign.
+ * @param transaction - Compiled transaction.
+ */
+function assertTransactionVersionSupported(session: WalletSession, transaction: Transaction): void {
+	const version = getTransactionMessageVersion(transaction.messageBytes);
+	const { transactionVersions } = getWalletCapabilities(session);
+	if (!transactionVersions.includes(version as WalletTransactionVersion)) {
+		throw new WalletFeatureUnsupportedError(
+			version === 'legacy' ? 'signTransaction' : 'versionedTransactions',
+			session.connector.id,
+			`Wallet "${session.connector.id}" cannot sign ${version === 'legacy' ? 'legacy' : `version ${version}`} transactions.`,
+		);
+	}
+}
+
 /**
  * Creates a {@link TransactionSigner} wrapper around a {@link WalletSession}.
  *
  * The returned signer implements the most capable interface supported by the underlying wallet:
- * - if the wallet exposes `signTransaction`, a partial signer is returned;
+ * - if the wallet exposes `signTransaction`, a partial signer is returned, which signs batches through
+ *   `signAllTransactions` when the wallet offers it;
  * - otherwise, if the wallet only exposes `sendTransaction`, a sending signer is returned.
  *
+ * Transactions whose version the wallet does not list in its capabilities are rejected with a
+ * {@link WalletFeatureUnsupportedError} before the wallet is prompted.
+ *
  * @param session - Connected wallet session used to sign or send transactions.
  * @param config - Optional configuration that propagates commitment preferences when the wallet sends transactions.
  * @returns Object containing the wrapped {@link TransactionSigner} and the strategy it supports.
@@ -57,34 +85,49 @@ export function createWalletTransactionSigner(
 
 	if (session.signTransaction) {
 		const signTransaction = session.signTransaction.bind(session);
+		const signAllTransactions = session.signAllTransactions?.bind(session);
 
 		const modifyingSigner: TransactionModifyingSigner & TransactionPartialSigner = Object.freeze({
 			address,
 			async modifyAndSignTransactions(
 				transactions: readonly (Transaction | (Transaction & TransactionWithLifetime))[],
 			): Promise<readonly (Transaction & TransactionWithinSizeLimit & TransactionWithLifetime)[]> {
-				const signedTransactions: (Transaction & TransactionWithinSizeLimit & TransactionWithLifetime)[] = [];
-				for (const transaction of transactions) {
-					const castTransaction = transaction as Transaction &
-						TransactionWithinSizeLimit &
-						TransactionWithLifetime;
-					const signed = await signTransaction(
-						castTransaction as unknown as SendableTransaction & Transaction,
-					);
-					const signature = signed.signatures[address];
+				const castTransactions = transactions as readonly (Transaction &
+					TransactionWithinSizeLimit &
+					TransactionWithLifetime)[];
+				for (const transaction of castTransactions) {
+					assertTransactionVersionSupported(session, transaction);
+				}
+				const sendable = castTransactions as unknown as readonly (SendableTransaction & Transaction)[];
+				let signed: readonly (SendableTransaction & Transaction)[];
+				if (signAllTransactions && sendable.length > 1) {
+					// One wallet prompt for the whole batch instead of one per transaction.
+					signed = await signAllTransactions(sendable);
+				} else {
+					const signedOneByOne: (SendableTransaction & Transaction)[] = [];
+					for (const transaction of sendable) {
+						signedOneByOne.push(await signTransaction(transaction));
+					}
+					signed = signedOneByOne;
+				}
+				if (signed.length !== castTransactions.length) {
+					throw new Error('Wallet returned a different number of signed transactions than requested.');
+				}
+				const signedTransactions = castTransactions.map((castTransaction, index) => {
+					const signedTransaction = signed[index];
+					const signature = signedTransaction.signatures[address];
 					if (!signature) {
 						throw new Error('Wallet did not populate the expected fee payer signature.');
 					}
-					const mergedTransaction = Object.freeze({
+					return Object.freeze({
 						...castTransaction,
-						messageBytes: signed.messageBytes,
+						messageBytes: signedTransaction.messageBytes,
 						signatures: Object.freeze({
 							...castTransaction.signatures,
-							...signed.signatures,
+							...signedTransaction.signatures,
 						}),
 					}) as Transaction & TransactionWithinSizeLimit & TransactionWithLifetime;
-					signedTransactions.push(mergedTransaction);
-				}
+				});
 				return Object.freeze(signedTransactions) as readonly (Transaction &
 					TransactionWithinSizeLimit &
 					TransactionWithLifetime)[];
@@ -121,6 +164,7 @@ export function createWalletTransactionSigner(
 			): Promise<readonly SignatureBytes[]> {
 				const signatures: SignatureBytes[] = [];
 				for (const transaction of transactions) {
+					assertTransactionVersionSupported(session, transaction);
 					const signatureString = await sendTransaction(
 						transaction as unknown as SendableTransaction & Transaction,
 						commitment ? { commitment } : undefined,
@@ -137,7 +181,11 @@ export function createWalletTransactionSigner(
 		};
 	}
 
-	throw new Error('Wallet session does not support signing or sending transactions.');
+	throw new WalletFeatureUnsupportedError(
+		'signTransaction',
+		session.connector.id,
+		'Wallet session does not support signing or sending transactions.',
+	);
 }
 
 /**
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createSyncChannel } from './channel';
+
+function createStorageEvent(key: string, newValue: string | null) {
+	return Object.assign(new Event('storage'), { key, newValue });
+}
+
+describe('createSyncChannel', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('delivers messages to other channels with BroadcastChannel', async () => {
+		const sender = createSyncChannel('sync-test:broadcast');
+		const receiver = createSyncChannel('sync-test:broadcast');
+		const listener = vi.fn();
+		receiver?.subscribe(listener);
+
+		sender?.post({ lamports: 5n, type: 'ping' });
+
+		await vi.waitFor(() => expect(listener).toHaveBeenCalledWith({ lamports: 5n, type: 'ping' }));
+		sender?.close();
+		receiver?.close();
+	});
+
+	it('falls back to storage events and keeps bigints and bytes intact', () => {
+		const target = new EventTarget();
+		const setItem = vi.fn((key: string, value: string) => target.dispatchEvent(createStorageEvent(key, value)));
+		const removeItem = vi.fn((key: string) => target.dispatchEvent(createStorageEvent(key, null)));
+		vi.stubGlobal('localStorage', { removeItem, setItem });
+		vi.stubGlobal('window', target);
+
+		const channel = createSyncChannel('sync-test:storage', 'storage');
+		const listener = vi.fn();
+		const unsubscribe = channel?.subscribe(listener);
+
+		channel?.post({ data: new Uint8Array([1, 2, 3]), slot: 9n });
+		target.dispatchEvent(createStorageEvent('other-key', '{}'));
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(listener).toHaveBeenCalledWith({ data: new Uint8Array([1, 2, 3]), slot: 9n });
+		expect(removeItem).toHaveBeenCalledWith('sync-test:storage');
+
+		unsubscribe?.();
+		channel?.post({ type: 'ignored' });
+		expect(listener).toHaveBeenCalledTimes(1);
+		channel?.close();
+	});
+
+	it('returns null when no transport is available', () => {
+		expect(createSyncChannel('sync-test:none', 'storage')).toBeNull();
+	});
+});
@@ -0,0 +1,116 @@
+import { parseJson, stringifyJson } from '../serialization/json';
+
+/** Message transport shared by every tab of the same origin. */
+export type SyncChannel = Readonly<{
+	close(): void;
+	/** Delivers a message to every other tab; the sending tab does not receive it. */
+	post(message: unknown): void;
+	/**
+	 * Registers a listener for messages posted by other tabs.
+	 *
+	 * @returns Function that removes the listener.
+	 */
+	subscribe(listener: (message: unknown) => void): () => void;
+}>;
+
+export type SyncChannelTransport = 'broadcast-channel' | 'storage';
+
+type StorageLike = Readonly<{
+	removeItem(key: string): void;
+	setItem(key: string, value: string): void;
+}>;
+
+type StorageEventTarget = Readonly<{
+	addEventListener(type: 'storage', listener: (event: StorageEvent) => void): void;
+	removeEventListener(type: 'storage', listener: (event: StorageEvent) => void): void;
+}>;
+
+/**
+ * Creates a channel backed by `BroadcastChannel`.
+ *
+ * @param name - Channel name.
+ * @returns Sync channel.
+ */
+function createBroadcastChannel(name: string): SyncChannel {
+	const channel = new BroadcastChannel(name);
+	return {
+		close() {
+			channel.close();
+		},
+		post(message) {
+			channel.postMessage(message);
+		},
+		subscribe(listener) {
+			const handleMessage = (event: MessageEvent) => listener(event.data);
+			channel.addEventListener('message', handleMessage);
+			return () => channel.removeEventListener('message', handleMessage);
+		},
+	};
+}
+
+/**
+ * Creates a channel that writes messages to `localStorage` and reads them from `storage` events, for browsers
+ * without `BroadcastChannel`.
+ *
+ * @param name - Storage key messages are written under.
+ * @param storage - Storage shared between tabs.
+ * @param target - Event target that receives `storage` events.
+ * @returns Sync channel.
+ */
+function createStorageChannel(name: string, storage: StorageLike, target: StorageEventTarget): SyncChannel {
+	const listeners = new Set<(message: unknown) => void>();
+	const handleStorage = (event: StorageEvent) => {
+		// Removing the entry right after writing it fires a second event without a value.
+		if (event.key !== name || !event.newValue) {
+			return;
+		}
+		try {
+			const { message } = parseJson<{ message: unknown }>(event.newValue);
+			for (const listener of [...listeners]) {
+				listener(message);
+			}
+		} catch {
+			// Ignore entries written by something else.
+		}
+	};
+	target.addEventListener('storage', handleStorage);
+	return {
+		close() {
+			listeners.clear();
+			target.removeEventListener('storage', handleStorage);
+		},
+		post(message) {
+			try {
+				// The nonce makes repeated identical messages count as a change.
+				storage.setItem(name, stringifyJson({ message, nonce: Math.random() }));
+				storage.removeItem(name);
+			} catch {
+				// Ignore write failures (private browsing, quota, etc.).
+			}
+		},
+		subscribe(listener) {
+			listeners.add(listener);
+			return () => listeners.delete(listener);
+		},
+	};
+}
+
+/**
+ * Opens a channel to the other tabs of this origin, preferring `BroadcastChannel` and falling back to `storage`
+ * events.
+ *
+ * @param name - Channel name.
+ * @param transport - Forces a transport instead of picking the best available one.
+ * @returns Sync channel, or `null` when neither transport is available, such as during SSR.
+ */
+export function createSyncChannel(name: string, transport?: SyncChannelTransport): SyncChannel | null {
+	if (transport !== 'storage' && typeof BroadcastChannel !== 'undefined') {
+		return createBroadcastChannel(name);
+	}
+	const storage = (globalThis as Record<string, unknown>).localStorage as StorageLike | undefined;
+	const target = (globalThis as Record<string, unknown>).window as StorageEventTarget | undefined;
+	if (transport !== 'broadcast-channel' && storage && target) {
+		return createStorageChannel(name, storage, target);
+	}
+	return null;
+}
@@ -0,0 +1,146 @@
+import type { Address, Signature } from '@solana/kit';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createDefaultClientStore } from '../client/createClientStore';
+import type { SolanaClient, WalletStatus } from '../types';
+import { createTabSync, type TabSync } from './tabSync';
+
+const ADDRESS = 'So11111111111111111111111111111111111111112' as Address;
+
+let channelCount = 0;
+const openSyncs: TabSync[] = [];
+
+function createSync(channelName: string) {
+	const sync = createTabSync({ channelName, heartbeatIntervalMs: 20 }, vi.fn());
+	if (!sync) {
+		throw new Error('BroadcastChannel is unavailable.');
+	}
+	openSyncs.push(sync);
+	return sync;
+}
+
+function createConnectedWallet(): WalletStatus {
+	return {
+		connectorId: 'phantom',
+		session: {
+			account: { address: ADDRESS, publicKey: new Uint8Array(32) },
+			connector: { id: 'phantom', name: 'Phantom' },
+			disconnect: async () => undefined,
+		},
+		status: 'connected',
+	};
+}
+
+function createStubClient() {
+	const store = createDefaultClientStore({ commitment: 'confirmed', endpoint: 'https://rpc.one' });
+	const actions = {
+		connectWallet: vi.fn(async () => store.setState((state) => ({ ...state, wallet: createConnectedWallet() }))),
+		disconnectWallet: vi.fn(async () =>
+			store.setState((state) => ({ ...state, wallet: { status: 'disconnected' } })),
+		),
+		selectAccount: vi.fn(),
+		setCluster: vi.fn(async (endpoint: string) =>
+			store.setState((state) => ({ ...state, cluster: { ...state.cluster, endpoint } })),
+		),
+	};
+	const watchAccount = vi.fn(() => ({ abort: vi.fn() }));
+	const client = {
+		actions,
+		connectors: { all: [], get: (id: string) => (id === 'phantom' ? { id } : undefined) },
+		store,
+		watchers: { watchAccount },
+	} as unknown as SolanaClient;
+	return { actions, client, store, watchAccount };
+}
+
+async function createLeaderAndFollower() {
+	const channelName = `tab-sync-test:${channelCount++}`;
+	const leader = createSync(channelName);
+	await vi.waitFor(() => expect(leader.relay.isLeader()).toBe(true));
+	const follower = createSync(channelName);
+	// The follower learns about the leader from the heartbeat that answers its hello.
+	await new Promise((resolve) => setTimeout(resolve, 150));
+	return { follower, leader };
+}
+
+describe('createTabSync', () => {
+	afterEach(() => {
+		for (const sync of openSyncs.splice(0)) {
+			sync.close();
+		}
+	});
+
+	it('elects a single leader and hands leadership over when it leaves', async () => {
+		const { follower, leader } = await createLeaderAndFollower();
+		expect(follower.relay.isLeader()).toBe(false);
+		const onLeaderChange = vi.fn();
+		follower.relay.onLeaderChange(onLeaderChange);
+
+		leader.close();
+
+		await vi.waitFor(() => expect(follower.relay.isLeader()).toBe(true));
+		expect(onLeaderChange).toHaveBeenCalled();
+	});
+
+	it('replays cluster, wallet, and transaction changes in the other tab', async () => {
+		const { follower, leader } = await createLeaderAndFollower();
+		const first = createStubClient();
+		const second = createStubClient();
+		leader.attach(first.client);
+		follower.attach(second.client);
+
+		first.store.setState((state) => ({ ...state, cluster: { ...state.cluster, endpoint: 'https://rpc.two' } }));
+		await vi.waitFor(() =>
+			expect(second.actions.setCluster).toHaveBeenCalledWith('https://rpc.two', {
+				commitment: 'confirmed',
+				websocketEndpoint: undefined,
+			}),
+		);
+
+		first.store.setState((state) => ({ ...state, wallet: createConnectedWallet() }));
+		await vi.waitFor(() =>
+			expect(second.actions.connectWallet).toHaveBeenCalledWith('phantom', {
+				allowInteractiveFallback: false,
+				autoConnect: true,
+			}),
+		);
+
+		second.store.setState((state) => ({ ...state, wallet: { status: 'disconnected' } }));
+		await vi.waitFor(() => expect(first.actions.disconnectWallet).toHaveBeenCalled());
+		// The disconnect replayed in the first tab is not echoed back.
+		expect(second.actions.disconnectWallet).not.toHaveBeenCalled();
+
+		first.store.setState((state) => ({
+			...state,
+			transactions: {
+				sig: { lastUpdatedAt: 5, lastValidBlockHeight: 9n, signature: 'sig' as Signature, status: 'failed' },
+			},
+		}));
+		await vi.waitFor(() =>
+			expect(second.store.getState().transactions.sig).toEqual({
+				lastUpdatedAt: 5,
+				lastValidBlockHeight: 9n,
+				signature: 'sig',
+				status: 'failed',
+			}),
+		);
+	});
+
+	it('serves subscriptions for followers from the leader', async () => {
+		const { follower, leader } = await createLeaderAndFollower();
+		const first = createStubClient();
+		leader.attach(first.client);
+		const listener = vi.fn();
+		const request = { config: { address: ADDRESS, commitment: 'confirmed' as const }, kind: 'account' as const };
+
+		const unfollow = follower.relay.follow('account:key', request, listener);
+		await vi.waitFor(() => expect(first.watchAccount).toHaveBeenCalledWith(request.config, expect.any(Function)));
+		const [[, forward]] = first.watchAccount.mock.calls as unknown as [[unknown, (value: unknown) => void]];
+		forward({ lamports: 4n });
+		await vi.waitFor(() => expect(listener).toHaveBeenCalledWith({ lamports: 4n }));
+
+		unfollow();
+		const handle = first.watchAccount.mock.results[0].value as { abort: ReturnType<typeof vi.fn> };
+		await vi.waitFor(() => expect(handle.abort).toHaveBeenCalled());
+	});
+});
@@ -0,0 +1,602 @@
+import type { ClusterUrl, Commitment } from '@solana/kit';
+
+import type { RelayedSubscription, SubscriptionRelay } from '../client/watchers';
+import { createLogger, formatError } from '../logging/logger';
+import { serializeSolanaState, subscribeSolanaState } from '../serialization/state';
+import type {
+	ClientLogger,
+	SerializableSolanaState,
+	SolanaClient,
+	TransactionRecord,
+	TransactionState,
+	WatchSubscription,
+} from '../types';
+import { now } from '../utils';
+import { toAddress } from '../utils/addressLike';
+import { createSyncChannel, type SyncChannelTransport } from './channel';
+
+export type TabSyncOptions = Readonly<{
+	/** Channel shared by the tabs that stay in sync. Defaults to `solana:client-sync`. */
+	channelName?: string;
+	/** How often the leading tab announces itself. Defaults to 1000ms. */
+	heartbeatIntervalMs?: number;
+	/** How long other tabs wait for a heartbeat before electing a new leader. Defaults to three heartbeats. */
+	leaderTimeoutMs?: number;
+	/** Forces a transport instead of preferring `BroadcastChannel` over `storage` events. */
+	transport?: SyncChannelTransport;
+}>;
+
+/** Keeps one client in sync with the clients of other tabs and elects the tab that owns websocket subscriptions. */
+export type TabSync = Readonly<{
+	/** Starts propagating the client's wallet, cluster, and transaction changes. */
+	attach(client: SolanaClient): void;
+	/** Leaves the group, handing leadership to another tab. */
+	close(): void;
+	relay: SubscriptionRelay;
+	tabId: string;
+}>;
+
+type RelayedTransactionRecord = Readonly<{
+	commitment?: Commitment;
+	durableNonce?: TransactionRecord['durableNonce'];
+	errorMessage?: string;
+	lastUpdatedAt: number;
+	lastValidBlockHeight?: bigint;
+	sendAttempts?: number;
+	signature: string;
+	status: TransactionRecord['status'];
+}>;
+
+type TabSyncMessage = Readonly<
+	| { commitment?: Commitment; endpoint: ClusterUrl; type: 'cluster'; websocketEndpoint?: ClusterUrl }
+	| { address: string | null; connectorId: string | null; type: 'wallet' }
+	| { key: string; record: RelayedTransactionRecord; type: 'transaction' }
+	| { key: string; request: RelayedSubscription; type: 'follow' }
+	| { key: string; type: 'notification' | 'unfollow'; value?: unknown }
+	| { type: 'bye' | 'heartbeat' | 'hello' | 'resign' }
+>;
+
+type ServedSubscription = {
+	hasValue: boolean;
+	lastValue: unknown;
+	subscription: WatchSubscription | null;
+	readonly tabs: Set<string>;
+};
+
+const DEFAULT_CHANNEL_NAME = 'solana:client-sync';
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 1_000;
+/** How long a new tab waits for an existing leader to answer before claiming leadership itself. */
+const HELLO_TIMEOUT_MS = 100;
+
+/**
+ * Creates an identifier that orders tabs for leader election.
+ *
+ * @returns Random tab identifier.
+ */
+function createTabId(): string {
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Connects a client to the other tabs of the same origin.
+ *
+ * Wallet connects and disconnects, cluster switches, and transaction status updates made in one tab are replayed
+ * in the others. One tab is elected leader through heartbeats; it opens every websocket subscription and relays
+ * notifications to the tabs that watch the same data, so each subscription exists once per browser.
+ *
+ * @param options - Channel and election settings.
+ * @param inputLogger - Logger for election and sync events.
+ * @returns Tab sync handle, or `null` when the runtime offers no way to reach other tabs.
+ */
+export function createTabSync(options: TabSyncOptions = {}, inputLogger?: ClientLogger): TabSync | null {
+	const channel = createSyncChannel(options.channelName ?? DEFAULT_CHANNEL_NAME, options.transport);
+	if (!channel) {
+		return null;
+	}
+	const logger = inputLogger ?? createLogger();
+	const heartbeatIntervalMs = options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+	const leaderTimeoutMs = options.leaderTimeoutMs ?? heartbeatIntervalMs * 3;
+	const tabId = createTabId();
+	const followed = new Map<string, (value: unknown) => void>();
+	const served = new Map<string, ServedSubscription>();
+	const leaderListeners = new Set<() => void>();
+	// Records written from another tab's message, so the store listener does not send them back.
+	const relayedRecords = new WeakSet<TransactionRecord>();
+	const cleanups: (() => void)[] = [];
+	let client: SolanaClient | null = null;
+	let closed = false;
+	let lastHeartbeatAt = 0;
+	let leaderId: string | null = null;
+
+	/**
+	 * Sends a message to the other tabs.
+	 *
+	 * @param message - Message to send.
+	 */
+	function post(message: TabSyncMessage) {
+		try {
+			channel?.post({ ...message, from: tabId });
+		} catch (error) {
+			logger({
+				data: { type: message.type, ...formatError(error) },
+				level: 'warn',
+				message: 'tab sync post failed',
+			});
+		}
+	}
+
+	/**
+	 * Records the current leader and notifies listeners when it changed.
+	 *
+	 * @param nextLeaderId - Tab that leads from now on, or `null` when none is known.
+	 */
+	function setLeader(nextLeaderId: string | null) {
+		if (nextLeaderId === leaderId) {
+			return;
+		}
+		const wasLeader = leaderId === tabId;
+		leaderId = nextLeaderId;
+		if (wasLeader) {
+			stopServing();
+		}
+		logger({ data: { leaderId, tabId }, level: 'debug', message: 'tab sync leader changed' });
+		for (const listener of [...leaderListeners]) {
+			listener();
+		}
+	}
+
+	/**
+	 * Announces this tab as leader.
+	 */
+	function sendHeartbeat() {
+		lastHeartbeatAt = now();
+		post({ type: 'heartbeat' });
+	}
+
+	/**
+	 * Takes over leadership unless a live leader is known.
+	 */
+	function claimLeadershipIfVacant() {
+		if (closed || leaderId === tabId) {
+			return;
+		}
+		if (leaderId === null || now() - lastHeartbeatAt > leaderTimeoutMs) {
+			setLeader(tabId);
+			sendHeartbeat();
+		}
+	}
+
+	/**
+	 * Applies a heartbeat. When two tabs lead at once, the one with the lower id keeps leading.
+	 *
+	 * @param from - Tab that sent the heartbeat.
+	 */
+	function handleHeartbeat(from: string) {
+		const leaderIsAlive = leaderId !== null && now() - lastHeartbeatAt <= leaderTimeoutMs;
+		if (leaderIsAlive && leaderId !== from && leaderId !== null && leaderId < from) {
+			if (leaderId === tabId) {
+				sendHeartbeat();
+			}
+			return;
+		}
+		lastHeartbeatAt = now();
+		setLeader(from);
+	}
+
+	/**
+	 * Aborts every subscription opened on behalf of other tabs.
+	 */
+	function stopServing() {
+		for (const entry of served.values()) {
+			entry.subscription?.abort();
+		}
+		served.clear();
+	}
+
+	/**
+	 * Opens a subscription on behalf of another tab using this tab's watchers.
+	 *
+	 * @param request - Subscription requested by the other tab.
+	 * @param listener - Receives each notification.
+	 * @returns Watch handle.
+	 */
+	function watch(request: RelayedSubscription, listener: (value: unknown) => void): WatchSubscription | null {
+		const watchers = client?.watchers;
+		if (!watchers) {
+			return null;
+		}
+		switch (request.kind) {
+			case 'account':
+				return watchers.watchAccount(request.config, listener);
+			case 'logs':
+				return watchers.watchLogs(request.config, listener);
+			case 'program':
+				return watchers.watchProgramAccounts(request.config, listener);
+			case 'root':
+				return watchers.watchRoot(listener);
+			case 'signature':
+				return watchers.watchSignature(request.config, listener);
+			case 'slot':
+				return watchers.watchSlot(listener);
+		}
+	}
+
+	/**
+	 * Serves another tab's subscription, reusing the one already open for the same key.
+	 *
+	 * @param from - Tab that follows the subscription.
+	 * @param key - Subscription key.
+	 * @param request - Subscription description.
+	 */
+	function serve(from: string, key: string, request: RelayedSubscription) {
+		const existing = served.get(key);
+		if (existing) {
+			existing.tabs.add(from);
+			if (existing.hasValue) {
+				post({ key, type: 'notification', value: existing.lastValue });
+			}
+			return;
+		}
+		const entry: ServedSubscription = {
+			hasValue: false,
+			lastValue: undefined,
+			subscription: null,
+			tabs: new Set([from]),
+		};
+		served.set(key, entry);
+		entry.subscription = watch(request, (value) => {
+			entry.hasValue = true;
+			entry.lastValue = value;
+			post({ key, type: 'notification', value });
+		});
+	}
+
+	/**
+	 * Stops serving a subscription for a tab, closing it once no tab follows it.
+	 *
+	 * @param from - Tab that stopped following.
+	 * @param key - Subscription key, or `undefined` for every subscription of the tab.
+	 */
+	function unserve(from: string, key?: string) {
+		for (const [servedKey, entry] of served) {
+			if (key !== undefined && servedKey !== key) {
+				continue;
+			}
+			entry.tabs.delete(from);
+			if (entry.tabs.size === 0) {
+				entry.subscription?.abort();
+				served.delete(servedKey);
+			}
+		}
+	}
+
+	/**
+	 * Broadcasts the cluster and connected wallet of this tab.
+	 */
+	function postSnapshot() {
+		const state = client?.store.getState();
+		if (!state) {
+			return;
+		}
+		post({
+			commitment: state.cluster.commitment,
+			endpoint: state.cluster.endpoint,
+			type: 'cluster',
+			websocketEndpoint: state.cluster.websocketEndpoint,
+		});
+		if (state.wallet.status === 'connected') {
+			post({
+				address: state.wallet.session.account.address.toString(),
+				connectorId: state.wallet.connectorId,
+				type: 'wallet',
+			});
+		}
+	}
+
+	/**
+	 * Switches to the cluster another tab moved to.
+	 *
+	 * @param message - Cluster announced by the other tab.
+	 */
+	function applyCluster(message: Extract<TabSyncMessage, { type: 'cluster' }>) {
+		if (!client) {
+			return;
+		}
+		const { cluster } = client.store.getState();
+		if (
+			cluster.endpoint === message.endpoint &&
+			cluster.commitment === (message.commitment ?? cluster.commitment) &&
+			cluster.websocketEndpoint === (message.websocketEndpoint ?? cluster.websocketEndpoint)
+		) {
+			return;
+		}
+		client.actions
+			.setCluster(message.endpoint, {
+				commitment: message.commitment,
+				websocketEndpoint: message.websocketEndpoint,
+			})
+			.catch((error: unknown) =>
+				logger({
+					data: { endpoint: message.endpoint, ...formatError(error) },
+					level: 'warn',
+					message: 'tab sync cluster switch failed',
+				}),
+			);
+	}
+
+	/**
+	 * Connects, disconnects, or switches accounts to match the wallet of another tab. Connections are attempted
+	 * silently, so a wallet that needs approval in this tab stays disconnected.
+	 *
+	 * @param message - Wallet announced by the other tab.
+	 */
+	async function applyWallet(message: Extract<TabSyncMessage, { type: 'wallet' }>) {
+		if (!client) {
+			return;
+		}
+		const { actions } = client;
+		const { wallet } = client.store.getState();
+		try {
+			if (message.connectorId === null) {
+				if (wallet.status === 'connected') {
+					await actions.disconnectWallet();
+				}
+				return;
+			}
+			if (wallet.status === 'connecting') {
+				return;
+			}
+			if (wallet.status !== 'connected' || wallet.connectorId !== message.connectorId) {
+				if (!client.connectors.get(message.connectorId)) {
+					return;
+				}
+				await actions.connectWallet(message.connectorId, {
+					allowInteractiveFallback: false,
+					autoConnect: true,
+				});
+			}
+			const { wallet: connected } = client.store.getState();
+			if (
+				message.address &&
+				connected.status === 'connected' &&
+				connected.session.account.address.toString() !== message.address &&
+				connected.session.accounts?.some((account) => account.address.toString() === message.address)
+			) {
+				actions.selectAccount(toAddress(message.address));
+			}
+		} catch (error) {
+			logger({
+				data: { connectorId: message.connectorId, ...formatError(error) },
+				level: 'warn',
+				message: 'tab sync wallet update failed',
+			});
+		}
+	}
+
+	/**
+	 * Stores a transaction status reported by another tab unless this tab knows a newer one.
+	 *
+	 * @param key - Transaction key.
+	 * @param record - Record reported by the other tab.
+	 */
+	function applyTransaction(key: string, record: RelayedTransactionRecord) {
+		if (!client) {
+			return;
+		}
+		const current = client.store.getState().transactions[key];
+		if (current && current.lastUpdatedAt >= record.lastUpdatedAt) {
+			return;
+		}
+		const { errorMessage, signature, ...rest } = record;
+		const next: TransactionRecord = {
+			...rest,
+			...(errorMessage === undefined ? {} : { error: new Error(errorMessage) }),
+			signature: signature as TransactionRecord['signature'],
+		};
+		relayedRecords.add(next);
+		client.store.setState((state) => ({
+			...state,
+			lastUpdatedAt: now(),
+			transactions: { ...state.transactions, [key]: next },
+		}));
+	}
+
+	/**
+	 * Dispatches a message from another tab.
+	 *
+	 * @param data - Raw message.
+	 */
+	function handleMessage(data: unknown) {
+		if (closed || typeof data !== 'object' || data === null) {
+			return;
+		}
+		const { from, ...message } = data as TabSyncMessage & { from: string };
+		if (typeof from !== 'string' || from === tabId) {
+			return;
+		}
+		switch (message.type) {
+			case 'hello':
+				if (leaderId === tabId) {
+					sendHeartbeat();
+					postSnapshot();
+				}
+				return;
+			case 'heartbeat':
+				handleHeartbeat(from);
+				return;
+			case 'resign':
+				if (leaderId === from) {
+					setLeader(null);
+					claimLeadershipIfVacant();
+				}
+				return;
+			case 'bye':
+				unserve(from);
+				return;
+			case 'follow':
+				if (leaderId === tabId) {
+					serve(from, message.key, message.request);
+				}
+				return;
+			case 'unfollow':
+				unserve(from, message.key);
+				return;
+			case 'notification':
+				followed.get(message.key)?.(message.value);
+				return;
+			case 'cluster':
+				applyCluster(message);
+				return;
+			case 'wallet':
+				void applyWallet(message);
+				return;
+			case 'transaction':
+				applyTransaction(message.key, message.record);
+				return;
+		}
+	}
+
+	/**
+	 * Broadcasts the wallet and cluster changes in a local snapshot. Wallet changes are only announced once a
+	 * connection succeeds or a connected wallet disconnects, so a failed silent connect never disconnects other tabs.
+	 *
+	 * @param previous - Previous snapshot.
+	 * @param next - Current snapshot.
+	 */
+	function handleSnapshot(previous: SerializableSolanaState, next: SerializableSolanaState) {
+		if (
+			next.endpoint &&
+			(previous.endpoint !== next.endpoint ||
+				previous.commitment !== next.commitment ||
+				previous.websocketEndpoint !== next.websocketEndpoint)
+		) {
+			post({
+				commitment: next.commitment,
+				endpoint: next.endpoint,
+				type: 'cluster',
+				websocketEndpoint: next.websocketEndpoint,
+			});
+		}
+		const connected = next.lastPublicKey && next.lastPublicKey !== previous.lastPublicKey;
+		const disconnected = previous.lastPublicKey && !next.lastConnectorId;
+		if (connected || disconnected) {
+			post({
+				address: next.lastPublicKey ?? null,
+				connectorId: next.lastConnectorId ?? null,
+				type: 'wallet',
+			});
+		}
+	}
+
+	/**
+	 * Broadcasts transaction records that changed locally.
+	 *
+	 * @param next - Current transaction records.
+	 * @param previous - Previous transaction records.
+	 */
+	function handleTransactions(next: TransactionState, previous: TransactionState) {
+		if (next === previous) {
+			return;
+		}
+		for (const [key, record] of Object.entries(next)) {
+			if (record === previous[key] || !record.signature || relayedRecords.has(record)) {
+				continue;
+			}
+			post({
+				key,
+				record: {
+					commitment: record.commitment,
+					durableNonce: record.durableNonce,
+					errorMessage: record.error === undefined ? undefined : String(formatError(record.error).message),
+					lastUpdatedAt: record.lastUpdatedAt,
+					lastValidBlockHeight: record.lastValidBlockHeight,
+					sendAttempts: record.sendAttempts,
+					signature: record.signature.toString(),
+					status: record.status,
+				},
+				type: 'transaction',
+			});
+		}
+	}
+
+	/**
+	 * Leaves the group and releases every resource.
+	 */
+	function close() {
+		if (closed) {
+			return;
+		}
+		if (leaderId === tabId) {
+			post({ type: 'resign' });
+		}
+		post({ type: 'bye' });
+		closed = true;
+		stopServing();
+		for (const cleanup of cleanups.splice(0)) {
+			cleanup();
+		}
+		channel?.close();
+	}
+
+	cleanups.push(channel.subscribe(handleMessage));
+	const heartbeatTimer = setInterval(() => {
+		if (leaderId === tabId) {
+			sendHeartbeat();
+		} else {
+			claimLeadershipIfVacant();
+		}
+	}, heartbeatIntervalMs);
+	const helloTimer = setTimeout(claimLeadershipIfVacant, HELLO_TIMEOUT_MS);
+	cleanups.push(() => {
+		clearInterval(heartbeatTimer);
+		clearTimeout(helloTimer);
+	});
+	post({ type: 'hello' });
+
+	return {
+		attach(target) {
+			if (client || closed) {
+				return;
+			}
+			client = target;
+			let previous: SerializableSolanaState | null = null;
+			let previousSerialized = '';
+			cleanups.push(
+				subscribeSolanaState(target, (state) => {
+					const serialized = serializeSolanaState(state);
+					if (previous && serialized !== previousSerialized) {
+						handleSnapshot(previous, state);
+					}
+					previous = state;
+					previousSerialized = serialized;
+				}),
+				target.store.subscribe((state, previousState) =>
+					handleTransactions(state.transactions, previousState.transactions),
+				),
+			);
+			if (typeof window !== 'undefined') {
+				window.addEventListener('pagehide', close);
+				cleanups.push(() => window.removeEventListener('pagehide', close));
+			}
+		},
+		close,
+		relay: {
+			follow(key, request, listener) {
+				followed.set(key, listener);
+				post({ key, request, type: 'follow' });
+				return () => {
+					if (followed.get(key) === listener) {
+						followed.delete(key);
+						post({ key, type: 'unfollow' });
+					}
+				};
+			},
+			isLeader: () => leaderId === tabId,
+			onLeaderChange(listener) {
+				leaderListeners.add(listener);
+				return () => leaderListeners.delete(listener);
+			},
+		},
+		tabId,
+	};
+}
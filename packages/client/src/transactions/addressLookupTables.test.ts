@@ -0,0 +1,83 @@
+import { AccountRole, address } from '@solana/kit';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const fetchAllAddressLookupTableMock = vi.hoisted(() => vi.fn());
+
+vi.mock('@solana-program/address-lookup-table', () => ({
+	fetchAllAddressLookupTable: fetchAllAddressLookupTableMock,
+}));
+
+import {
+	compressInstructionsUsingAddressLookupTables,
+	getLookupTableAddresses,
+	resolveAddressLookupTables,
+} from './addressLookupTables';
+
+const PROGRAM = address('So11111111111111111111111111111111111111112');
+const TABLE = address('SysvarRent111111111111111111111111111111111');
+const FETCHED_TABLE = address('SysvarS1otHashes111111111111111111111111111');
+const FEE_PAYER = address('SysvarC1ock11111111111111111111111111111111');
+const WRITABLE = address('SysvarRecentB1ockHashes11111111111111111111');
+const SIGNER = address('SysvarStakeHistory1111111111111111111111111');
+
+describe('address lookup tables', () => {
+	beforeEach(() => {
+		fetchAllAddressLookupTableMock.mockReset();
+	});
+
+	it('fetches tables passed by address and reuses fetched table data', async () => {
+		fetchAllAddressLookupTableMock.mockResolvedValue([{ address: FETCHED_TABLE, data: { addresses: [SIGNER] } }]);
+		const rpc = {} as never;
+
+		const tables = await resolveAddressLookupTables(
+			rpc,
+			[
+				{
+					address: TABLE,
+					addresses: [WRITABLE],
+					deactivationSlot: 0n,
+					lastExtendedSlot: 0n,
+					lastExtendedSlotStartIndex: 0,
+				},
+				FETCHED_TABLE,
+				TABLE,
+			],
+			{ commitment: 'confirmed' },
+		);
+
+		expect(tables).toEqual({ [FETCHED_TABLE]: [SIGNER], [TABLE]: [WRITABLE] });
+		expect(fetchAllAddressLookupTableMock).toHaveBeenCalledWith(rpc, [FETCHED_TABLE], {
+			abortSignal: undefined,
+			commitment: 'confirmed',
+		});
+	});
+
+	it('moves non-signer accounts into lookups and keeps signers, programs and excluded addresses static', () => {
+		const instruction = {
+			accounts: [
+				{ address: FEE_PAYER, role: AccountRole.WRITABLE },
+				{ address: SIGNER, role: AccountRole.READONLY_SIGNER },
+				{ address: WRITABLE, role: AccountRole.WRITABLE },
+				{ address: PROGRAM, role: AccountRole.READONLY },
+			],
+			data: new Uint8Array([1]),
+			programAddress: PROGRAM,
+		};
+		const untouched = { data: new Uint8Array([2]), programAddress: PROGRAM };
+
+		const [compressed, same] = compressInstructionsUsingAddressLookupTables(
+			[instruction, untouched],
+			{ [TABLE]: [FEE_PAYER, SIGNER, WRITABLE, PROGRAM] },
+			[FEE_PAYER],
+		);
+
+		expect(compressed.accounts).toEqual([
+			instruction.accounts[0],
+			instruction.accounts[1],
+			{ address: WRITABLE, addressIndex: 2, lookupTableAddress: TABLE, role: AccountRole.WRITABLE },
+			instruction.accounts[3],
+		]);
+		expect(same).toBe(untouched);
+		expect(getLookupTableAddresses([compressed, same])).toEqual([TABLE]);
+	});
+});
@@ -0,0 +1,116 @@
+import type {
+	Address,
+	AddressesByLookupTableAddress,
+	appendTransactionMessageInstruction,
+	Commitment,
+	GetMultipleAccountsApi,
+	Rpc,
+} from '@solana/kit';
+import { compressTransactionMessageUsingAddressLookupTables, address as parseAddress } from '@solana/kit';
+import { fetchAllAddressLookupTable } from '@solana-program/address-lookup-table';
+
+import type { AddressLookupTableData } from '../types';
+
+type TransactionInstruction = Parameters<typeof appendTransactionMessageInstruction>[0];
+
+type CompressibleTransactionMessage = Parameters<typeof compressTransactionMessageUsingAddressLookupTables>[0];
+
+/** Lookup table address to fetch, or table data already returned by `fetchLookupTable(s)`. */
+export type AddressLookupTableInput = Address | string | AddressLookupTableData;
+
+export type ResolveAddressLookupTablesOptions = Readonly<{
+	abortSignal?: AbortSignal;
+	commitment?: Commitment;
+}>;
+
+/**
+ * Turns lookup table inputs into the address map kit compresses messages with, fetching the tables that were passed
+ * by address.
+ *
+ * @param rpc - RPC client used to fetch tables passed by address.
+ * @param tables - Table addresses or fetched table data.
+ * @param options - Optional abort signal and commitment for the fetch.
+ * @returns Addresses stored in each table, keyed by table address.
+ */
+export async function resolveAddressLookupTables(
+	rpc: Rpc<GetMultipleAccountsApi>,
+	tables: readonly AddressLookupTableInput[],
+	options: ResolveAddressLookupTablesOptions = {},
+): Promise<AddressesByLookupTableAddress> {
+	const addressesByTable: AddressesByLookupTableAddress = {};
+	const toFetch: Address[] = [];
+	for (const table of tables) {
+		if (typeof table === 'string') {
+			toFetch.push(parseAddress(table));
+		} else {
+			addressesByTable[table.address] = [...table.addresses];
+		}
+	}
+	const missing = toFetch.filter((tableAddress) => !(tableAddress in addressesByTable));
+	if (missing.length) {
+		const accounts = await fetchAllAddressLookupTable(rpc, [...new Set(missing)], {
+			abortSignal: options.abortSignal,
+			commitment: options.commitment,
+		});
+		for (const account of accounts) {
+			addressesByTable[account.address] = [...account.data.addresses];
+		}
+	}
+	return addressesByTable;
+}
+
+/**
+ * Replaces account metas that can be found in lookup tables with lookup metas. Signers, program addresses, and
+ * `excludedAddresses` stay static, so the result compiles into a valid version 0 message however it is split.
+ *
+ * @param instructions - Instructions to compress.
+ * @param addressesByTable - Lookup tables to search.
+ * @param excludedAddresses - Addresses that must stay in the static account list, such as the fee payer.
+ * @returns Instructions in the same order; untouched instructions keep their identity.
+ */
+export function compressInstructionsUsingAddressLookupTables(
+	instructions: readonly TransactionInstruction[],
+	addressesByTable: AddressesByLookupTableAddress,
+	excludedAddresses: readonly Address[] = [],
+): TransactionInstruction[] {
+	const excluded = new Set<string>(excludedAddresses);
+	// Kit compresses whole messages; a version 0 shell holding every instruction keeps program addresses static
+	// across all of them.
+	const compressed = compressTransactionMessageUsingAddressLookupTables(
+		{ instructions, version: 0 } as unknown as CompressibleTransactionMessage,
+		addressesByTable,
+	);
+	return compressed.instructions.map((instruction, index) => {
+		const original = instructions[index];
+		if (instruction === original || !excluded.size) {
+			return instruction;
+		}
+		// Table indexes must stay intact, so excluded addresses are restored after compression.
+		const accounts = (instruction.accounts ?? []).map((account, accountIndex) =>
+			'lookupTableAddress' in account && excluded.has(account.address)
+				? (original.accounts?.[accountIndex] ?? account)
+				: account,
+		);
+		return accounts.some((account) => 'lookupTableAddress' in account)
+			? Object.freeze({ ...instruction, accounts })
+			: original;
+	});
+}
+
+/**
+ * Lists the lookup tables an instruction set references.
+ *
+ * @param instructions - Instructions to inspect, usually a compiled message's.
+ * @returns Unique table addresses in first-seen order.
+ */
+export function getLookupTableAddresses(instructions: readonly TransactionInstruction[]): Address[] {
+	const tables = new Set<Address>();
+	for (const instruction of instructions) {
+		for (const account of instruction.accounts ?? []) {
+			if ('lookupTableAddress' in account) {
+				tables.add(account.lookupTableAddress);
+			}
+		}
+	}
+	return [...tables];
+}
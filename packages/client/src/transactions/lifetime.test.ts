@@ -0,0 +1,62 @@
+import type { Blockhash, Nonce } from '@solana/kit';
+import {
+	AccountRole,
+	address,
+	createNoopSigner,
+	createTransactionMessage,
+	isAdvanceNonceAccountInstruction,
+	pipe,
+	setTransactionMessageFeePayer,
+} from '@solana/kit';
+import { describe, expect, it } from 'vitest';
+
+import { isDurableNonceLifetime, setTransactionMessageLifetime } from './lifetime';
+
+const FEE_PAYER = address('11111111111111111111111111111111');
+const NONCE_ACCOUNT = address('So11111111111111111111111111111111111111112');
+const NONCE_AUTHORITY = address('SysvarC1ock11111111111111111111111111111111');
+
+function createMessage() {
+	return pipe(createTransactionMessage({ version: 0 }), (message) =>
+		setTransactionMessageFeePayer(FEE_PAYER, message),
+	);
+}
+
+describe('setTransactionMessageLifetime', () => {
+	it('applies blockhash lifetimes as is', () => {
+		const lifetime = { blockhash: 'abc' as Blockhash, lastValidBlockHeight: 10n };
+		const message = setTransactionMessageLifetime(lifetime, createMessage());
+
+		expect(isDurableNonceLifetime(lifetime)).toBe(false);
+		expect(message.lifetimeConstraint).toEqual(lifetime);
+		expect(message.instructions).toHaveLength(0);
+	});
+
+	it('prepends AdvanceNonceAccount for durable nonce lifetimes', () => {
+		const lifetime = {
+			nonce: 'nonce-value',
+			nonceAccount: NONCE_ACCOUNT,
+			nonceAuthority: NONCE_AUTHORITY.toString(),
+		};
+		const message = setTransactionMessageLifetime(lifetime, createMessage());
+
+		expect(isDurableNonceLifetime(lifetime)).toBe(true);
+		expect(message.lifetimeConstraint).toEqual({ nonce: 'nonce-value' });
+		expect(message.instructions).toHaveLength(1);
+		const [advance] = message.instructions;
+		expect(isAdvanceNonceAccountInstruction(advance)).toBe(true);
+		expect(advance.accounts?.[0].address).toBe(NONCE_ACCOUNT);
+		expect(advance.accounts?.[2]).toEqual({ address: NONCE_AUTHORITY, role: AccountRole.READONLY_SIGNER });
+	});
+
+	it('attaches a nonce authority signer without duplicating the advance instruction', () => {
+		const nonceAuthority = createNoopSigner(NONCE_AUTHORITY);
+		const lifetime = { nonce: 'first' as Nonce, nonceAccount: NONCE_ACCOUNT, nonceAuthority };
+		const once = setTransactionMessageLifetime(lifetime, createMessage());
+		const twice = setTransactionMessageLifetime({ ...lifetime, nonce: 'second' }, once);
+
+		expect(twice.lifetimeConstraint).toEqual({ nonce: 'second' });
+		expect(twice.instructions).toHaveLength(1);
+		expect(twice.instructions[0].accounts?.[2]).toMatchObject({ address: NONCE_AUTHORITY, signer: nonceAuthority });
+	});
+});
@@ -0,0 +1,101 @@
+import type {
+	Address,
+	BaseTransactionMessage,
+	Blockhash,
+	Nonce,
+	TransactionMessageWithBlockhashLifetime,
+	TransactionMessageWithDurableNonceLifetime,
+	TransactionSigner,
+} from '@solana/kit';
+import {
+	address,
+	isAdvanceNonceAccountInstruction,
+	prependTransactionMessageInstruction,
+	setTransactionMessageLifetimeUsingBlockhash,
+	setTransactionMessageLifetimeUsingDurableNonce,
+} from '@solana/kit';
+import { getAdvanceNonceAccountInstruction } from '@solana-program/system';
+
+export type BlockhashLifetime = Readonly<{
+	blockhash: Blockhash;
+	lastValidBlockHeight: bigint;
+}>;
+
+/**
+ * Lifetime backed by a durable nonce account. The transaction stays valid until the nonce advances, so it can be
+ * signed long before it is sent.
+ */
+export type DurableNonceLifetime = Readonly<{
+	/** Current nonce value stored in the nonce account, as returned by `fetchNonceAccount`. */
+	nonce: Nonce | string;
+	nonceAccount: Address | string;
+	/** Authority allowed to advance the nonce. Pass a signer when it is neither the fee payer nor the authority. */
+	nonceAuthority: Address | string | TransactionSigner;
+}>;
+
+export type TransactionLifetime = BlockhashLifetime | DurableNonceLifetime;
+
+/**
+ * Checks whether a lifetime uses a durable nonce rather than a recent blockhash.
+ *
+ * @param lifetime - Lifetime to inspect.
+ * @returns `true` for durable nonce lifetimes.
+ */
+export function isDurableNonceLifetime(lifetime: TransactionLifetime): lifetime is DurableNonceLifetime {
+	return 'nonce' in lifetime;
+}
+
+/**
+ * Applies a blockhash or durable nonce lifetime to a transaction message. Durable nonce lifetimes prepend the
+ * `AdvanceNonceAccount` instruction the runtime requires as the first instruction.
+ *
+ * @param lifetime - Lifetime to apply.
+ * @param message - Transaction message to update.
+ * @returns Message with the lifetime constraint set.
+ */
+export function setTransactionMessageLifetime<TMessage extends BaseTransactionMessage>(
+	lifetime: TransactionLifetime,
+	message: TMessage,
+): TMessage & (TransactionMessageWithBlockhashLifetime | TransactionMessageWithDurableNonceLifetime) {
+	if (!isDurableNonceLifetime(lifetime)) {
+		return setTransactionMessageLifetimeUsingBlockhash(lifetime, message) as unknown as TMessage &
+			TransactionMessageWithBlockhashLifetime;
+	}
+	const nonceAccountAddress = address(lifetime.nonceAccount);
+	const authority = lifetime.nonceAuthority;
+	const nonceAuthorityAddress = address(typeof authority === 'object' ? authority.address : authority);
+	let withAdvance = message;
+	if (typeof authority === 'object') {
+		// A signer-carrying advance instruction lets the signer be discovered when the message is signed; the kit
+		// helper below keeps an advance instruction for the same nonce account and authority in place.
+		const [first, ...rest] = message.instructions;
+		const withoutAdvance =
+			first && isAdvanceNonceAccountInstruction(first)
+				? Object.freeze({ ...message, instructions: rest })
+				: message;
+		withAdvance = prependTransactionMessageInstruction(
+			getAdvanceNonceAccountInstruction({ nonceAccount: nonceAccountAddress, nonceAuthority: authority }),
+			withoutAdvance,
+		) as unknown as TMessage;
+	}
+	return setTransactionMessageLifetimeUsingDurableNonce(
+		{ nonce: lifetime.nonce as Nonce, nonceAccountAddress, nonceAuthorityAddress },
+		withAdvance,
+	) as unknown as TMessage & TransactionMessageWithDurableNonceLifetime;
+}
+
+/** Thrown when a prepared transaction's blockhash can no longer land because the chain moved past its last valid block height. */
+export class TransactionExpiredError extends Error {
+	readonly blockHeight: bigint;
+	readonly lastValidBlockHeight: bigint;
+
+	constructor(blockHeight: bigint, lastValidBlockHeight: bigint, message?: string) {
+		super(
+			message ??
+				`Transaction expired: block height ${blockHeight} is past its last valid block height ${lastValidBlockHeight}.`,
+		);
+		this.name = 'TransactionExpiredError';
+		this.blockHeight = blockHeight;
+		this.lastValidBlockHeight = lastValidBlockHeight;
+	}
+}
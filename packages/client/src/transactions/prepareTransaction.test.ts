@@ -11,6 +11,7 @@ import {
 import { COMPUTE_BUDGET_PROGRAM_ADDRESS, getSetComputeUnitLimitInstruction } from '@solana-program/compute-budget';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+import { setTransactionMessageLifetime } from './lifetime';
 import { type PrepareTransactionMessage, prepareTransaction } from './prepareTransaction';
 
 type MockRpcConfig = Readonly<{
@@ -122,6 +123,19 @@ describe('prepareTransaction', () => {
 		expect(prepared.lifetimeConstraint).toEqual({ blockhash: 'abc', lastValidBlockHeight: 123n });
 	});
 
+	it('keeps durable nonce lifetimes instead of refreshing the blockhash', async () => {
+		// The system program pays fees in the other tests, but it cannot while it is invoked to advance the nonce.
+		const authority = address('SysvarC1ock11111111111111111111111111111111');
+		const nonceAccount = address('SysvarRent111111111111111111111111111111111');
+		const transaction = setTransactionMessageLifetime(
+			{ nonce: 'EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gUdkDPTKN1N', nonceAccount, nonceAuthority: authority },
+			setTransactionMessageFeePayer(authority, createMessage()),
+		) as PrepareTransactionMessage;
+		const prepared = await prepareTransaction({ rpc, transaction });
+		expect(prepared.lifetimeConstraint).toEqual({ nonce: 'EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gUdkDPTKN1N' });
+		expect(rpc.getLatestBlockhash).not.toHaveBeenCalled();
+	});
+
 	it('invokes the optional log hook with a base64 wire transaction', async () => {
 		const transaction = createMessage();
 		const logRequest = vi.fn();
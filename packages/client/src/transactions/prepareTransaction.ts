@@ -9,6 +9,7 @@ import type {
 import {
 	appendTransactionMessageInstruction,
 	isSolanaError,
+	isTransactionMessageWithDurableNonceLifetime,
 	SOLANA_ERROR__INSTRUCTION_ERROR__COMPUTATIONAL_BUDGET_EXCEEDED,
 	setTransactionMessageLifetimeUsingBlockhash,
 } from '@solana/kit';
@@ -22,6 +23,7 @@ export type PrepareTransactionOptions<TMessage extends PrepareTransactionMessage
 	transaction: TMessage;
 	computeUnitLimitMultiplier?: number;
 	computeUnitLimitReset?: boolean;
+	/** Replace the lifetime with a fresh blockhash. Messages with a durable nonce lifetime are never reset. */
 	blockhashReset?: boolean;
 	logRequest?: (payload: { base64WireTransaction: string }) => void;
 }>;
@@ -90,7 +92,8 @@ export async function prepareTransaction<TMessage extends PrepareTransactionMess
 	config: PrepareTransactionConfig<TMessage>,
 ): Promise<TMessage & TransactionMessageWithBlockhashLifetime> {
 	const multiplier = config.computeUnitLimitMultiplier ?? DEFAULT_COMPUTE_UNIT_LIMIT_MULTIPLIER;
-	const shouldResetBlockhash = config.blockhashReset !== false;
+	const shouldResetBlockhash =
+		config.blockhashReset !== false && !isTransactionMessageWithDurableNonceLifetime(config.transaction);
 	const shouldResetComputeUnits = config.computeUnitLimitReset ?? false;
 
 	let transaction = config.transaction;
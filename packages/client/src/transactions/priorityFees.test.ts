@@ -0,0 +1,81 @@
+import type { GetRecentPrioritizationFeesApi, Rpc } from '@solana/kit';
+import { AccountRole, address } from '@solana/kit';
+import { COMPUTE_BUDGET_PROGRAM_ADDRESS, getSetComputeUnitPriceInstruction } from '@solana-program/compute-budget';
+import { describe, expect, it, vi } from 'vitest';
+
+import { estimatePriorityFee, getWritableAccountAddresses, withComputeUnitPriceInstruction } from './priorityFees';
+
+const PROGRAM_ADDRESS = address('So11111111111111111111111111111111111111112');
+const WRITABLE = address('SysvarC1ock11111111111111111111111111111111');
+const READONLY = address('SysvarRent111111111111111111111111111111111');
+
+function createMockRpc(fees: readonly number[]) {
+	const send = vi
+		.fn()
+		.mockResolvedValue(fees.map((fee, slot) => ({ prioritizationFee: BigInt(fee), slot: BigInt(slot) })));
+	const getRecentPrioritizationFees = vi.fn(() => ({ send }));
+	return { getRecentPrioritizationFees } as unknown as Rpc<GetRecentPrioritizationFeesApi> & {
+		getRecentPrioritizationFees: typeof getRecentPrioritizationFees;
+	};
+}
+
+const instruction = {
+	accounts: [
+		{ address: WRITABLE, role: AccountRole.WRITABLE_SIGNER },
+		{ address: READONLY, role: AccountRole.READONLY },
+		{ address: WRITABLE, role: AccountRole.WRITABLE },
+	],
+	data: new Uint8Array([1]),
+	programAddress: PROGRAM_ADDRESS,
+};
+
+describe('priority fees', () => {
+	it('collects unique writable accounts', () => {
+		expect(getWritableAccountAddresses([instruction])).toEqual([WRITABLE]);
+	});
+
+	it('picks the requested percentile of recent fees and applies bounds', async () => {
+		const rpc = createMockRpc([40, 0, 10, 30, 20]);
+
+		expect(await estimatePriorityFee(rpc, { accounts: [WRITABLE], strategy: 'low' })).toEqual({
+			microLamports: 10n,
+			percentile: 25,
+			sampleCount: 5,
+		});
+		expect((await estimatePriorityFee(rpc, { accounts: [WRITABLE] })).microLamports).toBe(20n);
+		expect((await estimatePriorityFee(rpc, { accounts: [WRITABLE], strategy: 'high' })).microLamports).toBe(30n);
+		expect(
+			(
+				await estimatePriorityFee(rpc, {
+					accounts: [WRITABLE],
+					maxMicroLamports: 35,
+					strategy: { percentile: 100 },
+				})
+			).microLamports,
+		).toBe(35n);
+		expect(rpc.getRecentPrioritizationFees).toHaveBeenCalledWith([WRITABLE]);
+
+		const quiet = createMockRpc([]);
+		expect((await estimatePriorityFee(quiet, { accounts: [], minMicroLamports: 5n })).microLamports).toBe(5n);
+		await expect(estimatePriorityFee(quiet, { accounts: [], strategy: { percentile: 120 } })).rejects.toThrow(
+			/between 0 and 100/,
+		);
+	});
+
+	it('prepends an estimated price instruction unless one is already present', async () => {
+		const rpc = createMockRpc([100, 200, 300]);
+
+		const instructions = await withComputeUnitPriceInstruction(rpc, 'auto', [instruction]);
+		expect(instructions).toEqual([getSetComputeUnitPriceInstruction({ microLamports: 200 }), instruction]);
+		expect(instructions[0]?.programAddress).toBe(COMPUTE_BUDGET_PROGRAM_ADDRESS);
+		expect(rpc.getRecentPrioritizationFees).toHaveBeenCalledWith([WRITABLE]);
+
+		expect(await withComputeUnitPriceInstruction(rpc, 'auto', instructions)).toEqual(instructions);
+		expect(await withComputeUnitPriceInstruction(rpc, 7, [instruction])).toEqual([
+			getSetComputeUnitPriceInstruction({ microLamports: 7 }),
+			instruction,
+		]);
+		expect(await withComputeUnitPriceInstruction(rpc, undefined, [instruction])).toEqual([instruction]);
+		expect(rpc.getRecentPrioritizationFees).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,177 @@
+import type { Address, appendTransactionMessageInstruction, GetRecentPrioritizationFeesApi, Rpc } from '@solana/kit';
+import { isInstructionForProgram, isInstructionWithData, isWritableRole } from '@solana/kit';
+import {
+	COMPUTE_BUDGET_PROGRAM_ADDRESS,
+	ComputeBudgetInstruction,
+	getSetComputeUnitPriceInstruction,
+} from '@solana-program/compute-budget';
+
+type TransactionInstruction = Parameters<typeof appendTransactionMessageInstruction>[0];
+
+export type PriorityFeeLevel = 'high' | 'low' | 'medium';
+
+/** Named level, or a custom percentile between 0 and 100 of the recent fees paid for the same accounts. */
+export type PriorityFeeStrategy = PriorityFeeLevel | Readonly<{ percentile: number }>;
+
+export type PriorityFeeEstimateConfig = Readonly<{
+	/** Upper bound on the estimate, in micro-lamports per compute unit. */
+	maxMicroLamports?: bigint | number;
+	/** Lower bound on the estimate, in micro-lamports per compute unit. */
+	minMicroLamports?: bigint | number;
+	/** Defaults to `'medium'`. */
+	strategy?: PriorityFeeStrategy;
+}>;
+
+export type PriorityFeeEstimateOptions = PriorityFeeEstimateConfig &
+	Readonly<{
+		abortSignal?: AbortSignal;
+		/** Accounts the transaction writes to. Fees are only contended on writable accounts. */
+		accounts: readonly (Address | string)[];
+	}>;
+
+export type PriorityFeeEstimate = Readonly<{
+	microLamports: bigint;
+	percentile: number;
+	/** Number of recent slots the estimate was computed from. */
+	sampleCount: number;
+}>;
+
+/** Fixed price, `'auto'` to estimate one with the default strategy, or an estimator configuration. */
+export type ComputeUnitPriceInput = bigint | number | 'auto' | PriorityFeeEstimateConfig;
+
+type PriorityFeeRpc = Rpc<GetRecentPrioritizationFeesApi>;
+
+const PRIORITY_FEE_PERCENTILES: Record<PriorityFeeLevel, number> = {
+	high: 75,
+	low: 25,
+	medium: 50,
+};
+
+// `getRecentPrioritizationFees` rejects requests for more accounts than this.
+const MAX_PRIORITY_FEE_ACCOUNTS = 128;
+
+function resolvePercentile(strategy: PriorityFeeStrategy = 'medium'): number {
+	const percentile = typeof strategy === 'string' ? PRIORITY_FEE_PERCENTILES[strategy] : strategy.percentile;
+	if (!Number.isFinite(percentile) || percentile < 0 || percentile > 100) {
+		throw new Error(`Priority fee percentile must be between 0 and 100, received ${percentile}.`);
+	}
+	return percentile;
+}
+
+function toMicroLamports(value: bigint | number): bigint {
+	return typeof value === 'bigint' ? value : BigInt(Math.floor(value));
+}
+
+/**
+ * Collects the unique writable accounts referenced by a set of instructions.
+ *
+ * @param instructions - Instructions to inspect.
+ * @returns Writable account addresses in first-seen order.
+ */
+export function getWritableAccountAddresses(instructions: readonly TransactionInstruction[]): Address[] {
+	const addresses = new Set<Address>();
+	for (const instruction of instructions) {
+		for (const account of instruction.accounts ?? []) {
+			if (isWritableRole(account.role)) {
+				addresses.add(account.address);
+			}
+		}
+	}
+	return [...addresses];
+}
+
+/**
+ * Checks whether an instruction list already sets a compute unit price.
+ *
+ * @param instructions - Instructions to inspect.
+ * @returns `true` when a `SetComputeUnitPrice` instruction is present.
+ */
+export function hasSetComputeUnitPriceInstruction(instructions: readonly TransactionInstruction[]): boolean {
+	return instructions.some(
+		(instruction) =>
+			isInstructionForProgram(instruction, COMPUTE_BUDGET_PROGRAM_ADDRESS) &&
+			isInstructionWithData(instruction) &&
+			instruction.data[0] === ComputeBudgetInstruction.SetComputeUnitPrice,
+	);
+}
+
+/**
+ * Estimates a compute unit price from the prioritization fees recently paid by transactions that wrote to the same
+ * accounts.
+ *
+ * @param rpc - RPC client exposing `getRecentPrioritizationFees`.
+ * @param options - Accounts to sample plus the strategy and bounds to apply.
+ * @returns Estimated price in micro-lamports per compute unit; `0n` when no recent fees were reported.
+ */
+export async function estimatePriorityFee(
+	rpc: PriorityFeeRpc,
+	options: PriorityFeeEstimateOptions,
+): Promise<PriorityFeeEstimate> {
+	const percentile = resolvePercentile(options.strategy);
+	const accounts = [...new Set(options.accounts.map(String))].slice(0, MAX_PRIORITY_FEE_ACCOUNTS) as Address[];
+	const samples = await rpc.getRecentPrioritizationFees(accounts).send({ abortSignal: options.abortSignal });
+	const fees = samples.map((sample) => sample.prioritizationFee).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+	// Nearest-rank percentile, so the estimate is always a fee that was actually paid.
+	const index = Math.min(fees.length - 1, Math.max(0, Math.ceil((percentile / 100) * fees.length) - 1));
+	let microLamports: bigint = fees.length ? fees[index] : 0n;
+	if (options.minMicroLamports !== undefined && microLamports < toMicroLamports(options.minMicroLamports)) {
+		microLamports = toMicroLamports(options.minMicroLamports);
+	}
+	if (options.maxMicroLamports !== undefined && microLamports > toMicroLamports(options.maxMicroLamports)) {
+		microLamports = toMicroLamports(options.maxMicroLamports);
+	}
+	return Object.freeze({ microLamports, percentile, sampleCount: fees.length });
+}
+
+/**
+ * Turns a `computeUnitPrice` option into a price, estimating one from the instructions' writable accounts when
+ * requested.
+ *
+ * @param rpc - RPC client used for estimates.
+ * @param input - Fixed price, `'auto'`, or estimator configuration.
+ * @param instructions - Instructions the price applies to.
+ * @param abortSignal - Optional signal to cancel the estimate.
+ * @returns Price in micro-lamports, or `undefined` when none was requested or the instructions already set one.
+ */
+export async function resolveComputeUnitPrice(
+	rpc: PriorityFeeRpc,
+	input: ComputeUnitPriceInput | undefined,
+	instructions: readonly TransactionInstruction[],
+	abortSignal?: AbortSignal,
+): Promise<bigint | undefined> {
+	if (input === undefined || hasSetComputeUnitPriceInstruction(instructions)) {
+		return undefined;
+	}
+	if (typeof input === 'bigint' || typeof input === 'number') {
+		return toMicroLamports(input);
+	}
+	const config = input === 'auto' ? {} : input;
+	const estimate = await estimatePriorityFee(rpc, {
+		...config,
+		abortSignal,
+		accounts: getWritableAccountAddresses(instructions),
+	});
+	return estimate.microLamports;
+}
+
+/**
+ * Prepends a `SetComputeUnitPrice` instruction when a price is requested and the instructions do not set one.
+ *
+ * @param rpc - RPC client used for estimates.
+ * @param input - Fixed price, `'auto'`, or estimator configuration.
+ * @param instructions - Instructions to send.
+ * @param abortSignal - Optional signal to cancel the estimate.
+ * @returns Instructions, prefixed with the price instruction when one applies.
+ */
+export async function withComputeUnitPriceInstruction(
+	rpc: PriorityFeeRpc,
+	input: ComputeUnitPriceInput | undefined,
+	instructions: readonly TransactionInstruction[],
+	abortSignal?: AbortSignal,
+): Promise<TransactionInstruction[]> {
+	const microLamports = await resolveComputeUnitPrice(rpc, input, instructions, abortSignal);
+	if (microLamports === undefined) {
+		return [...instructions];
+	}
+	return [getSetComputeUnitPriceInstruction({ microLamports: Number(microLamports) }), ...instructions];
+}
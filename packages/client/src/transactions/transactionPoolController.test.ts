@@ -1,6 +1,8 @@
+import type { TransactionSigner } from '@solana/kit';
 import { describe, expect, test, vi } from 'vitest';
 
 import type { TransactionHelper, TransactionInstructionInput, TransactionPrepared } from '../features/transactions';
+import { TransactionExpiredError } from './lifetime';
 import { createTransactionPoolController, type LatestBlockhashCache } from './transactionPoolController';
 
 function createHelper(overrides: Partial<TransactionHelper> = {}): TransactionHelper {
@@ -14,6 +16,7 @@ function createHelper(overrides: Partial<TransactionHelper> = {}): TransactionHe
 		version: 0,
 	};
 	return {
+		checkExpiry: vi.fn().mockResolvedValue({ blockHeight: 0n, expired: false }),
 		prepare: vi.fn().mockResolvedValue(prepared),
 		prepareAndSend: vi.fn().mockResolvedValue('sig-prep-send'),
 		send: vi.fn().mockResolvedValue('sig-send'),
@@ -79,4 +82,64 @@ describe('createTransactionPoolController', () => {
 			undefined,
 		);
 	});
+
+	test('refuses to send an expired transaction unless re-preparing is enabled', async () => {
+		const helper = createHelper({ checkExpiry: vi.fn().mockResolvedValue({ blockHeight: 5n, expired: true }) });
+		const controller = createTransactionPoolController({ helper, initialInstructions: [instruction] });
+		const prepared = await controller.prepare();
+
+		await expect(controller.send()).rejects.toBeInstanceOf(TransactionExpiredError);
+		expect(helper.send).not.toHaveBeenCalled();
+		expect(controller.getExpiryState()).toEqual({ blockHeight: 5n, prepared, status: 'expired' });
+		expect(controller.getSendState().status).toBe('error');
+	});
+
+	test('re-prepares expired transactions with a fresh lifetime before sending', async () => {
+		const refreshed = { lifetime: { blockhash: 'fresh', lastValidBlockHeight: 50n } } as TransactionPrepared;
+		const helper = createHelper({
+			checkExpiry: vi.fn().mockResolvedValueOnce({ blockHeight: 5n, expired: true }),
+		});
+		const controller = createTransactionPoolController({
+			helper,
+			initialInstructions: [instruction],
+			reprepareOnExpiry: true,
+		});
+		const cache = { updatedAt: Date.now(), value: { blockhash: 'stale', lastValidBlockHeight: 1n } };
+		controller.setLatestBlockhashCache(cache);
+		const authority = {} as TransactionSigner;
+		const previous = await controller.prepare({ authority });
+		vi.mocked(helper.prepare).mockResolvedValueOnce(refreshed);
+		const states: string[] = [];
+		controller.subscribeExpiryState(() => states.push(controller.getExpiryState().status));
+
+		await expect(controller.send()).resolves.toBe('sig-send');
+
+		expect(helper.prepare).toHaveBeenLastCalledWith({
+			abortSignal: undefined,
+			authority,
+			instructions: [instruction],
+			lifetime: undefined,
+		});
+		expect(helper.send).toHaveBeenCalledWith(refreshed, {});
+		expect(controller.getPrepared()).toBe(refreshed);
+		expect(controller.getLatestBlockhashCache()).toBe(cache);
+		expect(states).toEqual(['expired', 'refreshing', 'idle', 'refreshed']);
+		expect(controller.getExpiryState()).toEqual({ prepared: refreshed, previous, status: 'refreshed' });
+	});
+
+	test('does not reuse the abort signal of the original prepare when re-preparing', async () => {
+		const helper = createHelper();
+		const controller = createTransactionPoolController({ helper, initialInstructions: [instruction] });
+		const abortController = new AbortController();
+		await controller.prepare({ abortSignal: abortController.signal });
+		abortController.abort();
+
+		await controller.reprepare();
+
+		expect(helper.prepare).toHaveBeenLastCalledWith({
+			abortSignal: undefined,
+			instructions: [instruction],
+			lifetime: undefined,
+		});
+	});
 });
@@ -1,4 +1,5 @@
 import type {
+	TransactionExpiry,
 	TransactionHelper,
 	TransactionInstructionInput,
 	TransactionPrepareAndSendRequest,
@@ -8,6 +9,7 @@ import type {
 	TransactionSignOptions,
 } from '../features/transactions';
 import { type AsyncState, createAsyncState, createInitialAsyncState } from '../state/asyncState';
+import { type BlockhashLifetime, isDurableNonceLifetime, TransactionExpiredError } from './lifetime';
 
 type Listener = () => void;
 
@@ -17,13 +19,35 @@ type TransactionSignature = Awaited<ReturnType<TransactionHelper['send']>>;
 
 export type LatestBlockhashCache = Readonly<{
 	updatedAt: number;
-	value: NonNullable<TransactionPrepareRequest['lifetime']>;
+	value: BlockhashLifetime;
 }>;
 
 export type TransactionPoolConfig = Readonly<{
 	blockhashMaxAgeMs?: number;
 	helper: TransactionHelper;
 	initialInstructions?: TransactionInstructionList;
+	/**
+	 * When a prepared transaction has expired by the time it is sent, prepare it again with a fresh blockhash and the
+	 * same instructions instead of throwing {@link TransactionExpiredError}. Signers are asked to sign again.
+	 */
+	reprepareOnExpiry?: boolean;
+}>;
+
+/**
+ * Whether the prepared transaction can still land. `refreshed` means it expired and was prepared again, so wallets
+ * will prompt for signatures a second time.
+ */
+export type TransactionPoolExpiryState = Readonly<
+	| { status: 'idle' }
+	| { blockHeight: bigint | null; status: 'valid' }
+	| { blockHeight: bigint; prepared: TransactionPrepared; status: 'expired' }
+	| { previous: TransactionPrepared; status: 'refreshing' }
+	| { prepared: TransactionPrepared; previous: TransactionPrepared; status: 'refreshed' }
+>;
+
+export type TransactionPoolCheckExpiryOptions = Readonly<{
+	abortSignal?: AbortSignal;
+	prepared?: TransactionPrepared;
 }>;
 
 export type TransactionPoolPrepareOptions = Readonly<
@@ -75,7 +99,9 @@ function freezeInstructions(list: TransactionInstructionList): TransactionInstru
 export type TransactionPoolController = Readonly<{
 	addInstruction(instruction: TransactionInstructionInput): void;
 	addInstructions(instructionSet: TransactionInstructionList): void;
+	checkExpiry(options?: TransactionPoolCheckExpiryOptions): Promise<TransactionExpiry>;
 	clearInstructions(): void;
+	getExpiryState(): TransactionPoolExpiryState;
 	getInstructions(): TransactionInstructionList;
 	getPrepareState(): AsyncState<TransactionPrepared>;
 	getPrepared(): TransactionPrepared | null;
@@ -88,10 +114,12 @@ export type TransactionPoolController = Readonly<{
 	): Promise<TransactionSignature>;
 	removeInstruction(index: number): void;
 	replaceInstructions(instructionSet: TransactionInstructionList): void;
+	reprepare(options?: Readonly<{ abortSignal?: AbortSignal }>): Promise<TransactionPrepared>;
 	reset(): void;
 	send(options?: TransactionPoolSendOptions): Promise<TransactionSignature>;
 	setLatestBlockhashCache(cache: LatestBlockhashCache | undefined): void;
 	sign(options?: TransactionPoolSignOptions): ReturnType<TransactionHelper['sign']>;
+	subscribeExpiryState(listener: Listener): () => void;
 	subscribeInstructions(listener: Listener): () => void;
 	subscribePrepareState(listener: Listener): () => void;
 	subscribePrepared(listener: Listener): () => void;
@@ -105,6 +133,7 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 	const initialInstructions = freezeInstructions(config.initialInstructions ?? []);
 	const blockhashMaxAgeMs = config.blockhashMaxAgeMs ?? 30_000;
 	let latestBlockhashCache: LatestBlockhashCache | undefined;
+	let lastPrepareRequest: TransactionPoolPrepareOptions | undefined;
 
 	const instructionsStore = createStore<TransactionInstructionList>(initialInstructions);
 	const preparedStore = createStore<TransactionPrepared | null>(null);
@@ -114,9 +143,11 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 	const sendStateStore = createStore<AsyncState<TransactionSignature>>(
 		createInitialAsyncState<TransactionSignature>(),
 	);
+	const expiryStateStore = createStore<TransactionPoolExpiryState>({ status: 'idle' });
 
 	function resetDerivedState() {
 		preparedStore.setSnapshot(null);
+		expiryStateStore.setSnapshot({ status: 'idle' });
 		prepareStateStore.setSnapshot(createInitialAsyncState<TransactionPrepared>());
 		sendStateStore.setSnapshot(createInitialAsyncState<TransactionSignature>());
 	}
@@ -178,19 +209,26 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 		return latestBlockhashCache.value;
 	}
 
-	async function prepare(options: TransactionPoolPrepareOptions = {}): Promise<TransactionPrepared> {
+	async function prepareInstructions(
+		options: TransactionPoolPrepareOptions,
+		useCachedLifetime: boolean,
+	): Promise<TransactionPrepared> {
 		const { instructions: overrideInstructions, ...rest } = options;
 		const nextInstructions = overrideInstructions ?? instructionsStore.getSnapshot();
 		ensureInstructions(nextInstructions);
 		prepareStateStore.setSnapshot(createAsyncState<TransactionPrepared>('loading'));
 		try {
-			const cachedLifetime = rest.lifetime ?? resolveCachedLifetime();
+			const cachedLifetime = rest.lifetime ?? (useCachedLifetime ? resolveCachedLifetime() : undefined);
 			const restWithLifetime = cachedLifetime && !rest.lifetime ? { ...rest, lifetime: cachedLifetime } : rest;
 			const prepared = await helper.prepare({
 				...(restWithLifetime as Omit<TransactionPrepareRequest, 'instructions'>),
 				instructions: nextInstructions,
 			});
+			// The signal belongs to this call; a later re-prepare must not inherit one that may have fired.
+			const { abortSignal: _abortSignal, ...request } = rest;
+			lastPrepareRequest = { ...request, instructions: nextInstructions };
 			preparedStore.setSnapshot(prepared);
+			expiryStateStore.setSnapshot({ status: 'idle' });
 			prepareStateStore.setSnapshot(createAsyncState<TransactionPrepared>('success', { data: prepared }));
 			return prepared;
 		} catch (error) {
@@ -199,6 +237,10 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 		}
 	}
 
+	function prepare(options: TransactionPoolPrepareOptions = {}): Promise<TransactionPrepared> {
+		return prepareInstructions(options, true);
+	}
+
 	function resolvePrepared(override?: TransactionPrepared | null): TransactionPrepared {
 		const target = override ?? preparedStore.getSnapshot();
 		if (!target) {
@@ -218,11 +260,65 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 		return { ...options, lifetime: cachedLifetime };
 	}
 
+	async function checkExpiry(options: TransactionPoolCheckExpiryOptions = {}): Promise<TransactionExpiry> {
+		const target = resolvePrepared(options.prepared);
+		const expiry = await helper.checkExpiry(target, { abortSignal: options.abortSignal });
+		if (target === preparedStore.getSnapshot()) {
+			expiryStateStore.setSnapshot(
+				expiry.expired && expiry.blockHeight !== null
+					? { blockHeight: expiry.blockHeight, prepared: target, status: 'expired' }
+					: { blockHeight: expiry.blockHeight, status: 'valid' },
+			);
+		}
+		return expiry;
+	}
+
+	async function reprepare(options: Readonly<{ abortSignal?: AbortSignal }> = {}): Promise<TransactionPrepared> {
+		const previous = preparedStore.getSnapshot();
+		if (!previous || !lastPrepareRequest) {
+			throw new Error('Prepare a transaction before preparing it again.');
+		}
+		const previousExpiryState = expiryStateStore.getSnapshot();
+		expiryStateStore.setSnapshot({ previous, status: 'refreshing' });
+		const { lifetime, ...rest } = lastPrepareRequest;
+		try {
+			// Skip the blockhash cache: its entry is likely the one that just expired.
+			const prepared = await prepareInstructions(
+				{
+					...rest,
+					abortSignal: options.abortSignal,
+					lifetime: lifetime && isDurableNonceLifetime(lifetime) ? lifetime : undefined,
+				},
+				false,
+			);
+			expiryStateStore.setSnapshot({ prepared, previous, status: 'refreshed' });
+			return prepared;
+		} catch (error) {
+			expiryStateStore.setSnapshot(previousExpiryState);
+			throw error;
+		}
+	}
+
+	async function resolveUnexpired(target: TransactionPrepared, abortSignal?: AbortSignal) {
+		const expiry = await checkExpiry({ abortSignal, prepared: target });
+		if (!expiry.expired || expiry.blockHeight === null) {
+			return target;
+		}
+		if (config.reprepareOnExpiry && target === preparedStore.getSnapshot()) {
+			return await reprepare({ abortSignal });
+		}
+		throw new TransactionExpiredError(
+			expiry.blockHeight,
+			(target.lifetime as BlockhashLifetime).lastValidBlockHeight,
+		);
+	}
+
 	async function send(options: TransactionPoolSendOptions = {}): Promise<TransactionSignature> {
 		const { prepared: overridePrepared, ...rest } = options;
-		const target = resolvePrepared(overridePrepared);
+		const initialTarget = resolvePrepared(overridePrepared);
 		sendStateStore.setSnapshot(createAsyncState<TransactionSignature>('loading'));
 		try {
+			const target = await resolveUnexpired(initialTarget, rest.abortSignal);
 			const signature = await helper.send(target, rest);
 			sendStateStore.setSnapshot(createAsyncState<TransactionSignature>('success', { data: signature }));
 			return signature;
@@ -269,6 +365,10 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 		return helper.toWire(target, rest);
 	}
 
+	function subscribeExpiryState(listener: Listener) {
+		return expiryStateStore.subscribe(listener);
+	}
+
 	function subscribeInstructions(listener: Listener) {
 		return instructionsStore.subscribe(listener);
 	}
@@ -292,10 +392,12 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 	return {
 		addInstruction,
 		addInstructions,
+		checkExpiry,
 		clearInstructions,
 		get helper() {
 			return helper;
 		},
+		getExpiryState: expiryStateStore.getSnapshot,
 		getInstructions: instructionsStore.getSnapshot,
 		getPrepareState: prepareStateStore.getSnapshot,
 		getPrepared: preparedStore.getSnapshot,
@@ -305,10 +407,12 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 		prepareAndSend,
 		removeInstruction,
 		replaceInstructions,
+		reprepare,
 		reset,
 		send,
 		setLatestBlockhashCache,
 		sign,
+		subscribeExpiryState,
 		subscribeInstructions,
 		subscribePrepareState,
 		subscribePrepared,
@@ -2,21 +2,32 @@ import type {
 	Address,
 	ClusterUrl,
 	Commitment,
+	GetProgramAccountsDatasizeFilter,
+	GetProgramAccountsMemcmpFilter,
 	Lamports,
 	SendableTransaction,
 	Signature,
 	Transaction,
 	TransactionMessageWithBlockhashLifetime,
+	TransactionWithDurableNonceLifetime,
 } from '@solana/kit';
 import type { TransactionWithLastValidBlockHeight } from '@solana/transaction-confirmation';
 import type { StoreApi } from 'zustand/vanilla';
+import type { AccountCachePolicy } from './accounts/cache';
+import type { AccountDecoders } from './accounts/decoders';
 import type { SolTransferHelper } from './features/sol';
 import type { SplTokenHelper, SplTokenHelperConfig } from './features/spl';
 import type { StakeHelper } from './features/stake';
 import type { TransactionHelper } from './features/transactions';
+import type { RpcBatchingOptions } from './rpc/batching';
 import type { SolanaRpcClient } from './rpc/createSolanaRpcClient';
+import type { RpcEndpointConfig, RpcEndpointHealth, RpcEndpointRouting } from './rpc/failover';
+import type { RetryPolicy } from './rpc/retry';
+import type { TabSyncOptions } from './sync/tabSync';
 import type { PrepareTransactionMessage, PrepareTransactionOptions } from './transactions/prepareTransaction';
-import type { ClusterMoniker } from './utils/cluster';
+import type { ClusterIdentity, ClusterMoniker, SolanaChain } from './utils/cluster';
+import type { WalletCapabilities } from './wallet/capabilities';
+import type { SignInInput, SignInOutput } from './wallet/siws';
 
 type SolanaRpcInstance = ReturnType<typeof import('@solana/kit')['createSolanaRpc']>;
 type SolanaSubscriptionsInstance = ReturnType<typeof import('@solana/kit')['createSolanaRpcSubscriptions']>;
@@ -36,31 +47,63 @@ export type WalletConnectorMetadata = Readonly<{
 
 export type WalletAccount = Readonly<{
 	address: Address;
+	/** Chains the wallet enables this account on, such as `solana:devnet`, when the wallet reports them. */
+	chains?: readonly string[];
 	label?: string;
 	publicKey: Uint8Array;
 }>;
 
 export type WalletSession = Readonly<{
+	/** Account used for signing. */
 	account: WalletAccount;
+	/** Every account the wallet authorized for this session, including the active one. Defaults to `[account]`. */
+	accounts?: readonly WalletAccount[];
+	/** Features the wallet offers. Derived from the session's methods when a connector omits it. */
+	capabilities?: WalletCapabilities;
 	connector: WalletConnectorMetadata;
 	disconnect(): Promise<void>;
 	onAccountsChanged?: (listener: (accounts: WalletAccount[]) => void) => () => void;
+	/** Switches the account used for signing. Throws when the wallet did not authorize the address. */
+	selectAccount?(address: Address): WalletAccount;
+	/** Signs and submits a transaction. `chain` is filled in from the active cluster by the client. */
 	sendTransaction?(
 		transaction: SendableTransaction & Transaction,
-		config?: Readonly<{ commitment?: Commitment }>,
+		config?: Readonly<{ chain?: string; commitment?: Commitment }>,
 	): Promise<Signature>;
+	/** Sign-In With Solana. Uses `solana:signIn` when the wallet supports it and `signMessage` otherwise. */
+	signIn?(input?: SignInInput): Promise<SignInOutput>;
 	signMessage?(message: Uint8Array): Promise<Uint8Array>;
-	signTransaction?(transaction: SendableTransaction & Transaction): Promise<SendableTransaction & Transaction>;
+	/** Signs several transactions behind a single wallet prompt. Results are returned in input order. */
+	signAllTransactions?(
+		transactions: readonly (SendableTransaction & Transaction)[],
+		config?: Readonly<{ chain?: string }>,
+	): Promise<readonly (SendableTransaction & Transaction)[]>;
+	/** Signs a transaction. `chain` is filled in from the active cluster by the client. */
+	signTransaction?(
+		transaction: SendableTransaction & Transaction,
+		config?: Readonly<{ chain?: string }>,
+	): Promise<SendableTransaction & Transaction>;
 }>;
 
 export type WalletConnector = WalletConnectorMetadata & {
-	connect(opts?: Readonly<{ autoConnect?: boolean; allowInteractiveFallback?: boolean }>): Promise<WalletSession>;
+	connect(
+		opts?: Readonly<{
+			autoConnect?: boolean;
+			allowInteractiveFallback?: boolean;
+			/** Chain of the active cluster, filled in by the client. */
+			chain?: string;
+		}>,
+	): Promise<WalletSession>;
 	disconnect(): Promise<void>;
 	isSupported(): boolean;
 };
 
 type WalletStatusConnected = Readonly<{
 	autoConnect?: boolean;
+	/** Wallet Standard chain of the active cluster, passed to the wallet on every sign and send call. */
+	chain?: SolanaChain;
+	/** `true` when the active account is not enabled for `chain`, so signing would target the wrong cluster. */
+	chainMismatch?: boolean;
 	connectorId: string;
 	session: WalletSession;
 	status: 'connected';
@@ -99,6 +142,8 @@ type ClusterStatusError = Readonly<{
 type ClusterStatusIdle = Readonly<{ status: 'idle' }>;
 
 type ClusterStatusReady = Readonly<{
+	activeEndpoint?: ClusterUrl;
+	endpoints?: readonly RpcEndpointHealth[];
 	latencyMs?: number;
 	status: 'ready';
 }>;
@@ -108,13 +153,25 @@ export type ClusterStatus = ClusterStatusConnecting | ClusterStatusError | Clust
 export type ClusterState = Readonly<{
 	commitment: Commitment;
 	endpoint: ClusterUrl;
+	/** Genesis hash reported by the endpoint once the cluster is ready. */
+	genesisHash?: string;
+	/** Cluster the endpoint belongs to according to its genesis hash. */
+	identity?: ClusterIdentity;
 	status: ClusterStatus;
 	websocketEndpoint?: ClusterUrl;
 }>;
 
-export type AccountCacheEntry = Readonly<{
+/**
+ * What `setCluster` does when the endpoint's genesis hash does not match the expected cluster:
+ * `error` refuses to switch, `warn` logs a warning, and `off` skips the check.
+ */
+export type ClusterVerification = 'error' | 'off' | 'warn';
+
+export type AccountCacheEntry<TDecoded = unknown> = Readonly<{
 	address: Address;
 	data?: unknown;
+	/** Account data decoded by the decoder registered for the owner program, when one applies. */
+	decoded?: TDecoded;
 	error?: unknown;
 	fetching: boolean;
 	lamports: Lamports | null;
@@ -125,6 +182,8 @@ export type AccountCacheEntry = Readonly<{
 export type AccountCache = Record<string, AccountCacheEntry>;
 
 export type AddressLookupTableData = Readonly<{
+	/** Address of the lookup table account itself. */
+	address: Address;
 	addresses: readonly Address[];
 	authority?: Address;
 	deactivationSlot: bigint;
@@ -137,9 +196,22 @@ export type NonceAccountData = Readonly<{
 	blockhash: string;
 }>;
 
+/** Nonce a durable nonce transaction depends on; the transaction can no longer land once the nonce advances. */
+export type TransactionDurableNonce = Readonly<{
+	nonce: string;
+	nonceAccountAddress: Address;
+}>;
+
 export type TransactionRecord = Readonly<{
+	/** Commitment the transaction is confirmed at. */
+	commitment?: Commitment;
+	durableNonce?: TransactionDurableNonce;
 	error?: unknown;
 	lastUpdatedAt: number;
+	/** Block height after which the transaction can no longer land. */
+	lastValidBlockHeight?: bigint;
+	/** Number of times the wire transaction was submitted, including rebroadcasts. */
+	sendAttempts?: number;
 	signature?: Signature;
 	status: 'confirmed' | 'failed' | 'idle' | 'sending' | 'waiting';
 }>;
@@ -154,15 +226,22 @@ type SubscriptionStatusError = Readonly<{ error: unknown; status: 'error' }>;
 
 type SubscriptionStatusInactive = Readonly<{ status: 'inactive' }>;
 
+type SubscriptionStatusReconnecting = Readonly<{ attempt: number; error: unknown; status: 'reconnecting' }>;
+
 export type SubscriptionStatus =
 	| SubscriptionStatusActivating
 	| SubscriptionStatusActive
 	| SubscriptionStatusError
-	| SubscriptionStatusInactive;
+	| SubscriptionStatusInactive
+	| SubscriptionStatusReconnecting;
 
 export type SubscriptionState = Readonly<{
 	account: Record<string, SubscriptionStatus>;
+	logs: Record<string, SubscriptionStatus>;
+	program: Record<string, SubscriptionStatus>;
+	root: Record<string, SubscriptionStatus>;
 	signature: Record<string, SubscriptionStatus>;
+	slot: Record<string, SubscriptionStatus>;
 }>;
 
 export type ClientState = Readonly<{
@@ -179,29 +258,80 @@ export type ClientStore = StoreApi<ClientState>;
 export type CreateStoreFn = (state: ClientState) => ClientStore;
 
 export type SolanaClientConfig = Readonly<{
+	/** Bounds the account cache by size and age. Accounts with active watchers are never evicted. */
+	accountCache?: AccountCachePolicy;
+	/** Extra account decoders keyed by owner program, merged over the built-ins. Pass `false` to disable decoding. */
+	accountDecoders?: AccountDecoders | false;
+	batching?: RpcBatchingOptions | boolean;
 	cluster?: ClusterMoniker;
 	commitment?: Commitment;
 	createStore?: CreateStoreFn;
 	endpoint?: ClusterUrl;
+	fallbackEndpoints?: readonly RpcEndpointConfig[];
 	initialState?: SerializableSolanaState;
 	logger?: ClientLogger;
+	/** Backoff policy used to reconnect dropped watcher subscriptions. Pass `false` to disable reconnects. */
+	reconnect?: RetryPolicy | false;
+	retry?: RetryPolicy | boolean;
+	routing?: RpcEndpointRouting;
 	rpc?: ClusterUrl;
 	rpcClient?: SolanaRpcClient;
+	/**
+	 * Keeps wallet, cluster, and transaction state in sync with clients in other tabs, and lets one elected tab own
+	 * the websocket subscriptions. Disabled by default.
+	 */
+	tabSync?: TabSyncOptions | boolean;
+	/** How to handle an endpoint whose genesis hash does not match `cluster`. Defaults to `warn`. */
+	verifyCluster?: ClusterVerification;
 	walletConnectors?: readonly WalletConnector[];
 	websocket?: ClusterUrl;
 	websocketEndpoint?: ClusterUrl;
 }>;
 
+/** Server-fetched data handed to the browser client, produced by `dehydrate` and applied by `hydrate`. */
+export type DehydratedSolanaState = Readonly<{
+	accounts: AccountCache;
+	/** Cluster the data was fetched from; payloads from another cluster are not applied. */
+	cluster: Readonly<{
+		commitment: Commitment;
+		endpoint: ClusterUrl;
+	}>;
+	queries: readonly DehydratedQuery[];
+	version: number;
+}>;
+
+/** Query result fetched on the server, identified by the scope and arguments the matching hook uses. */
+export type DehydratedQuery = Readonly<{
+	args: readonly unknown[];
+	data: unknown;
+	scope: string;
+}>;
+
 export type SerializableSolanaState = Readonly<{
 	autoconnect?: boolean;
 	commitment?: Commitment;
 	endpoint?: ClusterUrl;
 	lastConnectorId?: string | null;
 	lastPublicKey?: string | null;
+	/** Pending transactions keyed by signature, present when transaction persistence is enabled. */
+	transactions?: Readonly<Record<string, SerializableTransactionRecord>>;
 	version: number;
 	websocketEndpoint?: ClusterUrl;
 }>;
 
+export type SerializableTransactionRecord = Readonly<{
+	commitment?: Commitment;
+	durableNonce?: Readonly<{
+		nonce: string;
+		nonceAccountAddress: string;
+	}>;
+	lastUpdatedAt: number;
+	/** Decimal string, since JSON cannot encode bigint. */
+	lastValidBlockHeight?: string;
+	signature: string;
+	status: 'sending' | 'waiting';
+}>;
+
 export type SolanaClientRuntime = {
 	rpc: SolanaRpcInstance;
 	rpcSubscriptions: SolanaSubscriptionsInstance;
@@ -223,6 +353,47 @@ export type SignatureWatcherConfig = Readonly<{
 	signature: Signature;
 }>;
 
+export type ProgramAccountsFilter = GetProgramAccountsDatasizeFilter | GetProgramAccountsMemcmpFilter;
+
+export type ProgramAccountsWatcherConfig = Readonly<{
+	commitment?: Commitment;
+	/** Account data encoding requested from the RPC. Defaults to `base64`. */
+	encoding?: 'base58' | 'base64' | 'base64+zstd' | 'jsonParsed';
+	filters?: readonly ProgramAccountsFilter[];
+	programId: Address;
+}>;
+
+export type ProgramAccountNotification = Readonly<{
+	account: Readonly<{
+		data: unknown;
+		executable: boolean;
+		lamports: Lamports;
+		owner: Address;
+		space: bigint;
+	}>;
+	pubkey: Address;
+	slot: bigint;
+}>;
+
+export type LogsWatcherConfig = Readonly<{
+	commitment?: Commitment;
+	/** Only stream logs of transactions that mention this address. Streams all non-vote transactions when omitted. */
+	mentions?: Address;
+}>;
+
+export type LogsNotification = Readonly<{
+	err: unknown;
+	logs: readonly string[];
+	signature: Signature;
+	slot: bigint;
+}>;
+
+export type SlotNotification = Readonly<{
+	parent: bigint;
+	root: bigint;
+	slot: bigint;
+}>;
+
 export type WatchSubscription = Readonly<{
 	abort(): void;
 }>;
@@ -232,6 +403,10 @@ export type ConnectWalletParameters = Readonly<{
 	options?: Readonly<{ autoConnect?: boolean; allowInteractiveFallback?: boolean }>;
 }>;
 
+export type ClearAccountsParameters = undefined;
+
+export type ClearAccountsReturnType = undefined;
+
 export type ConnectWalletReturnType = Promise<void>;
 
 export type DisconnectWalletParameters = undefined;
@@ -245,6 +420,13 @@ export type FetchAccountParameters = Readonly<{
 
 export type FetchAccountReturnType = Promise<AccountCacheEntry>;
 
+export type FetchAccountsParameters = Readonly<{
+	addresses: readonly Address[];
+	commitment?: Commitment;
+}>;
+
+export type FetchAccountsReturnType = Promise<readonly AccountCacheEntry[]>;
+
 export type FetchBalanceParameters = Readonly<{
 	address: Address;
 	commitment?: Commitment;
@@ -252,6 +434,12 @@ export type FetchBalanceParameters = Readonly<{
 
 export type FetchBalanceReturnType = Promise<Lamports>;
 
+export type GetAccountParameters = Readonly<{
+	address: Address;
+}>;
+
+export type GetAccountReturnType = AccountCacheEntry | undefined;
+
 export type FetchLookupTableParameters = Readonly<{
 	address: Address;
 	commitment?: Commitment;
@@ -273,6 +461,12 @@ export type FetchNonceAccountParameters = Readonly<{
 
 export type FetchNonceAccountReturnType = Promise<NonceAccountData>;
 
+export type InvalidateAccountParameters = Readonly<{
+	address: Address;
+}>;
+
+export type InvalidateAccountReturnType = undefined;
+
 export type RequestAirdropParameters = Readonly<{
 	address: Address;
 	lamports: Lamports;
@@ -280,21 +474,67 @@ export type RequestAirdropParameters = Readonly<{
 
 export type RequestAirdropReturnType = Promise<Signature>;
 
+export type SelectAccountParameters = Readonly<{
+	address: Address;
+}>;
+
+export type SelectAccountReturnType = WalletAccount;
+
+/**
+ * Resends the same signed transaction while it waits for confirmation, in case the first submission is dropped.
+ * Resends skip preflight and stop once the transaction confirms or its lifetime expires.
+ */
+export type TransactionRebroadcastConfig = Readonly<{
+	/** Milliseconds between submissions. Defaults to 2000. */
+	intervalMs?: number;
+	/** Maximum number of submissions, including the first. Defaults to 10. */
+	maxAttempts?: number;
+}>;
+
 export type SendTransactionParameters = Readonly<{
 	commitment?: Commitment;
-	transaction: SendableTransaction & Transaction & TransactionWithLastValidBlockHeight;
+	config?: Readonly<{
+		/** Rebroadcast settings, or `true` for the defaults. Off by default, so the transaction is submitted once. */
+		rebroadcast?: TransactionRebroadcastConfig | boolean;
+	}>;
+	transaction: SendableTransaction &
+		Transaction &
+		(TransactionWithDurableNonceLifetime | TransactionWithLastValidBlockHeight);
 }>;
 
 export type SendTransactionReturnType = Promise<Signature>;
 
+export type TrackTransactionParameters = Readonly<{
+	config?: Readonly<{
+		commitment?: Commitment;
+		/** Marks the transaction as failed once the nonce it depends on advances. */
+		durableNonce?: TransactionDurableNonce;
+		/** Marks the transaction as failed once the chain passes this block height. */
+		lastValidBlockHeight?: bigint;
+	}>;
+	signature: Signature;
+}>;
+
+export type TrackTransactionReturnType = Promise<Signature>;
+
 export type SetClusterParameters = Readonly<{
-	config?: Readonly<{ commitment?: Commitment; websocketEndpoint?: ClusterUrl }>;
+	config?: Readonly<{
+		commitment?: Commitment;
+		/** Cluster the endpoint is expected to serve, checked against its genesis hash. */
+		expectedCluster?: ClusterMoniker;
+		fallbackEndpoints?: readonly RpcEndpointConfig[];
+		routing?: RpcEndpointRouting;
+		/** Defaults to `warn`. */
+		verifyCluster?: ClusterVerification;
+		websocketEndpoint?: ClusterUrl;
+	}>;
 	endpoint: ClusterUrl;
 }>;
 
 export type SetClusterReturnType = Promise<void>;
 
 export type ClientActions = Readonly<{
+	clearAccounts(): ClearAccountsReturnType;
 	connectWallet(
 		connectorId: ConnectWalletParameters['connectorId'],
 		options?: ConnectWalletParameters['options'],
@@ -304,6 +544,10 @@ export type ClientActions = Readonly<{
 		address: FetchAccountParameters['address'],
 		commitment?: FetchAccountParameters['commitment'],
 	): FetchAccountReturnType;
+	fetchAccounts(
+		addresses: FetchAccountsParameters['addresses'],
+		commitment?: FetchAccountsParameters['commitment'],
+	): FetchAccountsReturnType;
 	fetchBalance(
 		address: FetchBalanceParameters['address'],
 		commitment?: FetchBalanceParameters['commitment'],
@@ -320,24 +564,39 @@ export type ClientActions = Readonly<{
 		address: FetchNonceAccountParameters['address'],
 		commitment?: FetchNonceAccountParameters['commitment'],
 	): FetchNonceAccountReturnType;
+	getAccount(address: GetAccountParameters['address']): GetAccountReturnType;
+	invalidateAccount(address: InvalidateAccountParameters['address']): InvalidateAccountReturnType;
 	requestAirdrop(
 		address: RequestAirdropParameters['address'],
 		lamports: RequestAirdropParameters['lamports'],
 	): RequestAirdropReturnType;
+	selectAccount(address: SelectAccountParameters['address']): SelectAccountReturnType;
 	sendTransaction(
 		transaction: SendTransactionParameters['transaction'],
 		commitment?: SendTransactionParameters['commitment'],
+		config?: SendTransactionParameters['config'],
 	): SendTransactionReturnType;
 	setCluster(
 		endpoint: SetClusterParameters['endpoint'],
 		config?: SetClusterParameters['config'],
 	): SetClusterReturnType;
+	trackTransaction(
+		signature: TrackTransactionParameters['signature'],
+		config?: TrackTransactionParameters['config'],
+	): TrackTransactionReturnType;
 }>;
 
 export type ClientWatchers = Readonly<{
 	watchAccount(config: AccountWatcherConfig, listener: (account: AccountCacheEntry) => void): WatchSubscription;
 	watchBalance(config: BalanceWatcherConfig, listener: (lamports: Lamports) => void): WatchSubscription;
+	watchLogs(config: LogsWatcherConfig, listener: (notification: LogsNotification) => void): WatchSubscription;
+	watchProgramAccounts(
+		config: ProgramAccountsWatcherConfig,
+		listener: (notification: ProgramAccountNotification) => void,
+	): WatchSubscription;
+	watchRoot(listener: (root: bigint) => void): WatchSubscription;
 	watchSignature(config: SignatureWatcherConfig, listener: (notification: unknown) => void): WatchSubscription;
+	watchSlot(listener: (notification: SlotNotification) => void): WatchSubscription;
 }>;
 
 export type ClientHelpers = Readonly<{
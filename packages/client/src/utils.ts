@@ -44,3 +44,28 @@ export function toErrorMessage(error: unknown): string {
 		return String(error);
 	}
 }
+
+/**
+ * Resolves after the provided delay, rejecting early with the abort reason when the signal fires.
+ *
+ * @param ms - Milliseconds to wait.
+ * @param signal - Optional abort signal that cancels the wait.
+ * @returns Promise that settles once the delay elapses or the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { resolveCluster } from './cluster';
+import { getClusterChain, getClusterIdentity, getExpectedClusterIdentity, resolveCluster } from './cluster';
 
 describe('resolveCluster', () => {
 	it('defaults to devnet when no endpoint is provided', () => {
@@ -23,3 +23,35 @@ describe('resolveCluster', () => {
 		expect(resolved.websocketEndpoint).toBe('wss://api.mainnet-beta.solana.com');
 	});
 });
+
+describe('cluster identity', () => {
+	it('maps genesis hashes of public clusters and treats others as unknown', () => {
+		expect(getClusterIdentity('5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d')).toBe('mainnet-beta');
+		expect(getClusterIdentity('EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG')).toBe('devnet');
+		expect(getClusterIdentity('4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY')).toBe('testnet');
+		expect(getClusterIdentity('LocalGenesis1111111111111111111111111111111')).toBe('unknown');
+	});
+
+	it('only expects an identity for public monikers', () => {
+		expect(getExpectedClusterIdentity('mainnet')).toBe('mainnet-beta');
+		expect(getExpectedClusterIdentity('devnet')).toBe('devnet');
+		expect(getExpectedClusterIdentity('localnet')).toBeUndefined();
+		expect(getExpectedClusterIdentity('custom')).toBeUndefined();
+	});
+});
+
+describe('getClusterChain', () => {
+	it('prefers the verified identity over the endpoint host', () => {
+		expect(getClusterChain({ endpoint: 'https://rpc.example.com', identity: 'devnet' })).toBe('solana:devnet');
+		expect(getClusterChain({ endpoint: 'https://devnet.example.com', identity: 'mainnet-beta' })).toBe(
+			'solana:mainnet',
+		);
+	});
+
+	it('falls back to the endpoint host until the identity is known', () => {
+		expect(getClusterChain({ endpoint: 'https://api.testnet.solana.com' })).toBe('solana:testnet');
+		expect(getClusterChain({ endpoint: 'http://127.0.0.1:8899', identity: 'unknown' })).toBe('solana:localnet');
+		expect(getClusterChain({ endpoint: 'https://devnet.private.rpc', identity: 'unknown' })).toBeUndefined();
+		expect(getClusterChain({ endpoint: 'https://rpc.example.com' })).toBeUndefined();
+	});
+});
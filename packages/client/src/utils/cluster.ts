@@ -2,6 +2,9 @@ import type { ClusterUrl } from '@solana/kit';
 
 export type ClusterMoniker = 'mainnet' | 'mainnet-beta' | 'testnet' | 'devnet' | 'localnet' | 'localhost';
 
+/** Public cluster an endpoint belongs to, derived from its genesis hash. Local and private validators are `unknown`. */
+export type ClusterIdentity = 'devnet' | 'mainnet-beta' | 'testnet' | 'unknown';
+
 type ResolvedCluster = Readonly<{
 	endpoint: ClusterUrl;
 	moniker: ClusterMoniker | 'custom';
@@ -76,3 +79,76 @@ export function resolveCluster(
 		websocketEndpoint,
 	};
 }
+
+const GENESIS_HASH_IDENTITIES: Readonly<Record<string, ClusterIdentity>> = {
+	'4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY': 'testnet',
+	'5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d': 'mainnet-beta',
+	EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG: 'devnet',
+};
+
+/**
+ * Maps a genesis hash to the public cluster it belongs to; any other network reports `unknown`.
+ */
+export function getClusterIdentity(genesisHash: string): ClusterIdentity {
+	return GENESIS_HASH_IDENTITIES[genesisHash] ?? 'unknown';
+}
+
+/**
+ * Local validators generate a fresh genesis hash, so only public monikers can be verified.
+ */
+export function getExpectedClusterIdentity(moniker?: ClusterMoniker | 'custom'): ClusterIdentity | undefined {
+	switch (moniker) {
+		case 'devnet':
+		case 'testnet':
+			return moniker;
+		case 'mainnet':
+		case 'mainnet-beta':
+			return 'mainnet-beta';
+		default:
+			return undefined;
+	}
+}
+
+/** Wallet Standard chain identifiers for the Solana clusters. */
+export type SolanaChain = 'solana:devnet' | 'solana:localnet' | 'solana:mainnet' | 'solana:testnet';
+
+const IDENTITY_CHAINS: Readonly<Record<Exclude<ClusterIdentity, 'unknown'>, SolanaChain>> = {
+	devnet: 'solana:devnet',
+	'mainnet-beta': 'solana:mainnet',
+	testnet: 'solana:testnet',
+};
+
+const LOCAL_HOSTNAMES = new Set(['0.0.0.0', '127.0.0.1', '[::1]', 'localhost']);
+
+/**
+ * Derives the Wallet Standard chain for a cluster. The genesis hash identity wins once known; until then, or for
+ * private validators, the endpoint host is used as a hint.
+ *
+ * @param cluster - Endpoint and, when verified, identity of the active cluster.
+ * @returns Chain identifier such as `solana:devnet`, or `undefined` when the cluster cannot be told apart.
+ */
+export function getClusterChain(
+	cluster: Readonly<{ endpoint: string; identity?: ClusterIdentity }>,
+): SolanaChain | undefined {
+	if (cluster.identity && cluster.identity !== 'unknown') {
+		return IDENTITY_CHAINS[cluster.identity];
+	}
+	let hostname: string;
+	try {
+		hostname = new URL(cluster.endpoint).hostname;
+	} catch {
+		return undefined;
+	}
+	if (LOCAL_HOSTNAMES.has(hostname)) {
+		return 'solana:localnet';
+	}
+	if (cluster.identity === 'unknown') {
+		return undefined;
+	}
+	for (const moniker of ['devnet', 'testnet', 'mainnet'] as const) {
+		if (hostname.includes(moniker)) {
+			return `solana:${moniker}`;
+		}
+	}
+	return undefined;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { WalletSession } from '../types';
+import {
+	assertWalletFeature,
+	getTransactionMessageVersion,
+	getWalletCapabilities,
+	supportsWalletFeature,
+	WalletFeatureUnsupportedError,
+} from './capabilities';
+
+function createSession(overrides: Partial<WalletSession> = {}): WalletSession {
+	const account = { address: 'wallet' as WalletSession['account']['address'], publicKey: new Uint8Array(32) };
+	return {
+		account,
+		accounts: [account],
+		connector: { id: 'test-wallet', name: 'Test Wallet' },
+		disconnect: vi.fn(async () => undefined),
+		...overrides,
+	};
+}
+
+describe('wallet capabilities', () => {
+	it('derives capabilities from session methods when the connector does not describe them', () => {
+		const session = createSession({ signMessage: vi.fn(), signTransaction: vi.fn() });
+
+		expect(getWalletCapabilities(session)).toEqual({
+			chains: [],
+			signAndSendTransaction: false,
+			signIn: false,
+			signMessage: true,
+			signTransaction: true,
+			transactionVersions: ['legacy', 0],
+		});
+		expect(getWalletCapabilities(createSession()).transactionVersions).toEqual([]);
+	});
+
+	it('prefers the descriptor provided by the connector', () => {
+		const session = createSession({
+			capabilities: {
+				chains: ['solana:devnet'],
+				signAndSendTransaction: true,
+				signIn: false,
+				signMessage: false,
+				signTransaction: true,
+				transactionVersions: ['legacy'],
+			},
+			signMessage: vi.fn(),
+		});
+
+		expect(supportsWalletFeature(session, 'signMessage')).toBe(false);
+		expect(supportsWalletFeature(session, 'signAndSendTransaction')).toBe(true);
+		expect(supportsWalletFeature(session, 'versionedTransactions')).toBe(false);
+	});
+
+	it('throws a typed error for unsupported features', () => {
+		const session = createSession();
+		expect(() => assertWalletFeature(session, 'signTransaction')).toThrow(WalletFeatureUnsupportedError);
+		try {
+			assertWalletFeature(session, 'signIn');
+		} catch (error) {
+			expect(error).toMatchObject({
+				connectorId: 'test-wallet',
+				feature: 'signIn',
+				message: 'Wallet "test-wallet" does not support Sign-In With Solana.',
+				name: 'WalletFeatureUnsupportedError',
+			});
+		}
+	});
+
+	it('reads the transaction version from the message header', () => {
+		expect(getTransactionMessageVersion(new Uint8Array([1, 0, 1]))).toBe('legacy');
+		expect(getTransactionMessageVersion(new Uint8Array([0x80, 1, 0]))).toBe(0);
+	});
+});
@@ -0,0 +1,105 @@
+import type { ReadonlyUint8Array } from '@solana/kit';
+
+import type { WalletSession } from '../types';
+
+export type WalletFeature =
+	| 'signAndSendTransaction'
+	| 'signIn'
+	| 'signMessage'
+	| 'signTransaction'
+	| 'versionedTransactions';
+
+export type WalletTransactionVersion = 'legacy' | 0;
+
+/** What a connected wallet can do, so UIs can hide or disable actions up front. */
+export type WalletCapabilities = Readonly<{
+	/** Chains the wallet reports, such as `solana:devnet`. Empty when the wallet does not say. */
+	chains: readonly string[];
+	signAndSendTransaction: boolean;
+	signIn: boolean;
+	signMessage: boolean;
+	signTransaction: boolean;
+	/** Transaction versions the wallet can sign. Empty when it cannot sign transactions at all. */
+	transactionVersions: readonly WalletTransactionVersion[];
+}>;
+
+const FEATURE_DESCRIPTIONS: Record<WalletFeature, string> = {
+	signAndSendTransaction: 'sending transactions',
+	signIn: 'Sign-In With Solana',
+	signMessage: 'signing messages',
+	signTransaction: 'signing transactions',
+	versionedTransactions: 'versioned transactions',
+};
+
+/** Thrown when an operation needs a wallet feature that the connected wallet does not offer. */
+export class WalletFeatureUnsupportedError extends Error {
+	readonly connectorId: string;
+	readonly feature: WalletFeature;
+
+	constructor(feature: WalletFeature, connectorId: string, message?: string) {
+		super(message ?? `Wallet "${connectorId}" does not support ${FEATURE_DESCRIPTIONS[feature]}.`);
+		this.name = 'WalletFeatureUnsupportedError';
+		this.connectorId = connectorId;
+		this.feature = feature;
+	}
+}
+
+/**
+ * Returns the capabilities of a session, deriving them from its methods when the connector did not describe them.
+ *
+ * @param session - Connected wallet session.
+ * @returns Capability descriptor for the session.
+ */
+export function getWalletCapabilities(session: WalletSession): WalletCapabilities {
+	if (session.capabilities) {
+		return session.capabilities;
+	}
+	const canSign = Boolean(session.signTransaction || session.sendTransaction);
+	return {
+		chains: [],
+		signAndSendTransaction: Boolean(session.sendTransaction),
+		signIn: Boolean(session.signIn),
+		signMessage: Boolean(session.signMessage),
+		signTransaction: Boolean(session.signTransaction),
+		transactionVersions: canSign ? ['legacy', 0] : [],
+	};
+}
+
+/**
+ * Checks whether a session supports a feature.
+ *
+ * @param session - Connected wallet session.
+ * @param feature - Feature to look up.
+ * @returns `true` when the wallet offers the feature.
+ */
+export function supportsWalletFeature(session: WalletSession, feature: WalletFeature): boolean {
+	const capabilities = getWalletCapabilities(session);
+	if (feature === 'versionedTransactions') {
+		return capabilities.transactionVersions.includes(0);
+	}
+	return capabilities[feature];
+}
+
+/**
+ * Throws a {@link WalletFeatureUnsupportedError} unless the session supports a feature.
+ *
+ * @param session - Connected wallet session.
+ * @param feature - Feature the caller needs.
+ */
+export function assertWalletFeature(session: WalletSession, feature: WalletFeature): void {
+	if (!supportsWalletFeature(session, feature)) {
+		throw new WalletFeatureUnsupportedError(feature, session.connector.id);
+	}
+}
+
+/**
+ * Reads the version of a compiled transaction from its message header.
+ *
+ * @param messageBytes - Compiled transaction message.
+ * @returns `legacy` or the numeric version.
+ */
+export function getTransactionMessageVersion(messageBytes: ReadonlyUint8Array): WalletTransactionVersion | number {
+	const [prefix = 0] = messageBytes;
+	// Versioned messages set the high bit of the first byte; legacy messages start with the signer count.
+	return prefix & 0x80 ? prefix & 0x7f : 'legacy';
+}
@@ -3,7 +3,18 @@ import type { Wallet } from '@wallet-standard/base';
 import { StandardConnect } from '@wallet-standard/features';
 import { describe, expect, it, vi } from 'vitest';
 
-import { autoDiscover, backpack, injected, phantom, solflare } from './connectors';
+import {
+	autoDiscover,
+	backpack,
+	injected,
+	keypairConnector,
+	mobileWalletAdapter,
+	phantom,
+	solflare,
+	watchOnlyConnector,
+} from './connectors';
+import * as local from './local';
+import * as mobile from './mobile';
 
 vi.mock('@wallet-standard/app', () => {
 	let wallets: Wallet[] = [];
@@ -82,4 +93,10 @@ describe('wallet connectors factories', () => {
 		expect(backpack()).toHaveLength(1);
 		expect(backpack()[0].id).toBe('wallet-standard:backpack');
 	});
+
+	it('re-exports the mobile and local connectors from the connectors entry point', () => {
+		expect(mobileWalletAdapter).toBe(mobile.mobileWalletAdapter);
+		expect(keypairConnector).toBe(local.keypairConnector);
+		expect(watchOnlyConnector).toBe(local.watchOnlyConnector);
+	});
 });
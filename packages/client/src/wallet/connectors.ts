@@ -4,6 +4,20 @@ import { StandardConnect } from '@wallet-standard/features';
 import type { WalletConnector } from '../types';
 import { createWalletStandardConnector } from './standard';
 
+export {
+	type KeypairApprovalRequest,
+	type KeypairConnectorOptions,
+	keypairConnector,
+	type WatchOnlyConnectorOptions,
+	watchOnlyConnector,
+} from './local';
+export {
+	isMobileWalletAdapterSupported,
+	type MobileWalletAdapterIdentity,
+	type MobileWalletAdapterOptions,
+	mobileWalletAdapter,
+} from './mobile';
+
 type DiscoveryOptions = Readonly<{
 	overrides?: (wallet: Wallet) => Parameters<typeof createWalletStandardConnector>[1];
 	filter?: (wallet: Wallet) => boolean;
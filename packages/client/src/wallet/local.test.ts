@@ -0,0 +1,115 @@
+import {
+	type Address,
+	type Blockhash,
+	compileTransaction,
+	createTransactionMessage,
+	generateKeyPairSigner,
+	getPublicKeyFromAddress,
+	type KeyPairSigner,
+	pipe,
+	setTransactionMessageFeePayer,
+	setTransactionMessageLifetimeUsingBlockhash,
+	verifySignature,
+} from '@solana/kit';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { verifySignIn } from '../server/siws';
+import { createWalletTransactionSigner } from '../signers/walletTransactionSigner';
+import { keypairConnector, watchOnlyConnector } from './local';
+import type { SignInOutput } from './siws';
+
+const WATCHED = 'So11111111111111111111111111111111111111112' as Address;
+
+describe('local connectors', () => {
+	let signer: KeyPairSigner;
+
+	beforeAll(async () => {
+		signer = await generateKeyPairSigner();
+	});
+
+	function createTransaction() {
+		return compileTransaction(
+			pipe(
+				createTransactionMessage({ version: 0 }),
+				(message) => setTransactionMessageFeePayer(signer.address, message),
+				(message) =>
+					setTransactionMessageLifetimeUsingBlockhash(
+						{ blockhash: WATCHED as string as Blockhash, lastValidBlockHeight: 1n },
+						message,
+					),
+			),
+		);
+	}
+
+	it('keypairConnector signs messages, transactions, and sign-ins with the key pair', async () => {
+		const session = await keypairConnector(signer, { label: 'Test' }).connect();
+		const publicKey = await getPublicKeyFromAddress(signer.address);
+
+		expect(session.account).toMatchObject({ address: signer.address, label: 'Test' });
+		expect(session.account.publicKey).toHaveLength(32);
+
+		const message = new Uint8Array([1, 2, 3]);
+		const signature = await session.signMessage?.(message);
+		await expect(verifySignature(publicKey, signature as never, message)).resolves.toBe(true);
+
+		const signed = await session.signTransaction?.(createTransaction() as never);
+		const transactionSignature = signed?.signatures[signer.address];
+		expect(transactionSignature).toBeInstanceOf(Uint8Array);
+		await expect(
+			verifySignature(publicKey, transactionSignature as never, signed?.messageBytes as never),
+		).resolves.toBe(true);
+		expect(createWalletTransactionSigner(session).mode).toBe('partial');
+
+		const output = await session.signIn?.({ domain: 'example.com', nonce: 'n' });
+		await expect(
+			verifySignIn(
+				{ ...(output as SignInOutput), address: signer.address },
+				{ domain: 'example.com', nonce: 'n' },
+			),
+		).resolves.toMatchObject({ valid: true });
+	});
+
+	it('keypairConnector applies the approval policy', async () => {
+		await expect(keypairConnector(signer, { approve: false }).connect()).rejects.toThrow('User rejected');
+
+		const approve = vi.fn(({ kind }: { kind: string }) => kind !== 'signTransaction');
+		const session = await keypairConnector(signer, { approve }).connect();
+		await expect(session.signMessage?.(new Uint8Array([1]))).resolves.toBeInstanceOf(Uint8Array);
+		await expect(session.signTransaction?.(createTransaction() as never)).rejects.toThrow('User rejected');
+		expect(approve.mock.calls.map(([request]) => request.kind)).toEqual([
+			'connect',
+			'signMessage',
+			'signTransaction',
+		]);
+	});
+
+	it('keypairConnector only signs for its configured chains', async () => {
+		const approve = vi.fn(() => true);
+		const session = await keypairConnector(signer, { approve, chains: ['solana:devnet'] }).connect();
+
+		expect(session.capabilities?.chains).toEqual(['solana:devnet']);
+		await expect(
+			session.signTransaction?.(createTransaction() as never, { chain: 'solana:mainnet' }),
+		).rejects.toThrow('does not sign for chain "solana:mainnet"');
+		await expect(
+			session.signTransaction?.(createTransaction() as never, { chain: 'solana:devnet' }),
+		).resolves.toBeDefined();
+		expect(approve).toHaveBeenLastCalledWith(
+			expect.objectContaining({ chain: 'solana:devnet', kind: 'signTransaction' }),
+		);
+	});
+
+	it('watchOnlyConnector yields a session without signing capabilities', async () => {
+		const connector = watchOnlyConnector(WATCHED);
+		const session = await connector.connect();
+
+		expect(connector).toMatchObject({ id: `watch-only:${WATCHED}`, kind: 'watch-only', ready: true });
+		expect(session.account.address).toBe(WATCHED);
+		expect(session.accounts).toEqual([session.account]);
+		expect(session.signMessage).toBeUndefined();
+		expect(session.signTransaction).toBeUndefined();
+		expect(session.sendTransaction).toBeUndefined();
+		expect(() => createWalletTransactionSigner(session)).toThrow('does not support signing');
+		expect(() => watchOnlyConnector('not-an-address')).toThrow();
+	});
+});
@@ -0,0 +1,219 @@
+import {
+	type Address,
+	createSignableMessage,
+	getAddressEncoder,
+	type KeyPairSigner,
+	address as parseAddress,
+	type SendableTransaction,
+	type Transaction,
+} from '@solana/kit';
+
+import type { WalletAccount, WalletConnector, WalletConnectorMetadata, WalletSession } from '../types';
+import { createSignInMessageText, resolveSignInMessage, type SignInInput, type SignInOutput } from './siws';
+
+export type KeypairApprovalRequest = Readonly<
+	| { kind: 'connect' }
+	| { kind: 'signIn'; message: string }
+	| { kind: 'signMessage'; message: Uint8Array }
+	| { chain?: string; kind: 'signTransaction'; transaction: SendableTransaction & Transaction }
+>;
+
+export type KeypairConnectorOptions = Readonly<{
+	/**
+	 * Decides whether a request is approved, standing in for the wallet's confirmation prompt.
+	 * Pass `false` to reject everything. Defaults to approving every request.
+	 */
+	approve?: boolean | ((request: KeypairApprovalRequest) => boolean | Promise<boolean>);
+	/**
+	 * Chains the key pair signs for, such as `['solana:devnet']`. Transactions for other chains are rejected.
+	 * Defaults to every chain.
+	 */
+	chains?: readonly string[];
+	icon?: string;
+	id?: string;
+	label?: string;
+	name?: string;
+}>;
+
+export type WatchOnlyConnectorOptions = Readonly<{
+	icon?: string;
+	id?: string;
+	label?: string;
+	name?: string;
+}>;
+
+const addressEncoder = getAddressEncoder();
+const textEncoder = new TextEncoder();
+
+/**
+ * Builds the session account for an address.
+ *
+ * @param accountAddress - Account address.
+ * @param label - Optional display label.
+ * @returns Wallet account compatible with the client helpers.
+ */
+function toSessionAccount(accountAddress: Address, label?: string): WalletAccount {
+	return { address: accountAddress, label, publicKey: new Uint8Array(addressEncoder.encode(accountAddress)) };
+}
+
+/**
+ * Creates a connector backed by an in-memory {@link KeyPairSigner}, for end-to-end tests, Storybook, and local
+ * scripts that need a connected session without a browser extension.
+ *
+ * @param signer - Key pair that signs on behalf of the session, such as `generateKeypair().signer`.
+ * @param options - Approval behaviour and connector metadata overrides.
+ * @returns A {@link WalletConnector} that signs locally.
+ */
+export function keypairConnector(signer: KeyPairSigner, options: KeypairConnectorOptions = {}): WalletConnector {
+	const account = toSessionAccount(signer.address, options.label);
+	const metadata: WalletConnectorMetadata = {
+		canAutoConnect: true,
+		icon: options.icon,
+		id: options.id ?? 'keypair',
+		kind: 'keypair',
+		name: options.name ?? 'Keypair Wallet',
+		ready: true,
+	};
+
+	/**
+	 * Asks the configured approval policy about a request and throws when it is rejected.
+	 *
+	 * @param request - Request awaiting approval.
+	 */
+	async function requireApproval(request: KeypairApprovalRequest): Promise<void> {
+		const { approve = true } = options;
+		const approved = typeof approve === 'function' ? await approve(request) : approve;
+		if (!approved) {
+			throw new Error('User rejected the request.');
+		}
+	}
+
+	/**
+	 * Signs a message with the key pair.
+	 *
+	 * @param message - Message bytes to sign.
+	 * @returns Promise resolving with the signature.
+	 */
+	async function signMessage(message: Uint8Array): Promise<Uint8Array> {
+		await requireApproval({ kind: 'signMessage', message });
+		const [signatures] = await signer.signMessages([createSignableMessage(message)]);
+		return signatures[signer.address];
+	}
+
+	/**
+	 * Adds the key pair's signature to a transaction.
+	 *
+	 * @param transaction - Transaction to sign.
+	 * @param config - Chain the transaction targets, filled in by the client.
+	 * @returns Promise resolving with the signed transaction.
+	 */
+	async function signTransaction(
+		transaction: SendableTransaction & Transaction,
+		config?: Readonly<{ chain?: string }>,
+	): Promise<SendableTransaction & Transaction> {
+		const chain = config?.chain;
+		if (chain !== undefined && options.chains?.length && !options.chains.includes(chain)) {
+			throw new Error(`Wallet does not sign for chain "${chain}".`);
+		}
+		await requireApproval({ chain, kind: 'signTransaction', transaction });
+		const [signatures] = await signer.signTransactions([
+			transaction as unknown as Parameters<typeof signer.signTransactions>[0][number],
+		]);
+		return { ...transaction, signatures: { ...transaction.signatures, ...signatures } };
+	}
+
+	/**
+	 * Signs a Sign-In With Solana message with the key pair.
+	 *
+	 * @param input - Sign-in request fields.
+	 * @returns Promise resolving with the signed message and signature.
+	 */
+	async function signIn(input: SignInInput = {}): Promise<SignInOutput> {
+		if (input.address !== undefined && input.address !== signer.address) {
+			throw new Error(`Wallet has not authorized account "${input.address}".`);
+		}
+		const text = createSignInMessageText(resolveSignInMessage(input, signer.address));
+		await requireApproval({ kind: 'signIn', message: text });
+		const signedMessage = textEncoder.encode(text);
+		const [signatures] = await signer.signMessages([createSignableMessage(signedMessage)]);
+		return { account, signature: signatures[signer.address], signedMessage };
+	}
+
+	/**
+	 * Connects once the approval policy accepts the connection.
+	 *
+	 * @returns A wallet session that signs with the key pair.
+	 */
+	async function connect(): Promise<WalletSession> {
+		await requireApproval({ kind: 'connect' });
+		return {
+			account,
+			accounts: [account],
+			capabilities: {
+				chains: options.chains ?? [],
+				signAndSendTransaction: false,
+				signIn: true,
+				signMessage: true,
+				signTransaction: true,
+				transactionVersions: ['legacy', 0],
+			},
+			connector: metadata,
+			async disconnect() {},
+			signIn,
+			signMessage,
+			signTransaction,
+		};
+	}
+
+	return {
+		...metadata,
+		connect,
+		async disconnect() {},
+		isSupported: () => true,
+	};
+}
+
+/**
+ * Creates a connector that yields a read-only session for any address. The session has no signing methods, so
+ * UIs can render balances and history for an account without a wallet.
+ *
+ * @param accountAddress - Address to watch.
+ * @param options - Connector metadata overrides.
+ * @returns A {@link WalletConnector} without signing capabilities.
+ */
+export function watchOnlyConnector(
+	accountAddress: Address | string,
+	options: WatchOnlyConnectorOptions = {},
+): WalletConnector {
+	const account = toSessionAccount(parseAddress(accountAddress), options.label);
+	const metadata: WalletConnectorMetadata = {
+		canAutoConnect: true,
+		icon: options.icon,
+		id: options.id ?? `watch-only:${account.address}`,
+		kind: 'watch-only',
+		name: options.name ?? 'Watch-only Wallet',
+		ready: true,
+	};
+
+	return {
+		...metadata,
+		async connect() {
+			return {
+				account,
+				accounts: [account],
+				capabilities: {
+					chains: [],
+					signAndSendTransaction: false,
+					signIn: false,
+					signMessage: false,
+					signTransaction: false,
+					transactionVersions: [],
+				},
+				connector: metadata,
+				async disconnect() {},
+			};
+		},
+		async disconnect() {},
+		isSupported: () => true,
+	};
+}
@@ -0,0 +1,336 @@
+import { getBase58Decoder } from '@solana/codecs-strings';
+import {
+	type Address,
+	type Blockhash,
+	compileTransaction,
+	createTransactionMessage,
+	getAddressDecoder,
+	getBase64Decoder,
+	getBase64Encoder,
+	pipe,
+	type SignatureBytes,
+	setTransactionMessageFeePayer,
+	setTransactionMessageLifetimeUsingBlockhash,
+} from '@solana/kit';
+import { getTransactionDecoder, getTransactionEncoder } from '@solana/transactions';
+import { describe, expect, it, vi } from 'vitest';
+
+import { createActions } from '../client/actions';
+import { createDefaultClientStore } from '../client/createClientStore';
+import type { SolanaClientRuntime } from '../types';
+import { mobileWalletAdapter } from './mobile';
+import { associateLocal, decryptMessage, deriveSessionKey, encryptMessage } from './mobileAssociation';
+
+type Handler = (params: Record<string, unknown>) => unknown;
+
+vi.mock('../rpc/createSolanaRpcClient', () => ({
+	createSolanaRpcClient: ({ endpoint }: { endpoint: string }) => {
+		const unavailable = () => ({ send: () => Promise.reject(new Error('offline')) });
+		return {
+			endpoint,
+			rpc: { getGenesisHash: unavailable, getLatestBlockhash: unavailable },
+			rpcSubscriptions: {},
+		};
+	},
+}));
+
+const base64Decoder = getBase64Decoder();
+const base64Encoder = getBase64Encoder();
+const ACCOUNT_KEYS = [new Uint8Array(32).fill(1), new Uint8Array(32).fill(2)];
+const ACCOUNT_ADDRESSES = ACCOUNT_KEYS.map((key) => getAddressDecoder().decode(key));
+
+class FakeSocket extends EventTarget {
+	binaryType: BinaryType = 'blob';
+
+	constructor(private readonly onSend: (frame: Uint8Array) => void) {
+		super();
+	}
+
+	close() {
+		this.dispatchEvent(new Event('close'));
+	}
+
+	deliver(frame: Uint8Array) {
+		this.dispatchEvent(new MessageEvent('message', { data: frame.slice().buffer }));
+	}
+
+	send(frame: Uint8Array) {
+		this.onSend(frame);
+	}
+}
+
+/**
+ * Fake wallet app that answers a local association the way an Android wallet would: it verifies the hello
+ * request against the association key from the intent URL, then serves encrypted JSON-RPC.
+ */
+function createFakeWallet(handlers: Record<string, Handler>, { failedAttempts = 0 } = {}) {
+	const requests: { method: string; params: Record<string, unknown> }[] = [];
+	let associationUrl: URL | undefined;
+	let attempts = 0;
+
+	function createSocket(url: string, protocol: string) {
+		expect(url).toBe(`ws://localhost:${associationUrl?.searchParams.get('port')}/solana-wallet`);
+		expect(protocol).toBe('com.solana.mobilewalletadapter.v1');
+		attempts += 1;
+		let sessionKey: CryptoKey | undefined;
+		let inbound = 0;
+		let outbound = 0;
+		let work = Promise.resolve();
+		const socket = new FakeSocket((frame) => {
+			work = work.then(async () => {
+				const token = associationUrl?.searchParams.get('association') ?? '';
+				const associationPublicKey = new Uint8Array(
+					base64Encoder.encode(token.replace(/-/g, '+').replace(/_/g, '/').padEnd(88, '=')),
+				);
+				if (!sessionKey) {
+					const verifyKey = await crypto.subtle.importKey(
+						'raw',
+						associationPublicKey,
+						{ name: 'ECDSA', namedCurve: 'P-256' },
+						false,
+						['verify'],
+					);
+					const dappPublicKey = frame.slice(0, 65);
+					const verified = await crypto.subtle.verify(
+						{ hash: 'SHA-256', name: 'ECDSA' },
+						verifyKey,
+						frame.slice(65),
+						dappPublicKey,
+					);
+					expect(verified).toBe(true);
+					const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, [
+						'deriveBits',
+					]);
+					sessionKey = await deriveSessionKey(keyPair.privateKey, dappPublicKey, associationPublicKey);
+					socket.deliver(new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey)));
+					return;
+				}
+				const { payload, sequenceNumber } = await decryptMessage(sessionKey, frame);
+				expect(sequenceNumber).toBe(++inbound);
+				const { id, method, params } = payload as {
+					id: number;
+					method: string;
+					params: Record<string, unknown>;
+				};
+				requests.push({ method, params });
+				let response: Record<string, unknown>;
+				try {
+					response = { id, jsonrpc: '2.0', result: handlers[method](params) };
+				} catch (error) {
+					response = { error: { code: -1, message: (error as Error).message }, id, jsonrpc: '2.0' };
+				}
+				socket.deliver(await encryptMessage(sessionKey, ++outbound, response));
+			});
+		});
+		setTimeout(() => socket.dispatchEvent(new Event(attempts > failedAttempts ? 'open' : 'error')), 0);
+		return socket as unknown as WebSocket;
+	}
+
+	return {
+		associate: () =>
+			associateLocal({
+				createSocket,
+				openUrl(url) {
+					associationUrl = new URL(url);
+				},
+			}),
+		get associationUrl() {
+			return associationUrl;
+		},
+		requests,
+	};
+}
+
+function createStorage(initial: Record<string, string> = {}) {
+	const values = new Map(Object.entries(initial));
+	return {
+		getItem: (key: string) => values.get(key) ?? null,
+		removeItem: (key: string) => void values.delete(key),
+		setItem: (key: string, value: string) => void values.set(key, value),
+		values,
+	};
+}
+
+const authorizeResult = {
+	accounts: ACCOUNT_KEYS.map((key, index) => ({ address: base64Decoder.decode(key), label: `Account ${index}` })),
+	auth_token: 'token-1',
+};
+
+describe('mobileWalletAdapter', () => {
+	it('associates with the wallet app and authorizes the dApp', async () => {
+		const wallet = createFakeWallet({ authorize: () => authorizeResult }, { failedAttempts: 2 });
+		const storage = createStorage();
+		const connector = mobileWalletAdapter({
+			associate: wallet.associate,
+			identity: { name: 'Demo', uri: 'https://demo.app' },
+			storage,
+		});
+
+		const session = await connector.connect();
+
+		expect(wallet.associationUrl?.protocol).toBe('solana-wallet:');
+		expect(wallet.associationUrl?.pathname).toBe('/v1/associate/local');
+		expect(wallet.requests).toEqual([
+			{
+				method: 'authorize',
+				params: { chain: 'solana:mainnet', identity: { name: 'Demo', uri: 'https://demo.app' } },
+			},
+		]);
+		expect(session.accounts.map((account) => account.address)).toEqual(ACCOUNT_ADDRESSES);
+		expect(session.account).toMatchObject({ address: ACCOUNT_ADDRESSES[0], label: 'Account 0' });
+		expect(storage.values.get('solana:mwa:auth-token')).toBe('token-1');
+		expect(connector).toMatchObject({ id: 'mobile-wallet-adapter', kind: 'mobile-wallet-adapter' });
+	});
+
+	it('reauthorizes with the cached token and falls back to authorize when it is rejected', async () => {
+		const reauthorize = vi
+			.fn<Handler>()
+			.mockReturnValueOnce({ ...authorizeResult, auth_token: 'token-2' })
+			.mockImplementationOnce(() => {
+				throw new Error('auth token revoked');
+			});
+		const wallet = createFakeWallet({ authorize: () => authorizeResult, reauthorize });
+		const storage = createStorage({
+			'solana:mwa:auth-token': 'token-0',
+			'solana:mwa:auth-token:chain': 'solana:mainnet',
+		});
+		const identity = { name: 'Demo' };
+
+		await mobileWalletAdapter({ associate: wallet.associate, identity, storage }).connect();
+		expect(reauthorize).toHaveBeenLastCalledWith({ auth_token: 'token-0', identity });
+		expect(storage.values.get('solana:mwa:auth-token')).toBe('token-2');
+
+		await mobileWalletAdapter({ associate: wallet.associate, identity, storage }).connect();
+		expect(wallet.requests.map((request) => request.method)).toEqual(['reauthorize', 'reauthorize', 'authorize']);
+		expect(storage.values.get('solana:mwa:auth-token')).toBe('token-1');
+	});
+
+	it('authorizes for the chain each request targets', async () => {
+		const authorize = vi.fn<Handler>(() => authorizeResult);
+		const reauthorize = vi.fn<Handler>(() => authorizeResult);
+		const wallet = createFakeWallet({
+			authorize,
+			reauthorize,
+			sign_transactions: ({ payloads }) => ({ signed_payloads: payloads }),
+		});
+		const identity = { name: 'Demo' };
+		const session = await mobileWalletAdapter({ associate: wallet.associate, identity, storage: null }).connect({
+			chain: 'solana:devnet',
+		});
+		expect(authorize).toHaveBeenLastCalledWith({ chain: 'solana:devnet', identity });
+		expect(session.capabilities?.chains).toEqual(['solana:mainnet', 'solana:devnet', 'solana:testnet']);
+
+		const transaction = compileTransaction(
+			pipe(
+				createTransactionMessage({ version: 0 }),
+				(message) => setTransactionMessageFeePayer(ACCOUNT_ADDRESSES[0] as Address, message),
+				(message) =>
+					setTransactionMessageLifetimeUsingBlockhash(
+						{ blockhash: ACCOUNT_ADDRESSES[1] as string as Blockhash, lastValidBlockHeight: 1n },
+						message,
+					),
+			),
+		);
+		await session.signTransaction?.(transaction as never, { chain: 'solana:devnet' });
+		expect(reauthorize).toHaveBeenCalledTimes(1);
+
+		await session.signAllTransactions?.([transaction as never], { chain: 'solana:testnet' });
+		expect(authorize).toHaveBeenLastCalledWith({ auth_token: 'token-1', chain: 'solana:testnet', identity });
+		expect(wallet.requests.map((request) => request.method)).toEqual([
+			'authorize',
+			'reauthorize',
+			'sign_transactions',
+			'authorize',
+			'sign_transactions',
+		]);
+	});
+
+	it('keeps the wallet on the active chain when the client switches clusters', async () => {
+		const wallet = createFakeWallet({ authorize: () => authorizeResult, reauthorize: () => authorizeResult });
+		// Node is not an Android browser; treat the connector as available.
+		const connector = {
+			...mobileWalletAdapter({ associate: wallet.associate, storage: null }),
+			isSupported: () => true,
+		};
+		const store = createDefaultClientStore({
+			commitment: 'confirmed',
+			endpoint: 'https://api.mainnet-beta.solana.com',
+			websocketEndpoint: 'wss://api.mainnet-beta.solana.com',
+		});
+		const logger = vi.fn();
+		const actions = createActions({
+			connectors: { all: [connector], get: (id) => (id === connector.id ? connector : undefined) },
+			logger,
+			runtime: {} as SolanaClientRuntime,
+			store,
+		});
+
+		await actions.connectWallet(connector.id);
+		expect(wallet.requests.at(-1)).toMatchObject({ method: 'authorize', params: { chain: 'solana:mainnet' } });
+
+		await actions.setCluster('https://api.devnet.solana.com');
+		expect(store.getState().wallet).toMatchObject({ chain: 'solana:devnet', chainMismatch: false });
+		expect(logger).not.toHaveBeenCalledWith(expect.objectContaining({ message: 'wallet chain mismatch' }));
+	});
+
+	it('signs messages and transactions with the active account and deauthorizes on disconnect', async () => {
+		const signature = new Uint8Array(64).fill(9);
+		const transactionDecoder = getTransactionDecoder();
+		const transactionEncoder = getTransactionEncoder();
+		const wallet = createFakeWallet({
+			authorize: () => authorizeResult,
+			deauthorize: () => ({}),
+			reauthorize: () => authorizeResult,
+			sign_and_send_transactions: () => ({ signatures: [base64Decoder.decode(signature)] }),
+			sign_messages: ({ payloads }) => ({
+				signed_payloads: (payloads as string[]).map((payload) =>
+					base64Decoder.decode(new Uint8Array([...base64Encoder.encode(payload), ...signature])),
+				),
+			}),
+			sign_transactions: ({ payloads }) => ({
+				signed_payloads: (payloads as string[]).map((payload) => {
+					const decoded = transactionDecoder.decode(base64Encoder.encode(payload));
+					const signatures = Object.fromEntries(
+						Object.keys(decoded.signatures).map((signer) => [signer, signature as SignatureBytes]),
+					);
+					return base64Decoder.decode(transactionEncoder.encode({ ...decoded, signatures }));
+				}),
+			}),
+		});
+		const storage = createStorage();
+		const session = await mobileWalletAdapter({ associate: wallet.associate, storage }).connect();
+		session.selectAccount?.(ACCOUNT_ADDRESSES[1]);
+
+		await expect(session.signMessage?.(new Uint8Array([1, 2, 3]))).resolves.toEqual(signature);
+		expect(wallet.requests.at(-1)).toEqual({
+			method: 'sign_messages',
+			params: { addresses: [base64Decoder.decode(ACCOUNT_KEYS[1])], payloads: ['AQID'] },
+		});
+
+		const transaction = compileTransaction(
+			pipe(
+				createTransactionMessage({ version: 0 }),
+				(message) => setTransactionMessageFeePayer(ACCOUNT_ADDRESSES[1] as Address, message),
+				(message) =>
+					setTransactionMessageLifetimeUsingBlockhash(
+						{ blockhash: ACCOUNT_ADDRESSES[0] as string as Blockhash, lastValidBlockHeight: 1n },
+						message,
+					),
+			),
+		);
+		const signed = await session.signTransaction?.(transaction as never);
+		expect(signed?.signatures[ACCOUNT_ADDRESSES[1]]).toEqual(signature);
+
+		await expect(session.sendTransaction?.(transaction as never, { commitment: 'confirmed' })).resolves.toBe(
+			getBase58Decoder().decode(signature),
+		);
+		expect(wallet.requests.at(-1)).toMatchObject({
+			method: 'sign_and_send_transactions',
+			params: { options: { commitment: 'confirmed' } },
+		});
+
+		await session.disconnect();
+		expect(wallet.requests.at(-1)).toEqual({ method: 'deauthorize', params: { auth_token: 'token-1' } });
+		expect(storage.values.has('solana:mwa:auth-token')).toBe(false);
+	});
+});
@@ -0,0 +1,441 @@
+import { getBase58Decoder } from '@solana/codecs-strings';
+import type { Address, Commitment, SendableTransaction, Signature, Transaction } from '@solana/kit';
+import { getAddressDecoder, getBase64Decoder, getBase64Encoder } from '@solana/kit';
+import { getTransactionDecoder, getTransactionEncoder } from '@solana/transactions';
+
+import type { WalletAccount, WalletConnector, WalletConnectorMetadata, WalletSession } from '../types';
+import { associateLocal, type MobileWalletAdapterSession } from './mobileAssociation';
+
+type StorageAdapter = Readonly<{
+	getItem(key: string): string | null;
+	removeItem(key: string): void;
+	setItem(key: string, value: string): void;
+}>;
+
+type AuthorizedAccount = Readonly<{
+	address: string;
+	label?: string;
+}>;
+
+type AuthorizationResult = Readonly<{
+	accounts: readonly AuthorizedAccount[];
+	auth_token: string;
+}>;
+
+export type MobileWalletAdapterIdentity = Readonly<{
+	/** Icon path, relative to `uri`. */
+	icon?: string;
+	name?: string;
+	uri?: string;
+}>;
+
+export type MobileWalletAdapterOptions = Readonly<{
+	/** Opens a session with the wallet. Defaults to a local association with a wallet app on the device. */
+	associate?: () => Promise<MobileWalletAdapterSession>;
+	/** Chain requested when the client does not pass one. Defaults to `solana:mainnet`. */
+	chain?: string;
+	/**
+	 * Chains the wallet can be authorized for, reported in `capabilities.chains`. Each request authorizes for the
+	 * chain it targets. Defaults to `solana:mainnet`, `solana:devnet`, and `solana:testnet`.
+	 */
+	chains?: readonly string[];
+	icon?: string;
+	id?: string;
+	/** dApp identity shown by the wallet. Defaults to the current page's origin and title. */
+	identity?: MobileWalletAdapterIdentity;
+	name?: string;
+	/** Storage for the auth token so later sessions reauthorize silently. Pass `null` to keep it in memory. */
+	storage?: StorageAdapter | null;
+	/**
+	 * Storage key for the auth token. Defaults to `solana:mwa:auth-token`. The chain it was issued for is kept
+	 * under the same key with a `:chain` suffix.
+	 */
+	storageKey?: string;
+}>;
+
+const DEFAULT_CHAINS: readonly string[] = ['solana:mainnet', 'solana:devnet', 'solana:testnet'];
+const DEFAULT_STORAGE_KEY = 'solana:mwa:auth-token';
+const SIGNATURE_LENGTH = 64;
+
+const addressDecoder = getAddressDecoder();
+const base58Decoder = getBase58Decoder();
+const base64Decoder = getBase64Decoder();
+const base64Encoder = getBase64Encoder();
+const transactionDecoder = getTransactionDecoder();
+const transactionEncoder = getTransactionEncoder();
+
+/**
+ * Indicates whether the page runs in an Android browser, where Mobile Wallet Adapter wallets can be reached.
+ *
+ * @returns `true` on Android browsers.
+ */
+export function isMobileWalletAdapterSupported(): boolean {
+	return (
+		typeof window !== 'undefined' &&
+		typeof navigator !== 'undefined' &&
+		/android/i.test(navigator.userAgent) &&
+		typeof WebSocket !== 'undefined'
+	);
+}
+
+/**
+ * Returns the default storage for auth tokens when available.
+ *
+ * @returns `localStorage`, or `null` outside the browser.
+ */
+function getDefaultStorage(): StorageAdapter | null {
+	const candidate = (globalThis as Record<string, unknown>).localStorage as StorageAdapter | undefined;
+	return candidate ?? null;
+}
+
+/**
+ * Describes the dApp from the current page when no identity is configured.
+ *
+ * @returns Identity sent with authorization requests.
+ */
+function getDefaultIdentity(): MobileWalletAdapterIdentity {
+	if (typeof window === 'undefined') {
+		return {};
+	}
+	return { name: typeof document !== 'undefined' ? document.title : undefined, uri: window.location?.origin };
+}
+
+/**
+ * Converts an account returned by the wallet into the client {@link WalletAccount} shape.
+ *
+ * @param account - Account with a base64-encoded public key.
+ * @returns Wallet account compatible with the client helpers.
+ */
+function toSessionAccount(account: AuthorizedAccount): WalletAccount {
+	const publicKey = new Uint8Array(base64Encoder.encode(account.address));
+	return { address: addressDecoder.decode(publicKey), label: account.label, publicKey };
+}
+
+/**
+ * Encodes bytes for a Mobile Wallet Adapter payload.
+ *
+ * @param bytes - Bytes to encode.
+ * @returns Base64 string.
+ */
+function toPayload(bytes: Uint8Array): string {
+	return base64Decoder.decode(bytes);
+}
+
+/**
+ * Decodes a Mobile Wallet Adapter payload.
+ *
+ * @param payload - Base64 string returned by the wallet.
+ * @returns Decoded bytes.
+ */
+function fromPayload(payload: string): Uint8Array {
+	return new Uint8Array(base64Encoder.encode(payload));
+}
+
+/**
+ * Creates a connector for wallet apps that implement the Solana Mobile Wallet Adapter protocol, such as
+ * Phantom, Solflare, and Seed Vault on Android.
+ *
+ * Every operation opens a short-lived association that brings the wallet app to the foreground. The auth token
+ * from the first authorization is cached and sent with `reauthorize` afterwards, so only the first connection
+ * prompts the user to approve the dApp.
+ *
+ * @param options - Connector metadata, dApp identity, and association overrides.
+ * @returns A {@link WalletConnector} for Mobile Wallet Adapter wallets.
+ */
+export function mobileWalletAdapter(options: MobileWalletAdapterOptions = {}): WalletConnector {
+	const associate = options.associate ?? (() => associateLocal());
+	const defaultChain = options.chain ?? 'solana:mainnet';
+	const chains = options.chains ?? DEFAULT_CHAINS;
+	const storage = options.storage === undefined ? getDefaultStorage() : options.storage;
+	const storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+	let authToken: string | null = null;
+	// Chain the cached auth token was issued for. When unknown, the next request authorizes for its chain again.
+	let authorizedChain: string | null = null;
+
+	const metadata: WalletConnectorMetadata = {
+		canAutoConnect: false,
+		icon: options.icon,
+		id: options.id ?? 'mobile-wallet-adapter',
+		kind: 'mobile-wallet-adapter',
+		name: options.name ?? 'Mobile Wallet Adapter',
+		ready: isMobileWalletAdapterSupported(),
+	};
+
+	/**
+	 * Reads the cached auth token and the chain it was issued for, preferring the in-memory copy.
+	 *
+	 * @returns Auth token or `null` when the dApp was never authorized.
+	 */
+	function readAuthToken(): string | null {
+		if (authToken) {
+			return authToken;
+		}
+		try {
+			authToken = storage?.getItem(storageKey) ?? null;
+			authorizedChain = authToken ? (storage?.getItem(`${storageKey}:chain`) ?? null) : null;
+		} catch {
+			authToken = null;
+			authorizedChain = null;
+		}
+		return authToken;
+	}
+
+	/**
+	 * Caches or clears the auth token together with the chain it was issued for.
+	 *
+	 * @param token - Token to cache, or `null` to forget it.
+	 * @param chain - Chain the token authorizes.
+	 */
+	function writeAuthToken(token: string | null, chain: string | null = null) {
+		authToken = token;
+		authorizedChain = token ? chain : null;
+		try {
+			if (token && chain) {
+				storage?.setItem(storageKey, token);
+				storage?.setItem(`${storageKey}:chain`, chain);
+			} else {
+				storage?.removeItem(storageKey);
+				storage?.removeItem(`${storageKey}:chain`);
+			}
+		} catch {
+			// Ignore write failures (private browsing, SSR, etc.).
+		}
+	}
+
+	/**
+	 * Authorizes the dApp for `chain`, reusing the cached auth token when the wallet still accepts it. A token issued
+	 * for another chain is exchanged through `authorize`, so the wallet signs for the chain the client targets.
+	 *
+	 * @param session - Open association with the wallet.
+	 * @param chain - Chain the request targets.
+	 * @returns Authorization result with the accounts the wallet shares.
+	 */
+	async function authorize(session: MobileWalletAdapterSession, chain: string): Promise<AuthorizationResult> {
+		const identity = options.identity ?? getDefaultIdentity();
+		const cachedToken = readAuthToken();
+		let result: AuthorizationResult | undefined;
+		if (cachedToken) {
+			try {
+				result =
+					authorizedChain === chain
+						? await session.request<AuthorizationResult>('reauthorize', {
+								auth_token: cachedToken,
+								identity,
+							})
+						: await session.request<AuthorizationResult>('authorize', {
+								auth_token: cachedToken,
+								chain,
+								identity,
+							});
+			} catch {
+				// The wallet revoked or expired the token; fall back to a fresh authorization.
+				writeAuthToken(null);
+			}
+		}
+		result ??= await session.request<AuthorizationResult>('authorize', { chain, identity });
+		writeAuthToken(result.auth_token, chain);
+		return result;
+	}
+
+	/**
+	 * Runs a callback inside a fresh association authorized for `chain` and closes it afterwards.
+	 *
+	 * @param chain - Chain the work targets.
+	 * @param callback - Work to perform with the wallet.
+	 * @returns Result of the callback.
+	 */
+	async function transact<TResult>(
+		chain: string,
+		callback: (session: MobileWalletAdapterSession, authorization: AuthorizationResult) => Promise<TResult>,
+	): Promise<TResult> {
+		const session = await associate();
+		try {
+			return await callback(session, await authorize(session, chain));
+		} finally {
+			session.close();
+		}
+	}
+
+	/**
+	 * Authorizes the dApp with the wallet app and returns a session for the shared accounts.
+	 *
+	 * @param connectOptions - Chain of the active cluster, passed by the client.
+	 * @returns A wallet session that exposes signing helpers.
+	 */
+	async function connect(connectOptions: Readonly<{ chain?: string }> = {}): Promise<WalletSession> {
+		const connectChain = connectOptions.chain ?? defaultChain;
+		let authorizedAccounts = (
+			await transact(connectChain, async (_session, authorization) => authorization.accounts)
+		).map(toSessionAccount);
+		let currentAccount = authorizedAccounts[0];
+		if (!currentAccount) {
+			throw new Error('Wallet returned no accounts.');
+		}
+
+		/**
+		 * Keeps the session's accounts in sync with the latest authorization.
+		 *
+		 * @param authorization - Result of the authorization that opened the current association.
+		 */
+		function syncAccounts(authorization: AuthorizationResult) {
+			const accounts = authorization.accounts.map(toSessionAccount);
+			if (accounts.length) {
+				authorizedAccounts = accounts;
+				currentAccount = accounts.find((account) => account.address === currentAccount.address) ?? accounts[0];
+			}
+		}
+
+		/**
+		 * Signs a transaction without submitting it.
+		 *
+		 * @param transaction - Transaction to sign.
+		 * @param config - Chain to authorize for, filled in by the client.
+		 * @returns Promise resolving with the signed transaction.
+		 */
+		async function signTransaction(
+			transaction: SendableTransaction & Transaction,
+			config?: Readonly<{ chain?: string }>,
+		) {
+			const payload = toPayload(new Uint8Array(transactionEncoder.encode(transaction)));
+			const { signed_payloads } = await transact(
+				config?.chain ?? connectChain,
+				async (session, authorization) => {
+					syncAccounts(authorization);
+					return session.request<{ signed_payloads: string[] }>('sign_transactions', { payloads: [payload] });
+				},
+			);
+			return transactionDecoder.decode(fromPayload(signed_payloads[0])) as SendableTransaction & Transaction;
+		}
+
+		/**
+		 * Signs several transactions in one wallet session, so the user approves them together.
+		 *
+		 * @param transactions - Transactions to sign.
+		 * @param config - Chain to authorize for, filled in by the client.
+		 * @returns Promise resolving with the signed transactions in input order.
+		 */
+		async function signAllTransactions(
+			transactions: readonly (SendableTransaction & Transaction)[],
+			config?: Readonly<{ chain?: string }>,
+		) {
+			const payloads = transactions.map((transaction) =>
+				toPayload(new Uint8Array(transactionEncoder.encode(transaction))),
+			);
+			const { signed_payloads } = await transact(
+				config?.chain ?? connectChain,
+				async (session, authorization) => {
+					syncAccounts(authorization);
+					return session.request<{ signed_payloads: string[] }>('sign_transactions', { payloads });
+				},
+			);
+			return signed_payloads.map(
+				(signedPayload) =>
+					transactionDecoder.decode(fromPayload(signedPayload)) as SendableTransaction & Transaction,
+			);
+		}
+
+		/**
+		 * Signs a transaction and lets the wallet submit it.
+		 *
+		 * @param transaction - Transaction to sign and submit.
+		 * @param config - Chain to authorize for and optional commitment the wallet should wait for.
+		 * @returns Promise resolving with the submitted signature.
+		 */
+		async function sendTransaction(
+			transaction: SendableTransaction & Transaction,
+			config?: Readonly<{ chain?: string; commitment?: Commitment }>,
+		) {
+			const payload = toPayload(new Uint8Array(transactionEncoder.encode(transaction)));
+			const { signatures } = await transact(config?.chain ?? connectChain, async (session, authorization) => {
+				syncAccounts(authorization);
+				return session.request<{ signatures: string[] }>('sign_and_send_transactions', {
+					options: config?.commitment ? { commitment: config.commitment } : {},
+					payloads: [payload],
+				});
+			});
+			return base58Decoder.decode(fromPayload(signatures[0])) as Signature;
+		}
+
+		/**
+		 * Signs an arbitrary message with the active account.
+		 *
+		 * @param message - Message bytes to sign.
+		 * @returns Promise resolving with the signature.
+		 */
+		async function signMessage(message: Uint8Array) {
+			const { signed_payloads } = await transact(
+				authorizedChain ?? connectChain,
+				async (session, authorization) => {
+					syncAccounts(authorization);
+					return session.request<{ signed_payloads: string[] }>('sign_messages', {
+						addresses: [toPayload(currentAccount.publicKey)],
+						payloads: [toPayload(message)],
+					});
+				},
+			);
+			// Wallets return the message with the signature appended.
+			return fromPayload(signed_payloads[0]).slice(-SIGNATURE_LENGTH);
+		}
+
+		/**
+		 * Switches the account used for signing to another authorized account.
+		 *
+		 * @param accountAddress - Address of the account to activate.
+		 * @returns The newly active session account.
+		 */
+		function selectAccount(accountAddress: Address): WalletAccount {
+			const next = authorizedAccounts.find((account) => account.address === accountAddress);
+			if (!next) {
+				throw new Error(`Wallet has not authorized account "${accountAddress.toString()}".`);
+			}
+			currentAccount = next;
+			return next;
+		}
+
+		return {
+			account: currentAccount,
+			accounts: authorizedAccounts,
+			capabilities: {
+				chains: chains.includes(connectChain) ? chains : [...chains, connectChain],
+				signAndSendTransaction: true,
+				signIn: false,
+				signMessage: true,
+				signTransaction: true,
+				transactionVersions: ['legacy', 0],
+			},
+			connector: metadata,
+			disconnect,
+			selectAccount,
+			sendTransaction,
+			signAllTransactions,
+			signMessage,
+			signTransaction,
+		};
+	}
+
+	/**
+	 * Revokes the cached auth token with the wallet and forgets it locally.
+	 *
+	 * @returns Promise that resolves once the token has been revoked.
+	 */
+	async function disconnect(): Promise<void> {
+		const token = readAuthToken();
+		writeAuthToken(null);
+		if (!token) {
+			return;
+		}
+		const session = await associate();
+		try {
+			await session.request('deauthorize', { auth_token: token });
+		} finally {
+			session.close();
+		}
+	}
+
+	return {
+		...metadata,
+		connect,
+		disconnect,
+		isSupported: isMobileWalletAdapterSupported,
+	};
+}
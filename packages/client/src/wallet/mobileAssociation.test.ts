@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { associateLocal, type MobileWalletAdapterSocket } from './mobileAssociation';
+
+/**
+ * Fake wallet endpoint: opens immediately and answers the hello frame with a fresh ECDH public key.
+ */
+async function createWalletSocket() {
+	const target = new EventTarget();
+	const walletKeyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+	const walletPublicKey = await crypto.subtle.exportKey('raw', walletKeyPair.publicKey);
+	const send = vi.fn((_frame: unknown) => {
+		if (send.mock.calls.length === 1) {
+			queueMicrotask(() => target.dispatchEvent(new MessageEvent('message', { data: walletPublicKey })));
+		}
+	});
+	const socket: MobileWalletAdapterSocket = {
+		addEventListener: target.addEventListener.bind(target),
+		binaryType: 'blob',
+		close: vi.fn(),
+		removeEventListener: target.removeEventListener.bind(target),
+		send,
+	};
+	return {
+		createSocket: () => {
+			queueMicrotask(() => target.dispatchEvent(new Event('open')));
+			return socket;
+		},
+		send,
+	};
+}
+
+describe('associateLocal', () => {
+	it('forgets requests whose frame could not be sent', async () => {
+		const wallet = await createWalletSocket();
+		const session = await associateLocal({ createSocket: wallet.createSocket, openUrl: vi.fn(), port: 50_000 });
+		wallet.send.mockImplementation(() => {
+			throw new Error('socket gone');
+		});
+		const unhandled = vi.fn();
+		process.on('unhandledRejection', unhandled);
+
+		try {
+			await expect(session.request('authorize', {})).rejects.toThrow('socket gone');
+			session.close();
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			expect(unhandled).not.toHaveBeenCalled();
+		} finally {
+			process.off('unhandledRejection', unhandled);
+		}
+	});
+});
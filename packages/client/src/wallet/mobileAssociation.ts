@@ -0,0 +1,367 @@
+/**
+ * Mobile Wallet Adapter local association: opens the wallet app through a `solana-wallet:` intent, then speaks
+ * encrypted JSON-RPC to it over a WebSocket on `localhost`.
+ */
+
+export type MobileWalletAdapterSession = Readonly<{
+	close(): void;
+	request<TResult>(method: string, params: Readonly<Record<string, unknown>>): Promise<TResult>;
+}>;
+
+/** Minimal WebSocket surface used by the association, so tests can provide their own endpoint. */
+export type MobileWalletAdapterSocket = Pick<
+	WebSocket,
+	'addEventListener' | 'binaryType' | 'close' | 'removeEventListener' | 'send'
+>;
+
+export type LocalAssociationOptions = Readonly<{
+	/** Opens the association URL. Defaults to navigating the current window. */
+	openUrl?: (url: string) => void;
+	/** Creates the socket to the wallet. Defaults to the global `WebSocket`. */
+	createSocket?: (url: string, protocol: string) => MobileWalletAdapterSocket;
+	/** Local port the wallet should listen on. Defaults to a random port in the dynamic range. */
+	port?: number;
+	/** Time allowed for the wallet to start listening and complete the handshake. Defaults to 30 seconds. */
+	timeoutMs?: number;
+}>;
+
+type JsonRpcResponse = Readonly<{
+	error?: Readonly<{ code: number; data?: unknown; message: string }>;
+	id: number;
+	result?: unknown;
+}>;
+
+type PendingRequest = Readonly<{
+	reject(error: unknown): void;
+	resolve(result: unknown): void;
+}>;
+
+const ASSOCIATION_PROTOCOL = 'com.solana.mobilewalletadapter.v1';
+const CONNECT_RETRY_DELAY_MS = 150;
+const DEFAULT_TIMEOUT_MS = 30_000;
+const ECDH_PARAMS = { name: 'ECDH', namedCurve: 'P-256' } as const;
+const ECDSA_PARAMS = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const IV_LENGTH = 12;
+const PUBLIC_KEY_LENGTH = 65;
+const SEQUENCE_NUMBER_LENGTH = 4;
+
+const textDecoder = new TextDecoder();
+const textEncoder = new TextEncoder();
+
+/**
+ * Encodes bytes as unpadded base64url, the format of the association token.
+ *
+ * @param bytes - Bytes to encode.
+ * @returns Base64url string.
+ */
+function toBase64Url(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+}
+
+/**
+ * Builds the intent URL that asks a wallet app to start a local association.
+ *
+ * @param associationPublicKey - Raw association public key.
+ * @param port - Port the wallet should listen on.
+ * @returns `solana-wallet:` association URL.
+ */
+export function createAssociationUrl(associationPublicKey: Uint8Array, port: number): string {
+	return `solana-wallet:/v1/associate/local?association=${toBase64Url(associationPublicKey)}&port=${port}`;
+}
+
+/**
+ * Derives the AES-GCM session key from both ECDH key halves, salted with the association public key.
+ *
+ * @param privateKey - Local ECDH private key.
+ * @param peerPublicKey - Raw ECDH public key received from the other side.
+ * @param associationPublicKey - Raw association public key.
+ * @returns AES-128-GCM key used for every message in the session.
+ */
+export async function deriveSessionKey(
+	privateKey: CryptoKey,
+	peerPublicKey: Uint8Array<ArrayBuffer>,
+	associationPublicKey: Uint8Array<ArrayBuffer>,
+): Promise<CryptoKey> {
+	const peerKey = await crypto.subtle.importKey('raw', peerPublicKey, ECDH_PARAMS, false, []);
+	const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, privateKey, 256);
+	const keyMaterial = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+	return crypto.subtle.deriveKey(
+		{ hash: 'SHA-256', info: new Uint8Array(), name: 'HKDF', salt: associationPublicKey },
+		keyMaterial,
+		{ length: 128, name: 'AES-GCM' },
+		false,
+		['decrypt', 'encrypt'],
+	);
+}
+
+/**
+ * Encrypts a JSON-RPC payload as `sequence number || IV || ciphertext`.
+ *
+ * @param key - Session key.
+ * @param sequenceNumber - Sequence number of the outgoing message, starting at 1.
+ * @param payload - JSON value to send.
+ * @returns Encrypted frame.
+ */
+export async function encryptMessage(key: CryptoKey, sequenceNumber: number, payload: unknown): Promise<Uint8Array> {
+	const sequence = new Uint8Array(SEQUENCE_NUMBER_LENGTH);
+	new DataView(sequence.buffer).setUint32(0, sequenceNumber);
+	const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+	const ciphertext = await crypto.subtle.encrypt(
+		{ additionalData: sequence, iv, name: 'AES-GCM', tagLength: 128 },
+		key,
+		textEncoder.encode(JSON.stringify(payload)),
+	);
+	const frame = new Uint8Array(SEQUENCE_NUMBER_LENGTH + IV_LENGTH + ciphertext.byteLength);
+	frame.set(sequence, 0);
+	frame.set(iv, SEQUENCE_NUMBER_LENGTH);
+	frame.set(new Uint8Array(ciphertext), SEQUENCE_NUMBER_LENGTH + IV_LENGTH);
+	return frame;
+}
+
+/**
+ * Decrypts a frame produced by {@link encryptMessage}.
+ *
+ * @param key - Session key.
+ * @param frame - Encrypted frame.
+ * @returns Sequence number and decoded JSON payload.
+ */
+export async function decryptMessage(
+	key: CryptoKey,
+	frame: Uint8Array,
+): Promise<Readonly<{ payload: unknown; sequenceNumber: number }>> {
+	const sequence = frame.slice(0, SEQUENCE_NUMBER_LENGTH);
+	const iv = frame.slice(SEQUENCE_NUMBER_LENGTH, SEQUENCE_NUMBER_LENGTH + IV_LENGTH);
+	const plaintext = await crypto.subtle.decrypt(
+		{ additionalData: sequence, iv, name: 'AES-GCM', tagLength: 128 },
+		key,
+		frame.slice(SEQUENCE_NUMBER_LENGTH + IV_LENGTH),
+	);
+	return {
+		payload: JSON.parse(textDecoder.decode(plaintext)),
+		sequenceNumber: new DataView(sequence.buffer).getUint32(0),
+	};
+}
+
+/**
+ * Converts a WebSocket message payload into bytes.
+ *
+ * @param data - `MessageEvent.data` from the socket.
+ * @returns Message bytes.
+ */
+async function toBytes(data: unknown): Promise<Uint8Array> {
+	if (data instanceof ArrayBuffer) {
+		return new Uint8Array(data);
+	}
+	if (ArrayBuffer.isView(data)) {
+		return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+	}
+	if (typeof Blob !== 'undefined' && data instanceof Blob) {
+		return new Uint8Array(await data.arrayBuffer());
+	}
+	throw new Error('Unexpected Mobile Wallet Adapter message format.');
+}
+
+/**
+ * Waits for a socket to open.
+ *
+ * @param socket - Socket that was just created.
+ * @returns Promise resolving with `true` once open, or `false` when the connection failed.
+ */
+function waitForOpen(socket: MobileWalletAdapterSocket): Promise<boolean> {
+	return new Promise((resolve) => {
+		const onOpen = () => {
+			cleanup();
+			resolve(true);
+		};
+		const onFailure = () => {
+			cleanup();
+			resolve(false);
+		};
+		const cleanup = () => {
+			socket.removeEventListener('open', onOpen);
+			socket.removeEventListener('error', onFailure);
+			socket.removeEventListener('close', onFailure);
+		};
+		socket.addEventListener('open', onOpen);
+		socket.addEventListener('error', onFailure);
+		socket.addEventListener('close', onFailure);
+	});
+}
+
+/**
+ * Picks a random port in the dynamic range, as the protocol recommends.
+ *
+ * @returns Port number between 49152 and 65535.
+ */
+function randomPort(): number {
+	return 49152 + Math.floor(Math.random() * (65535 - 49152 + 1));
+}
+
+/**
+ * Starts a local association with a wallet app on the same device and completes the encrypted handshake.
+ *
+ * @param options - Overrides for how the wallet is launched and reached.
+ * @returns Session that sends JSON-RPC requests to the wallet.
+ * @throws When the wallet does not answer before the timeout.
+ */
+export async function associateLocal(options: LocalAssociationOptions = {}): Promise<MobileWalletAdapterSession> {
+	const port = options.port ?? randomPort();
+	const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	const deadline = Date.now() + timeoutMs;
+	const openUrl = options.openUrl ?? ((url: string) => window.location.assign(url));
+	const createSocket = options.createSocket ?? ((url: string, protocol: string) => new WebSocket(url, protocol));
+
+	const associationKeyPair = await crypto.subtle.generateKey(ECDSA_PARAMS, false, ['sign']);
+	const associationPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', associationKeyPair.publicKey));
+	openUrl(createAssociationUrl(associationPublicKey, port));
+
+	// The wallet needs a moment to launch and start listening, so retry until it accepts the connection.
+	let socket: MobileWalletAdapterSocket | undefined;
+	while (!socket) {
+		const candidate = createSocket(`ws://localhost:${port}/solana-wallet`, ASSOCIATION_PROTOCOL);
+		if (await waitForOpen(candidate)) {
+			socket = candidate;
+			break;
+		}
+		if (Date.now() >= deadline) {
+			throw new Error('Timed out waiting for the mobile wallet to accept the association.');
+		}
+		await new Promise((resolve) => setTimeout(resolve, CONNECT_RETRY_DELAY_MS));
+	}
+	const openSocket = socket;
+	openSocket.binaryType = 'arraybuffer';
+
+	const ecdhKeyPair = await crypto.subtle.generateKey(ECDH_PARAMS, false, ['deriveBits']);
+	const ecdhPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', ecdhKeyPair.publicKey));
+	const helloSignature = new Uint8Array(
+		await crypto.subtle.sign({ hash: 'SHA-256', name: 'ECDSA' }, associationKeyPair.privateKey, ecdhPublicKey),
+	);
+
+	let sessionKey: Promise<CryptoKey> | undefined;
+	let inboundSequenceNumber = 0;
+	let outboundSequenceNumber = 0;
+	let nextRequestId = 1;
+	let sendQueue = Promise.resolve();
+	let closed = false;
+	const pending = new Map<number, PendingRequest>();
+	let handshake!: Readonly<{ reject(error: unknown): void; resolve(): void }>;
+	const handshakeComplete = new Promise<void>((resolve, reject) => {
+		handshake = { reject, resolve };
+	});
+
+	/**
+	 * Rejects every in-flight request and stops accepting new ones.
+	 *
+	 * @param error - Reason reported to callers.
+	 */
+	function fail(error: unknown) {
+		if (closed) {
+			return;
+		}
+		closed = true;
+		handshake.reject(error);
+		for (const request of pending.values()) {
+			request.reject(error);
+		}
+		pending.clear();
+		openSocket.close();
+	}
+
+	/**
+	 * Handles a frame from the wallet: the handshake response first, then encrypted JSON-RPC responses.
+	 *
+	 * @param frame - Raw frame bytes.
+	 */
+	async function handleFrame(frame: Uint8Array) {
+		if (!sessionKey) {
+			sessionKey = deriveSessionKey(
+				ecdhKeyPair.privateKey,
+				frame.slice(0, PUBLIC_KEY_LENGTH),
+				associationPublicKey,
+			);
+			await sessionKey;
+			handshake.resolve();
+			return;
+		}
+		const { payload, sequenceNumber } = await decryptMessage(await sessionKey, frame);
+		if (sequenceNumber !== inboundSequenceNumber + 1) {
+			throw new Error('Mobile Wallet Adapter message arrived out of order.');
+		}
+		inboundSequenceNumber = sequenceNumber;
+		const response = payload as JsonRpcResponse;
+		const request = pending.get(response.id);
+		if (!request) {
+			return;
+		}
+		pending.delete(response.id);
+		if (response.error) {
+			request.reject(
+				Object.assign(new Error(response.error.message), {
+					code: response.error.code,
+					data: response.error.data,
+				}),
+			);
+			return;
+		}
+		request.resolve(response.result);
+	}
+
+	// Frames are processed in arrival order so sequence numbers are checked against the right predecessor.
+	let queue = Promise.resolve();
+	openSocket.addEventListener('message', (event: MessageEvent) => {
+		queue = queue.then(() => toBytes(event.data).then(handleFrame)).catch(fail);
+	});
+	openSocket.addEventListener('close', () => fail(new Error('Mobile wallet closed the association.')));
+	openSocket.addEventListener('error', () => fail(new Error('Mobile wallet association failed.')));
+
+	const helloRequest = new Uint8Array(ecdhPublicKey.length + helloSignature.length);
+	helloRequest.set(ecdhPublicKey, 0);
+	helloRequest.set(helloSignature, ecdhPublicKey.length);
+	openSocket.send(helloRequest);
+
+	const handshakeTimeout = setTimeout(
+		() => fail(new Error('Timed out waiting for the mobile wallet handshake.')),
+		Math.max(deadline - Date.now(), 0),
+	);
+	try {
+		await handshakeComplete;
+	} finally {
+		clearTimeout(handshakeTimeout);
+	}
+
+	return {
+		close() {
+			fail(new Error('Mobile Wallet Adapter session closed.'));
+		},
+		async request<TResult>(method: string, params: Readonly<Record<string, unknown>>): Promise<TResult> {
+			if (closed || !sessionKey) {
+				throw new Error('Mobile Wallet Adapter session is closed.');
+			}
+			const id = nextRequestId++;
+			const result = new Promise<unknown>((resolve, reject) => {
+				pending.set(id, { reject, resolve });
+			});
+			const key = sessionKey;
+			// Sends are serialized so frames leave in sequence-number order.
+			const sent = sendQueue.then(async () => {
+				outboundSequenceNumber += 1;
+				openSocket.send(
+					await encryptMessage(await key, outboundSequenceNumber, { id, jsonrpc: '2.0', method, params }),
+				);
+			});
+			sendQueue = sent.catch(() => undefined);
+			try {
+				await sent;
+			} catch (error) {
+				// No response can arrive for a frame that never left, so a later close must not reject it unobserved.
+				pending.delete(id);
+				result.catch(() => undefined);
+				throw error;
+			}
+			return (await result) as TResult;
+		},
+	};
+}
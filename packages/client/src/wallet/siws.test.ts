@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import { createSignInMessageText, parseSignInMessageText } from './siws';
+
+const ADDRESS = '8opBt1NVr7Di5urN6byN1Nsx3Rp3XJ2nKxuxMxkvZWSr';
+
+describe('Sign-In With Solana messages', () => {
+	it('formats every field in the order wallets use', () => {
+		const text = createSignInMessageText({
+			address: ADDRESS,
+			chainId: 'mainnet',
+			domain: 'example.com',
+			expirationTime: '2024-01-01T00:10:00.000Z',
+			issuedAt: '2024-01-01T00:00:00.000Z',
+			nonce: 'abc123',
+			resources: ['https://example.com/terms', 'ipfs://resource'],
+			statement: 'Sign in to Example',
+			uri: 'https://example.com/login',
+			version: '1',
+		});
+
+		expect(text).toBe(
+			[
+				'example.com wants you to sign in with your Solana account:',
+				ADDRESS,
+				'',
+				'Sign in to Example',
+				'',
+				'URI: https://example.com/login',
+				'Version: 1',
+				'Chain ID: mainnet',
+				'Nonce: abc123',
+				'Issued At: 2024-01-01T00:00:00.000Z',
+				'Expiration Time: 2024-01-01T00:10:00.000Z',
+				'Resources:',
+				'- https://example.com/terms',
+				'- ipfs://resource',
+			].join('\n'),
+		);
+	});
+
+	it('parses formatted messages back into their fields', () => {
+		const message = {
+			address: ADDRESS,
+			domain: 'localhost:3000',
+			nonce: 'n-1',
+			notBefore: '2024-01-01T00:00:00.000Z',
+			resources: ['https://example.com'],
+			statement: 'Hello',
+		};
+		expect(parseSignInMessageText(createSignInMessageText(message))).toEqual(message);
+		expect(parseSignInMessageText(createSignInMessageText({ address: ADDRESS, domain: 'a.io' }))).toEqual({
+			address: ADDRESS,
+			domain: 'a.io',
+		});
+	});
+
+	it('rejects text that is not a SIWS message', () => {
+		expect(parseSignInMessageText('hello world')).toBeNull();
+		expect(
+			parseSignInMessageText(
+				`example.com wants you to sign in with your Solana account:\n${ADDRESS}\n\nNonce: 1\nUnknown: field`,
+			),
+		).toBeNull();
+	});
+});
@@ -0,0 +1,140 @@
+import type { WalletAccount } from '../types';
+
+/** Sign-In With Solana request, following the fields of the Wallet Standard `solana:signIn` feature. */
+export type SignInInput = Readonly<{
+	/** Account to sign in with. Defaults to the active session account. */
+	address?: string;
+	chainId?: string;
+	/** Domain requesting the sign-in. Defaults to `window.location.host` in browsers. */
+	domain?: string;
+	expirationTime?: string;
+	issuedAt?: string;
+	nonce?: string;
+	notBefore?: string;
+	requestId?: string;
+	resources?: readonly string[];
+	statement?: string;
+	uri?: string;
+	version?: string;
+}>;
+
+export type SignInOutput = Readonly<{
+	account: WalletAccount;
+	/** Signature over `signedMessage`. */
+	signature: Uint8Array;
+	/** Exact bytes the wallet signed, which may include wallet-specific formatting. */
+	signedMessage: Uint8Array;
+}>;
+
+export type SignInMessage = SignInInput & Readonly<{ address: string; domain: string }>;
+
+const HEADER_SUFFIX = ' wants you to sign in with your Solana account:';
+
+const FIELD_LABELS = [
+	['uri', 'URI'],
+	['version', 'Version'],
+	['chainId', 'Chain ID'],
+	['nonce', 'Nonce'],
+	['issuedAt', 'Issued At'],
+	['expirationTime', 'Expiration Time'],
+	['notBefore', 'Not Before'],
+	['requestId', 'Request ID'],
+] as const satisfies readonly (readonly [keyof SignInMessage, string])[];
+
+/**
+ * Formats a Sign-In With Solana message the same way wallets implementing `solana:signIn` do.
+ *
+ * @param message - Message fields; `domain` and `address` are required.
+ * @returns Plain-text message to be signed.
+ */
+export function createSignInMessageText(message: SignInMessage): string {
+	let text = `${message.domain}${HEADER_SUFFIX}\n${message.address}`;
+	if (message.statement) {
+		text += `\n\n${message.statement}`;
+	}
+	const fields: string[] = [];
+	for (const [key, label] of FIELD_LABELS) {
+		const value = message[key];
+		if (value) {
+			fields.push(`${label}: ${value}`);
+		}
+	}
+	if (message.resources?.length) {
+		fields.push(['Resources:', ...message.resources.map((resource) => `- ${resource}`)].join('\n'));
+	}
+	if (fields.length) {
+		text += `\n\n${fields.join('\n')}`;
+	}
+	return text;
+}
+
+/**
+ * Completes a sign-in request for a specific signer, defaulting the domain to the current page's host.
+ *
+ * @param input - Sign-in request fields.
+ * @param address - Address of the account that will sign.
+ * @returns Message fields ready for {@link createSignInMessageText}.
+ * @throws When no domain was given outside the browser.
+ */
+export function resolveSignInMessage(input: SignInInput, address: string): SignInMessage {
+	const domain = input.domain ?? (typeof window !== 'undefined' ? window.location?.host : undefined);
+	if (!domain) {
+		throw new Error('A sign-in domain is required outside the browser.');
+	}
+	return { ...input, address, domain };
+}
+
+/**
+ * Parses a Sign-In With Solana message produced by {@link createSignInMessageText} or a wallet.
+ *
+ * @param text - Signed message text.
+ * @returns Parsed message fields, or `null` when the text is not a SIWS message.
+ */
+export function parseSignInMessageText(text: string): SignInMessage | null {
+	const lines = text.split('\n');
+	const headerIndex = lines.findIndex((line) => line.endsWith(HEADER_SUFFIX));
+	const header = lines[headerIndex];
+	const address = lines[headerIndex + 1];
+	if (header === undefined || !address) {
+		return null;
+	}
+	const domain = header.slice(0, -HEADER_SUFFIX.length);
+	if (!domain) {
+		return null;
+	}
+	const parsed: Record<string, unknown> = { address, domain };
+	let index = headerIndex + 2;
+	if (lines[index] === '' && lines[index + 1] && !isFieldLine(lines[index + 1])) {
+		parsed.statement = lines[index + 1];
+		index += 2;
+	}
+	for (const line of lines.slice(index)) {
+		if (line === '') {
+			continue;
+		}
+		if (line.startsWith('- ') && Array.isArray(parsed.resources)) {
+			parsed.resources.push(line.slice(2));
+			continue;
+		}
+		if (line === 'Resources:') {
+			parsed.resources = [];
+			continue;
+		}
+		const field = FIELD_LABELS.find(([, label]) => line.startsWith(`${label}: `));
+		if (!field) {
+			return null;
+		}
+		parsed[field[0]] = line.slice(field[1].length + 2);
+	}
+	return parsed as SignInMessage;
+}
+
+/**
+ * Checks whether a line starts one of the labelled SIWS fields.
+ *
+ * @param line - Message line to inspect.
+ * @returns `true` for field and resource lines.
+ */
+function isFieldLine(line: string): boolean {
+	return line === 'Resources:' || FIELD_LABELS.some(([, label]) => line.startsWith(`${label}: `));
+}
@@ -1,8 +1,18 @@
+import {
+	type Blockhash,
+	compileTransaction,
+	createTransactionMessage,
+	pipe,
+	setTransactionMessageFeePayer,
+	setTransactionMessageLifetimeUsingBlockhash,
+} from '@solana/kit';
+import { SolanaSignIn, SolanaSignMessage, SolanaSignTransaction } from '@solana/wallet-standard-features';
 import * as walletApp from '@wallet-standard/app';
 import type { Wallet } from '@wallet-standard/base';
-import { StandardConnect } from '@wallet-standard/features';
+import { StandardConnect, StandardEvents } from '@wallet-standard/features';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+import { parseSignInMessageText } from './siws';
 import { createWalletStandardConnector, getWalletStandardConnectors } from './standard';
 
 vi.mock('@wallet-standard/app', () => {
@@ -84,4 +94,171 @@ describe('Wallet Standard connector metadata', () => {
 		expect(connectSpy).toHaveBeenNthCalledWith(1, { silent: true });
 		expect(connectSpy).toHaveBeenNthCalledWith(2, { silent: false });
 	});
+
+	it('exposes every authorized account and switches the signing account', async () => {
+		const wallet = createStubWallet('Demo Wallet');
+		const second = {
+			...wallet.accounts[0],
+			address: '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin',
+			label: 'Second',
+		};
+		const third = { ...second, address: 'So11111111111111111111111111111111111111112', label: 'Third' };
+		let emitChange: (properties: { accounts?: readonly (typeof second)[] }) => void = () => undefined;
+		const signMessage = vi.fn(async () => [{ signature: new Uint8Array([1]) }]);
+		const multiAccountWallet = {
+			...wallet,
+			accounts: [wallet.accounts[0], second],
+			features: {
+				[SolanaSignMessage]: { signMessage },
+				[StandardConnect]: { connect: vi.fn(async () => ({ accounts: [wallet.accounts[0], second] })) },
+				[StandardEvents]: {
+					on: vi.fn((_event: string, listener: typeof emitChange) => {
+						emitChange = listener;
+						return () => undefined;
+					}),
+				},
+			},
+		} as unknown as Wallet;
+
+		const session = await createWalletStandardConnector(multiAccountWallet).connect();
+		expect(session.account.address).toBe(wallet.accounts[0].address);
+		expect(session.accounts.map((account) => account.label)).toEqual(['Primary', 'Second']);
+
+		expect(session.selectAccount?.(second.address as never)).toMatchObject({ address: second.address });
+		await session.signMessage?.(new Uint8Array([0]));
+		expect(signMessage).toHaveBeenLastCalledWith(expect.objectContaining({ account: second }));
+		expect(() => session.selectAccount?.(third.address as never)).toThrow('has not authorized');
+
+		const listener = vi.fn();
+		session.onAccountsChanged?.(listener);
+		emitChange({ accounts: [third, second] });
+		await session.signMessage?.(new Uint8Array([0]));
+		expect(signMessage).toHaveBeenLastCalledWith(expect.objectContaining({ account: second }));
+
+		emitChange({ accounts: [third] });
+		await session.signMessage?.(new Uint8Array([0]));
+		expect(signMessage).toHaveBeenLastCalledWith(expect.objectContaining({ account: third }));
+		expect(listener).toHaveBeenLastCalledWith([expect.objectContaining({ address: third.address })]);
+	});
+
+	it('signs in with solana:signIn when available and falls back to signMessage', async () => {
+		const wallet = createStubWallet('Demo Wallet');
+		const [account] = wallet.accounts;
+		const signIn = vi.fn(async () => [
+			{ account, signature: new Uint8Array([7]), signedMessage: new Uint8Array([8]) },
+		]);
+		const signMessage = vi.fn(async ({ message }: { message: Uint8Array }) => [
+			{ signature: new Uint8Array([9]), signedMessage: message },
+		]);
+		const withSignIn = { ...wallet, features: { ...wallet.features, [SolanaSignIn]: { signIn } } } as Wallet;
+		const withSignMessage = {
+			...wallet,
+			features: { ...wallet.features, [SolanaSignMessage]: { signMessage } },
+		} as unknown as Wallet;
+
+		const nativeSession = await createWalletStandardConnector(withSignIn).connect();
+		await expect(nativeSession.signIn?.({ nonce: 'abc' })).resolves.toMatchObject({
+			account: { address: account.address },
+			signature: new Uint8Array([7]),
+		});
+		expect(signIn).toHaveBeenCalledWith({ address: account.address, nonce: 'abc' });
+
+		const fallbackSession = await createWalletStandardConnector(withSignMessage).connect();
+		const output = await fallbackSession.signIn?.({ domain: 'example.com', nonce: 'abc', statement: 'Hi' });
+		expect(signMessage).toHaveBeenCalledWith(expect.objectContaining({ account }));
+		expect(parseSignInMessageText(new TextDecoder().decode(output?.signedMessage))).toEqual({
+			address: account.address,
+			domain: 'example.com',
+			nonce: 'abc',
+			statement: 'Hi',
+		});
+		await expect(fallbackSession.signIn?.({ address: 'unknown', domain: 'example.com' })).rejects.toThrow(
+			'has not authorized',
+		);
+
+		const unsupported = await createWalletStandardConnector(wallet).connect();
+		expect(unsupported.signIn).toBeUndefined();
+	});
+
+	it('describes session capabilities from the wallet features', async () => {
+		const wallet = createStubWallet('Demo Wallet');
+		const withFeatures = {
+			...wallet,
+			features: {
+				...wallet.features,
+				[SolanaSignMessage]: { signMessage: vi.fn() },
+				[SolanaSignTransaction]: { signTransaction: vi.fn(), supportedTransactionVersions: ['legacy'] },
+			},
+		} as unknown as Wallet;
+
+		const session = await createWalletStandardConnector(withFeatures).connect();
+
+		expect(session.capabilities).toEqual({
+			chains: ['solana:devnet'],
+			signAndSendTransaction: false,
+			signIn: true,
+			signMessage: true,
+			signTransaction: true,
+			transactionVersions: ['legacy'],
+		});
+	});
+
+	it('signs for the chain requested by the client', async () => {
+		const wallet = createStubWallet('Demo Wallet');
+		const signTransaction = vi.fn(async ({ transaction }: { transaction: Uint8Array }) => [
+			{ signedTransaction: transaction },
+		]);
+		const withSigning = {
+			...wallet,
+			features: { ...wallet.features, [SolanaSignTransaction]: { signTransaction } },
+		} as unknown as Wallet;
+		const session = await createWalletStandardConnector(withSigning).connect();
+		const transaction = compileTransaction(
+			pipe(
+				createTransactionMessage({ version: 0 }),
+				(message) => setTransactionMessageFeePayer(session.account.address, message),
+				(message) =>
+					setTransactionMessageLifetimeUsingBlockhash(
+						{ blockhash: session.account.address as string as Blockhash, lastValidBlockHeight: 1n },
+						message,
+					),
+			),
+		);
+
+		await session.signTransaction?.(transaction as never, { chain: 'solana:testnet' });
+		expect(signTransaction).toHaveBeenLastCalledWith(expect.objectContaining({ chain: 'solana:testnet' }));
+
+		await session.signTransaction?.(transaction as never);
+		expect(signTransaction).toHaveBeenLastCalledWith(expect.objectContaining({ chain: 'solana:devnet' }));
+		expect(session.account.chains).toEqual(['solana:devnet']);
+	});
+
+	it('signs several transactions in one wallet request', async () => {
+		const wallet = createStubWallet('Demo Wallet');
+		const signTransaction = vi.fn(async (...inputs: { transaction: Uint8Array }[]) =>
+			inputs.map(({ transaction }) => ({ signedTransaction: transaction })),
+		);
+		const withSigning = {
+			...wallet,
+			features: { ...wallet.features, [SolanaSignTransaction]: { signTransaction } },
+		} as unknown as Wallet;
+		const session = await createWalletStandardConnector(withSigning).connect();
+		const transaction = compileTransaction(
+			pipe(
+				createTransactionMessage({ version: 0 }),
+				(message) => setTransactionMessageFeePayer(session.account.address, message),
+				(message) =>
+					setTransactionMessageLifetimeUsingBlockhash(
+						{ blockhash: session.account.address as string as Blockhash, lastValidBlockHeight: 1n },
+						message,
+					),
+			),
+		);
+
+		const signed = await session.signAllTransactions?.([transaction, transaction] as never);
+		expect(signed).toHaveLength(2);
+		expect(signTransaction).toHaveBeenCalledTimes(1);
+		expect(signTransaction.mock.calls[0]).toHaveLength(2);
+		expect(signTransaction.mock.calls[0][0]).toMatchObject({ chain: 'solana:devnet' });
+	});
 });
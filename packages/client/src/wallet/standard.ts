@@ -1,14 +1,16 @@
 import { getBase58Decoder } from '@solana/codecs-strings';
-import type { Commitment, SendableTransaction, Signature, Transaction } from '@solana/kit';
+import type { Address, Commitment, SendableTransaction, Signature, Transaction } from '@solana/kit';
 import { address } from '@solana/kit';
 import { getTransactionDecoder, getTransactionEncoder } from '@solana/transactions';
 import type {
 	SolanaSignAndSendTransactionFeature,
+	SolanaSignInFeature,
 	SolanaSignMessageFeature,
 	SolanaSignTransactionFeature,
 } from '@solana/wallet-standard-features';
 import {
 	SolanaSignAndSendTransaction,
+	SolanaSignIn,
 	SolanaSignMessage,
 	SolanaSignTransaction,
 } from '@solana/wallet-standard-features';
@@ -22,6 +24,8 @@ import type {
 import { StandardConnect, StandardDisconnect, StandardEvents } from '@wallet-standard/features';
 
 import type { WalletAccount, WalletConnector, WalletConnectorMetadata, WalletSession } from '../types';
+import type { WalletCapabilities } from './capabilities';
+import { createSignInMessageText, resolveSignInMessage, type SignInInput, type SignInOutput } from './siws';
 
 export type WalletStandardConnectorMetadata = Readonly<{
 	canAutoConnect?: boolean;
@@ -35,6 +39,7 @@ export type WalletStandardConnectorMetadata = Readonly<{
 type CommitmentLike = 'confirmed' | 'finalized' | 'processed';
 
 const base58Decoder = getBase58Decoder();
+const textEncoder = new TextEncoder();
 const transactionDecoder = getTransactionDecoder();
 const transactionEncoder = getTransactionEncoder();
 
@@ -86,6 +91,7 @@ function mapCommitment(commitment: unknown): CommitmentLike | undefined {
 function toSessionAccount(walletAccount: WalletStandardAccount): WalletAccount {
 	return {
 		address: address(walletAccount.address),
+		chains: walletAccount.chains,
 		label: walletAccount.label,
 		publicKey: new Uint8Array(walletAccount.publicKey),
 	};
@@ -176,8 +182,10 @@ export function createWalletStandardConnector(
 		}
 
 		let currentAccount = getPrimaryAccount(walletAccounts);
-		let sessionAccount = toSessionAccount(currentAccount);
+		let authorizedAccounts = walletAccounts;
+		const sessionAccounts = walletAccounts.map(toSessionAccount);
 
+		const signInFeature = wallet.features[SolanaSignIn] as SolanaSignInFeature[typeof SolanaSignIn] | undefined;
 		const signMessageFeature = wallet.features[SolanaSignMessage] as
 			| SolanaSignMessageFeature[typeof SolanaSignMessage]
 			| undefined;
@@ -188,7 +196,16 @@ export function createWalletStandardConnector(
 			| SolanaSignAndSendTransactionFeature[typeof SolanaSignAndSendTransaction]
 			| undefined;
 
-		const resolvedChain = options.defaultChain ?? getChain(currentAccount);
+		/**
+		 * Picks the chain for a sign or send call: the caller's chain, then the configured default, then the
+		 * active account's first chain.
+		 *
+		 * @param chain - Chain requested by the caller, usually the client's active cluster.
+		 * @returns Chain identifier or `undefined` when none is known.
+		 */
+		const resolveChain = (chain?: string): IdentifierString | undefined =>
+			(chain as IdentifierString | undefined) ?? options.defaultChain ?? getChain(currentAccount);
+		const transactionFeature = signTransactionFeature ?? signAndSendFeature;
 
 		/**
 		 * Signs messages using the wallet standard feature when available.
@@ -206,45 +223,125 @@ export function createWalletStandardConnector(
 				}
 			: undefined;
 
+		/**
+		 * Builds a SIWS message locally and signs it with `signMessage`, for wallets that lack `solana:signIn`.
+		 *
+		 * @param input - Sign-in request fields.
+		 * @returns Promise resolving with the signed message, signature, and account that signed it.
+		 */
+		const signInWithMessage = signMessageFeature
+			? async (input: SignInInput = {}): Promise<SignInOutput> => {
+					const signer =
+						input.address === undefined
+							? currentAccount
+							: authorizedAccounts.find((account) => account.address === input.address);
+					if (!signer) {
+						throw new Error(`Wallet has not authorized account "${input.address}".`);
+					}
+					const message = textEncoder.encode(
+						createSignInMessageText(resolveSignInMessage(input, signer.address)),
+					);
+					const [output] = await signMessageFeature.signMessage({ account: signer, message });
+					return {
+						account: toSessionAccount(signer),
+						signature: output.signature,
+						signedMessage: output.signedMessage,
+					};
+				}
+			: undefined;
+
+		/**
+		 * Signs in with Solana using the wallet standard feature, falling back to {@link signInWithMessage}.
+		 *
+		 * @param input - Sign-in request fields.
+		 * @returns Promise resolving with the signed message, signature, and account that signed it.
+		 */
+		const signIn = signInFeature
+			? async (input: SignInInput = {}): Promise<SignInOutput> => {
+					const [output] = await signInFeature.signIn({ address: currentAccount.address, ...input });
+					return {
+						account: toSessionAccount(output.account),
+						signature: output.signature,
+						signedMessage: output.signedMessage,
+					};
+				}
+			: signInWithMessage;
+
+		/**
+		 * Builds a `solana:signTransaction` input for the active account.
+		 *
+		 * @param transaction - Transaction to sign.
+		 * @param config - Optional chain override for the request.
+		 * @returns Wallet Standard sign request.
+		 */
+		const toSignRequest = (
+			transaction: SendableTransaction & Transaction,
+			config?: Readonly<{ chain?: string }>,
+		) => {
+			const wireBytes = new Uint8Array(transactionEncoder.encode(transaction));
+			const chain = resolveChain(config?.chain);
+			return chain
+				? {
+						account: currentAccount,
+						chain,
+						transaction: wireBytes,
+					}
+				: {
+						account: currentAccount,
+						transaction: wireBytes,
+					};
+		};
+
 		/**
 		 * Signs transactions using the wallet standard feature when available.
 		 *
 		 * @param transaction - Transaction to sign.
+		 * @param config - Optional chain override for the request.
 		 * @returns Promise resolving with the signed transaction.
 		 */
 		const signTransaction = signTransactionFeature
-			? async (transaction: SendableTransaction & Transaction) => {
-					const wireBytes = new Uint8Array(transactionEncoder.encode(transaction));
-					const request = resolvedChain
-						? {
-								account: currentAccount,
-								chain: resolvedChain,
-								transaction: wireBytes,
-							}
-						: {
-								account: currentAccount,
-								transaction: wireBytes,
-							};
-					const [output] = await signTransactionFeature.signTransaction(request);
+			? async (transaction: SendableTransaction & Transaction, config?: Readonly<{ chain?: string }>) => {
+					const [output] = await signTransactionFeature.signTransaction(toSignRequest(transaction, config));
 					return transactionDecoder.decode(output.signedTransaction) as SendableTransaction & Transaction;
 				}
 			: undefined;
 
+		/**
+		 * Signs several transactions in one `solana:signTransaction` call, which wallets present as a single prompt.
+		 *
+		 * @param transactions - Transactions to sign.
+		 * @param config - Optional chain override for the request.
+		 * @returns Promise resolving with the signed transactions in input order.
+		 */
+		const signAllTransactions = signTransactionFeature
+			? async (
+					transactions: readonly (SendableTransaction & Transaction)[],
+					config?: Readonly<{ chain?: string }>,
+				) => {
+					const outputs = await signTransactionFeature.signTransaction(
+						...transactions.map((transaction) => toSignRequest(transaction, config)),
+					);
+					return outputs.map(
+						(output) =>
+							transactionDecoder.decode(output.signedTransaction) as SendableTransaction & Transaction,
+					);
+				}
+			: undefined;
+
 		/**
 		 * Signs and sends transactions using the wallet standard feature when available.
 		 *
 		 * @param transaction - Transaction to sign and submit.
-		 * @param config - Optional commitment override for the submission.
+		 * @param config - Optional chain and commitment overrides for the submission.
 		 * @returns Promise resolving with the submitted signature.
 		 */
 		const sendTransaction = signAndSendFeature
 			? async (
 					transaction: SendableTransaction & Transaction,
-					config?: Readonly<{ commitment?: Commitment }>,
+					config?: Readonly<{ chain?: string; commitment?: Commitment }>,
 				) => {
 					const wireBytes = new Uint8Array(transactionEncoder.encode(transaction));
-					const chain: IdentifierString =
-						options.defaultChain ?? getChain(currentAccount) ?? 'solana:mainnet-beta';
+					const chain: IdentifierString = resolveChain(config?.chain) ?? 'solana:mainnet-beta';
 					const [output] = await signAndSendFeature.signAndSendTransaction({
 						account: currentAccount,
 						chain,
@@ -267,6 +364,21 @@ export function createWalletStandardConnector(
 			await disconnectWallet(wallet);
 		}
 
+		/**
+		 * Switches the account used for signing to another authorized account.
+		 *
+		 * @param accountAddress - Address of the account to activate.
+		 * @returns The newly active session account.
+		 */
+		function selectAccount(accountAddress: Address): WalletAccount {
+			const next = authorizedAccounts.find((account) => account.address === accountAddress.toString());
+			if (!next) {
+				throw new Error(`Wallet has not authorized account "${accountAddress.toString()}".`);
+			}
+			currentAccount = next;
+			return toSessionAccount(next);
+		}
+
 		let changeUnsubscribe: (() => void) | undefined;
 		const onAccountsChanged = eventsFeature
 			? (listener: (accounts: WalletAccount[]) => void) => {
@@ -276,16 +388,33 @@ export function createWalletStandardConnector(
 							listener([]);
 							return;
 						}
-						currentAccount = accounts[0];
-						sessionAccount = toSessionAccount(currentAccount);
+						authorizedAccounts = accounts;
+						// Keep signing with the active account while the wallet still authorizes it.
+						currentAccount =
+							accounts.find((account) => account.address === currentAccount.address) ?? accounts[0];
 						listener(accounts.map(toSessionAccount));
 					});
 					return off;
 				}
 			: undefined;
 
+		const capabilities: WalletCapabilities = {
+			chains: [...new Set(walletAccounts.flatMap((account) => account.chains))].filter((chain) =>
+				chain.startsWith('solana:'),
+			),
+			signAndSendTransaction: Boolean(signAndSendFeature),
+			signIn: Boolean(signIn),
+			signMessage: Boolean(signMessageFeature),
+			signTransaction: Boolean(signTransactionFeature),
+			transactionVersions: transactionFeature
+				? (transactionFeature.supportedTransactionVersions ?? ['legacy', 0])
+				: [],
+		};
+
 		return {
-			account: sessionAccount,
+			account: sessionAccounts[0],
+			accounts: sessionAccounts,
+			capabilities,
 			connector: metadata,
 			disconnect: disconnectSession,
 			onAccountsChanged: onAccountsChanged
@@ -297,7 +426,10 @@ export function createWalletStandardConnector(
 						};
 					}
 				: undefined,
+			selectAccount,
 			sendTransaction,
+			signAllTransactions,
+			signIn,
 			signMessage,
 			signTransaction,
 		};
@@ -0,0 +1,53 @@
+'use client';
+
+import { hydrate, parseDehydratedState } from '@solana/client';
+import type { JSX, ReactNode } from 'react';
+import { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { SWRConfig, type SWRConfiguration, unstable_serialize } from 'swr';
+
+import { useSolanaClient } from './context';
+import { getSolanaRpcQueryKey } from './query';
+
+type SolanaHydrationBoundaryProps = Readonly<{
+	children: ReactNode;
+	/** Payload produced by `dehydrate` on the server. */
+	state?: string | null;
+}>;
+
+// Layout effects do not run on the server; fall back to `useEffect` there so React stays quiet.
+const useIsomorphicLayoutEffect = typeof window === 'undefined' ? useEffect : useLayoutEffect;
+
+/**
+ * Applies server-fetched data from `dehydrate` to the nearest client: accounts are written to the client store and
+ * query results seed the SWR cache until the hooks revalidate them.
+ *
+ * Place it anywhere below {@link SolanaProvider}, including inside a `Suspense` boundary that streams in later.
+ * Accounts are written in a layout effect, once per client and payload, so they show up before the browser paints.
+ */
+export function SolanaHydrationBoundary({ children, state }: SolanaHydrationBoundaryProps): JSX.Element {
+	const client = useSolanaClient();
+	const dehydrated = useMemo(() => (state ? parseDehydratedState(state) : null), [state]);
+
+	const hydratedRef = useRef<Readonly<{ client: typeof client; dehydrated: typeof dehydrated }> | null>(null);
+
+	useIsomorphicLayoutEffect(() => {
+		const last = hydratedRef.current;
+		if (!dehydrated || (last?.client === client && last.dehydrated === dehydrated)) {
+			return;
+		}
+		hydratedRef.current = { client, dehydrated };
+		hydrate(client, dehydrated);
+	}, [client, dehydrated]);
+
+	const value = useMemo<SWRConfiguration>(() => {
+		const fallback: Record<string, unknown> = {};
+		if (dehydrated) {
+			for (const { args, data, scope } of dehydrated.queries) {
+				fallback[unstable_serialize(getSolanaRpcQueryKey(scope, args, dehydrated.cluster))] = data;
+			}
+		}
+		return { fallback };
+	}, [dehydrated]);
+
+	return <SWRConfig value={value}>{children}</SWRConfig>;
+}
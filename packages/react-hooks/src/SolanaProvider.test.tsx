@@ -1,14 +1,17 @@
 // @vitest-environment jsdom
 
-import type { ClusterUrl, SerializableSolanaState, WalletConnector } from '@solana/client';
-import { serializeSolanaState } from '@solana/client';
-import type { Address } from '@solana/kit';
+import type { ClusterUrl, SerializableSolanaState, SolanaClient, WalletConnector } from '@solana/client';
+import { dehydrate, serializeSolanaState } from '@solana/client';
+import type { Address, Lamports, Signature } from '@solana/kit';
 import { render, waitFor } from '@testing-library/react';
+import { StrictMode } from 'react';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { createMockSolanaClient } from '../test/mocks';
 import { useConnectWallet, useWallet } from './hooks';
+import { useLatestBlockhash } from './queryHooks';
 import { SolanaProvider } from './SolanaProvider';
+import { useClientStore } from './useClientStore';
 
 const PHANTOM_CONNECTOR: WalletConnector = {
 	canAutoConnect: true,
@@ -31,6 +34,83 @@ vi.mock('./hooks', async () => {
 const useWalletMock = useWallet as unknown as vi.Mock;
 const useConnectWalletMock = useConnectWallet as unknown as vi.Mock;
 
+describe('SolanaProvider hydration', () => {
+	it('renders server-fetched accounts and queries before anything is fetched in the browser', async () => {
+		const address = 'So11111111111111111111111111111111111111112' as Address;
+		const cluster = {
+			commitment: 'confirmed' as const,
+			endpoint: 'https://rpc.test' as ClusterUrl,
+			status: { status: 'ready' as const },
+		};
+		const server = createMockSolanaClient({
+			state: {
+				accounts: {
+					[address]: { address, fetching: false, lamports: 42n as Lamports, lastFetchedAt: 1, slot: 3n },
+				},
+				cluster,
+			},
+		});
+		const blockhash = { context: { slot: 5n }, value: { blockhash: 'ServerHash', lastValidBlockHeight: 77n } };
+		const dehydratedState = await dehydrate(server, {
+			queries: [
+				{ args: ['latestBlockhash', null, null], fetcher: async () => blockhash, scope: 'latestBlockhash' },
+			],
+		});
+		const getLatestBlockhash = vi.fn(() => ({ send: () => new Promise(() => undefined) }));
+		const browser = createMockSolanaClient({
+			runtime: { rpc: { getLatestBlockhash } as unknown as SolanaClient['runtime']['rpc'] },
+			state: { cluster },
+		});
+
+		function Snapshot() {
+			const lamports = useClientStore((state) => state.accounts[address]?.lamports);
+			const { lastValidBlockHeight } = useLatestBlockhash();
+			return <p>{`${lamports} ${lastValidBlockHeight}`}</p>;
+		}
+
+		const { container } = render(
+			<SolanaProvider client={browser} dehydratedState={dehydratedState} walletPersistence={false}>
+				<Snapshot />
+			</SolanaProvider>,
+		);
+
+		expect(container.textContent).toBe('42 77');
+	});
+
+	it('hydrates once outside of render under StrictMode', async () => {
+		const address = 'So11111111111111111111111111111111111111112' as Address;
+		const cluster = { commitment: 'confirmed' as const, endpoint: 'https://rpc.test' as ClusterUrl };
+		const server = createMockSolanaClient({
+			state: {
+				accounts: { [address]: { address, fetching: false, lamports: 42n as Lamports, lastFetchedAt: 1 } },
+				cluster,
+			},
+		});
+		const dehydratedState = await dehydrate(server);
+		const browser = createMockSolanaClient({ state: { cluster } });
+		const setState = vi.spyOn(browser.store, 'setState');
+		const writesDuringRender: number[] = [];
+
+		function Snapshot() {
+			writesDuringRender.push(setState.mock.calls.length);
+			const lamports = useClientStore((state) => state.accounts[address]?.lamports);
+			return <p>{String(lamports)}</p>;
+		}
+
+		const { container } = render(
+			<StrictMode>
+				<SolanaProvider client={browser} dehydratedState={dehydratedState} walletPersistence={false}>
+					<Snapshot />
+				</SolanaProvider>
+			</StrictMode>,
+		);
+
+		expect(container.textContent).toBe('42');
+		expect(setState).toHaveBeenCalledTimes(1);
+		expect(writesDuringRender.slice(0, 2)).toEqual([0, 0]);
+	});
+});
+
 describe('SolanaProvider wallet persistence', () => {
 	beforeEach(() => {
 		useWalletMock.mockReset();
@@ -86,6 +166,37 @@ describe('SolanaProvider wallet persistence', () => {
 		expect(state.autoconnect).toBe(true);
 	});
 
+	it('persists pending transactions when enabled', async () => {
+		const storage = createStorage();
+		useWalletMock.mockReturnValue({ status: 'disconnected' });
+		useConnectWalletMock.mockReturnValue(vi.fn());
+		const client = createMockSolanaClient({
+			state: {
+				transactions: {
+					sig: {
+						lastUpdatedAt: 1,
+						lastValidBlockHeight: 10n,
+						signature: 'sig' as Signature,
+						status: 'sending',
+					},
+				},
+			},
+		});
+
+		render(
+			<SolanaProvider client={client} query={false} walletPersistence={{ persistTransactions: true, storage }}>
+				<div />
+			</SolanaProvider>,
+		);
+
+		await waitFor(() => expect(storage.setItem).toHaveBeenCalled());
+		const [, serialized] = storage.setItem.mock.calls.at(-1) ?? [];
+		const state = JSON.parse(serialized) as SerializableSolanaState;
+		expect(state.transactions).toEqual({
+			sig: { lastUpdatedAt: 1, lastValidBlockHeight: '10', signature: 'sig', status: 'sending' },
+		});
+	});
+
 	it('updates persisted state when the wallet disconnects after storing an id', async () => {
 		const storage = createStorage();
 		useWalletMock.mockReturnValue({
@@ -5,6 +5,7 @@ import type {
 	SerializableSolanaState,
 	SolanaClient,
 	SolanaClientConfig,
+	TabSyncOptions,
 } from '@solana/client';
 import {
 	deserializeSolanaState,
@@ -17,6 +18,7 @@ import { useEffect, useRef, useState } from 'react';
 import type { SWRConfiguration } from 'swr';
 
 import { SolanaClientProvider, useSolanaClient } from './context';
+import { SolanaHydrationBoundary } from './HydrationBoundary';
 import { useConnectWallet, useWallet } from './hooks';
 import { SolanaQueryProvider } from './QueryProvider';
 
@@ -35,6 +37,8 @@ type StorageAdapter = Readonly<{
 
 type WalletPersistenceConfig = Readonly<{
 	autoConnect?: boolean;
+	/** Persist pending transactions so they are tracked again after a reload. Defaults to `false`. */
+	persistTransactions?: boolean;
 	storage?: StorageAdapter | null;
 	storageKey?: string;
 }>;
@@ -48,7 +52,14 @@ type SolanaProviderProps = Readonly<{
 	children: ReactNode;
 	client?: SolanaClient;
 	config?: SolanaClientConfig | CreateDefaultClientOptions;
+	/** Payload from `dehydrate` with server-fetched accounts and query results. */
+	dehydratedState?: string;
 	query?: QueryLayerConfig | false;
+	/**
+	 * Keeps wallet, cluster, and transaction state in sync across tabs. Ignored when `client` is provided; pass
+	 * `tabSync` to `createClient` instead.
+	 */
+	sync?: TabSyncOptions | boolean;
 	walletPersistence?: WalletPersistenceConfig | false;
 }>;
 
@@ -58,7 +69,15 @@ type SolanaProviderProps = Readonly<{
  * Useful when you want one drop-in wrapper that handles client setup plus SWR configuration without
  * introducing any additional contexts.
  */
-export function SolanaProvider({ children, client, config, query, walletPersistence }: SolanaProviderProps) {
+export function SolanaProvider({
+	children,
+	client,
+	config,
+	dehydratedState,
+	query,
+	sync,
+	walletPersistence,
+}: SolanaProviderProps) {
 	const shouldIncludeQueryLayer = query !== false && query?.disabled !== true;
 	const queryProps: QueryLayerConfig = shouldIncludeQueryLayer && query ? query : {};
 	const persistenceConfig = walletPersistence === false ? undefined : (walletPersistence ?? {});
@@ -67,30 +86,41 @@ export function SolanaProvider({ children, client, config, query, walletPersiste
 	const persistedState = persistenceConfig
 		? readPersistedState(storage, storageKey)
 		: { legacyConnectorId: null, state: null };
-	const normalizedConfig = config ? resolveClientConfig(config) : resolveClientConfig();
+	const resolvedConfig = config ? resolveClientConfig(config) : resolveClientConfig();
+	const normalizedConfig = sync === undefined ? resolvedConfig : { ...resolvedConfig, tabSync: sync };
+	const restoredState =
+		persistedState.state && !persistenceConfig?.persistTransactions
+			? { ...persistedState.state, transactions: undefined }
+			: persistedState.state;
 	const clientConfig = persistenceConfig
-		? { ...normalizedConfig, initialState: normalizedConfig.initialState ?? persistedState.state ?? undefined }
+		? { ...normalizedConfig, initialState: normalizedConfig.initialState ?? restoredState ?? undefined }
 		: normalizedConfig;
 
+	const hydratedChildren = dehydratedState ? (
+		<SolanaHydrationBoundary state={dehydratedState}>{children}</SolanaHydrationBoundary>
+	) : (
+		children
+	);
 	const content = shouldIncludeQueryLayer ? (
 		<SolanaQueryProvider
 			config={queryProps.config}
 			resetOnClusterChange={queryProps.resetOnClusterChange}
 			suspense={queryProps.suspense}
 		>
-			{children}
+			{hydratedChildren}
 		</SolanaQueryProvider>
 	) : (
-		children
+		hydratedChildren
 	);
 
 	return (
-		<SolanaClientProvider client={client} config={clientConfig}>
+		<SolanaClientProvider client={client} config={clientConfig} dehydratedState={dehydratedState}>
 			{persistenceConfig ? (
 				<WalletPersistence
 					autoConnect={persistenceConfig.autoConnect}
-					initialState={clientConfig?.initialState ?? persistedState.state}
+					initialState={clientConfig?.initialState ?? restoredState}
 					legacyConnectorId={persistedState.legacyConnectorId}
+					persistTransactions={persistenceConfig.persistTransactions}
 					storage={storage}
 					storageKey={storageKey}
 				/>
@@ -127,6 +157,7 @@ function WalletPersistence({
 	autoConnect = true,
 	initialState = null,
 	legacyConnectorId = null,
+	persistTransactions = false,
 	storage,
 	storageKey = DEFAULT_STORAGE_KEY,
 }: WalletPersistenceProps) {
@@ -153,15 +184,19 @@ function WalletPersistence({
 	useEffect(() => {
 		const activeStorage = storageRef.current;
 		if (!activeStorage) return;
-		const unsubscribe = subscribeSolanaState(client, (state) => {
-			persistedStateRef.current = state;
-			legacyConnectorIdRef.current = null;
-			safelyWrite(() => activeStorage.setItem(storageKey, serializeSolanaState(state)));
-		});
+		const unsubscribe = subscribeSolanaState(
+			client,
+			(state) => {
+				persistedStateRef.current = state;
+				legacyConnectorIdRef.current = null;
+				safelyWrite(() => activeStorage.setItem(storageKey, serializeSolanaState(state)));
+			},
+			{ persistTransactions },
+		);
 		return () => {
 			unsubscribe();
 		};
-	}, [client, storageKey]);
+	}, [client, persistTransactions, storageKey]);
 
 	useEffect(() => {
 		persistedStateRef.current = initialState ?? persistedStateRef.current;
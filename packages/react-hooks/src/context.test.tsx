@@ -1,7 +1,8 @@
 // @vitest-environment jsdom
 
-import type { SolanaClientConfig } from '@solana/client';
-import { createClient } from '@solana/client';
+import type { ClusterUrl, SolanaClientConfig } from '@solana/client';
+import { createClient, dehydrate } from '@solana/client';
+import type { Address, Lamports } from '@solana/kit';
 import { render, renderHook } from '@testing-library/react';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
@@ -86,6 +87,33 @@ describe('SolanaClientProvider', () => {
 		expect(client.destroy).toHaveBeenCalledTimes(1);
 	});
 
+	it('hydrates a client created from config before its first render', async () => {
+		const address = 'So11111111111111111111111111111111111111112' as Address;
+		const cluster = { commitment: 'confirmed' as const, endpoint: 'http://localhost:8899' as ClusterUrl };
+		const server = createMockSolanaClient({
+			state: {
+				accounts: { [address]: { address, fetching: false, lamports: 42n as Lamports, lastFetchedAt: 1 } },
+				cluster,
+			},
+		});
+		const dehydratedState = await dehydrate(server);
+		createClientMock.mockReturnValue(createMockSolanaClient({ state: { cluster } }));
+		const rendered: unknown[] = [];
+
+		function AccountConsumer() {
+			rendered.push(useSolanaClient().store.getState().accounts[address]?.lamports);
+			return null;
+		}
+
+		render(
+			<SolanaClientProvider config={{ endpoint: cluster.endpoint }} dehydratedState={dehydratedState}>
+				<AccountConsumer />
+			</SolanaClientProvider>,
+		);
+
+		expect(rendered[0]).toBe(42n);
+	});
+
 	it('throws when useSolanaClient is used outside of a provider', () => {
 		expect(() => renderHook(() => useSolanaClient())).toThrowError(
 			'useSolanaClient must be used within a SolanaClientProvider.',
@@ -1,12 +1,13 @@
 import {
 	type CreateDefaultClientOptions,
 	createClient,
+	hydrate,
 	resolveClientConfig,
 	type SolanaClient,
 	type SolanaClientConfig,
 } from '@solana/client';
 import type { ReactNode } from 'react';
-import { createContext, useContext, useEffect, useMemo } from 'react';
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
 
 const SolanaClientContext = createContext<SolanaClient | null>(null);
 
@@ -14,6 +15,8 @@ type ProviderProps = Readonly<{
 	children: ReactNode;
 	client?: SolanaClient;
 	config?: SolanaClientConfig | CreateDefaultClientOptions;
+	/** Payload from `dehydrate` applied to a client created from `config` before it renders anything. */
+	dehydratedState?: string;
 }>;
 
 function normalizeConfig(config?: SolanaClientConfig | CreateDefaultClientOptions): SolanaClientConfig {
@@ -26,14 +29,20 @@ function normalizeConfig(config?: SolanaClientConfig | CreateDefaultClientOption
  * Supply either an existing `client` or a configuration object used to lazily
  * construct an instance via {@link createClient}.
  */
-export function SolanaClientProvider({ children, client: providedClient, config }: ProviderProps) {
+export function SolanaClientProvider({ children, client: providedClient, config, dehydratedState }: ProviderProps) {
 	const normalizedConfig = useMemo(() => normalizeConfig(config), [config]);
+	// Only the first payload seeds new clients; later payloads go through `SolanaHydrationBoundary`.
+	const [initialDehydratedState] = useState(dehydratedState);
 	const client = useMemo(() => {
 		if (providedClient) {
 			return providedClient;
 		}
-		return createClient(normalizedConfig);
-	}, [normalizedConfig, providedClient]);
+		const created = createClient(normalizedConfig);
+		if (initialDehydratedState) {
+			hydrate(created, initialDehydratedState);
+		}
+		return created;
+	}, [initialDehydratedState, normalizedConfig, providedClient]);
 
 	useEffect(() => {
 		if (providedClient) {
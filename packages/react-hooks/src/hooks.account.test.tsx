@@ -5,7 +5,7 @@ import { describe, expect, it } from 'vitest';
 import { createAccountEntry, createAddress, createLamports } from '../test/fixtures';
 import { act, renderHookWithClient, waitFor } from '../test/utils';
 
-import { useAccount, useBalance } from './hooks';
+import { useAccount, useAccounts, useBalance } from './hooks';
 
 describe('account hooks', () => {
 	it('fetches and watches an account by default', async () => {
@@ -56,6 +56,31 @@ describe('account hooks', () => {
 		expect(clientWithSkip.watchers.watchAccount).not.toHaveBeenCalled();
 	});
 
+	it('batch fetches missing accounts and watches each address', async () => {
+		const cached = createAccountEntry({ address: createAddress(5), lamports: createLamports(5) });
+		const missing = createAddress(6);
+
+		const { client, rerender, result, unmount } = renderHookWithClient(
+			() => useAccounts([cached.address, missing], { commitment: 'processed', watch: true }),
+			{ clientOptions: { state: { accounts: { [cached.address.toString()]: cached } } } },
+		);
+
+		expect(result.current).toEqual([cached, undefined]);
+		await waitFor(() => {
+			expect(client.actions.fetchAccounts).toHaveBeenCalledWith([missing], 'processed');
+		});
+		expect(client.watchers.watchAccount).toHaveBeenCalledTimes(2);
+
+		rerender();
+		expect(client.watchers.watchAccount).toHaveBeenCalledTimes(2);
+
+		const subscriptions = client.watchers.watchAccount.mock.results.map((entry) => entry.value);
+		unmount();
+		for (const subscription of subscriptions) {
+			expect(subscription.abort).toHaveBeenCalledTimes(1);
+		}
+	});
+
 	it('tracks lamport balances and watcher state', async () => {
 		const address = createAddress(3);
 		const entry = createAccountEntry({
@@ -2,7 +2,7 @@
 
 import { describe, expect, it } from 'vitest';
 
-import { createWalletSession } from '../test/fixtures';
+import { createAddress, createWalletSession } from '../test/fixtures';
 import { act, renderHookWithClient } from '../test/utils';
 
 import {
@@ -11,7 +11,10 @@ import {
 	useConnectWallet,
 	useDisconnectWallet,
 	useWallet,
+	useWalletAccounts,
 	useWalletActions,
+	useWalletCapabilities,
+	useWalletFeatureSupport,
 	useWalletSession,
 } from './hooks';
 
@@ -102,4 +105,66 @@ describe('cluster and wallet hooks', () => {
 		rerender();
 		expect(result.current).toBe(first);
 	});
+
+	it('lists authorized wallet accounts and selects the active one', () => {
+		const { client, result } = renderHookWithClient(() => useWalletAccounts());
+		expect(result.current.accounts).toEqual([]);
+		expect(result.current.account).toBeUndefined();
+
+		const primary = { address: createAddress(20), publicKey: new Uint8Array(32) };
+		const secondary = { address: createAddress(21), publicKey: new Uint8Array(32) };
+		const session = createWalletSession({ account: primary, accounts: [primary, secondary] });
+		act(() => {
+			client.store.setState((state) => ({
+				...state,
+				wallet: { connectorId: session.connector.id, session, status: 'connected' },
+			}));
+		});
+
+		expect(result.current.account).toBe(primary);
+		expect(result.current.accounts).toEqual([primary, secondary]);
+		act(() => {
+			result.current.selectAccount(secondary.address.toString());
+		});
+		expect(client.actions.selectAccount).toHaveBeenCalledWith(secondary.address);
+	});
+
+	it('lists the active account when the session omits its accounts', () => {
+		const { client, result } = renderHookWithClient(() => useWalletAccounts());
+		const session = { ...createWalletSession(), accounts: undefined };
+		act(() => {
+			client.store.setState((state) => ({
+				...state,
+				wallet: { connectorId: session.connector.id, session, status: 'connected' },
+			}));
+		});
+
+		expect(result.current.accounts).toEqual([session.account]);
+	});
+
+	it('gates on the connected wallet capabilities', () => {
+		const { client, result } = renderHookWithClient(() => ({
+			capabilities: useWalletCapabilities(),
+			canSignIn: useWalletFeatureSupport('signIn'),
+			canSignMessage: useWalletFeatureSupport('signMessage'),
+		}));
+		expect(result.current).toEqual({ capabilities: undefined, canSignIn: false, canSignMessage: false });
+
+		const session = createWalletSession();
+		act(() => {
+			client.store.setState((state) => ({
+				...state,
+				wallet: { connectorId: session.connector.id, session, status: 'connected' },
+			}));
+		});
+
+		expect(result.current.capabilities).toMatchObject({
+			signAndSendTransaction: true,
+			signIn: false,
+			signMessage: true,
+			signTransaction: true,
+		});
+		expect(result.current.canSignIn).toBe(false);
+		expect(result.current.canSignMessage).toBe(true);
+	});
 });
@@ -4,7 +4,7 @@ import type { SolanaClient } from '@solana/client';
 import { describe, expect, it, vi } from 'vitest';
 
 import { createAddress } from '../test/fixtures';
-import { renderHookWithClient, waitFor } from '../test/utils';
+import { act, renderHookWithClient, waitFor } from '../test/utils';
 
 import { useLatestBlockhash, useProgramAccounts, useSimulateTransaction } from './queryHooks';
 
@@ -80,6 +80,79 @@ describe('useProgramAccounts', () => {
 			filters: [{ dataSize: 0 }],
 		});
 	});
+
+	it('applies program account notifications to the cached result when watching', async () => {
+		const programAddress = createAddress(5);
+		const existing = { account: { data: ['', 'base64'], lamports: 1n }, pubkey: createAddress(6) };
+		const getProgramAccounts = vi.fn(() => ({ send: vi.fn().mockResolvedValue([existing]) }));
+		const rpc = createMockRpc({ getProgramAccounts } as Partial<SolanaClient['runtime']['rpc']>);
+
+		const { client, result, rerender, unmount } = renderHookWithClient(
+			() =>
+				useProgramAccounts(programAddress, {
+					config: { encoding: 'base64', filters: [{ dataSize: 0n }] },
+					watch: true,
+				}),
+			{ clientOptions: { runtime: { rpc } } },
+		);
+		await waitFor(() => {
+			expect(result.current.accounts).toHaveLength(1);
+		});
+		rerender();
+
+		expect(client.watchers.watchProgramAccounts).toHaveBeenCalledTimes(1);
+		expect(client.watchers.watchProgramAccounts).toHaveBeenCalledWith(
+			{ commitment: undefined, encoding: 'base64', filters: [{ dataSize: 0n }], programId: programAddress },
+			expect.any(Function),
+		);
+		const listener = client.watchers.watchProgramAccounts.mock.calls[0][1];
+		const updated = { ...existing.account, lamports: 2n };
+		act(() => {
+			listener({ account: updated as never, pubkey: existing.pubkey, slot: 3n });
+			listener({ account: updated as never, pubkey: createAddress(7), slot: 3n });
+		});
+		await waitFor(() => {
+			expect(result.current.accounts).toHaveLength(2);
+		});
+		expect(result.current.accounts[0]).toEqual({ account: updated, pubkey: existing.pubkey });
+
+		const subscription = client.watchers.watchProgramAccounts.mock.results[0]?.value;
+		unmount();
+		expect(subscription?.abort).toHaveBeenCalledTimes(1);
+	});
+
+	it('fetches and watches with the same default encoding', async () => {
+		const programAddress = createAddress(5);
+		const existing = { account: { data: ['', 'base64'], lamports: 1n }, pubkey: createAddress(6) };
+		const getProgramAccounts = vi.fn(() => ({ send: vi.fn().mockResolvedValue([existing]) }));
+		const rpc = createMockRpc({ getProgramAccounts } as Partial<SolanaClient['runtime']['rpc']>);
+
+		const { client, result } = renderHookWithClient(() => useProgramAccounts(programAddress, { watch: true }), {
+			clientOptions: { runtime: { rpc } },
+		});
+		await waitFor(() => {
+			expect(result.current.accounts).toHaveLength(1);
+		});
+
+		expect(getProgramAccounts).toHaveBeenCalledWith(expect.anything(), {
+			commitment: 'confirmed',
+			encoding: 'base64',
+		});
+		expect(client.watchers.watchProgramAccounts).toHaveBeenCalledWith(
+			expect.objectContaining({ encoding: 'base64' }),
+			expect.any(Function),
+		);
+		const listener = client.watchers.watchProgramAccounts.mock.calls[0][1];
+		const added = { data: ['AQ==', 'base64'], lamports: 2n };
+		act(() => {
+			listener({ account: added as never, pubkey: createAddress(7), slot: 3n });
+		});
+		await waitFor(() => {
+			expect(result.current.accounts).toHaveLength(2);
+		});
+		const [fetched, upserted] = result.current.accounts as unknown as (typeof existing)[];
+		expect(upserted.account.data[1]).toBe(fetched.account.data[1]);
+	});
 });
 
 describe('useSimulateTransaction', () => {
@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+
+import type { Signature } from '@solana/kit';
+import { describe, expect, it } from 'vitest';
+
+import { createAddress } from '../test/fixtures';
+import { act, renderHookWithClient } from '../test/utils';
+
+import { useLogs, useRoot, useSlot } from './hooks';
+
+describe('subscription hooks', () => {
+	it('streams logs for a mentions filter and keeps the most recent entries', () => {
+		const mentions = createAddress(1);
+		const { client, result, unmount } = renderHookWithClient(() =>
+			useLogs({ commitment: 'processed', maxEntries: 2, mentions }),
+		);
+
+		expect(client.watchers.watchLogs).toHaveBeenCalledWith(
+			{ commitment: 'processed', mentions },
+			expect.any(Function),
+		);
+		const listener = client.watchers.watchLogs.mock.calls[0][1];
+		const notifications = [1, 2, 3].map((index) => ({
+			err: null,
+			logs: [`log ${index}`],
+			signature: `sig-${index}` as Signature,
+			slot: BigInt(index),
+		}));
+		act(() => {
+			for (const notification of notifications) {
+				listener(notification);
+			}
+			client.store.setState((state) => ({
+				...state,
+				subscriptions: {
+					...state.subscriptions,
+					logs: { [mentions.toString()]: { status: 'active' } },
+				},
+			}));
+		});
+
+		expect(result.current.logs).toEqual(notifications.slice(1));
+		expect(result.current.status).toEqual({ status: 'active' });
+
+		const subscription = client.watchers.watchLogs.mock.results[0]?.value;
+		unmount();
+		expect(subscription?.abort).toHaveBeenCalledTimes(1);
+	});
+
+	it('tracks the latest slot and root', () => {
+		const { client, result } = renderHookWithClient(() => ({ root: useRoot(), slot: useSlot() }));
+		const slotNotification = { parent: 9n, root: 1n, slot: 10n };
+
+		act(() => {
+			client.watchers.watchSlot.mock.calls[0][0](slotNotification);
+			client.watchers.watchRoot.mock.calls[0][0](8n);
+		});
+
+		expect(result.current.slot.slot).toEqual(slotNotification);
+		expect(result.current.root.root).toBe(8n);
+	});
+
+	it('does not subscribe when skipped', () => {
+		const { client, result } = renderHookWithClient(() => ({
+			logs: useLogs({ skip: true }),
+			root: useRoot({ skip: true }),
+			slot: useSlot({ skip: true }),
+		}));
+
+		expect(client.watchers.watchLogs).not.toHaveBeenCalled();
+		expect(client.watchers.watchRoot).not.toHaveBeenCalled();
+		expect(client.watchers.watchSlot).not.toHaveBeenCalled();
+		expect(result.current.logs).toEqual({ logs: [], status: undefined });
+	});
+});
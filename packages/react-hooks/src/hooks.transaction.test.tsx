@@ -67,6 +67,34 @@ describe('useTransactionPool.prepareAndSend', () => {
 	});
 });
 
+describe('useTransactionPool expiry', () => {
+	it('re-prepares an expired transaction before sending and exposes the refreshed state', async () => {
+		const instructions = [createInstruction(5)];
+		const { client, result } = renderHookWithClient(() =>
+			useTransactionPool({ instructions, reprepareOnExpiry: true }),
+		);
+		const helper = client.helpers.transaction;
+		helper.checkExpiry.mockResolvedValueOnce({ blockHeight: 10n, expired: true });
+
+		let previous: Awaited<ReturnType<typeof result.current.prepare>> | undefined;
+		await act(async () => {
+			previous = await result.current.prepare();
+		});
+		await act(async () => {
+			await result.current.send();
+		});
+
+		expect(helper.prepare).toHaveBeenCalledTimes(2);
+		expect(helper.send).toHaveBeenCalledWith(result.current.prepared, {});
+		expect(result.current.expiryState).toEqual({
+			prepared: result.current.prepared,
+			previous,
+			status: 'refreshed',
+		});
+		expect(result.current.sendStatus).toBe('success');
+	});
+});
+
 describe('useSendTransaction', () => {
 	it('calls prepareAndSend and tracks status', async () => {
 		const instructions = [createInstruction(4)];
@@ -13,11 +13,14 @@ import {
 	createStakeController,
 	createTransactionPoolController,
 	deriveConfirmationStatus,
+	getWalletCapabilities,
 	type LatestBlockhashCache,
+	type LogsNotification,
 	type NonceAccountData,
 	normalizeSignature,
 	SIGNATURE_STATUS_TIMEOUT_MS,
 	type SignatureLike,
+	type SlotNotification,
 	type SolanaClient,
 	type SolTransferHelper,
 	type SolTransferInput,
@@ -31,10 +34,15 @@ import {
 	type StakeHelper,
 	type StakeInput,
 	type StakeSendOptions,
+	type SubscriptionStatus,
+	supportsWalletFeature,
+	type TransactionExpiry,
 	type TransactionHelper,
 	type TransactionInstructionInput,
 	type TransactionInstructionList,
+	type TransactionPoolCheckExpiryOptions,
 	type TransactionPoolController,
+	type TransactionPoolExpiryState,
 	type TransactionPoolPrepareAndSendOptions,
 	type TransactionPoolPrepareOptions,
 	type TransactionPoolSendOptions,
@@ -45,12 +53,15 @@ import {
 	toAddress,
 	type UnstakeInput,
 	type UnstakeSendOptions,
+	type WalletAccount,
+	type WalletCapabilities,
+	type WalletFeature,
 	type WalletSession,
 	type WalletStatus,
 	type WithdrawInput,
 	type WithdrawSendOptions,
 } from '@solana/client';
-import type { Commitment, Lamports, Signature } from '@solana/kit';
+import type { Address, Commitment, Lamports, Signature } from '@solana/kit';
 import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import useSWR, { type BareFetcher, type SWRConfiguration } from 'swr';
 
@@ -87,6 +98,24 @@ type UseBalanceOptions = Readonly<{
 }> &
 	UseAccountOptions;
 
+type UseLogsOptions = Readonly<{
+	commitment?: Commitment;
+	/** Number of most recent notifications to keep. Defaults to 50. */
+	maxEntries?: number;
+	mentions?: AddressLike;
+	skip?: boolean;
+}>;
+
+type UseSlotOptions = Readonly<{
+	skip?: boolean;
+}>;
+
+type UseRootOptions = UseSlotOptions;
+
+const DEFAULT_LOGS_MAX_ENTRIES = 50;
+
+const NO_WALLET_ACCOUNTS: readonly WalletAccount[] = [];
+
 function createClusterSelector(): (state: ClientState) => ClusterState {
 	return (state) => state.cluster;
 }
@@ -99,6 +128,14 @@ function createWalletSelector(): (state: ClientState) => WalletStatus {
 	return (state) => state.wallet;
 }
 
+function createSubscriptionStatusSelector(kind: keyof ClientState['subscriptions'], key?: string) {
+	return (state: ClientState): SubscriptionStatus | undefined => (key ? state.subscriptions[kind][key] : undefined);
+}
+
+function selectAccounts(state: ClientState): ClientState['accounts'] {
+	return state.accounts;
+}
+
 function createAccountSelector(key?: string) {
 	return (state: ClientState): AccountCacheEntry | undefined => (key ? state.accounts[key] : undefined);
 }
@@ -211,6 +248,63 @@ export function useWalletSession(): WalletSession | undefined {
 	return undefined;
 }
 
+/**
+ * List the accounts the connected wallet authorized and switch the one used for signing.
+ *
+ * @example
+ * ```ts
+ * const { account, accounts, selectAccount } = useWalletAccounts();
+ * selectAccount(accounts[1].address);
+ * ```
+ */
+export function useWalletAccounts(): Readonly<{
+	account?: WalletAccount;
+	accounts: readonly WalletAccount[];
+	selectAccount(address: AddressLike): WalletAccount;
+}> {
+	const client = useSolanaClient();
+	const session = useWalletSession();
+	const selectAccount = useCallback(
+		(address: AddressLike) => client.actions.selectAccount(toAddress(address)),
+		[client],
+	);
+	return useMemo(
+		() => ({
+			account: session?.account,
+			accounts: session ? (session.accounts ?? [session.account]) : NO_WALLET_ACCOUNTS,
+			selectAccount,
+		}),
+		[selectAccount, session],
+	);
+}
+
+/**
+ * Describe what the connected wallet supports so UI can hide or disable actions it cannot perform.
+ *
+ * @example
+ * ```ts
+ * const capabilities = useWalletCapabilities();
+ * const canSignIn = capabilities?.signIn ?? false;
+ * ```
+ */
+export function useWalletCapabilities(): WalletCapabilities | undefined {
+	const session = useWalletSession();
+	return useMemo(() => (session ? getWalletCapabilities(session) : undefined), [session]);
+}
+
+/**
+ * Whether the connected wallet supports a feature. Always `false` while disconnected.
+ *
+ * @example
+ * ```ts
+ * const canSignMessages = useWalletFeatureSupport('signMessage');
+ * ```
+ */
+export function useWalletFeatureSupport(feature: WalletFeature): boolean {
+	const session = useWalletSession();
+	return session ? supportsWalletFeature(session, feature) : false;
+}
+
 /**
  * Access the headless client actions (setCluster, fetchAccount, connectWallet, etc.).
  *
@@ -608,14 +702,18 @@ export function useSplToken(
 
 /**
  * Subscribe to the account cache for a given address, optionally triggering fetch & watch helpers.
+ * Pass the decoded type as a generic to type the `decoded` field populated by the client's decoder registry.
  *
  * @example
  * ```ts
- * const account = useAccount(pubkey, { watch: true });
- * const lamports = account?.lamports ?? null;
+ * const account = useAccount<DecodedTokenAccount>(pubkey, { watch: true });
+ * const amount = account?.decoded?.data.amount ?? null;
  * ```
  */
-export function useAccount(addressLike?: AddressLike, options: UseAccountOptions = {}): AccountCacheEntry | undefined {
+export function useAccount<TDecoded = unknown>(
+	addressLike?: AddressLike,
+	options: UseAccountOptions = {},
+): AccountCacheEntry<TDecoded> | undefined {
 	const client = useSolanaClient();
 	const shouldSkip = options.skip ?? !addressLike;
 	const address = useMemo(() => {
@@ -644,6 +742,8 @@ export function useAccount(addressLike?: AddressLike, options: UseAccountOptions
 		if (!address) {
 			return;
 		}
+		// Reading through the client keeps displayed accounts at the recently used end of the cache.
+		client.actions.getAccount(address);
 		const commitment = options.commitment;
 		if (options.fetch !== false && account === undefined) {
 			void client.actions.fetchAccount(address, commitment).catch(() => undefined);
@@ -657,7 +757,74 @@ export function useAccount(addressLike?: AddressLike, options: UseAccountOptions
 		return undefined;
 	}, [account, address, client, options.commitment, options.fetch, options.watch]);
 
-	return account;
+	return account as AccountCacheEntry<TDecoded> | undefined;
+}
+
+/**
+ * Read many accounts from the cache. Missing accounts are fetched with batched `getMultipleAccounts` calls.
+ *
+ * @example
+ * ```ts
+ * const [mint, tokenAccount] = useAccounts([mintAddress, tokenAccountAddress], { watch: true });
+ * ```
+ */
+export function useAccounts<TDecoded = unknown>(
+	addressLikes?: readonly AddressLike[],
+	options: UseAccountOptions = {},
+): readonly (AccountCacheEntry<TDecoded> | undefined)[] {
+	const client = useSolanaClient();
+	const shouldSkip = options.skip ?? !addressLikes?.length;
+	const nextAddresses = shouldSkip || !addressLikes ? [] : addressLikes.map((addressLike) => toAddress(addressLike));
+	// Address lists are usually passed inline, so only refetch and resubscribe when their contents change.
+	const addressesKey = nextAddresses.join(',');
+	const addressesRef = useRef<Readonly<{ key: string; value: readonly Address[] }>>(undefined);
+	if (addressesRef.current?.key !== addressesKey) {
+		addressesRef.current = { key: addressesKey, value: nextAddresses };
+	}
+	const addresses = addressesRef.current.value;
+	const cache = useClientStore(selectAccounts);
+	const accounts = useMemo(() => addresses.map((address) => cache[address.toString()]), [addresses, cache]);
+	const missing = useMemo(() => addresses.filter((_, index) => accounts[index] === undefined), [accounts, addresses]);
+	const fetchEnabled = options.fetch !== false && addresses.length > 0;
+
+	useSuspenseFetcher({
+		enabled: fetchEnabled,
+		fetcher: () => client.actions.fetchAccounts(addresses, options.commitment),
+		key: addressesKey || null,
+		ready: missing.length === 0,
+	});
+
+	useEffect(() => {
+		// Reading through the client keeps displayed accounts at the recently used end of the cache.
+		for (const account of accounts) {
+			if (account) {
+				client.actions.getAccount(account.address);
+			}
+		}
+	}, [accounts, client]);
+
+	useEffect(() => {
+		if (fetchEnabled && missing.length > 0) {
+			void client.actions.fetchAccounts(missing, options.commitment).catch(() => undefined);
+		}
+	}, [client, fetchEnabled, missing, options.commitment]);
+
+	useEffect(() => {
+		if (!options.watch || addresses.length === 0) {
+			return;
+		}
+		const commitment = options.commitment;
+		const subscriptions = addresses.map((address) =>
+			client.watchers.watchAccount({ address, commitment }, () => undefined),
+		);
+		return () => {
+			for (const subscription of subscriptions) {
+				subscription.abort();
+			}
+		};
+	}, [addresses, client, options.commitment, options.watch]);
+
+	return accounts as readonly (AccountCacheEntry<TDecoded> | undefined)[];
 }
 
 /**
@@ -745,9 +912,111 @@ export function useBalance(
 	);
 }
 
+/**
+ * Stream transaction logs, optionally limited to transactions that mention an address.
+ *
+ * @example
+ * ```ts
+ * const { logs, status } = useLogs({ mentions: programId });
+ * ```
+ */
+export function useLogs(options: UseLogsOptions = {}): Readonly<{
+	logs: readonly LogsNotification[];
+	status: SubscriptionStatus | undefined;
+}> {
+	const { commitment, maxEntries = DEFAULT_LOGS_MAX_ENTRIES, mentions: mentionsLike, skip = false } = options;
+	const client = useSolanaClient();
+	const mentions = useMemo(() => (mentionsLike ? toAddress(mentionsLike) : undefined), [mentionsLike]);
+	const selector = useMemo(
+		() => createSubscriptionStatusSelector('logs', skip ? undefined : (mentions?.toString() ?? 'all')),
+		[mentions, skip],
+	);
+	const status = useClientStore(selector);
+	const [logs, setLogs] = useState<readonly LogsNotification[]>([]);
+
+	useEffect(() => {
+		setLogs([]);
+		if (skip) {
+			return;
+		}
+		const subscription = client.watchers.watchLogs({ commitment, mentions }, (notification) => {
+			setLogs((current) => [...current, notification].slice(-maxEntries));
+		});
+		return () => {
+			subscription.abort();
+		};
+	}, [client, commitment, maxEntries, mentions, skip]);
+
+	return useMemo(() => ({ logs, status }), [logs, status]);
+}
+
+/**
+ * Track the latest slot processed by the connected validator.
+ *
+ * @example
+ * ```ts
+ * const { slot } = useSlot();
+ * ```
+ */
+export function useSlot(options: UseSlotOptions = {}): Readonly<{
+	slot: SlotNotification | null;
+	status: SubscriptionStatus | undefined;
+}> {
+	const { skip = false } = options;
+	const client = useSolanaClient();
+	const selector = useMemo(() => createSubscriptionStatusSelector('slot', skip ? undefined : 'slot'), [skip]);
+	const status = useClientStore(selector);
+	const [slot, setSlot] = useState<SlotNotification | null>(null);
+
+	useEffect(() => {
+		if (skip) {
+			return;
+		}
+		const subscription = client.watchers.watchSlot(setSlot);
+		return () => {
+			subscription.abort();
+		};
+	}, [client, skip]);
+
+	return useMemo(() => ({ slot, status }), [slot, status]);
+}
+
+/**
+ * Track the latest root slot set by the connected validator.
+ *
+ * @example
+ * ```ts
+ * const { root } = useRoot();
+ * ```
+ */
+export function useRoot(options: UseRootOptions = {}): Readonly<{
+	root: bigint | null;
+	status: SubscriptionStatus | undefined;
+}> {
+	const { skip = false } = options;
+	const client = useSolanaClient();
+	const selector = useMemo(() => createSubscriptionStatusSelector('root', skip ? undefined : 'root'), [skip]);
+	const status = useClientStore(selector);
+	const [root, setRoot] = useState<bigint | null>(null);
+
+	useEffect(() => {
+		if (skip) {
+			return;
+		}
+		const subscription = client.watchers.watchRoot(setRoot);
+		return () => {
+			subscription.abort();
+		};
+	}, [client, skip]);
+
+	return useMemo(() => ({ root, status }), [root, status]);
+}
+
 type UseTransactionPoolConfig = Readonly<{
 	instructions?: TransactionInstructionList;
 	latestBlockhash?: UseLatestBlockhashParameters;
+	/** Prepare expired transactions again with a fresh blockhash when sending, prompting signers again. */
+	reprepareOnExpiry?: boolean;
 }>;
 
 type UseTransactionPoolPrepareOptions = TransactionPoolPrepareOptions;
@@ -774,7 +1043,9 @@ type TransactionSignature = Signature;
 export function useTransactionPool(config: UseTransactionPoolConfig = {}): Readonly<{
 	addInstruction(instruction: TransactionInstructionInput): void;
 	addInstructions(instructionSet: TransactionInstructionList): void;
+	checkExpiry(options?: TransactionPoolCheckExpiryOptions): Promise<TransactionExpiry>;
 	clearInstructions(): void;
+	expiryState: TransactionPoolExpiryState;
 	instructions: TransactionInstructionList;
 	isPreparing: boolean;
 	isSending: boolean;
@@ -784,6 +1055,7 @@ export function useTransactionPool(config: UseTransactionPoolConfig = {}): Reado
 	prepareStatus: AsyncState<TransactionPrepared>['status'];
 	removeInstruction(index: number): void;
 	replaceInstructions(instructionSet: TransactionInstructionList): void;
+	reprepare(options?: Readonly<{ abortSignal?: AbortSignal }>): Promise<TransactionPrepared>;
 	reset(): void;
 	send(options?: UseTransactionPoolSendOptions): Promise<TransactionSignature>;
 	sendError: unknown;
@@ -808,14 +1080,16 @@ export function useTransactionPool(config: UseTransactionPoolConfig = {}): Reado
 		config.latestBlockhash?.refreshInterval ??
 		(typeof swrRefreshInterval === 'number' ? swrRefreshInterval : undefined);
 	const blockhashMaxAgeMs = blockhashRefreshInterval ?? 30_000;
+	const reprepareOnExpiry = config.reprepareOnExpiry ?? false;
 	const controller = useMemo<TransactionPoolController>(
 		() =>
 			createTransactionPoolController({
 				blockhashMaxAgeMs,
 				helper,
 				initialInstructions,
+				reprepareOnExpiry,
 			}),
-		[blockhashMaxAgeMs, helper, initialInstructions],
+		[blockhashMaxAgeMs, helper, initialInstructions, reprepareOnExpiry],
 	);
 	const latestBlockhash = useLatestBlockhash(config.latestBlockhash);
 
@@ -852,11 +1126,18 @@ export function useTransactionPool(config: UseTransactionPoolConfig = {}): Reado
 		controller.getSendState,
 		controller.getSendState,
 	);
+	const expiryState = useSyncExternalStore<TransactionPoolExpiryState>(
+		controller.subscribeExpiryState,
+		controller.getExpiryState,
+		controller.getExpiryState,
+	);
 
 	return {
 		addInstruction: controller.addInstruction,
 		addInstructions: controller.addInstructions,
+		checkExpiry: controller.checkExpiry,
 		clearInstructions: controller.clearInstructions,
+		expiryState,
 		instructions,
 		isPreparing: prepareState.status === 'loading',
 		isSending: sendState.status === 'loading',
@@ -866,6 +1147,7 @@ export function useTransactionPool(config: UseTransactionPoolConfig = {}): Reado
 		prepareStatus: prepareState.status,
 		removeInstruction: controller.removeInstruction,
 		replaceInstructions: controller.replaceInstructions,
+		reprepare: controller.reprepare,
 		reset: controller.reset,
 		send: controller.send,
 		sendError: sendState.error ?? null,
@@ -1206,9 +1488,21 @@ export function useNonceAccount(
 export type UseAccountParameters = Readonly<{ address?: AddressLike; options?: UseAccountOptions }>;
 export type UseAccountReturnType = ReturnType<typeof useAccount>;
 
+export type UseAccountsParameters = Readonly<{ addresses?: readonly AddressLike[]; options?: UseAccountOptions }>;
+export type UseAccountsReturnType = ReturnType<typeof useAccounts>;
+
 export type UseBalanceParameters = Readonly<{ address?: AddressLike; options?: UseBalanceOptions }>;
 export type UseBalanceReturnType = ReturnType<typeof useBalance>;
 
+export type UseLogsParameters = Readonly<{ options?: UseLogsOptions }>;
+export type UseLogsReturnType = ReturnType<typeof useLogs>;
+
+export type UseRootParameters = Readonly<{ options?: UseRootOptions }>;
+export type UseRootReturnType = ReturnType<typeof useRoot>;
+
+export type UseSlotParameters = Readonly<{ options?: UseSlotOptions }>;
+export type UseSlotReturnType = ReturnType<typeof useSlot>;
+
 export type UseClusterStateParameters = undefined;
 export type UseClusterStateReturnType = ReturnType<typeof useClusterState>;
 
@@ -1244,6 +1538,15 @@ export type UseTransactionPoolReturnType = ReturnType<typeof useTransactionPool>
 export type UseWalletParameters = undefined;
 export type UseWalletReturnType = ReturnType<typeof useWallet>;
 
+export type UseWalletAccountsParameters = undefined;
+export type UseWalletAccountsReturnType = ReturnType<typeof useWalletAccounts>;
+
+export type UseWalletCapabilitiesParameters = undefined;
+export type UseWalletCapabilitiesReturnType = ReturnType<typeof useWalletCapabilities>;
+
+export type UseWalletFeatureSupportParameters = Readonly<{ feature: WalletFeature }>;
+export type UseWalletFeatureSupportReturnType = ReturnType<typeof useWalletFeatureSupport>;
+
 export type UseWalletSessionParameters = undefined;
 export type UseWalletSessionReturnType = ReturnType<typeof useWalletSession>;
 
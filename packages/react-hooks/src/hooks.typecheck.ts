@@ -1,4 +1,4 @@
-import type { ClientState, SignatureLike } from '@solana/client';
+import type { ClientState, DecodedTokenAccount, SignatureLike } from '@solana/client';
 
 import type {
 	UseClientStoreParameters,
@@ -17,6 +17,7 @@ import type {
 	UseWalletActionsParameters,
 	UseWalletParameters,
 	UseWalletSessionParameters,
+	useAccount,
 } from './index';
 
 type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
@@ -54,3 +55,6 @@ export type UseClientStoreReturnSelector = Expect<Equal<UseClientStoreReturnType
 export type UseSignatureStatusParametersMatch = Expect<
 	Equal<Pick<UseSignatureStatusParameters, 'signature'>, Readonly<{ signature?: SignatureLike }>>
 >;
+export type UseAccountDecodedMatch = Expect<
+	Equal<NonNullable<ReturnType<typeof useAccount<DecodedTokenAccount>>>['decoded'], DecodedTokenAccount | undefined>
+>;
@@ -7,10 +7,13 @@ export type {
 	UseSolanaClientReturnType,
 } from './context';
 export { SolanaClientProvider, useSolanaClient } from './context';
+export { SolanaHydrationBoundary } from './HydrationBoundary';
 export type {
 	SignatureWaitStatus,
 	UseAccountParameters,
 	UseAccountReturnType,
+	UseAccountsParameters,
+	UseAccountsReturnType,
 	UseBalanceParameters,
 	UseBalanceReturnType,
 	UseClusterStateParameters,
@@ -21,15 +24,21 @@ export type {
 	UseConnectWalletReturnType,
 	UseDisconnectWalletParameters,
 	UseDisconnectWalletReturnType,
+	UseLogsParameters,
+	UseLogsReturnType,
 	UseLookupTableParameters,
 	UseLookupTableReturnType,
 	UseNonceAccountParameters,
 	UseNonceAccountReturnType,
+	UseRootParameters,
+	UseRootReturnType,
 	UseSendTransactionParameters,
 	UseSendTransactionReturnType,
 	UseSignatureStatusOptions,
 	UseSignatureStatusParameters,
 	UseSignatureStatusReturnType,
+	UseSlotParameters,
+	UseSlotReturnType,
 	UseSolTransferParameters,
 	UseSolTransferReturnType,
 	UseSplTokenParameters,
@@ -39,8 +48,14 @@ export type {
 	UseWaitForSignatureOptions,
 	UseWaitForSignatureParameters,
 	UseWaitForSignatureReturnType,
+	UseWalletAccountsParameters,
+	UseWalletAccountsReturnType,
 	UseWalletActionsParameters,
 	UseWalletActionsReturnType,
+	UseWalletCapabilitiesParameters,
+	UseWalletCapabilitiesReturnType,
+	UseWalletFeatureSupportParameters,
+	UseWalletFeatureSupportReturnType,
 	UseWalletParameters,
 	UseWalletReturnType,
 	UseWalletSessionParameters,
@@ -48,22 +63,29 @@ export type {
 } from './hooks';
 export {
 	useAccount,
+	useAccounts,
 	useBalance,
 	useClusterState,
 	useClusterStatus,
 	useConnectWallet,
 	useDisconnectWallet,
+	useLogs,
 	useLookupTable,
 	useNonceAccount,
+	useRoot,
 	useSendTransaction,
 	useSignatureStatus,
+	useSlot,
 	useSolTransfer,
 	useSplToken,
 	useStake,
 	useTransactionPool,
 	useWaitForSignature,
 	useWallet,
+	useWalletAccounts,
 	useWalletActions,
+	useWalletCapabilities,
+	useWalletFeatureSupport,
 	useWalletSession,
 } from './hooks';
 export { SolanaQueryProvider } from './QueryProvider';
@@ -8,6 +8,11 @@ import { useClientStore } from './useClientStore';
 
 const QUERY_NAMESPACE = '@solana/react-hooks';
 
+type QueryCluster = Readonly<{
+	commitment: string;
+	endpoint: string;
+}>;
+
 export type QueryStatus = 'error' | 'idle' | 'loading' | 'success';
 
 export type UseSolanaRpcQueryOptions<Data> = Readonly<{
@@ -28,6 +33,18 @@ export type SolanaQueryResult<Data> = Readonly<{
 	status: QueryStatus;
 }>;
 
+/**
+ * Builds the SWR key {@link useSolanaRpcQuery} uses for a query on the given cluster.
+ *
+ * @param scope - Namespace label for the query key.
+ * @param args - Additional key params that uniquely identify the query.
+ * @param cluster - Cluster the query runs against.
+ * @returns SWR key.
+ */
+export function getSolanaRpcQueryKey(scope: string, args: readonly unknown[], cluster: QueryCluster) {
+	return [QUERY_NAMESPACE, scope, cluster.endpoint, cluster.commitment, ...args] as const;
+}
+
 /**
  * Low-level RPC query helper that scopes SWR keys to the active cluster and exposes a Solana-friendly
  * status shape. Prefer this when you need custom fetch logic beyond the built-in hooks.
@@ -57,6 +74,8 @@ export function useSolanaRpcQuery<Data>(
 	const providerSuspensePreference = useQuerySuspensePreference();
 	const suspenseEnabled = !disabled && Boolean(providerSuspensePreference);
 	const swrOptions: SWRConfiguration<Data, unknown, BareFetcher<Data>> = {
+		// RPC retries already happen in the client transport when a retry policy is configured.
+		...(client.config.retry ? { shouldRetryOnError: false } : {}),
 		...(swr ?? {}),
 		suspense: suspenseEnabled,
 	};
@@ -65,7 +84,7 @@ export function useSolanaRpcQuery<Data>(
 		if (disabled) {
 			return null;
 		}
-		return [QUERY_NAMESPACE, scope, cluster.endpoint, cluster.commitment, ...args] as const;
+		return getSolanaRpcQueryKey(scope, args, { commitment: cluster.commitment, endpoint: cluster.endpoint });
 	}, [cluster.commitment, cluster.endpoint, args, scope, disabled]);
 
 	const swrResponse = useSWR<Data>(key, () => fetcher(client), swrOptions);
@@ -1,4 +1,10 @@
-import { type AddressLike, type SolanaClient, toAddress } from '@solana/client';
+import {
+	type AddressLike,
+	type ProgramAccountNotification,
+	type SolanaClient,
+	stableStringify,
+	toAddress,
+} from '@solana/client';
 import {
 	type Base64EncodedWireTransaction,
 	type Commitment,
@@ -6,8 +12,9 @@ import {
 	type SendableTransaction,
 	type Transaction,
 } from '@solana/kit';
-import { useCallback, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
 
+import { useSolanaClient } from './context';
 import type { SolanaQueryResult, UseSolanaRpcQueryOptions } from './query';
 import { useSolanaRpcQuery } from './query';
 import { getLatestBlockhashKey, getProgramAccountsKey, getSimulateTransactionKey } from './queryKeys';
@@ -20,6 +27,7 @@ type LatestBlockhashResponse = Awaited<ReturnType<LatestBlockhashPlan['send']>>;
 type ProgramAccountsPlan = ReturnType<RpcInstance['getProgramAccounts']>;
 type ProgramAccountsConfig = Parameters<RpcInstance['getProgramAccounts']>[1];
 type ProgramAccountsResponse = Awaited<ReturnType<ProgramAccountsPlan['send']>>;
+type ProgramAccountsFilters = NonNullable<ProgramAccountsConfig>['filters'];
 
 type SimulateTransactionPlan = ReturnType<RpcInstance['simulateTransaction']>;
 type SimulateTransactionConfig = Parameters<RpcInstance['simulateTransaction']>[1];
@@ -96,6 +104,8 @@ export type UseProgramAccountsParameters = Readonly<{
 	disabled?: boolean;
 	programAddress?: AddressLike;
 	swr?: UseSolanaRpcQueryOptions<ProgramAccountsResponse>['swr'];
+	/** Keep the result in sync with `programNotifications` for the same program, encoding and filters. */
+	watch?: boolean;
 }>;
 
 export type UseProgramAccountsReturnType = SolanaQueryResult<ProgramAccountsResponse> &
@@ -105,7 +115,9 @@ export type UseProgramAccountsReturnType = SolanaQueryResult<ProgramAccountsResp
 
 /**
  * Fetch accounts owned by a program, keyed by the program address. The query is disabled until a
- * program address is provided, and respects both explicit and client default commitments.
+ * program address is provided, and respects both explicit and client default commitments. Pass
+ * `watch: true` to apply program account notifications to the cached result as they arrive.
+ * Account data is `base64` encoded unless `config.encoding` says otherwise.
  *
  * @example
  * ```ts
@@ -116,7 +128,10 @@ export function useProgramAccounts(
 	programAddress?: AddressLike,
 	options?: UseProgramAccountsParameters,
 ): UseProgramAccountsReturnType {
-	const { commitment, config, swr, disabled: disabledOption } = options ?? {};
+	const { commitment, config, swr, disabled: disabledOption, watch = false } = options ?? {};
+	const client = useSolanaClient();
+	// Fetched and watched entries share one cache, so both use the encoding the watcher defaults to.
+	const encoding = config?.encoding ?? 'base64';
 	const fetcher = useCallback(
 		async (client: SolanaClient) => {
 			const address = programAddress ? toAddress(programAddress) : undefined;
@@ -127,11 +142,12 @@ export function useProgramAccounts(
 			const mergedConfig = {
 				...(config ?? {}),
 				commitment: fallbackCommitment,
+				encoding,
 			} satisfies ProgramAccountsConfig;
 			const plan = client.runtime.rpc.getProgramAccounts(address, mergedConfig);
 			return plan.send({ abortSignal: AbortSignal.timeout(20_000) });
 		},
-		[commitment, config, programAddress],
+		[commitment, config, encoding, programAddress],
 	);
 	const disabled = disabledOption ?? !programAddress;
 	const query = useSolanaRpcQuery<ProgramAccountsResponse>(
@@ -143,12 +159,53 @@ export function useProgramAccounts(
 			swr,
 		},
 	);
+	const { mutate } = query;
+	const programId = useMemo(() => (programAddress ? toAddress(programAddress) : undefined), [programAddress]);
+	const watchCommitment = commitment ?? config?.commitment;
+	// Filters are usually passed inline, so only resubscribe when their contents change.
+	const filtersKey = stableStringify(config?.filters ?? null);
+	const filtersRef = useRef<Readonly<{ key: string; value: ProgramAccountsFilters }>>(undefined);
+	if (filtersRef.current?.key !== filtersKey) {
+		filtersRef.current = { key: filtersKey, value: config?.filters };
+	}
+	const filters = filtersRef.current.value;
+
+	useEffect(() => {
+		if (!watch || disabled || !programId) {
+			return;
+		}
+		const subscription = client.watchers.watchProgramAccounts(
+			{ commitment: watchCommitment, encoding, filters, programId },
+			(notification) => {
+				void mutate((current) => upsertProgramAccount(current, notification), { revalidate: false });
+			},
+		);
+		return () => {
+			subscription.abort();
+		};
+	}, [client, disabled, encoding, filters, mutate, programId, watch, watchCommitment]);
+
 	return {
 		...query,
 		accounts: query.data ?? [],
 	};
 }
 
+function upsertProgramAccount(
+	current: ProgramAccountsResponse | undefined,
+	notification: ProgramAccountNotification,
+): ProgramAccountsResponse | undefined {
+	if (!Array.isArray(current)) {
+		return current;
+	}
+	const entry = { account: notification.account, pubkey: notification.pubkey };
+	const index = current.findIndex((item) => item.pubkey === notification.pubkey);
+	if (index === -1) {
+		return [...current, entry] as ProgramAccountsResponse;
+	}
+	return current.map((item, position) => (position === index ? entry : item)) as ProgramAccountsResponse;
+}
+
 export type UseSimulateTransactionParameters = Readonly<{
 	commitment?: Commitment;
 	config?: SimulateTransactionConfig;
@@ -56,6 +56,7 @@ export function createWalletSession(overrides: Partial<WalletSession> = {}): Wal
 
 	return {
 		account,
+		accounts: overrides.accounts ?? [account],
 		connector,
 		disconnect: vi.fn(async () => undefined),
 		sendTransaction: vi.fn(async () => createSignature(99)),
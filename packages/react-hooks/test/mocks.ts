@@ -151,6 +151,7 @@ function createDefaultStore(): ClientStore {
 
 function createDefaultActions(): MockedActions {
 	return {
+		clearAccounts: vi.fn<ClientActions['clearAccounts']>(() => undefined),
 		connectWallet: vi.fn<ClientActions['connectWallet']>(async () => undefined),
 		disconnectWallet: vi.fn<ClientActions['disconnectWallet']>(async () => undefined),
 		fetchAccount: vi.fn<ClientActions['fetchAccount']>(
@@ -162,12 +163,30 @@ function createDefaultActions(): MockedActions {
 					slot: null,
 				}) satisfies AccountCacheEntry,
 		),
+		fetchAccounts: vi.fn<ClientActions['fetchAccounts']>(async (addresses) =>
+			addresses.map(
+				(address) =>
+					({
+						address,
+						fetching: false,
+						lamports: 0n as Lamports,
+						slot: null,
+					}) satisfies AccountCacheEntry,
+			),
+		),
 		fetchBalance: vi.fn<ClientActions['fetchBalance']>(async () => 0n as Lamports),
+		getAccount: vi.fn<ClientActions['getAccount']>(() => undefined),
+		invalidateAccount: vi.fn<ClientActions['invalidateAccount']>(() => undefined),
 		requestAirdrop: vi.fn<ClientActions['requestAirdrop']>(async () => 'mock-signature' as Signature),
+		selectAccount: vi.fn<ClientActions['selectAccount']>((address) => ({
+			address,
+			publicKey: new Uint8Array(32),
+		})),
 		sendTransaction: vi.fn<ClientActions['sendTransaction']>(
 			async () => 'Tx1111111111111111111111111111111111111111111' as Signature,
 		),
 		setCluster: vi.fn<ClientActions['setCluster']>(async () => undefined),
+		trackTransaction: vi.fn<ClientActions['trackTransaction']>(async (signature) => signature),
 	};
 }
 
@@ -175,7 +194,11 @@ function createDefaultWatchers(): MockedWatchers {
 	return {
 		watchAccount: vi.fn<ClientWatchers['watchAccount']>(() => createMockWatchSubscription()),
 		watchBalance: vi.fn<ClientWatchers['watchBalance']>(() => createMockWatchSubscription()),
+		watchLogs: vi.fn<ClientWatchers['watchLogs']>(() => createMockWatchSubscription()),
+		watchProgramAccounts: vi.fn<ClientWatchers['watchProgramAccounts']>(() => createMockWatchSubscription()),
+		watchRoot: vi.fn<ClientWatchers['watchRoot']>(() => createMockWatchSubscription()),
 		watchSignature: vi.fn<ClientWatchers['watchSignature']>(() => createMockWatchSubscription()),
+		watchSlot: vi.fn<ClientWatchers['watchSlot']>(() => createMockWatchSubscription()),
 	};
 }
 
@@ -231,6 +254,7 @@ function createDefaultSplTokenHelper(): MockedSplTokenHelper {
 
 function createDefaultTransactionHelper(): MockedTransactionHelper {
 	return {
+		checkExpiry: vi.fn<TransactionHelper['checkExpiry']>(async () => ({ blockHeight: 0n, expired: false })),
 		prepare: vi.fn<TransactionHelper['prepare']>(async (request) => ({
 			commitment: request.commitment ?? 'confirmed',
 			computeUnitLimit: request.computeUnitLimit ? BigInt(request.computeUnitLimit) : undefined,
@@ -240,6 +264,7 @@ function createDefaultTransactionHelper(): MockedTransactionHelper {
 			lifetime: { blockhash: 'mock-blockhash', lastValidBlockHeight: 0n },
 			message: {} as unknown,
 			mode: 'send',
+			size: { bytes: 0, limit: 1232, lookupTables: [] },
 			version: 'legacy',
 		})),
 		sign: vi.fn<TransactionHelper['sign']>(async () => ({}) as unknown),
@@ -248,6 +273,21 @@ function createDefaultTransactionHelper(): MockedTransactionHelper {
 		prepareAndSend: vi.fn<TransactionHelper['prepareAndSend']>(
 			async () => 'MockTxSignature1111111111111111111111111' as Signature,
 		),
+		preparePlan: vi.fn<TransactionHelper['preparePlan']>(async (request) => ({
+			commitment: request.commitment ?? 'confirmed',
+			feePayer: 'mock-fee-payer' satisfies Address,
+			instructions: Array.isArray(request.instructions) ? request.instructions : [],
+			lifetime: { blockhash: 'mock-blockhash', lastValidBlockHeight: 0n },
+			messages: [],
+			mode: 'send',
+			plan: { kind: 'sequential', divisible: true, plans: [] },
+			version: 'legacy',
+		})),
+		sendPlan: vi.fn<TransactionHelper['sendPlan']>(async () => ({ signatures: [], transactions: [] })),
+		prepareAndSendPlan: vi.fn<TransactionHelper['prepareAndSendPlan']>(async () => ({
+			signatures: [],
+			transactions: [],
+		})),
 	};
 }
 
@@ -286,6 +326,7 @@ function normaliseConfig(config?: Partial<SolanaClientConfig>): SolanaClientConf
 		createStore: config?.createStore,
 		initialState: config?.initialState,
 		logger: config?.logger,
+		retry: config?.retry,
 		walletConnectors: config?.walletConnectors,
 		websocketEndpoint: config?.websocketEndpoint,
 	};